@@ -1,13 +1,400 @@
+/**
+ * Database migration runner
+ *
+ * Applies the numbered SQL files in db/migrations in order and records each one
+ * in schema_migrations. A migration runs in its own transaction together with its
+ * schema_migrations row, so a failing file leaves nothing half-applied.
+ *
+ * Files:
+ *   NNN_name.sql       - up script
+ *   NNN_name.down.sql  - down script (optional; without it the migration can't be rolled back)
+ *
+ * Commands (npm run migrate -- <command>):
+ *   up                  - apply all pending migrations (default)
+ *   status              - list applied and pending migrations
+ *   rollback [count]    - revert the last `count` applied migrations (default 1)
+ *   baseline <version>  - record migrations up to <version> as applied without running them
+ *                         (for databases created before schema_migrations existed)
+ *
+ * Databases created by the old schema.sql runner have tables but no history. `up` detects
+ * which of the early migrations their schema already contains, records those and applies
+ * the rest, so existing deployments keep starting without a manual baseline.
+ *
+ * Applied migrations are checksummed; editing one afterwards stops the runner.
+ * Add a new migration instead.
+ */
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
 import { fileURLToPath } from 'url';
-import { query, testConnection, pool } from './connection.js';
+import type pg from 'pg';
+import { getClient, testConnection, pool } from './connection.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-async function migrate(): Promise<void> {
-  console.log('Starting database migration...\n');
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+const UP_FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+
+// Session-level advisory lock so two deploys starting at once don't race
+const MIGRATION_LOCK_KEY = 8_300_301;
+
+interface MigrationFile {
+  version: number;
+  name: string;
+  upSql: string;
+  downSql: string | null;
+  checksum: string;
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+function checksumOf(sql: string): string {
+  // Normalize line endings so a Windows checkout doesn't look like an edit
+  return crypto.createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+function formatVersion(version: number): string {
+  return String(version).padStart(3, '0');
+}
+
+/**
+ * Read migration files from disk, sorted by version
+ */
+function loadMigrations(): MigrationFile[] {
+  const files = fs.readdirSync(MIGRATIONS_DIR);
+  const migrations = new Map<number, MigrationFile>();
+
+  for (const file of files) {
+    const match = file.match(UP_FILE_PATTERN);
+    if (!match) continue;
+
+    const version = parseInt(match[1], 10);
+    const existing = migrations.get(version);
+    if (existing) {
+      throw new Error(`Duplicate migration version ${formatVersion(version)}: ${existing.name} and ${match[2]}`);
+    }
+
+    const upSql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+    const downPath = path.join(MIGRATIONS_DIR, file.replace(/\.sql$/, '.down.sql'));
+
+    migrations.set(version, {
+      version,
+      name: match[2],
+      upSql,
+      downSql: fs.existsSync(downPath) ? fs.readFileSync(downPath, 'utf8') : null,
+      checksum: checksumOf(upSql),
+    });
+  }
+
+  return Array.from(migrations.values()).sort((a, b) => a.version - b.version);
+}
+
+async function ensureMigrationsTable(client: pg.PoolClient): Promise<void> {
+  await client.query(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+       version INTEGER PRIMARY KEY,
+       name VARCHAR(255) NOT NULL,
+       checksum CHAR(64) NOT NULL,
+       execution_ms INTEGER,
+       applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+     )`
+  );
+}
+
+async function getAppliedMigrations(client: pg.PoolClient): Promise<Map<number, AppliedMigration>> {
+  const result = await client.query<AppliedMigration>(
+    `SELECT version, name, checksum, applied_at
+     FROM schema_migrations
+     ORDER BY version ASC`
+  );
+  return new Map(result.rows.map((row) => [row.version, row]));
+}
+
+// Databases created by the old schema.sql runner have tables but no history
+async function hasUntrackedSchema(client: pg.PoolClient): Promise<boolean> {
+  const result = await client.query<{ exists: boolean }>(
+    `SELECT to_regclass('public.teachers') IS NOT NULL AS exists`
+  );
+  return result.rows[0].exists;
+}
+
+function columnExists(table: string, column: string): string {
+  return `SELECT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_schema = 'public' AND table_name = '${table}' AND column_name = '${column}'
+          ) AS present`;
+}
+
+// How to tell that a schema.sql-era database already has a migration's changes.
+// Migrations from 008 on were only ever applied by this runner.
+const LEGACY_CHECKS: Record<number, string> = {
+  1: `SELECT to_regclass('public.teachers') IS NOT NULL AS present`,
+  3: `SELECT COUNT(*) = 2 AS present
+      FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'interview_states'
+        AND column_name IN ('ai_generation_pending', 'accumulated_pause_time')`,
+  // schema.sql created the 7-value participant_status and 8-value interview_phase
+  4: `SELECT NOT EXISTS (
+        SELECT 1 FROM pg_enum e JOIN pg_type t ON t.oid = e.enumtypid
+        WHERE (t.typname = 'participant_status' AND e.enumlabel IN ('interview_paused', 'timeout'))
+           OR (t.typname = 'interview_phase' AND e.enumlabel IN ('waiting', 'topic_paused'))
+      ) AS present`,
+  5: columnExists('interview_states', 'pause_started_at'),
+  6: columnExists('assignment_sessions', 'rubric'),
+  7: `SELECT COALESCE(column_default LIKE '%topic_intro%', FALSE) AS present
+      FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'interview_states' AND column_name = 'current_phase'`,
+};
+
+/**
+ * Leading migrations an untracked database already contains
+ * Stops at the first one it lacks: that one and everything after it are applied normally
+ * (003, 005-007 are idempotent, so a partially hand-applied database is fine).
+ */
+async function detectLegacyMigrations(client: pg.PoolClient, migrations: MigrationFile[]): Promise<MigrationFile[]> {
+  const present: MigrationFile[] = [];
+
+  for (const migration of migrations) {
+    const check = LEGACY_CHECKS[migration.version];
+    if (!check) break;
+
+    const result = await client.query<{ present: boolean }>(check);
+    if (!result.rows[0]?.present) break;
+
+    present.push(migration);
+  }
+
+  return present;
+}
+
+async function recordApplied(client: pg.PoolClient, migrations: MigrationFile[]): Promise<void> {
+  await inTransaction(client, async () => {
+    for (const migration of migrations) {
+      await client.query(
+        `INSERT INTO schema_migrations (version, name, checksum)
+         VALUES ($1, $2, $3)`,
+        [migration.version, migration.name, migration.checksum]
+      );
+    }
+  });
+}
+
+/**
+ * Applied migrations whose file was edited or deleted
+ */
+function findChecksumProblems(
+  migrations: MigrationFile[],
+  applied: Map<number, AppliedMigration>
+): string[] {
+  const byVersion = new Map(migrations.map((m) => [m.version, m]));
+  const problems: string[] = [];
+
+  for (const row of applied.values()) {
+    const file = byVersion.get(row.version);
+    if (!file) {
+      problems.push(`${formatVersion(row.version)}_${row.name}: applied but the file is missing`);
+    } else if (file.checksum !== row.checksum) {
+      problems.push(`${formatVersion(row.version)}_${row.name}: file changed after it was applied`);
+    }
+  }
+
+  return problems;
+}
+
+function assertChecksums(migrations: MigrationFile[], applied: Map<number, AppliedMigration>): void {
+  const problems = findChecksumProblems(migrations, applied);
+  if (problems.length > 0) {
+    throw new Error(
+      `Applied migrations do not match the files on disk:\n  - ${problems.join('\n  - ')}\n` +
+      'Restore the original files and add a new migration for the change.'
+    );
+  }
+}
+
+async function inTransaction(client: pg.PoolClient, work: () => Promise<void>): Promise<void> {
+  await client.query('BEGIN');
+  try {
+    await work();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Apply all pending migrations in version order
+ */
+async function up(client: pg.PoolClient): Promise<void> {
+  const migrations = loadMigrations();
+  let applied = await getAppliedMigrations(client);
+
+  if (applied.size === 0 && (await hasUntrackedSchema(client))) {
+    const legacy = await detectLegacyMigrations(client, migrations);
+    console.log('Found tables without migration history (created by the old schema.sql runner).');
+    if (legacy.length > 0) {
+      await recordApplied(client, legacy);
+      console.log(
+        `  Recorded as already applied: ${legacy.map((m) => `${formatVersion(m.version)}_${m.name}`).join(', ')}`
+      );
+    }
+    applied = await getAppliedMigrations(client);
+  }
+
+  assertChecksums(migrations, applied);
+
+  const latestApplied = Math.max(0, ...applied.keys());
+  const pending = migrations.filter((m) => !applied.has(m.version));
+
+  const outOfOrder = pending.filter((m) => m.version < latestApplied);
+  if (outOfOrder.length > 0) {
+    throw new Error(
+      `Pending migrations are older than the latest applied one (${formatVersion(latestApplied)}): ` +
+      outOfOrder.map((m) => `${formatVersion(m.version)}_${m.name}`).join(', ') +
+      '\nRenumber them after the latest applied migration.'
+    );
+  }
+
+  if (pending.length === 0) {
+    console.log('✅ Database is up to date.');
+    return;
+  }
+
+  for (const migration of pending) {
+    const label = `${formatVersion(migration.version)}_${migration.name}`;
+    console.log(`→ Applying ${label}...`);
+
+    const start = Date.now();
+    await inTransaction(client, async () => {
+      await client.query(migration.upSql);
+      await client.query(
+        `INSERT INTO schema_migrations (version, name, checksum, execution_ms)
+         VALUES ($1, $2, $3, $4)`,
+        [migration.version, migration.name, migration.checksum, Date.now() - start]
+      );
+    });
+
+    console.log(`  ✓ ${label} (${Date.now() - start}ms)`);
+  }
+
+  console.log(`\n✅ Applied ${pending.length} migration(s).`);
+}
+
+/**
+ * Revert the most recently applied migrations using their down scripts
+ */
+async function rollback(client: pg.PoolClient, count: number): Promise<void> {
+  const migrations = loadMigrations();
+  const applied = await getAppliedMigrations(client);
+  assertChecksums(migrations, applied);
+
+  const byVersion = new Map(migrations.map((m) => [m.version, m]));
+  const targets = Array.from(applied.keys())
+    .sort((a, b) => b - a)
+    .slice(0, count)
+    .map((version) => byVersion.get(version)!);
+
+  if (targets.length === 0) {
+    console.log('Nothing to roll back.');
+    return;
+  }
+
+  // Check every target up front so we never stop halfway through a multi-step rollback
+  const irreversible = targets.filter((m) => m.downSql === null);
+  if (irreversible.length > 0) {
+    throw new Error(
+      `Cannot roll back: no down script for ${irreversible
+        .map((m) => `${formatVersion(m.version)}_${m.name}`)
+        .join(', ')}`
+    );
+  }
+
+  for (const migration of targets) {
+    const label = `${formatVersion(migration.version)}_${migration.name}`;
+    console.log(`← Reverting ${label}...`);
+
+    await inTransaction(client, async () => {
+      await client.query(migration.downSql!);
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+    });
+
+    console.log(`  ✓ ${label}`);
+  }
+
+  console.log(`\n✅ Rolled back ${targets.length} migration(s).`);
+}
+
+/**
+ * Print applied/pending migrations and checksum problems
+ */
+async function status(client: pg.PoolClient): Promise<void> {
+  const migrations = loadMigrations();
+  const applied = await getAppliedMigrations(client);
+  const versions = new Set([...migrations.map((m) => m.version), ...applied.keys()]);
+
+  console.log('Version  Status     Applied at                Name');
+  for (const version of Array.from(versions).sort((a, b) => a - b)) {
+    const file = migrations.find((m) => m.version === version);
+    const row = applied.get(version);
+
+    let state = 'pending';
+    if (row && !file) state = 'MISSING';
+    else if (row && file && row.checksum !== file.checksum) state = 'MODIFIED';
+    else if (row) state = 'applied';
+
+    const appliedAt = row ? new Date(row.applied_at).toISOString() : '-';
+    const name = file?.name ?? row?.name ?? '';
+    const reversible = file && file.downSql === null ? ' (no down)' : '';
+    console.log(
+      `${formatVersion(version).padEnd(8)} ${state.padEnd(10)} ${appliedAt.padEnd(25)} ${name}${reversible}`
+    );
+  }
+
+  if (applied.size === 0 && (await hasUntrackedSchema(client))) {
+    console.log('\n⚠️  Tables exist but no migrations are recorded. "npm run migrate" will detect the applied ones.');
+  }
+}
+
+/**
+ * Mark migrations up to `version` as applied without running them
+ */
+async function baseline(client: pg.PoolClient, version: number): Promise<void> {
+  const applied = await getAppliedMigrations(client);
+  if (applied.size > 0) {
+    throw new Error('Migration history already exists; baseline is only for untracked databases.');
+  }
+
+  const migrations = loadMigrations().filter((m) => m.version <= version);
+  if (migrations.length === 0) {
+    throw new Error(`No migrations found up to version ${formatVersion(version)}`);
+  }
+
+  await recordApplied(client, migrations);
+
+  console.log(`✅ Recorded ${migrations.length} migration(s) up to ${formatVersion(version)} as applied.`);
+}
+
+function parsePositiveInt(value: string | undefined, label: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${label} must be a positive integer`);
+  }
+  return parsed;
+}
+
+async function main(): Promise<void> {
+  const [command = 'up', arg] = process.argv.slice(2);
+
+  if (!['up', 'status', 'rollback', 'baseline'].includes(command)) {
+    console.error(`Unknown command "${command}". Use: up | status | rollback [count] | baseline <version>`);
+    process.exit(1);
+  }
 
   // Test connection first
   const connected = await testConnection();
@@ -16,43 +403,41 @@ async function migrate(): Promise<void> {
     process.exit(1);
   }
 
-  try {
-    // Read schema file
-    const schemaPath = path.join(__dirname, 'schema.sql');
-    const schema = fs.readFileSync(schemaPath, 'utf8');
-
-    console.log('Executing schema...\n');
-
-    // Execute the entire schema
-    await query(schema);
+  const client = await getClient();
+  let failed = false;
 
-    console.log('\n✅ Migration completed successfully!');
-    console.log('\nCreated:');
-    console.log('  - 5 ENUM types (session_status, interview_mode, participant_status, interview_phase, conversation_role)');
-    console.log('  - 5 tables (teachers, assignment_sessions, student_participants, interview_states, interview_conversations)');
-    console.log('  - Indexes for performance');
-    console.log('  - Triggers for auto-updating timestamps');
-    console.log('  - Functions for generating access codes and session tokens');
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    await ensureMigrationsTable(client);
 
-  } catch (error) {
-    if (error instanceof Error) {
-      // Check if it's a "already exists" error
-      if (error.message.includes('already exists')) {
-        console.log('⚠️  Some objects already exist. Skipping...');
-        console.log('   To reset the database, run: DROP SCHEMA public CASCADE; CREATE SCHEMA public;');
-      } else {
-        console.error('❌ Migration failed:', error.message);
-        process.exit(1);
-      }
-    } else {
-      throw error;
+    switch (command) {
+      case 'status':
+        await status(client);
+        break;
+      case 'rollback':
+        await rollback(client, arg === undefined ? 1 : parsePositiveInt(arg, 'Rollback count'));
+        break;
+      case 'baseline':
+        await baseline(client, parsePositiveInt(arg, 'Baseline version'));
+        break;
+      default:
+        await up(client);
     }
+  } catch (error) {
+    failed = true;
+    console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
   } finally {
-    // Close the pool
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => {});
+    client.release();
     await pool.end();
-    console.log('\nDatabase connection closed.');
+  }
+
+  if (failed) {
+    process.exit(1);
   }
 }
 
-// Run migration
-migrate().catch(console.error);
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,20 @@
+-- Revert 001: Drop the initial schema
+-- Removes ALL application data.
+
+DROP TABLE IF EXISTS interview_conversations;
+DROP TABLE IF EXISTS interview_states;
+DROP TABLE IF EXISTS student_participants;
+DROP TABLE IF EXISTS assignment_sessions;
+DROP TABLE IF EXISTS teachers;
+
+DROP FUNCTION IF EXISTS set_session_token();
+DROP FUNCTION IF EXISTS generate_session_token();
+DROP FUNCTION IF EXISTS set_unique_access_code();
+DROP FUNCTION IF EXISTS generate_access_code();
+DROP FUNCTION IF EXISTS update_updated_at_column();
+
+DROP TYPE IF EXISTS conversation_role;
+DROP TYPE IF EXISTS interview_phase;
+DROP TYPE IF EXISTS participant_status;
+DROP TYPE IF EXISTS interview_mode;
+DROP TYPE IF EXISTS session_status;
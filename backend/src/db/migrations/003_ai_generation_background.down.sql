@@ -0,0 +1,10 @@
+-- Revert 003: Remove AI generation background processing support
+
+DROP INDEX IF EXISTS idx_interview_states_ai_pending;
+
+DROP TABLE IF EXISTS ai_generation_jobs;
+
+ALTER TABLE interview_states
+DROP COLUMN IF EXISTS accumulated_pause_time,
+DROP COLUMN IF EXISTS ai_generation_started_at,
+DROP COLUMN IF EXISTS ai_generation_pending;
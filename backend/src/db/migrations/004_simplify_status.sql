@@ -1,8 +1,6 @@
 -- Migration: Simplify participant_status and interview_phase ENUMs
 -- Removes unused states: interview_paused, timeout, waiting, topic_paused
 
-BEGIN;
-
 -- Step 1: Data Migration - Update any existing interview_paused to interview_in_progress
 UPDATE student_participants
 SET status = 'interview_in_progress'
@@ -38,15 +36,29 @@ CREATE TYPE interview_phase_new AS ENUM (
 );
 
 -- Step 6: Alter student_participants to use new ENUM
+-- (enum defaults can't be cast automatically, so drop and restore them)
+ALTER TABLE student_participants
+    ALTER COLUMN status DROP DEFAULT;
+
 ALTER TABLE student_participants
     ALTER COLUMN status TYPE participant_status_new
     USING status::text::participant_status_new;
 
+ALTER TABLE student_participants
+    ALTER COLUMN status SET DEFAULT 'registered';
+
 -- Step 7: Alter interview_states to use new ENUM
+-- (the old 'waiting' default can't be cast to the new type, so replace it)
+ALTER TABLE interview_states
+    ALTER COLUMN current_phase DROP DEFAULT;
+
 ALTER TABLE interview_states
     ALTER COLUMN current_phase TYPE interview_phase_new
     USING current_phase::text::interview_phase_new;
 
+ALTER TABLE interview_states
+    ALTER COLUMN current_phase SET DEFAULT 'topic_intro';
+
 -- Step 8: Drop old ENUMs
 DROP TYPE participant_status;
 DROP TYPE interview_phase;
@@ -54,5 +66,3 @@ DROP TYPE interview_phase;
 -- Step 9: Rename new ENUMs to original names
 ALTER TYPE participant_status_new RENAME TO participant_status;
 ALTER TYPE interview_phase_new RENAME TO interview_phase;
-
-COMMIT;
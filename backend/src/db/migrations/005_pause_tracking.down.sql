@@ -0,0 +1,4 @@
+-- Revert 005: Remove pause_started_at
+
+ALTER TABLE interview_states
+DROP COLUMN IF EXISTS pause_started_at;
@@ -0,0 +1,4 @@
+-- Revert 006: Remove teacher rubric
+
+ALTER TABLE assignment_sessions
+DROP COLUMN IF EXISTS rubric;
@@ -0,0 +1,9 @@
+-- Migration 006: Add teacher rubric to assignment_sessions
+-- Rubric criteria (name, weight, level descriptors) used by evaluateInterview
+-- Per-criterion results are stored in student_participants.summary.criteria
+
+ALTER TABLE assignment_sessions
+ADD COLUMN IF NOT EXISTS rubric JSONB;
+
+-- Comment explaining the column purpose
+COMMENT ON COLUMN assignment_sessions.rubric IS 'Optional evaluation rubric: {"criteria": [{"name", "description", "weight", "levels": [{"label", "score", "descriptor"}]}]}';
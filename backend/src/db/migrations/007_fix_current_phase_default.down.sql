@@ -0,0 +1,2 @@
+-- Revert 007: nothing to undo
+-- 'waiting' is no longer an interview_phase value, so the old default can't be restored.
@@ -0,0 +1,6 @@
+-- Migration 007: Fix interview_states.current_phase default
+-- 004 removed 'waiting' from interview_phase, but databases migrated by hand
+-- could keep DEFAULT 'waiting', which fails on every insert without a phase.
+
+ALTER TABLE interview_states
+    ALTER COLUMN current_phase SET DEFAULT 'topic_intro';
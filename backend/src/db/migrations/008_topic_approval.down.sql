@@ -0,0 +1,7 @@
+-- Revert 008: Remove topic approval
+
+ALTER TABLE student_participants
+DROP COLUMN IF EXISTS topics_approved_at;
+
+ALTER TABLE assignment_sessions
+DROP COLUMN IF EXISTS require_topic_approval;
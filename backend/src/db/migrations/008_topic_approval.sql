@@ -0,0 +1,13 @@
+-- Migration 008: Teacher topic approval before interviews start
+-- When require_topic_approval is set, /api/interview/start is blocked until the
+-- teacher has reviewed (and optionally edited) the participant's analyzed topics.
+
+ALTER TABLE assignment_sessions
+ADD COLUMN IF NOT EXISTS require_topic_approval BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE student_participants
+ADD COLUMN IF NOT EXISTS topics_approved_at TIMESTAMP WITH TIME ZONE;
+
+-- Comments explaining the column purpose
+COMMENT ON COLUMN assignment_sessions.require_topic_approval IS 'Hold participants after upload until the teacher approves their topics.';
+COMMENT ON COLUMN student_participants.topics_approved_at IS 'When the teacher approved analyzed_topics. NULL = not reviewed (only matters if the session requires approval).';
@@ -0,0 +1,10 @@
+-- Revert 009: Remove question bank
+
+ALTER TABLE interview_conversations
+DROP COLUMN IF EXISTS bank_question_id;
+
+ALTER TABLE interview_states
+DROP COLUMN IF EXISTS question_plan;
+
+ALTER TABLE assignment_sessions
+DROP COLUMN IF EXISTS question_bank;
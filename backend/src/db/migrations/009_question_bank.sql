@@ -0,0 +1,17 @@
+-- Migration 009: Teacher question bank
+-- Required bank questions are asked verbatim; optional ones are offered to the LLM
+-- to adapt. The per-participant plan is fixed when the interview starts.
+
+ALTER TABLE assignment_sessions
+ADD COLUMN IF NOT EXISTS question_bank JSONB;
+
+ALTER TABLE interview_states
+ADD COLUMN IF NOT EXISTS question_plan JSONB;
+
+ALTER TABLE interview_conversations
+ADD COLUMN IF NOT EXISTS bank_question_id VARCHAR(64);
+
+-- Comments explaining the column purpose
+COMMENT ON COLUMN assignment_sessions.question_bank IS 'Optional seed questions: {"questions": [{"id", "text", "required", "keywords"}]}';
+COMMENT ON COLUMN interview_states.question_plan IS 'Bank questions assigned to each topic at /start: {"topics": [{"required": [{"id", "text"}], "optional": [...]}]}';
+COMMENT ON COLUMN interview_conversations.bank_question_id IS 'Bank question this AI turn asked verbatim (NULL = generated by the LLM).';
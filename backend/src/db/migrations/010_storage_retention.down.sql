@@ -0,0 +1,4 @@
+-- Revert 010: Remove stored file retention marker
+
+ALTER TABLE assignment_sessions
+DROP COLUMN IF EXISTS files_purged_at;
@@ -0,0 +1,9 @@
+-- Migration 010: Stored file retention
+-- Submitted files and voice audio of sessions closed longer than STORAGE_RETENTION_DAYS
+-- are deleted from storage by the retention worker; the session records when.
+
+ALTER TABLE assignment_sessions
+ADD COLUMN IF NOT EXISTS files_purged_at TIMESTAMP WITH TIME ZONE;
+
+-- Comments explaining the column purpose
+COMMENT ON COLUMN assignment_sessions.files_purged_at IS 'When stored files (submissions, interview audio) were deleted by the retention policy.';
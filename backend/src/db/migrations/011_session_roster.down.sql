@@ -0,0 +1,3 @@
+-- Revert 011: Remove class roster
+
+DROP TABLE IF EXISTS session_roster_entries;
@@ -0,0 +1,20 @@
+-- Migration 011: Class roster per session
+-- When a session has roster entries, joining students must match one (name, plus the
+-- student ID / PIN when the entry has them). Each entry can be claimed by one participant.
+
+CREATE TABLE IF NOT EXISTS session_roster_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES assignment_sessions(id) ON DELETE CASCADE,
+    student_name VARCHAR(100) NOT NULL,
+    student_id VARCHAR(50),
+    pin_hash VARCHAR(100),
+    participant_id UUID UNIQUE REFERENCES student_participants(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_roster_session ON session_roster_entries(session_id);
+
+-- Comments explaining the column purpose
+COMMENT ON TABLE session_roster_entries IS 'Students allowed to join a session (empty = anyone with the access code).';
+COMMENT ON COLUMN session_roster_entries.pin_hash IS 'bcrypt hash of the per-student PIN (NULL = no PIN).';
+COMMENT ON COLUMN session_roster_entries.participant_id IS 'Participant that joined as this entry (NULL = never joined).';
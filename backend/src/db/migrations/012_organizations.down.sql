@@ -0,0 +1,11 @@
+-- Revert 012: Remove organizations and shared sessions
+
+ALTER TABLE assignment_sessions
+DROP COLUMN IF EXISTS organization_id;
+
+DROP TABLE IF EXISTS session_collaborators;
+DROP TABLE IF EXISTS organization_members;
+DROP TABLE IF EXISTS organizations;
+
+DROP TYPE IF EXISTS collaborator_role;
+DROP TYPE IF EXISTS organization_role;
@@ -0,0 +1,53 @@
+-- Migration 012: Organizations, roles and shared sessions
+-- Teachers belong to organizations (schools/departments) as admin, teacher or TA.
+-- Org admins can view every session in their organization; sessions can also be
+-- shared with individual co-teachers as editors or viewers.
+
+DO $$ BEGIN
+    CREATE TYPE organization_role AS ENUM ('admin', 'teacher', 'ta');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE collaborator_role AS ENUM ('editor', 'viewer');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS organizations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(200) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    teacher_id UUID NOT NULL REFERENCES teachers(id) ON DELETE CASCADE,
+    role organization_role NOT NULL DEFAULT 'teacher',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (organization_id, teacher_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_org_members_teacher ON organization_members(teacher_id);
+
+CREATE TABLE IF NOT EXISTS session_collaborators (
+    session_id UUID NOT NULL REFERENCES assignment_sessions(id) ON DELETE CASCADE,
+    teacher_id UUID NOT NULL REFERENCES teachers(id) ON DELETE CASCADE,
+    role collaborator_role NOT NULL DEFAULT 'viewer',
+    added_by UUID REFERENCES teachers(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (session_id, teacher_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_collaborators_teacher ON session_collaborators(teacher_id);
+
+ALTER TABLE assignment_sessions
+ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_organization ON assignment_sessions(organization_id);
+
+-- Comments explaining the column purpose
+COMMENT ON COLUMN organization_members.role IS 'admin: manage members, view all org sessions; teacher: create org sessions; ta: access shared sessions only.';
+COMMENT ON COLUMN session_collaborators.role IS 'editor: run and change the session; viewer: read-only (results, transcripts, exports).';
+COMMENT ON COLUMN assignment_sessions.organization_id IS 'Organization whose admins can view this session (NULL = personal).';
@@ -0,0 +1,4 @@
+-- Revert 013: Remove disconnect count
+
+ALTER TABLE student_participants
+DROP COLUMN IF EXISTS disconnect_count;
@@ -0,0 +1,9 @@
+-- Migration 013: Disconnect count
+-- disconnected_at only holds the current disconnect; integrity signals need to know how
+-- often a participant dropped out during the interview.
+
+ALTER TABLE student_participants
+ADD COLUMN IF NOT EXISTS disconnect_count INTEGER NOT NULL DEFAULT 0;
+
+-- Comments explaining the column purpose
+COMMENT ON COLUMN student_participants.disconnect_count IS 'Times the participant was marked disconnected during the interview (missed heartbeats).';
@@ -0,0 +1,4 @@
+-- Revert 014: Remove answer telemetry
+
+ALTER TABLE interview_conversations
+DROP COLUMN IF EXISTS telemetry;
@@ -0,0 +1,9 @@
+-- Migration 014: Answer telemetry
+-- Chat answers carry client-side signals about how they were written (pastes, keystrokes,
+-- time spent away from the interview tab). Stored per student turn for the teacher view.
+
+ALTER TABLE interview_conversations
+ADD COLUMN IF NOT EXISTS telemetry JSONB;
+
+-- Comments explaining the column purpose
+COMMENT ON COLUMN interview_conversations.telemetry IS 'Chat answer telemetry: {pasteCount, pastedChars, keystrokes, focusLossCount, focusLossMs, composeMs}. NULL for AI turns and voice answers.';
@@ -0,0 +1,4 @@
+-- Revert 015: Remove adaptive follow-up decisions
+
+ALTER TABLE interview_conversations
+DROP COLUMN IF EXISTS follow_up;
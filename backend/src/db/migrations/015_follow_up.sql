@@ -0,0 +1,10 @@
+-- Migration 015: Adaptive follow-ups
+-- Before each generated follow-up question the student's last answer is assessed
+-- (correct, vague, incorrect, contradicts the submission) and a next move is chosen.
+-- The decision is stored on the AI turn so the teacher can see why it was asked.
+
+ALTER TABLE interview_conversations
+ADD COLUMN IF NOT EXISTS follow_up JSONB;
+
+-- Comments explaining the column purpose
+COMMENT ON COLUMN interview_conversations.follow_up IS 'AI turns: {assessment, move, difficulty, rationale} behind the question. NULL for opening, bank and fallback questions.';
@@ -0,0 +1,4 @@
+-- Revert 016: Remove interview language
+
+ALTER TABLE assignment_sessions
+DROP COLUMN IF EXISTS interview_language;
@@ -0,0 +1,10 @@
+-- Migration 016: Interview language
+-- Topic analysis, questions, evaluation, Whisper and TTS used to be Korean only.
+-- Each session now picks the language its interviews are held in.
+
+ALTER TABLE assignment_sessions
+ADD COLUMN IF NOT EXISTS interview_language VARCHAR(8) NOT NULL DEFAULT 'ko'
+    CHECK (interview_language IN ('ko', 'en', 'ja', 'zh'));
+
+-- Comments explaining the column purpose
+COMMENT ON COLUMN assignment_sessions.interview_language IS 'Interview language: ko, en, ja or zh. Drives LLM output language, Whisper language hint, TTS voice and the student UI.';
@@ -0,0 +1,7 @@
+-- Revert 017: Remove session schedule indexes
+
+DROP INDEX IF EXISTS idx_sessions_scheduled_start;
+DROP INDEX IF EXISTS idx_sessions_scheduled_end;
+
+COMMENT ON COLUMN assignment_sessions.starts_at IS NULL;
+COMMENT ON COLUMN assignment_sessions.ends_at IS NULL;
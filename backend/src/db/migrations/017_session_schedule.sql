@@ -0,0 +1,13 @@
+-- Migration 017: Session schedule
+-- starts_at/ends_at were only stamped by manual activate/close. Teachers can now set
+-- them ahead of time; the session scheduler opens and closes sessions when they pass.
+
+-- Partial indexes for the scheduler's due-session lookups
+CREATE INDEX IF NOT EXISTS idx_sessions_scheduled_start ON assignment_sessions(starts_at)
+    WHERE status = 'draft' AND starts_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sessions_scheduled_end ON assignment_sessions(ends_at)
+    WHERE status = 'active' AND ends_at IS NOT NULL;
+
+-- Comments explaining the column purpose
+COMMENT ON COLUMN assignment_sessions.starts_at IS 'Draft: scheduled opening time (opened automatically). Active/closed: when the session opened.';
+COMMENT ON COLUMN assignment_sessions.ends_at IS 'Active: scheduled closing time (closed automatically, joins refused after it). Closed: when the session closed.';
@@ -0,0 +1,3 @@
+-- Revert 018: Remove session templates
+
+DROP TABLE IF EXISTS session_templates;
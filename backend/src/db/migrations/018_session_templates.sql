@@ -0,0 +1,38 @@
+-- Migration 018: Session templates
+-- Teachers run the same assignment interview for several class sections every term.
+-- A template keeps a session's settings under a name so new sessions start from it;
+-- templates in an organization are shared with all of its members.
+
+CREATE TABLE IF NOT EXISTS session_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    teacher_id UUID NOT NULL REFERENCES teachers(id) ON DELETE CASCADE,
+    organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL,
+    name VARCHAR(200) NOT NULL,
+
+    -- Session settings (same columns as assignment_sessions)
+    title VARCHAR(200) NOT NULL,
+    description TEXT,
+    topic_count INTEGER NOT NULL DEFAULT 3 CHECK (topic_count BETWEEN 1 AND 5),
+    topic_duration INTEGER NOT NULL DEFAULT 180 CHECK (topic_duration BETWEEN 60 AND 600),
+    interview_mode interview_mode NOT NULL DEFAULT 'student_choice',
+    interview_language VARCHAR(8) NOT NULL DEFAULT 'ko' CHECK (interview_language IN ('ko', 'en', 'ja', 'zh')),
+    assignment_info TEXT,
+    rubric JSONB,
+    require_topic_approval BOOLEAN NOT NULL DEFAULT FALSE,
+    question_bank JSONB,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_templates_teacher ON session_templates(teacher_id);
+CREATE INDEX IF NOT EXISTS idx_templates_organization ON session_templates(organization_id);
+
+DROP TRIGGER IF EXISTS update_session_templates_updated_at ON session_templates;
+CREATE TRIGGER update_session_templates_updated_at
+    BEFORE UPDATE ON session_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Comments explaining the column purpose
+COMMENT ON COLUMN session_templates.organization_id IS 'Organization whose members can use the template (NULL = only the owner)';
@@ -0,0 +1,12 @@
+-- Revert 019: Remove student pause budget
+
+ALTER TABLE interview_states
+DROP COLUMN IF EXISTS student_pause_started_at,
+DROP COLUMN IF EXISTS student_pause_used,
+DROP COLUMN IF EXISTS student_pause_count;
+
+ALTER TABLE session_templates
+DROP COLUMN IF EXISTS pause_budget;
+
+ALTER TABLE assignment_sessions
+DROP COLUMN IF EXISTS pause_budget;
@@ -0,0 +1,22 @@
+-- Migration 019: Student pause budget
+-- Students can pause their own interview (fire drill, noisy classroom) without losing
+-- topic time. The teacher sets a total pause budget per interview; 0 disables the button.
+-- Pause time is capped server-side and added to accumulated_pause_time like TTS/STT pauses.
+
+ALTER TABLE assignment_sessions
+ADD COLUMN IF NOT EXISTS pause_budget INTEGER NOT NULL DEFAULT 0 CHECK (pause_budget BETWEEN 0 AND 600);
+
+ALTER TABLE session_templates
+ADD COLUMN IF NOT EXISTS pause_budget INTEGER NOT NULL DEFAULT 0 CHECK (pause_budget BETWEEN 0 AND 600);
+
+ALTER TABLE interview_states
+ADD COLUMN IF NOT EXISTS student_pause_started_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS student_pause_used INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS student_pause_count INTEGER NOT NULL DEFAULT 0;
+
+-- Comments explaining the column purpose
+COMMENT ON COLUMN assignment_sessions.pause_budget IS 'Seconds a student may pause their own interview in total. 0 = student pause disabled.';
+COMMENT ON COLUMN session_templates.pause_budget IS 'Same as assignment_sessions.pause_budget.';
+COMMENT ON COLUMN interview_states.student_pause_started_at IS 'When the current student-requested pause started. NULL = not paused by the student.';
+COMMENT ON COLUMN interview_states.student_pause_used IS 'Seconds of the pause budget used by finished student pauses (all topics).';
+COMMENT ON COLUMN interview_states.student_pause_count IS 'Number of student-requested pauses (shown to the teacher).';
@@ -0,0 +1,7 @@
+-- Revert 020: Remove per-student accommodations
+
+ALTER TABLE session_roster_entries
+DROP COLUMN IF EXISTS accommodations;
+
+ALTER TABLE student_participants
+DROP COLUMN IF EXISTS accommodations;
@@ -0,0 +1,14 @@
+-- Migration 020: Per-student accommodations
+-- Teachers can give individual students extended time (IEP), a chat-only interview,
+-- larger text and read-aloud chat questions. Set on a roster entry, they are copied to
+-- the participant who joins as that entry; the participant's copy is what the interview uses.
+
+ALTER TABLE student_participants
+ADD COLUMN IF NOT EXISTS accommodations JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE session_roster_entries
+ADD COLUMN IF NOT EXISTS accommodations JSONB NOT NULL DEFAULT '{}';
+
+-- Comments explaining the column purpose
+COMMENT ON COLUMN student_participants.accommodations IS 'Accommodations: {timeMultiplier, chatOnly, largeText, readAloud}. {} = none. Time is extended when the interview starts.';
+COMMENT ON COLUMN session_roster_entries.accommodations IS 'Accommodations copied to the participant who joins as this entry.';
@@ -0,0 +1,6 @@
+-- Revert 021: Remove teacher review of evaluation results
+
+DROP TABLE IF EXISTS evaluation_reviews;
+
+ALTER TABLE student_participants
+DROP COLUMN IF EXISTS teacher_review;
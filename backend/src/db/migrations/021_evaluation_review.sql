@@ -0,0 +1,22 @@
+-- Migration 021: Teacher review of evaluation results
+-- The AI evaluation in student_participants.summary is a draft: teachers can change the
+-- score, strengths and weaknesses, keep private notes and record a verdict. summary stays
+-- as the AI wrote it; teacher_review holds the current review and every save is kept in
+-- evaluation_reviews as an audit trail.
+
+ALTER TABLE student_participants
+ADD COLUMN IF NOT EXISTS teacher_review JSONB;
+
+CREATE TABLE IF NOT EXISTS evaluation_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    participant_id UUID NOT NULL REFERENCES student_participants(id) ON DELETE CASCADE,
+    teacher_id UUID REFERENCES teachers(id) ON DELETE SET NULL,
+    review JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_evaluation_reviews_participant ON evaluation_reviews(participant_id, created_at);
+
+-- Comments explaining the column purpose
+COMMENT ON COLUMN student_participants.teacher_review IS 'Teacher review: {score, strengths, weaknesses, notes, verdict, reviewedBy, reviewedAt}. NULL = the AI evaluation stands. Overrides summary in reports and exports.';
+COMMENT ON COLUMN evaluation_reviews.review IS 'teacher_review as saved by teacher_id (one row per save, never updated).';
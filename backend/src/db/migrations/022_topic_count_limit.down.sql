@@ -0,0 +1,21 @@
+-- Revert 022: Back to at most 5 topics per session
+-- Sessions and templates with more than 5 topics are lowered to 5 so the old CHECKs apply.
+
+UPDATE session_templates SET topic_count = 5 WHERE topic_count > 5;
+
+ALTER TABLE session_templates
+DROP CONSTRAINT IF EXISTS session_templates_topic_count_check;
+
+ALTER TABLE session_templates
+ADD CONSTRAINT session_templates_topic_count_check CHECK (topic_count BETWEEN 1 AND 5);
+
+UPDATE assignment_sessions SET topic_count = 5 WHERE topic_count > 5;
+
+ALTER TABLE assignment_sessions
+DROP CONSTRAINT IF EXISTS assignment_sessions_topic_count_check;
+
+ALTER TABLE assignment_sessions
+ADD CONSTRAINT assignment_sessions_topic_count_check CHECK (topic_count BETWEEN 1 AND 5);
+
+COMMENT ON COLUMN assignment_sessions.topic_count IS NULL;
+COMMENT ON COLUMN session_templates.topic_count IS NULL;
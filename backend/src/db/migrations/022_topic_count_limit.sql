@@ -0,0 +1,20 @@
+-- Migration 022: Allow up to 10 topics per session
+-- Per-topic weights and durations (analyzed_topics) let a session cover more, smaller
+-- topics without stretching the interview: minor topics get a short share of the
+-- session budget. The topic_count CHECKs from 001 and 018 are relaxed from 5 to 10.
+
+ALTER TABLE assignment_sessions
+DROP CONSTRAINT IF EXISTS assignment_sessions_topic_count_check;
+
+ALTER TABLE assignment_sessions
+ADD CONSTRAINT assignment_sessions_topic_count_check CHECK (topic_count BETWEEN 1 AND 10);
+
+ALTER TABLE session_templates
+DROP CONSTRAINT IF EXISTS session_templates_topic_count_check;
+
+ALTER TABLE session_templates
+ADD CONSTRAINT session_templates_topic_count_check CHECK (topic_count BETWEEN 1 AND 10);
+
+-- Comments explaining the column purpose
+COMMENT ON COLUMN assignment_sessions.topic_count IS 'Number of topics to analyze (1-10). topic_duration x topic_count is the interview budget, shared by topic weight.';
+COMMENT ON COLUMN session_templates.topic_count IS 'Number of topics for sessions created from the template (1-10).';
@@ -1,5 +1,11 @@
 -- HW Validator ver.3 Database Schema
 -- PostgreSQL 16+
+--
+-- Reference snapshot of the fully migrated schema. This file is NOT executed:
+-- db/migrations is the source of truth (npm run migrate). When adding a
+-- migration, update this snapshot to match.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
 
 -- ============================================
 -- 1. ENUM Types
@@ -33,6 +39,12 @@ CREATE TYPE interview_phase AS ENUM (
 -- Conversation role
 CREATE TYPE conversation_role AS ENUM ('ai', 'student');
 
+-- Organization membership role
+CREATE TYPE organization_role AS ENUM ('admin', 'teacher', 'ta');
+
+-- Shared session role
+CREATE TYPE collaborator_role AS ENUM ('editor', 'viewer');
+
 -- ============================================
 -- 2. Tables
 -- ============================================
@@ -49,20 +61,44 @@ CREATE TABLE teachers (
 
 CREATE INDEX idx_teachers_email ON teachers(email);
 
+-- Organizations table (schools / departments)
+CREATE TABLE organizations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(200) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Organization members table (admins view every session in the organization)
+CREATE TABLE organization_members (
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    teacher_id UUID NOT NULL REFERENCES teachers(id) ON DELETE CASCADE,
+    role organization_role NOT NULL DEFAULT 'teacher',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (organization_id, teacher_id)
+);
+
+CREATE INDEX idx_org_members_teacher ON organization_members(teacher_id);
+
 -- Assignment sessions table
 CREATE TABLE assignment_sessions (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     teacher_id UUID NOT NULL REFERENCES teachers(id) ON DELETE CASCADE,
+    organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL, -- NULL = personal session
 
     -- Session info
     title VARCHAR(200) NOT NULL,
     description TEXT,
 
     -- Interview settings
-    topic_count INTEGER NOT NULL DEFAULT 3 CHECK (topic_count BETWEEN 1 AND 5),
+    topic_count INTEGER NOT NULL DEFAULT 3 CHECK (topic_count BETWEEN 1 AND 10),
     topic_duration INTEGER NOT NULL DEFAULT 180 CHECK (topic_duration BETWEEN 60 AND 600),
     interview_mode interview_mode NOT NULL DEFAULT 'student_choice',
+    interview_language VARCHAR(8) NOT NULL DEFAULT 'ko' CHECK (interview_language IN ('ko', 'en', 'ja', 'zh')),
     assignment_info TEXT, -- Optional assignment context for LLM prompts
+    rubric JSONB, -- Optional evaluation rubric (criteria, weights, level descriptors)
+    require_topic_approval BOOLEAN NOT NULL DEFAULT FALSE, -- Teacher reviews topics before /start
+    question_bank JSONB, -- Optional teacher seed questions (required ones asked verbatim)
+    pause_budget INTEGER NOT NULL DEFAULT 0 CHECK (pause_budget BETWEEN 0 AND 600), -- Student self-pause seconds per interview (0 = off)
 
     -- Access info
     access_code VARCHAR(6) UNIQUE,
@@ -74,10 +110,13 @@ CREATE TABLE assignment_sessions (
     -- Reconnection settings
     reconnect_timeout INTEGER NOT NULL DEFAULT 1800, -- 30 minutes in seconds
 
-    -- Time limits
+    -- Schedule (draft: opens at starts_at; active: closes at ends_at; afterwards the actual times)
     starts_at TIMESTAMP WITH TIME ZONE,
     ends_at TIMESTAMP WITH TIME ZONE,
 
+    -- Storage retention (files deleted STORAGE_RETENTION_DAYS after closing)
+    files_purged_at TIMESTAMP WITH TIME ZONE,
+
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -85,6 +124,48 @@ CREATE TABLE assignment_sessions (
 CREATE INDEX idx_sessions_teacher ON assignment_sessions(teacher_id);
 CREATE INDEX idx_sessions_access_code ON assignment_sessions(access_code);
 CREATE INDEX idx_sessions_status ON assignment_sessions(status);
+CREATE INDEX idx_sessions_organization ON assignment_sessions(organization_id);
+CREATE INDEX idx_sessions_scheduled_start ON assignment_sessions(starts_at) WHERE status = 'draft' AND starts_at IS NOT NULL;
+CREATE INDEX idx_sessions_scheduled_end ON assignment_sessions(ends_at) WHERE status = 'active' AND ends_at IS NOT NULL;
+
+-- Session collaborators table (co-teachers the owner shared a session with)
+CREATE TABLE session_collaborators (
+    session_id UUID NOT NULL REFERENCES assignment_sessions(id) ON DELETE CASCADE,
+    teacher_id UUID NOT NULL REFERENCES teachers(id) ON DELETE CASCADE,
+    role collaborator_role NOT NULL DEFAULT 'viewer',
+    added_by UUID REFERENCES teachers(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (session_id, teacher_id)
+);
+
+CREATE INDEX idx_collaborators_teacher ON session_collaborators(teacher_id);
+
+-- Session templates table (named session settings; shared with an organization's members when set)
+CREATE TABLE session_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    teacher_id UUID NOT NULL REFERENCES teachers(id) ON DELETE CASCADE,
+    organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL, -- NULL = only the owner
+    name VARCHAR(200) NOT NULL,
+
+    -- Session settings (same columns as assignment_sessions)
+    title VARCHAR(200) NOT NULL,
+    description TEXT,
+    topic_count INTEGER NOT NULL DEFAULT 3 CHECK (topic_count BETWEEN 1 AND 10),
+    topic_duration INTEGER NOT NULL DEFAULT 180 CHECK (topic_duration BETWEEN 60 AND 600),
+    interview_mode interview_mode NOT NULL DEFAULT 'student_choice',
+    interview_language VARCHAR(8) NOT NULL DEFAULT 'ko' CHECK (interview_language IN ('ko', 'en', 'ja', 'zh')),
+    assignment_info TEXT,
+    rubric JSONB,
+    require_topic_approval BOOLEAN NOT NULL DEFAULT FALSE,
+    question_bank JSONB,
+    pause_budget INTEGER NOT NULL DEFAULT 0 CHECK (pause_budget BETWEEN 0 AND 600),
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_templates_teacher ON session_templates(teacher_id);
+CREATE INDEX idx_templates_organization ON session_templates(organization_id);
 
 -- Student participants table
 CREATE TABLE student_participants (
@@ -108,7 +189,9 @@ CREATE TABLE student_participants (
 
     -- Analysis results
     analyzed_topics JSONB,
+    topics_approved_at TIMESTAMP WITH TIME ZONE, -- Teacher approval (require_topic_approval sessions)
     chosen_interview_mode VARCHAR(20),
+    accommodations JSONB NOT NULL DEFAULT '{}', -- {timeMultiplier, chatOnly, largeText, readAloud}
 
     -- Time tracking
     registered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -119,9 +202,11 @@ CREATE TABLE student_participants (
     -- Connection tracking
     last_active_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     disconnected_at TIMESTAMP WITH TIME ZONE,
+    disconnect_count INTEGER NOT NULL DEFAULT 0, -- Integrity signal: how often the student dropped out
 
     -- Evaluation result
-    summary JSONB,
+    summary JSONB, -- As the AI wrote it
+    teacher_review JSONB, -- Teacher's score/feedback/verdict (NULL = AI result stands)
 
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -140,7 +225,7 @@ CREATE TABLE interview_states (
 
     -- Current progress
     current_topic_index INTEGER NOT NULL DEFAULT 0,
-    current_phase interview_phase NOT NULL DEFAULT 'waiting',
+    current_phase interview_phase NOT NULL DEFAULT 'topic_intro',
 
     -- Per-topic state
     topics_state JSONB NOT NULL DEFAULT '[]',
@@ -154,6 +239,14 @@ CREATE TABLE interview_states (
     accumulated_pause_time INTEGER DEFAULT 0,  -- Total pause time in seconds
     pause_started_at TIMESTAMP WITH TIME ZONE,  -- Current pause start time (for TTS/STT)
 
+    -- Student-requested pauses (capped by assignment_sessions.pause_budget)
+    student_pause_started_at TIMESTAMP WITH TIME ZONE,
+    student_pause_used INTEGER NOT NULL DEFAULT 0,  -- Seconds used by finished pauses
+    student_pause_count INTEGER NOT NULL DEFAULT 0,
+
+    -- Question bank questions assigned to each topic at /start
+    question_plan JSONB,
+
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -193,9 +286,18 @@ CREATE TABLE interview_conversations (
     role conversation_role NOT NULL,
     content TEXT NOT NULL,
 
+    -- Bank question asked verbatim (NULL = LLM-generated)
+    bank_question_id VARCHAR(64),
+
     -- Voice mode
     audio_url TEXT,
 
+    -- Chat answers: paste/keystroke/focus-loss signals sent by the client
+    telemetry JSONB,
+
+    -- AI follow-ups: assessment of the previous answer and the chosen next move
+    follow_up JSONB,
+
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -203,6 +305,31 @@ CREATE INDEX idx_conversations_participant ON interview_conversations(participan
 CREATE INDEX idx_conversations_topic ON interview_conversations(participant_id, topic_index);
 CREATE INDEX idx_conversations_order ON interview_conversations(participant_id, topic_index, turn_index);
 
+-- Class roster table (empty roster = anyone with the access code can join)
+CREATE TABLE session_roster_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES assignment_sessions(id) ON DELETE CASCADE,
+    student_name VARCHAR(100) NOT NULL,
+    student_id VARCHAR(50),
+    pin_hash VARCHAR(100), -- bcrypt hash of the per-student PIN
+    participant_id UUID UNIQUE REFERENCES student_participants(id) ON DELETE SET NULL, -- Set on join
+    accommodations JSONB NOT NULL DEFAULT '{}', -- Copied to the participant on join
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_roster_session ON session_roster_entries(session_id);
+
+-- Evaluation review audit trail (one row per teacher save)
+CREATE TABLE evaluation_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    participant_id UUID NOT NULL REFERENCES student_participants(id) ON DELETE CASCADE,
+    teacher_id UUID REFERENCES teachers(id) ON DELETE SET NULL,
+    review JSONB NOT NULL, -- teacher_review as saved
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_evaluation_reviews_participant ON evaluation_reviews(participant_id, created_at);
+
 -- ============================================
 -- 3. Trigger Functions
 -- ============================================
@@ -237,6 +364,11 @@ CREATE TRIGGER update_interview_states_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_session_templates_updated_at
+    BEFORE UPDATE ON session_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- ============================================
 -- 4. Access Code Generation
 -- ============================================
@@ -309,3 +441,15 @@ CREATE TRIGGER generate_participant_token
     BEFORE INSERT ON student_participants
     FOR EACH ROW
     EXECUTE FUNCTION set_session_token();
+
+-- ============================================
+-- 6. Migration History (managed by db/migrate.ts)
+-- ============================================
+
+CREATE TABLE schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    checksum CHAR(64) NOT NULL,  -- SHA-256 of the up script when it was applied
+    execution_ms INTEGER,
+    applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
@@ -10,10 +10,15 @@ import sessionRoutes from './routes/sessions.js';
 import joinRoutes from './routes/join.js';
 import interviewRoutes from './routes/interview.js';
 import speechRoutes from './routes/speech.js';
+import storageRoutes from './routes/storage.js';
+import organizationRoutes from './routes/organizations.js';
+import templateRoutes from './routes/templates.js';
 
 // Worker imports (auto-starts when imported, except in test environment)
 import './workers/disconnectChecker.js';
 import './workers/aiGenerationWorker.js';
+import './workers/storageRetention.js';
+import './workers/sessionScheduler.js';
 
 // Load environment variables
 dotenv.config();
@@ -75,6 +80,9 @@ app.use('/api/sessions', sessionRoutes);
 app.use('/api/join', joinRoutes);
 app.use('/api/interview', interviewRoutes);
 app.use('/api/speech', speechRoutes);
+app.use('/api/storage', storageRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/templates', templateRoutes);
 
 // 404 handler
 app.use((_req: Request, res: Response) => {
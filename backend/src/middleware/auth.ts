@@ -10,6 +10,20 @@ interface JWTPayload {
   exp: number;
 }
 
+// Access to a session: owner, co-teacher (editor / viewer), or org admin (viewer)
+// TAs in the session's organization are capped at viewer: no settings edits, topic
+// approvals, session control or grading.
+export type SessionRole = 'owner' | 'editor' | 'viewer';
+export type SessionPermission = 'view' | 'edit' | 'own';
+
+export type OrganizationRole = 'admin' | 'teacher' | 'ta';
+
+const SESSION_ROLE_PERMISSIONS: Record<SessionRole, readonly SessionPermission[]> = {
+  owner: ['view', 'edit', 'own'],
+  editor: ['view', 'edit'],
+  viewer: ['view'],
+};
+
 // Extend Express Request type
 declare global {
   namespace Express {
@@ -19,6 +33,10 @@ declare global {
         email: string;
         name: string;
       };
+      // Set by requireSessionAccess
+      sessionRole?: SessionRole;
+      // Set by requireOrganizationRole
+      organizationRole?: OrganizationRole;
     }
   }
 }
@@ -162,6 +180,147 @@ export const optionalAuthMiddleware = async (
   }
 };
 
+// A teacher's relation to a session, as selected by getSessionRole and the session lists
+export interface SessionAccessRow {
+  is_owner: boolean;
+  collaborator_role: 'editor' | 'viewer' | null;
+  // Role in the session's organization
+  org_role: OrganizationRole | null;
+}
+
+/**
+ * The session role those relations give, or null if they don't give access
+ * Org admins (department heads) get read access to every session in their organization.
+ * Co-teachers who are TAs in that organization only get read access, whatever they were shared as.
+ */
+export function resolveSessionRole(access: SessionAccessRow): SessionRole | null {
+  if (access.is_owner) return 'owner';
+  if (access.collaborator_role) return access.org_role === 'ta' ? 'viewer' : access.collaborator_role;
+  if (access.org_role === 'admin') return 'viewer';
+  return null;
+}
+
+/**
+ * Resolve a teacher's role on a session, or null if they can't see it
+ */
+export async function getSessionRole(sessionId: string, teacherId: string): Promise<SessionRole | null> {
+  const result = await query<SessionAccessRow>(
+    `SELECT
+       s.teacher_id = $2 AS is_owner,
+       sc.role AS collaborator_role,
+       om.role AS org_role
+     FROM assignment_sessions s
+     LEFT JOIN session_collaborators sc ON sc.session_id = s.id AND sc.teacher_id = $2
+     LEFT JOIN organization_members om ON om.organization_id = s.organization_id AND om.teacher_id = $2
+     WHERE s.id = $1`,
+    [sessionId, teacherId]
+  );
+
+  const access = result.rows[0];
+  return access ? resolveSessionRole(access) : null;
+}
+
+/**
+ * Session Authorization Middleware (after authMiddleware, on /:id routes)
+ * Sessions the teacher can't see are reported as not found.
+ */
+export const requireSessionAccess = (permission: SessionPermission) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const role = await getSessionRole(req.params.id, req.teacher.id);
+
+    if (!role) {
+      res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+      return;
+    }
+
+    if (!SESSION_ROLE_PERMISSIONS[role].includes(permission)) {
+      res.status(403).json({
+        success: false,
+        error: permission === 'own'
+          ? 'Only the session owner can do this'
+          : 'You have view-only access to this session',
+      });
+      return;
+    }
+
+    req.sessionRole = role;
+    next();
+  } catch (error) {
+    console.error('Session access check error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Authorization failed',
+    });
+  }
+};
+
+/**
+ * Resolve a teacher's role in an organization, or null if not a member
+ */
+export async function getOrganizationRole(organizationId: string, teacherId: string): Promise<OrganizationRole | null> {
+  const result = await query<{ role: OrganizationRole }>(
+    'SELECT role FROM organization_members WHERE organization_id = $1 AND teacher_id = $2',
+    [organizationId, teacherId]
+  );
+  return result.rows[0]?.role ?? null;
+}
+
+/**
+ * Organization Authorization Middleware (after authMiddleware, on /:orgId routes)
+ * Organizations the teacher doesn't belong to are reported as not found.
+ */
+export const requireOrganizationRole = (...roles: OrganizationRole[]) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const role = await getOrganizationRole(req.params.orgId, req.teacher.id);
+
+    if (!role) {
+      res.status(404).json({
+        success: false,
+        error: 'Organization not found',
+      });
+      return;
+    }
+
+    if (!roles.includes(role)) {
+      res.status(403).json({
+        success: false,
+        error: `This requires the ${roles.join(' or ')} role in the organization`,
+      });
+      return;
+    }
+
+    req.organizationRole = role;
+    next();
+  } catch (error) {
+    console.error('Organization access check error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Authorization failed',
+    });
+  }
+};
+
 /**
  * Generate JWT token for teacher
  */
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { query } from '../db/connection.js';
+import { InterviewLanguage, languageProfile } from '../services/languages.js';
+import { Accommodations, normalizeAccommodations } from '../services/accommodations.js';
 
 // Participant type for request extension
 interface ParticipantInfo {
@@ -9,6 +11,10 @@ interface ParticipantInfo {
   studentId: string | null;
   status: string;
   sessionStatus: string;
+  // Session interview language (services/languages.ts)
+  interviewLanguage: InterviewLanguage;
+  // Per-student accommodations (services/accommodations.ts)
+  accommodations: Accommodations;
 }
 
 // Extend Express Request type
@@ -66,7 +72,9 @@ export const studentAuthMiddleware = async (
         sp.student_name,
         sp.student_id,
         sp.status,
-        s.status as session_status
+        sp.accommodations,
+        s.status as session_status,
+        s.interview_language
        FROM student_participants sp
        JOIN assignment_sessions s ON sp.session_id = s.id
        WHERE sp.session_token = $1`,
@@ -106,6 +114,8 @@ export const studentAuthMiddleware = async (
       studentId: participant.student_id,
       status: participant.status,
       sessionStatus: participant.session_status,
+      interviewLanguage: languageProfile(participant.interview_language).code,
+      accommodations: normalizeAccommodations(participant.accommodations),
     };
 
     next();
@@ -149,7 +159,9 @@ export const optionalStudentAuthMiddleware = async (
         sp.student_name,
         sp.student_id,
         sp.status,
-        s.status as session_status
+        sp.accommodations,
+        s.status as session_status,
+        s.interview_language
        FROM student_participants sp
        JOIN assignment_sessions s ON sp.session_id = s.id
        WHERE sp.session_token = $1`,
@@ -165,6 +177,8 @@ export const optionalStudentAuthMiddleware = async (
         studentId: participant.student_id,
         status: participant.status,
         sessionStatus: participant.session_status,
+        interviewLanguage: languageProfile(participant.interview_language).code,
+        accommodations: normalizeAccommodations(participant.accommodations),
       };
     }
 
@@ -1,20 +1,42 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
-import pdfParse from 'pdf-parse';
 import { query } from '../db/connection.js';
 import { studentAuthMiddleware } from '../middleware/studentAuth.js';
-import { analyzeTopics, generateQuestion, evaluateInterview } from '../services/llm.js';
-import { uploadFile, isStorageConfigured } from '../services/storage.js';
+import {
+  analyzeTopics,
+  generateQuestion,
+  evaluateInterview,
+  EvaluationResult,
+  QuestionContext,
+  Topic,
+} from '../services/llm.js';
+import { allocateTopicDurations, topicWeight } from '../services/topics.js';
+import {
+  QuestionBank,
+  QuestionPlan,
+  planQuestions,
+  readQuestionPlan,
+  nextRequiredQuestion,
+  optionalQuestionsFor,
+} from '../services/questionBank.js';
+import { uploadFile, isStorageConfigured } from '../services/storage/index.js';
+import { extractText, findExtractor, getContentType, getSupportedFormats } from '../services/textExtraction/index.js';
+import { publishSessionEvent } from '../services/sessionEvents.js';
+import { takeAnswerRecording, archiveQuestionAudio } from '../services/audioArchive.js';
+import { subscribeParticipantEvents } from '../services/participantEvents.js';
+import { parseAnswerTelemetry } from '../services/integritySignals.js';
+import { languageProfile } from '../services/languages.js';
+import { isSessionClosing } from '../services/sessionSchedule.js';
+import { endStudentPause, runningPauseSeconds, studentPauseStatus } from '../services/studentPause.js';
+import { extendTopicDurations } from '../services/accommodations.js';
 
 const router = Router();
 
-// Type for evaluation summary
-interface EvaluationSummary {
-  score: number;
-  strengths: string[];
-  weaknesses: string[];
-  overallComment: string;
-}
+// SSE keep-alive interval (proxies drop idle connections around 30-60s)
+const SSE_KEEPALIVE_MS = 25000;
+
+// Type for evaluation summary (includes per-criterion breakdown when the session has a rubric)
+type EvaluationSummary = EvaluationResult;
 
 /**
  * Run evaluation for a participant (background auto-evaluation)
@@ -41,9 +63,11 @@ async function runEvaluation(participantId: string): Promise<EvaluationSummary |
     // Get all data for evaluation
     const dataResult = await query(
       `SELECT
-        sp.extracted_text, sp.analyzed_topics,
-        ist.topics_state
+        sp.session_id, sp.extracted_text, sp.analyzed_topics,
+        ist.topics_state,
+        s.rubric, s.interview_language
        FROM student_participants sp
+       JOIN assignment_sessions s ON sp.session_id = s.id
        LEFT JOIN interview_states ist ON sp.id = ist.participant_id
        WHERE sp.id = $1`,
       [participantId]
@@ -72,6 +96,7 @@ async function runEvaluation(participantId: string): Promise<EvaluationSummary |
     const conversationsForEval: Array<{
       topicIndex: number;
       topicTitle: string;
+      topicWeight: number;
       messages: Array<{ role: 'ai' | 'student'; content: string }>;
     }> = [];
 
@@ -93,6 +118,7 @@ async function runEvaluation(participantId: string): Promise<EvaluationSummary |
       conversationsForEval.push({
         topicIndex: i,
         topicTitle: analyzedTopics[i].title,
+        topicWeight: topicWeight(analyzedTopics[i]),
         messages: topicConversations,
       });
     }
@@ -102,15 +128,17 @@ async function runEvaluation(participantId: string): Promise<EvaluationSummary |
     try {
       summary = await evaluateInterview(
         data.extracted_text,
-        conversationsForEval
+        conversationsForEval,
+        data.rubric,
+        data.interview_language
       );
     } catch (error) {
       console.error('[runEvaluation] Failed to evaluate interview:', error);
+      // No made-up score: the participant stays ungraded until the teacher reviews it
       summary = {
-        score: 70,
-        strengths: ['인터뷰에 참여했습니다.'],
-        weaknesses: ['평가를 완료하지 못했습니다.'],
-        overallComment: '인터뷰가 완료되었습니다. 세부 평가는 교사에게 문의하세요.',
+        score: null,
+        ...languageProfile(data.interview_language).evaluationFallback,
+        fallback: true,
       };
     }
 
@@ -138,6 +166,12 @@ async function runEvaluation(participantId: string): Promise<EvaluationSummary |
       [JSON.stringify(topicsState), participantId]
     );
 
+    publishSessionEvent(data.session_id, 'evaluation-complete', participantId, {
+      status: 'completed',
+      currentPhase: 'completed',
+      interviewEndedAt: new Date().toISOString(),
+    });
+
     console.log(`[runEvaluation] Evaluation completed for: ${participantId}`);
     return summary;
   } catch (error) {
@@ -146,6 +180,42 @@ async function runEvaluation(participantId: string): Promise<EvaluationSummary |
   }
 }
 
+/**
+ * Finish the interview after the current topic instead of opening the next one
+ * Used after the last topic and when the session closed mid-interview; topics the
+ * student never reached are marked skipped.
+ */
+async function finalizeAfterTopic(
+  participantId: string,
+  sessionId: string,
+  currentTopicIndex: number,
+  topicsState: Array<{ status: string; timeLeft: number }>,
+  source: string
+): Promise<void> {
+  for (const topic of topicsState.slice(currentTopicIndex + 1)) {
+    topic.status = 'skipped';
+    topic.timeLeft = 0;
+  }
+
+  await query(
+    `UPDATE interview_states
+     SET current_phase = 'finalizing', topics_state = $1
+     WHERE participant_id = $2 AND current_phase <> 'completed'`,
+    [JSON.stringify(topicsState), participantId]
+  );
+
+  publishSessionEvent(sessionId, 'topic-change', participantId, {
+    currentTopicIndex,
+    currentPhase: 'finalizing',
+  });
+
+  // Start evaluation automatically in background
+  console.log(`[${source}] Interview finished, starting auto-evaluation for: ${participantId}`);
+  runEvaluation(participantId).catch(err =>
+    console.error(`[${source}] Auto evaluation failed:`, err)
+  );
+}
+
 /**
  * Fix filename encoding issue from Multer
  * Multer decodes multipart filename as latin1, but browsers encode as UTF-8
@@ -168,29 +238,95 @@ function decodeFilename(filename: string): string {
   }
 }
 
+/**
+ * First question of a topic: a planned required bank question, otherwise generated
+ */
+async function openTopic(
+  plan: QuestionPlan | null,
+  topicIndex: number,
+  context: Omit<QuestionContext, 'previousConversation' | 'bankQuestions'>,
+  fallbackQuestion: string
+): Promise<{ question: string; bankQuestionId: string | null }> {
+  const required = nextRequiredQuestion(plan, topicIndex, new Set(), false);
+  if (required) {
+    return { question: required.text, bankQuestionId: required.id };
+  }
+
+  try {
+    const question = await generateQuestion({
+      ...context,
+      previousConversation: [],
+      bankQuestions: optionalQuestionsFor(plan, topicIndex),
+    });
+    return { question, bankQuestionId: null };
+  } catch (error) {
+    console.error(`Failed to generate first question for topic ${topicIndex}:`, error);
+    return { question: fallbackQuestion, bankQuestionId: null };
+  }
+}
+
 // Apply student auth middleware to all routes
 router.use(studentAuthMiddleware);
 
-// Configure multer for PDF upload
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // 10MB
+
+// Less extracted text than this isn't enough to pick interview topics from
+const MIN_EXTRACTED_TEXT_LENGTH = 100;
+
+// Configure multer for assignment upload (formats come from services/textExtraction)
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB
+    fileSize: MAX_UPLOAD_BYTES,
   },
   fileFilter: (req, file, cb) => {
-    if (file.mimetype === 'application/pdf') {
+    if (findExtractor(file.mimetype, decodeFilename(file.originalname))) {
       cb(null, true);
     } else {
-      cb(new Error('Only PDF files are allowed'));
+      const { extensions } = getSupportedFormats();
+      cb(new Error(`Unsupported file type. Allowed: ${extensions.join(', ')}`));
     }
   },
 });
 
+/**
+ * Run the upload middleware and answer multer errors with 400/413 instead of the global 500
+ */
+function receiveFile(req: Request, res: Response, next: NextFunction): void {
+  upload.single('file')(req, res, (err: unknown) => {
+    if (!err) {
+      next();
+      return;
+    }
+
+    if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+      res.status(413).json({ success: false, error: `File must be ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB or smaller` });
+      return;
+    }
+
+    res.status(400).json({ success: false, error: err instanceof Error ? err.message : 'Invalid upload' });
+  });
+}
+
+/**
+ * GET /api/interview/upload-formats
+ * File types the upload accepts (drives the upload page's file picker)
+ */
+router.get('/upload-formats', (_req: Request, res: Response): void => {
+  res.status(200).json({
+    success: true,
+    data: {
+      ...getSupportedFormats(),
+      maxFileSize: MAX_UPLOAD_BYTES,
+    },
+  });
+});
+
 /**
  * POST /api/interview/upload
- * Upload PDF and analyze topics
+ * Upload an assignment file (PDF, DOCX, HWP/HWPX, text) and analyze topics
  */
-router.post('/upload', upload.single('file'), async (req: Request, res: Response): Promise<void> => {
+router.post('/upload', receiveFile, async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.participant) {
       res.status(401).json({ success: false, error: 'Not authenticated' });
@@ -200,7 +336,7 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
     if (!req.file) {
       res.status(400).json({
         success: false,
-        error: 'PDF file is required',
+        error: 'Assignment file is required',
       });
       return;
     }
@@ -214,31 +350,40 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
       return;
     }
 
-    // Extract text from PDF
+    // No new interviews once the session has closed
+    if (await isSessionClosing(req.participant.sessionId)) {
+      res.status(400).json({ success: false, error: 'This session has ended' });
+      return;
+    }
+
+    // Decode filename (fix Multer latin1 encoding issue)
+    const decodedFilename = decodeFilename(req.file.originalname);
+
+    // Extract text (OCR fallback for scanned PDFs happens inside the pipeline)
     let extractedText: string;
     try {
-      const pdfData = await pdfParse(req.file.buffer);
-      extractedText = pdfData.text;
+      const extracted = await extractText(req.file.buffer, req.file.mimetype, decodedFilename);
+      extractedText = extracted.text;
 
-      if (!extractedText || extractedText.trim().length < 100) {
+      if (!extractedText || extractedText.trim().length < MIN_EXTRACTED_TEXT_LENGTH) {
         res.status(422).json({
           success: false,
-          error: 'Could not extract sufficient text from PDF. Please ensure the PDF contains readable text.',
+          error: 'Could not extract sufficient text from the file. Please ensure it contains readable text.',
         });
         return;
       }
-    } catch (pdfError) {
-      console.error('PDF parse error:', pdfError);
+    } catch (extractError) {
+      console.error('Text extraction error:', extractError);
       res.status(422).json({
         success: false,
-        error: 'Failed to extract text from PDF',
+        error: 'Failed to extract text from the file',
       });
       return;
     }
 
     // Get topic count and assignment info from session
     const sessionResult = await query(
-      'SELECT topic_count, assignment_info FROM assignment_sessions WHERE id = $1',
+      'SELECT topic_count, assignment_info, require_topic_approval FROM assignment_sessions WHERE id = $1',
       [req.participant.sessionId]
     );
 
@@ -250,12 +395,16 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
       return;
     }
 
-    const { topic_count: topicCount, assignment_info: assignmentInfo } = sessionResult.rows[0];
+    const {
+      topic_count: topicCount,
+      assignment_info: assignmentInfo,
+      require_topic_approval: requireTopicApproval,
+    } = sessionResult.rows[0];
 
     // Analyze topics with LLM
     let analyzedTopics;
     try {
-      analyzedTopics = await analyzeTopics(extractedText, topicCount, assignmentInfo);
+      analyzedTopics = await analyzeTopics(extractedText, topicCount, assignmentInfo, req.participant.interviewLanguage);
     } catch (llmError) {
       console.error('LLM analysis error:', llmError);
       res.status(500).json({
@@ -265,10 +414,7 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
       return;
     }
 
-    // Decode filename (fix Multer latin1 encoding issue)
-    const decodedFilename = decodeFilename(req.file.originalname);
-
-    // Upload to Supabase Storage if configured
+    // Keep the original file (storage driver from STORAGE_DRIVER)
     let fileUrl: string | null = null;
     if (isStorageConfigured()) {
       try {
@@ -276,7 +422,8 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
           req.file.buffer,
           decodedFilename,
           req.participant.sessionId,
-          req.participant.id
+          req.participant.id,
+          getContentType(decodedFilename)
         );
       } catch (storageError) {
         console.error('Storage upload error (continuing without file storage):', storageError);
@@ -302,6 +449,10 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
       ]
     );
 
+    publishSessionEvent(req.participant.sessionId, 'upload', req.participant.id, {
+      status: 'file_submitted',
+    });
+
     res.status(200).json({
       success: true,
       data: {
@@ -309,6 +460,7 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
         extractedTextLength: extractedText.length,
         analyzedTopics,
         fileName: decodedFilename,
+        topicsApprovalPending: requireTopicApproval,
       },
     });
   } catch (error) {
@@ -317,6 +469,65 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
   }
 });
 
+/**
+ * GET /api/interview/topic-approval
+ * Whether the teacher still has to approve the analyzed topics before /start
+ */
+router.get('/topic-approval', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.participant) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const result = await query(
+      `SELECT s.require_topic_approval, sp.topics_approved_at,
+              jsonb_array_length(COALESCE(sp.analyzed_topics, '[]'::jsonb)) AS topic_count
+       FROM student_participants sp
+       JOIN assignment_sessions s ON sp.session_id = s.id
+       WHERE sp.id = $1`,
+      [req.participant.id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'Participant not found' });
+      return;
+    }
+
+    const row = result.rows[0];
+
+    res.status(200).json({
+      success: true,
+      data: {
+        required: row.require_topic_approval,
+        approved: !row.require_topic_approval || row.topics_approved_at !== null,
+        topicCount: row.topic_count,
+      },
+    });
+  } catch (error) {
+    console.error('Get topic approval error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get topic approval status' });
+  }
+});
+
+/**
+ * GET /api/interview/accommodations
+ * Accommodations the teacher set for this student (text size, read-aloud, chat only, extra time)
+ */
+router.get('/accommodations', (req: Request, res: Response): void => {
+  if (!req.participant) {
+    res.status(401).json({ success: false, error: 'Not authenticated' });
+    return;
+  }
+
+  res.status(200).json({
+    success: true,
+    data: {
+      accommodations: req.participant.accommodations,
+    },
+  });
+});
+
 /**
  * POST /api/interview/start
  * Start the interview
@@ -341,11 +552,17 @@ router.post('/start', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // No new interviews once the session has closed
+    if (await isSessionClosing(req.participant.sessionId)) {
+      res.status(400).json({ success: false, error: 'This session has ended' });
+      return;
+    }
+
     // Get session info and participant data
     const dataResult = await query(
       `SELECT
-        sp.extracted_text, sp.analyzed_topics,
-        s.interview_mode, s.topic_duration
+        sp.extracted_text, sp.analyzed_topics, sp.topics_approved_at,
+        s.interview_mode, s.topic_duration, s.require_topic_approval, s.question_bank
        FROM student_participants sp
        JOIN assignment_sessions s ON sp.session_id = s.id
        WHERE sp.id = $1`,
@@ -361,15 +578,28 @@ router.post('/start', async (req: Request, res: Response): Promise<void> => {
     }
 
     const data = dataResult.rows[0];
+
+    // Teacher has to review the topics first
+    if (data.require_topic_approval && !data.topics_approved_at) {
+      res.status(409).json({
+        success: false,
+        error: 'Topics are awaiting teacher approval',
+        topicsApprovalPending: true,
+      });
+      return;
+    }
+
     const sessionMode = data.interview_mode;
     const topicDuration = data.topic_duration;
     const analyzedTopics = typeof data.analyzed_topics === 'string'
       ? JSON.parse(data.analyzed_topics)
       : data.analyzed_topics;
 
-    // Validate mode selection
+    // Validate mode selection (a chat-only accommodation overrides the session's mode)
     let selectedMode = mode;
-    if (sessionMode === 'student_choice') {
+    if (req.participant.accommodations.chatOnly) {
+      selectedMode = 'chat';
+    } else if (sessionMode === 'student_choice') {
       if (!mode || !['voice', 'chat'].includes(mode)) {
         res.status(400).json({
           success: false,
@@ -382,40 +612,51 @@ router.post('/start', async (req: Request, res: Response): Promise<void> => {
       selectedMode = sessionMode;
     }
 
-    // Create initial topics state
-    const topicsState = analyzedTopics.map((topic: { index: number; title: string }, idx: number) => ({
+    // Create initial topics state (time per topic shared by weight, see services/topics.ts,
+    // then extended for students with extra time)
+    const topicDurations = extendTopicDurations(
+      allocateTopicDurations(analyzedTopics, topicDuration),
+      req.participant.accommodations
+    );
+    const topicsState = analyzedTopics.map((topic: Topic, idx: number) => ({
       index: idx,
       title: topic.title,
-      totalTime: topicDuration,
-      timeLeft: topicDuration,
+      weight: topicWeight(topic),
+      totalTime: topicDurations[idx],
+      timeLeft: topicDurations[idx],
       status: idx === 0 ? 'active' : 'pending',
       started: idx === 0 ? true : false,  // First topic starts immediately
     }));
 
-    // Generate first question
-    let firstQuestion: string;
-    try {
-      firstQuestion = await generateQuestion({
+    // Fix which bank questions this student gets on which topic
+    const questionPlan = planQuestions(data.question_bank as QuestionBank | null, analyzedTopics);
+
+    // First question (a required bank question if one is planned for topic 0)
+    const { question: firstQuestion, bankQuestionId } = await openTopic(
+      questionPlan,
+      0,
+      {
         topic: analyzedTopics[0],
         assignmentText: data.extracted_text,
-        previousConversation: [],
+        topicDuration: topicDurations[0],
         interviewMode: selectedMode as 'voice' | 'chat',
-      });
-    } catch (error) {
-      console.error('Failed to generate first question:', error);
-      firstQuestion = `${analyzedTopics[0].title}에 대해 설명해 주세요. 이 부분을 어떻게 작성하셨나요?`;
-    }
+        language: req.participant.interviewLanguage,
+      },
+      languageProfile(req.participant.interviewLanguage).firstQuestion(analyzedTopics[0].title)
+    );
 
     // Create interview_states record with topic_started_at for timer tracking
     await query(
-      `INSERT INTO interview_states (participant_id, current_topic_index, current_phase, topics_state, topic_started_at)
-       VALUES ($1, 0, 'topic_active', $2, NOW())
+      `INSERT INTO interview_states
+        (participant_id, current_topic_index, current_phase, topics_state, topic_started_at, question_plan)
+       VALUES ($1, 0, 'topic_active', $2, NOW(), $3)
        ON CONFLICT (participant_id) DO UPDATE
        SET current_topic_index = 0,
            current_phase = 'topic_active',
            topics_state = $2,
-           topic_started_at = COALESCE(interview_states.topic_started_at, NOW())`,
-      [req.participant.id, JSON.stringify(topicsState)]
+           topic_started_at = COALESCE(interview_states.topic_started_at, NOW()),
+           question_plan = $3`,
+      [req.participant.id, JSON.stringify(topicsState), questionPlan ? JSON.stringify(questionPlan) : null]
     );
 
     // Update participant status
@@ -428,11 +669,18 @@ router.post('/start', async (req: Request, res: Response): Promise<void> => {
       [selectedMode, req.participant.id]
     );
 
+    publishSessionEvent(req.participant.sessionId, 'interview-start', req.participant.id, {
+      status: 'interview_in_progress',
+      chosenInterviewMode: selectedMode,
+      currentTopicIndex: 0,
+      currentPhase: 'topic_active',
+    });
+
     // Save first question to conversation
     await query(
-      `INSERT INTO interview_conversations (participant_id, topic_index, turn_index, role, content)
-       VALUES ($1, 0, 0, 'ai', $2)`,
-      [req.participant.id, firstQuestion]
+      `INSERT INTO interview_conversations (participant_id, topic_index, turn_index, role, content, bank_question_id)
+       VALUES ($1, 0, 0, 'ai', $2, $3)`,
+      [req.participant.id, firstQuestion, bankQuestionId]
     );
 
     res.status(200).json({
@@ -445,7 +693,7 @@ router.post('/start', async (req: Request, res: Response): Promise<void> => {
           index: 0,
           title: analyzedTopics[0].title,
           description: analyzedTopics[0].description,
-          totalTime: topicDuration,
+          totalTime: topicDurations[0],
         },
         firstQuestion,
         topicsState,
@@ -472,8 +720,11 @@ router.get('/state', async (req: Request, res: Response): Promise<void> => {
       `SELECT
         sp.status, sp.analyzed_topics, sp.chosen_interview_mode,
         ist.current_topic_index, ist.current_phase, ist.topics_state, ist.topic_started_at,
-        ist.ai_generation_pending, ist.ai_generation_started_at, ist.accumulated_pause_time
+        ist.ai_generation_pending, ist.ai_generation_started_at, ist.accumulated_pause_time,
+        ist.student_pause_started_at, ist.student_pause_used, ist.student_pause_count,
+        s.pause_budget
        FROM student_participants sp
+       JOIN assignment_sessions s ON sp.session_id = s.id
        LEFT JOIN interview_states ist ON sp.id = ist.participant_id
        WHERE sp.id = $1`,
       [req.participant.id]
@@ -515,6 +766,9 @@ router.get('/state', async (req: Request, res: Response): Promise<void> => {
         );
       }
 
+      // Student-requested pause (counts only up to the pause budget left)
+      currentPauseTime += runningPauseSeconds(data);
+
       const totalPauseTime = accumulatedPauseTime + currentPauseTime;
       const elapsedSeconds = Math.floor(
         (Date.now() - new Date(data.topic_started_at).getTime()) / 1000
@@ -537,6 +791,8 @@ router.get('/state', async (req: Request, res: Response): Promise<void> => {
         conversations: conversationsResult.rows.reverse(),
         aiGenerationPending,
         aiGenerationStartedAt: data.ai_generation_started_at,
+        studentPause: studentPauseStatus(data),
+        accommodations: req.participant.accommodations,
       },
     });
   } catch (error) {
@@ -569,8 +825,10 @@ router.post('/heartbeat', async (req: Request, res: Response): Promise<void> =>
         sp.status,
         ist.current_topic_index, ist.current_phase, ist.topics_state, ist.topic_started_at,
         ist.ai_generation_pending, ist.ai_generation_started_at, ist.accumulated_pause_time,
-        ist.pause_started_at
+        ist.pause_started_at, ist.student_pause_started_at, ist.student_pause_used, ist.student_pause_count,
+        s.pause_budget
        FROM student_participants sp
+       JOIN assignment_sessions s ON sp.session_id = s.id
        LEFT JOIN interview_states ist ON sp.id = ist.participant_id
        WHERE sp.id = $1`,
       [req.participant.id]
@@ -585,9 +843,18 @@ router.post('/heartbeat', async (req: Request, res: Response): Promise<void> =>
     const topicsState = data.topics_state || [];
     const currentTopicIndex = data.current_topic_index || 0;
     const currentTopic = topicsState[currentTopicIndex];
-    const accumulatedPauseTime = data.accumulated_pause_time || 0;
+    let accumulatedPauseTime = data.accumulated_pause_time || 0;
     const aiGenerationPending = data.ai_generation_pending || false;
 
+    // Student pause that used up the budget: end it so the topic timer runs again
+    let studentPause = studentPauseStatus(data);
+    if (data.student_pause_started_at && !studentPause.paused) {
+      accumulatedPauseTime += await endStudentPause(req.participant.id);
+      data.student_pause_used = studentPause.used;
+      data.student_pause_started_at = null;
+      studentPause = studentPauseStatus(data);
+    }
+
     // Calculate remaining time based on server time, minus accumulated pause time
     let remainingTime = currentTopic?.timeLeft || 0;
     let timeExpired = false;
@@ -595,10 +862,14 @@ router.post('/heartbeat', async (req: Request, res: Response): Promise<void> =>
 
     if (data.topic_started_at && data.current_phase === 'topic_active') {
       // Calculate current pause time if AI is generating
+      // (streamed voice questions start TTS early - stop counting once TTS pause takes over)
       if (aiGenerationPending && data.ai_generation_started_at) {
-        currentPauseTime += Math.floor(
-          (Date.now() - new Date(data.ai_generation_started_at).getTime()) / 1000
-        );
+        const generationPauseEnd = data.pause_started_at
+          ? new Date(data.pause_started_at).getTime()
+          : Date.now();
+        currentPauseTime += Math.max(0, Math.floor(
+          (generationPauseEnd - new Date(data.ai_generation_started_at).getTime()) / 1000
+        ));
       }
 
       // Calculate current pause time if TTS/STT pause is active
@@ -608,6 +879,9 @@ router.post('/heartbeat', async (req: Request, res: Response): Promise<void> =>
         );
       }
 
+      // Student-requested pause (counts only up to the pause budget left)
+      currentPauseTime += runningPauseSeconds(data);
+
       const totalPauseTime = accumulatedPauseTime + currentPauseTime;
       const elapsedSeconds = Math.floor(
         (Date.now() - new Date(data.topic_started_at).getTime()) / 1000
@@ -624,6 +898,11 @@ router.post('/heartbeat', async (req: Request, res: Response): Promise<void> =>
           `UPDATE interview_states SET current_phase = 'topic_transition' WHERE participant_id = $1`,
           [req.participant.id]
         );
+
+        publishSessionEvent(req.participant.sessionId, 'topic-change', req.participant.id, {
+          currentTopicIndex,
+          currentPhase: 'topic_transition',
+        });
       }
     }
 
@@ -641,6 +920,7 @@ router.post('/heartbeat', async (req: Request, res: Response): Promise<void> =>
         showTransitionPage,
         topicsState,
         aiGenerationPending,
+        studentPause,
       },
     });
   } catch (error) {
@@ -695,6 +975,129 @@ router.post('/pause-event', async (req: Request, res: Response): Promise<void> =
   }
 });
 
+/**
+ * POST /api/interview/pause
+ * Student pauses their own interview; the topic timer stops until /resume or until
+ * the session's pause budget runs out
+ */
+router.post('/pause', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.participant) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const result = await query(
+      `SELECT
+        ist.current_phase, ist.ai_generation_pending, ist.pause_started_at,
+        ist.student_pause_started_at, ist.student_pause_used, ist.student_pause_count,
+        s.pause_budget
+       FROM interview_states ist
+       JOIN student_participants sp ON ist.participant_id = sp.id
+       JOIN assignment_sessions s ON sp.session_id = s.id
+       WHERE ist.participant_id = $1`,
+      [req.participant.id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'Interview state not found' });
+      return;
+    }
+
+    const state = result.rows[0];
+    const studentPause = studentPauseStatus(state);
+
+    if (studentPause.budget === 0) {
+      res.status(400).json({ success: false, error: 'Pausing is not enabled for this session' });
+      return;
+    }
+
+    if (state.current_phase !== 'topic_active') {
+      res.status(409).json({ success: false, error: 'The interview can only be paused during a topic' });
+      return;
+    }
+
+    if (state.student_pause_started_at) {
+      res.status(409).json({ success: false, error: 'The interview is already paused' });
+      return;
+    }
+
+    // The timer is already stopped while a question is generated or played
+    if (state.ai_generation_pending || state.pause_started_at) {
+      res.status(409).json({ success: false, error: 'Wait for the next question before pausing' });
+      return;
+    }
+
+    if (studentPause.remaining === 0) {
+      res.status(409).json({ success: false, error: 'No pause time left' });
+      return;
+    }
+
+    const updated = await query(
+      `UPDATE interview_states
+       SET student_pause_started_at = NOW(),
+           student_pause_count = student_pause_count + 1
+       WHERE participant_id = $1 AND student_pause_started_at IS NULL
+       RETURNING student_pause_started_at, student_pause_used, student_pause_count`,
+      [req.participant.id]
+    );
+
+    if (updated.rows.length === 0) {
+      res.status(409).json({ success: false, error: 'The interview is already paused' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        studentPause: studentPauseStatus({ ...updated.rows[0], pause_budget: state.pause_budget }),
+      },
+    });
+  } catch (error) {
+    console.error('Pause interview error:', error);
+    res.status(500).json({ success: false, error: 'Failed to pause interview' });
+  }
+});
+
+/**
+ * POST /api/interview/resume
+ * End the student's pause; the topic timer runs again
+ */
+router.post('/resume', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.participant) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    await endStudentPause(req.participant.id);
+
+    const result = await query(
+      `SELECT ist.student_pause_started_at, ist.student_pause_used, ist.student_pause_count, s.pause_budget
+       FROM interview_states ist
+       JOIN student_participants sp ON ist.participant_id = sp.id
+       JOIN assignment_sessions s ON sp.session_id = s.id
+       WHERE ist.participant_id = $1`,
+      [req.participant.id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'Interview state not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        studentPause: studentPauseStatus(result.rows[0]),
+      },
+    });
+  } catch (error) {
+    console.error('Resume interview error:', error);
+    res.status(500).json({ success: false, error: 'Failed to resume interview' });
+  }
+});
+
 /**
  * POST /api/interview/answer
  * Submit student answer and queue AI question generation (non-blocking)
@@ -717,10 +1120,14 @@ router.post('/answer', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // Chat clients report pastes/keystrokes/focus loss; malformed telemetry is dropped, not rejected
+    const telemetry = parseAnswerTelemetry(req.body.telemetry);
+
     // Get current state
     const stateResult = await query(
       `SELECT
-        ist.current_topic_index, ist.current_phase, ist.topics_state, ist.ai_generation_pending
+        ist.current_topic_index, ist.current_phase, ist.topics_state, ist.ai_generation_pending,
+        ist.student_pause_started_at
        FROM interview_states ist
        WHERE ist.participant_id = $1`,
       [req.participant.id]
@@ -744,6 +1151,11 @@ router.post('/answer', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    if (state.student_pause_started_at) {
+      res.status(409).json({ success: false, error: 'Resume the interview before answering' });
+      return;
+    }
+
     // Get current turn index
     const turnResult = await query(
       `SELECT COALESCE(MAX(turn_index), -1) as max_turn
@@ -754,13 +1166,40 @@ router.post('/answer', async (req: Request, res: Response): Promise<void> => {
     const nextTurnIndex = turnResult.rows[0].max_turn + 1;
     const aiTurnIndex = nextTurnIndex + 1;
 
+    // Voice answers: the recording sent to /api/speech/stt just before this
+    const audioPath = await takeAnswerRecording(req.participant.id);
+
     // Save student answer
     await query(
-      `INSERT INTO interview_conversations (participant_id, topic_index, turn_index, role, content)
-       VALUES ($1, $2, $3, 'student', $4)`,
-      [req.participant.id, currentTopicIndex, nextTurnIndex, answer.trim()]
+      `INSERT INTO interview_conversations (participant_id, topic_index, turn_index, role, content, audio_url, telemetry)
+       VALUES ($1, $2, $3, 'student', $4, $5, $6)`,
+      [req.participant.id, currentTopicIndex, nextTurnIndex, answer.trim(), audioPath, telemetry && JSON.stringify(telemetry)]
     );
 
+    // The question just answered has been fully played; store its TTS audio in the background
+    const participant = req.participant;
+    query(
+      `SELECT id, turn_index, content
+       FROM interview_conversations
+       WHERE participant_id = $1 AND topic_index = $2 AND role = 'ai' AND audio_url IS NULL
+       ORDER BY turn_index DESC
+       LIMIT 1`,
+      [participant.id, currentTopicIndex]
+    )
+      .then(async (result) => {
+        const question = result.rows[0];
+        if (!question) return;
+        const path = await archiveQuestionAudio(participant, {
+          topicIndex: currentTopicIndex,
+          turnIndex: question.turn_index,
+          content: question.content,
+        });
+        if (path) {
+          await query('UPDATE interview_conversations SET audio_url = $1 WHERE id = $2', [path, question.id]);
+        }
+      })
+      .catch((error) => console.error('[AudioArchive] Failed to store question audio:', error));
+
     // Mark AI generation as pending and record start time for pause tracking
     await query(
       `UPDATE interview_states
@@ -883,6 +1322,42 @@ router.get('/ai-status', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * GET /api/interview/events
+ * Server-Sent Events stream that pushes generated questions (and fallback questions
+ * on failure) as soon as the AI worker commits them. /ai-status remains the fallback.
+ */
+router.get('/events', async (req: Request, res: Response): Promise<void> => {
+  if (!req.participant) {
+    res.status(401).json({ success: false, error: 'Not authenticated' });
+    return;
+  }
+
+  const participantId = req.participant.id;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx, Railway)
+  });
+  res.write(`retry: 2000\n\n`);
+  res.write(`event: connected\ndata: ${JSON.stringify({ participantId })}\n\n`);
+
+  const unsubscribe = subscribeParticipantEvents(participantId, (event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  const keepAlive = setInterval(() => {
+    res.write(': keep-alive\n\n');
+  }, SSE_KEEPALIVE_MS);
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    unsubscribe();
+  });
+});
+
 /**
  * POST /api/interview/next-topic
  * Move to next topic
@@ -898,7 +1373,7 @@ router.post('/next-topic', async (req: Request, res: Response): Promise<void> =>
     const stateResult = await query(
       `SELECT
         sp.extracted_text, sp.analyzed_topics, sp.chosen_interview_mode,
-        ist.current_topic_index, ist.topics_state,
+        ist.current_topic_index, ist.topics_state, ist.question_plan,
         s.topic_duration
        FROM student_participants sp
        JOIN interview_states ist ON sp.id = ist.participant_id
@@ -920,6 +1395,9 @@ router.post('/next-topic', async (req: Request, res: Response): Promise<void> =>
       : state.analyzed_topics;
     const topicDuration = state.topic_duration;
 
+    // A student pause ends with its topic
+    await endStudentPause(req.participant.id);
+
     // Check if this is the last topic
     const nextTopicIndex = currentTopicIndex + 1;
     if (nextTopicIndex >= analyzedTopics.length) {
@@ -939,26 +1417,44 @@ router.post('/next-topic', async (req: Request, res: Response): Promise<void> =>
       topicsState[currentTopicIndex].timeLeft = 0;
     }
 
-    // Activate next topic
+    // Session closed during this topic: no new topics, finalize what was answered
+    if (await isSessionClosing(req.participant.sessionId)) {
+      await finalizeAfterTopic(req.participant.id, req.participant.sessionId, currentTopicIndex, topicsState, 'next-topic');
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Session closed, interview completed',
+          shouldFinalize: true,
+          sessionClosed: true,
+          currentTopicIndex,
+          topicsState,
+        },
+      });
+      return;
+    }
+
+    // Activate next topic with the time allocated to it at /start
+    const nextTopicDuration = topicsState[nextTopicIndex]?.totalTime || topicDuration;
     if (topicsState[nextTopicIndex]) {
       topicsState[nextTopicIndex].status = 'active';
-      topicsState[nextTopicIndex].timeLeft = topicDuration;
+      topicsState[nextTopicIndex].timeLeft = nextTopicDuration;
       topicsState[nextTopicIndex].started = false;
     }
 
-    // Generate first question for new topic
-    let firstQuestion: string;
-    try {
-      firstQuestion = await generateQuestion({
+    // First question for new topic (a required bank question if one is planned)
+    const { question: firstQuestion, bankQuestionId } = await openTopic(
+      readQuestionPlan(state.question_plan),
+      nextTopicIndex,
+      {
         topic: analyzedTopics[nextTopicIndex],
         assignmentText: state.extracted_text,
-        previousConversation: [],
+        topicDuration: nextTopicDuration,
         interviewMode: (state.chosen_interview_mode as 'voice' | 'chat') || 'chat',
-      });
-    } catch (error) {
-      console.error('Failed to generate first question for new topic:', error);
-      firstQuestion = `${analyzedTopics[nextTopicIndex].title}에 대해 설명해 주세요.`;
-    }
+        language: req.participant.interviewLanguage,
+      },
+      languageProfile(req.participant.interviewLanguage).topicQuestion(analyzedTopics[nextTopicIndex].title)
+    );
 
     // Update interview state with topic_started_at for immediate timer start
     // Reset accumulated_pause_time and pause_started_at for new topic
@@ -972,11 +1468,17 @@ router.post('/next-topic', async (req: Request, res: Response): Promise<void> =>
 
     // Save first question
     await query(
-      `INSERT INTO interview_conversations (participant_id, topic_index, turn_index, role, content)
-       VALUES ($1, $2, 0, 'ai', $3)`,
-      [req.participant.id, nextTopicIndex, firstQuestion]
+      `INSERT INTO interview_conversations (participant_id, topic_index, turn_index, role, content, bank_question_id)
+       VALUES ($1, $2, 0, 'ai', $3, $4)`,
+      [req.participant.id, nextTopicIndex, firstQuestion, bankQuestionId]
     );
 
+    publishSessionEvent(req.participant.sessionId, 'topic-change', req.participant.id, {
+      status: 'interview_in_progress',
+      currentTopicIndex: nextTopicIndex,
+      currentPhase: 'topic_active',
+    });
+
     res.status(200).json({
       success: true,
       data: {
@@ -986,7 +1488,7 @@ router.post('/next-topic', async (req: Request, res: Response): Promise<void> =>
           index: nextTopicIndex,
           title: analyzedTopics[nextTopicIndex].title,
           description: analyzedTopics[nextTopicIndex].description,
-          totalTime: topicDuration,
+          totalTime: nextTopicDuration,
         },
         firstQuestion,
         topicsState,
@@ -1032,6 +1534,9 @@ router.post('/topic-timeout', async (req: Request, res: Response): Promise<void>
       ? JSON.parse(state.analyzed_topics)
       : state.analyzed_topics;
 
+    // A student pause ends with its topic
+    await endStudentPause(req.participant.id);
+
     // Check if student has responded in this topic
     const responseCheck = await query(
       `SELECT COUNT(*) as count FROM interview_conversations
@@ -1046,8 +1551,17 @@ router.post('/topic-timeout', async (req: Request, res: Response): Promise<void>
       topicsState[currentTopicIndex].timeLeft = 0;
     }
 
-    // Check if last topic
-    const isLastTopic = currentTopicIndex >= analyzedTopics.length - 1;
+    // Check if last topic (a closed session ends with the current one)
+    const sessionClosed = currentTopicIndex < analyzedTopics.length - 1
+      && await isSessionClosing(req.participant.sessionId);
+    const isLastTopic = currentTopicIndex >= analyzedTopics.length - 1 || sessionClosed;
+
+    if (sessionClosed) {
+      for (const topic of topicsState.slice(currentTopicIndex + 1)) {
+        topic.status = 'skipped';
+        topic.timeLeft = 0;
+      }
+    }
 
     // Update state
     await query(
@@ -1057,6 +1571,11 @@ router.post('/topic-timeout', async (req: Request, res: Response): Promise<void>
       [JSON.stringify(topicsState), req.participant.id]
     );
 
+    publishSessionEvent(req.participant.sessionId, 'topic-change', req.participant.id, {
+      currentTopicIndex,
+      currentPhase: 'topic_transition',
+    });
+
     // If last topic, start evaluation automatically in background
     if (isLastTopic) {
       console.log(`[topic-timeout] Last topic completed, starting auto-evaluation for: ${req.participant.id}`);
@@ -1070,6 +1589,7 @@ router.post('/topic-timeout', async (req: Request, res: Response): Promise<void>
       data: {
         message: 'Topic timeout handled',
         isLastTopic,
+        sessionClosed,
         showTransitionPage: true,
         topicsState,
       },
@@ -1095,7 +1615,7 @@ router.post('/confirm-transition', async (req: Request, res: Response): Promise<
     const stateResult = await query(
       `SELECT
         sp.extracted_text, sp.analyzed_topics, sp.chosen_interview_mode,
-        ist.current_topic_index, ist.current_phase, ist.topics_state,
+        ist.current_topic_index, ist.current_phase, ist.topics_state, ist.question_plan,
         s.topic_duration
        FROM student_participants sp
        JOIN interview_states ist ON sp.id = ist.participant_id
@@ -1140,30 +1660,22 @@ router.post('/confirm-transition', async (req: Request, res: Response): Promise<
       topicsState[currentTopicIndex].timeLeft = 0;
     }
 
-    // Check if this is the last topic
+    // Check if this is the last topic (a closed session ends with the current one)
     const nextTopicIndex = currentTopicIndex + 1;
-    const isLastTopic = nextTopicIndex >= analyzedTopics.length;
+    const sessionClosed = nextTopicIndex < analyzedTopics.length
+      && await isSessionClosing(req.participant.sessionId);
+    const isLastTopic = nextTopicIndex >= analyzedTopics.length || sessionClosed;
 
     if (isLastTopic) {
       // Last topic - signal to finalize
-      await query(
-        `UPDATE interview_states
-         SET current_phase = 'finalizing', topics_state = $1
-         WHERE participant_id = $2`,
-        [JSON.stringify(topicsState), req.participant.id]
-      );
-
-      // Start evaluation automatically in background
-      console.log(`[confirm-transition] Last topic completed, starting auto-evaluation for: ${req.participant.id}`);
-      runEvaluation(req.participant.id).catch(err =>
-        console.error('[confirm-transition] Auto evaluation failed:', err)
-      );
+      await finalizeAfterTopic(req.participant.id, req.participant.sessionId, currentTopicIndex, topicsState, 'confirm-transition');
 
       res.status(200).json({
         success: true,
         data: {
           message: 'Ready to finalize interview',
           shouldFinalize: true,
+          sessionClosed,
           currentTopicIndex,
           topicsState,
         },
@@ -1172,26 +1684,27 @@ router.post('/confirm-transition', async (req: Request, res: Response): Promise<
     }
 
     // Not last topic - move to next topic
-    // Activate next topic
+    // Activate next topic with the time allocated to it at /start
+    const nextTopicDuration = topicsState[nextTopicIndex]?.totalTime || topicDuration;
     if (topicsState[nextTopicIndex]) {
       topicsState[nextTopicIndex].status = 'active';
-      topicsState[nextTopicIndex].timeLeft = topicDuration;
+      topicsState[nextTopicIndex].timeLeft = nextTopicDuration;
       topicsState[nextTopicIndex].started = false;
     }
 
-    // Generate first question for new topic
-    let firstQuestion: string;
-    try {
-      firstQuestion = await generateQuestion({
+    // First question for new topic (a required bank question if one is planned)
+    const { question: firstQuestion, bankQuestionId } = await openTopic(
+      readQuestionPlan(state.question_plan),
+      nextTopicIndex,
+      {
         topic: analyzedTopics[nextTopicIndex],
         assignmentText: state.extracted_text,
-        previousConversation: [],
+        topicDuration: nextTopicDuration,
         interviewMode: (state.chosen_interview_mode as 'voice' | 'chat') || 'chat',
-      });
-    } catch (error) {
-      console.error('Failed to generate first question for new topic:', error);
-      firstQuestion = `${analyzedTopics[nextTopicIndex].title}에 대해 설명해 주세요.`;
-    }
+        language: req.participant.interviewLanguage,
+      },
+      languageProfile(req.participant.interviewLanguage).topicQuestion(analyzedTopics[nextTopicIndex].title)
+    );
 
     // Update interview state with topic_started_at for immediate timer start
     // Reset accumulated_pause_time and pause_started_at for new topic
@@ -1205,11 +1718,17 @@ router.post('/confirm-transition', async (req: Request, res: Response): Promise<
 
     // Save first question
     await query(
-      `INSERT INTO interview_conversations (participant_id, topic_index, turn_index, role, content)
-       VALUES ($1, $2, 0, 'ai', $3)`,
-      [req.participant.id, nextTopicIndex, firstQuestion]
+      `INSERT INTO interview_conversations (participant_id, topic_index, turn_index, role, content, bank_question_id)
+       VALUES ($1, $2, 0, 'ai', $3, $4)`,
+      [req.participant.id, nextTopicIndex, firstQuestion, bankQuestionId]
     );
 
+    publishSessionEvent(req.participant.sessionId, 'topic-change', req.participant.id, {
+      status: 'interview_in_progress',
+      currentTopicIndex: nextTopicIndex,
+      currentPhase: 'topic_active',
+    });
+
     // Restore participant status to interview_in_progress
     await query(
       `UPDATE student_participants SET status = 'interview_in_progress' WHERE id = $1`,
@@ -1226,7 +1745,7 @@ router.post('/confirm-transition', async (req: Request, res: Response): Promise<
           index: nextTopicIndex,
           title: analyzedTopics[nextTopicIndex].title,
           description: analyzedTopics[nextTopicIndex].description,
-          totalTime: topicDuration,
+          totalTime: nextTopicDuration,
         },
         firstQuestion,
         topicsState,
@@ -1249,121 +1768,14 @@ router.post('/complete', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Get all data including existing summary (for auto-evaluation case)
-    const dataResult = await query(
-      `SELECT
-        sp.extracted_text, sp.analyzed_topics, sp.summary,
-        ist.topics_state
-       FROM student_participants sp
-       LEFT JOIN interview_states ist ON sp.id = ist.participant_id
-       WHERE sp.id = $1`,
-      [req.participant.id]
-    );
+    // Reuses the auto-evaluation path (returns the existing summary if already evaluated)
+    const summary = await runEvaluation(req.participant.id);
 
-    if (dataResult.rows.length === 0) {
-      res.status(404).json({ success: false, error: 'Participant not found' });
-      return;
-    }
-
-    const data = dataResult.rows[0];
-
-    // If summary already exists (from auto-evaluation), return it directly
-    if (data.summary) {
-      console.log(`[complete] Summary already exists for: ${req.participant.id}`);
-      res.status(200).json({
-        success: true,
-        data: {
-          message: 'Interview completed',
-          status: 'completed',
-          summary: data.summary,
-        },
-      });
+    if (!summary) {
+      res.status(500).json({ success: false, error: 'Failed to complete interview' });
       return;
     }
 
-    const analyzedTopics = typeof data.analyzed_topics === 'string'
-      ? JSON.parse(data.analyzed_topics)
-      : data.analyzed_topics;
-
-    // Get all conversations grouped by topic
-    const conversationsResult = await query(
-      `SELECT topic_index, turn_index, role, content
-       FROM interview_conversations
-       WHERE participant_id = $1
-       ORDER BY topic_index ASC, turn_index ASC`,
-      [req.participant.id]
-    );
-
-    // Group conversations by topic with proper format for evaluateInterview
-    const conversationsForEval: Array<{
-      topicIndex: number;
-      topicTitle: string;
-      messages: Array<{ role: 'ai' | 'student'; content: string }>;
-    }> = [];
-
-    const allConversations = conversationsResult.rows as Array<{
-      topic_index: number;
-      turn_index: number;
-      role: string;
-      content: string;
-    }>;
-
-    for (let i = 0; i < analyzedTopics.length; i++) {
-      const topicConversations = allConversations
-        .filter((c) => c.topic_index === i)
-        .map((c) => ({
-          role: c.role as 'ai' | 'student',
-          content: c.content,
-        }));
-
-      conversationsForEval.push({
-        topicIndex: i,
-        topicTitle: analyzedTopics[i].title,
-        messages: topicConversations,
-      });
-    }
-
-    // Generate evaluation summary
-    let summary;
-    try {
-      summary = await evaluateInterview(
-        data.extracted_text,
-        conversationsForEval
-      );
-    } catch (error) {
-      console.error('Failed to evaluate interview:', error);
-      summary = {
-        score: 70,
-        strengths: ['인터뷰에 참여했습니다.'],
-        weaknesses: ['평가를 완료하지 못했습니다.'],
-        overallComment: '인터뷰가 완료되었습니다. 세부 평가는 교사에게 문의하세요.',
-      };
-    }
-
-    // Update topics state to all done
-    const topicsState = data.topics_state || [];
-    for (const topic of topicsState) {
-      topic.status = 'done';
-    }
-
-    // Update participant status and save summary
-    await query(
-      `UPDATE student_participants
-       SET status = 'completed',
-           interview_ended_at = NOW(),
-           summary = $1
-       WHERE id = $2`,
-      [JSON.stringify(summary), req.participant.id]
-    );
-
-    // Update interview state
-    await query(
-      `UPDATE interview_states
-       SET current_phase = 'completed', topics_state = $1
-       WHERE participant_id = $2`,
-      [JSON.stringify(topicsState), req.participant.id]
-    );
-
     res.status(200).json({
       success: true,
       data: {
@@ -1378,32 +1790,4 @@ router.post('/complete', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
-// Error handler for multer
-router.use((error: Error, req: Request, res: Response, next: Function) => {
-  if (error instanceof multer.MulterError) {
-    if (error.code === 'LIMIT_FILE_SIZE') {
-      res.status(400).json({
-        success: false,
-        error: 'File size exceeds 10MB limit',
-      });
-      return;
-    }
-    res.status(400).json({
-      success: false,
-      error: error.message,
-    });
-    return;
-  }
-
-  if (error.message === 'Only PDF files are allowed') {
-    res.status(400).json({
-      success: false,
-      error: 'Only PDF files are allowed',
-    });
-    return;
-  }
-
-  next(error);
-});
-
 export default router;
@@ -1,6 +1,9 @@
 import { Router, Request, Response } from 'express';
 import crypto from 'crypto';
 import { query } from '../db/connection.js';
+import { publishSessionEvent } from '../services/sessionEvents.js';
+import { findRosterMatch, isPinLocked, verifyRosterPin, RosterEntryRecord } from '../services/roster.js';
+import { normalizeAccommodations } from '../services/accommodations.js';
 
 const router = Router();
 
@@ -32,9 +35,9 @@ router.post('/reconnect', async (req: Request, res: Response): Promise<void> =>
       `SELECT
         sp.id, sp.session_id, sp.student_name, sp.student_id,
         sp.status, sp.disconnected_at, sp.extracted_text, sp.analyzed_topics,
-        sp.chosen_interview_mode, sp.submitted_file_name,
+        sp.chosen_interview_mode, sp.submitted_file_name, sp.accommodations,
         s.id as sess_id, s.title, s.topic_count, s.topic_duration,
-        s.interview_mode, s.status as session_status, s.reconnect_timeout,
+        s.interview_mode, s.interview_language, s.status as session_status, s.reconnect_timeout,
         ist.current_topic_index, ist.current_phase, ist.topics_state, ist.topic_started_at
        FROM student_participants sp
        JOIN assignment_sessions s ON sp.session_id = s.id
@@ -53,8 +56,8 @@ router.post('/reconnect', async (req: Request, res: Response): Promise<void> =>
 
     const data = result.rows[0];
 
-    // Check if session is still active
-    if (data.session_status !== 'active') {
+    // Check if session is still active (interviews already running may finish after it closes)
+    if (data.session_status !== 'active' && data.status !== 'interview_in_progress') {
       res.status(400).json({
         success: false,
         error: 'Session has ended',
@@ -90,6 +93,8 @@ router.post('/reconnect', async (req: Request, res: Response): Promise<void> =>
           [data.id]
         );
 
+        publishSessionEvent(data.session_id, 'abandon', data.id, { status: 'abandoned' });
+
         res.status(403).json({
           success: false,
           error: 'Session has expired due to timeout',
@@ -137,6 +142,11 @@ router.post('/reconnect', async (req: Request, res: Response): Promise<void> =>
         `UPDATE student_participants SET disconnected_at = NULL, last_active_at = NOW() WHERE id = $1`,
         [data.id]
       );
+
+      publishSessionEvent(data.session_id, 'reconnect', data.id, {
+        disconnectedAt: null,
+        ...(showTransitionPage && { currentPhase: 'topic_expired_while_away' }),
+      });
     }
 
     // Update last_active_at
@@ -178,6 +188,7 @@ router.post('/reconnect', async (req: Request, res: Response): Promise<void> =>
         topicCount: data.topic_count,
         topicDuration: data.topic_duration,
         interviewMode: data.interview_mode,
+        interviewLanguage: data.interview_language,
       },
       participant: {
         id: data.id,
@@ -187,6 +198,7 @@ router.post('/reconnect', async (req: Request, res: Response): Promise<void> =>
         analyzedTopics: data.analyzed_topics,
         chosenInterviewMode: data.chosen_interview_mode,
         submittedFileName: data.submitted_file_name,
+        accommodations: normalizeAccommodations(data.accommodations),
       },
     };
 
@@ -229,10 +241,15 @@ router.get('/:accessCode', async (req: Request, res: Response): Promise<void> =>
 
     const result = await query(
       `SELECT
-        id, title, description,
-        topic_count, topic_duration, interview_mode, status
-       FROM assignment_sessions
-       WHERE access_code = $1`,
+        s.id, s.title, s.description,
+        s.topic_count, s.topic_duration, s.interview_mode, s.interview_language, s.status,
+        s.ends_at IS NOT NULL AND s.ends_at <= NOW() AS window_passed,
+        EXISTS (SELECT 1 FROM session_roster_entries re WHERE re.session_id = s.id) AS roster_required,
+        EXISTS (
+          SELECT 1 FROM session_roster_entries re WHERE re.session_id = s.id AND re.pin_hash IS NOT NULL
+        ) AS pin_required
+       FROM assignment_sessions s
+       WHERE s.access_code = $1`,
       [accessCode.toUpperCase()]
     );
 
@@ -246,11 +263,11 @@ router.get('/:accessCode', async (req: Request, res: Response): Promise<void> =>
 
     const session = result.rows[0];
 
-    // Check if session is active
-    if (session.status !== 'active') {
+    // Check if session is active (past its closing time counts as ended before the scheduler runs)
+    if (session.status !== 'active' || session.window_passed) {
       res.status(400).json({
         success: false,
-        error: session.status === 'closed'
+        error: session.status === 'closed' || session.window_passed
           ? 'This session has ended'
           : 'This session is not yet active',
       });
@@ -267,7 +284,10 @@ router.get('/:accessCode', async (req: Request, res: Response): Promise<void> =>
           topicCount: session.topic_count,
           topicDuration: session.topic_duration,
           interviewMode: session.interview_mode,
+          interviewLanguage: session.interview_language,
           status: session.status,
+          rosterRequired: session.roster_required,
+          pinRequired: session.pin_required,
         },
       },
     });
@@ -284,7 +304,7 @@ router.get('/:accessCode', async (req: Request, res: Response): Promise<void> =>
 router.post('/:accessCode', async (req: Request, res: Response): Promise<void> => {
   try {
     const { accessCode } = req.params;
-    const { studentName, studentId } = req.body;
+    const { studentName, studentId, pin } = req.body;
 
     // Validate access code format
     if (!/^[A-Z0-9]{6}$/i.test(accessCode)) {
@@ -314,7 +334,8 @@ router.post('/:accessCode', async (req: Request, res: Response): Promise<void> =
 
     // Lookup session
     const sessionResult = await query(
-      `SELECT id, title, topic_count, topic_duration, interview_mode, status
+      `SELECT id, title, topic_count, topic_duration, interview_mode, interview_language, status,
+              ends_at IS NOT NULL AND ends_at <= NOW() AS window_passed
        FROM assignment_sessions
        WHERE access_code = $1`,
       [accessCode.toUpperCase()]
@@ -330,16 +351,64 @@ router.post('/:accessCode', async (req: Request, res: Response): Promise<void> =
 
     const session = sessionResult.rows[0];
 
-    if (session.status !== 'active') {
+    // Joins are only accepted inside the session's window
+    if (session.status !== 'active' || session.window_passed) {
       res.status(400).json({
         success: false,
-        error: session.status === 'closed'
+        error: session.status === 'closed' || session.window_passed
           ? 'This session has ended'
           : 'This session is not yet active',
       });
       return;
     }
 
+    // Sessions with a class roster only admit listed students
+    const rosterResult = await query<RosterEntryRecord>(
+      `SELECT id, student_name, student_id, pin_hash, participant_id, accommodations
+       FROM session_roster_entries
+       WHERE session_id = $1`,
+      [session.id]
+    );
+
+    let rosterEntry: RosterEntryRecord | null = null;
+    if (rosterResult.rows.length > 0) {
+      rosterEntry = findRosterMatch(rosterResult.rows, studentName, studentId?.trim() || null);
+
+      if (!rosterEntry) {
+        res.status(403).json({
+          success: false,
+          error: 'You are not on the class roster for this session. Check your name and student ID.',
+        });
+        return;
+      }
+
+      if (rosterEntry.pin_hash) {
+        if (isPinLocked(rosterEntry.id)) {
+          res.status(429).json({
+            success: false,
+            error: 'Too many incorrect PINs. Please try again in a few minutes.',
+          });
+          return;
+        }
+
+        if (typeof pin !== 'string' || !(await verifyRosterPin(rosterEntry.id, pin.trim(), rosterEntry.pin_hash))) {
+          res.status(403).json({
+            success: false,
+            error: 'Incorrect PIN',
+          });
+          return;
+        }
+      }
+
+      if (rosterEntry.participant_id) {
+        res.status(409).json({
+          success: false,
+          error: 'You have already joined this session',
+        });
+        return;
+      }
+    }
+
     // Check for duplicate participant
     const duplicateCheck = await query(
       `SELECT id FROM student_participants
@@ -358,16 +427,48 @@ router.post('/:accessCode', async (req: Request, res: Response): Promise<void> =
     }
 
     // Create participant with explicit session_token (fallback for missing DB trigger)
+    // Accommodations set on the roster entry go with the student
     const sessionToken = generateSessionToken();
     const participantResult = await query(
-      `INSERT INTO student_participants (session_id, student_name, student_id, session_token)
-       VALUES ($1, $2, $3, $4)
-       RETURNING id, session_token, student_name, student_id, status`,
-      [session.id, studentName.trim(), studentId?.trim() || null, sessionToken]
+      `INSERT INTO student_participants (session_id, student_name, student_id, session_token, accommodations)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id, session_token, student_name, student_id, status, registered_at, accommodations`,
+      [
+        session.id,
+        rosterEntry ? rosterEntry.student_name : studentName.trim(),
+        rosterEntry ? rosterEntry.student_id ?? (studentId?.trim() || null) : studentId?.trim() || null,
+        sessionToken,
+        JSON.stringify(normalizeAccommodations(rosterEntry?.accommodations)),
+      ]
     );
 
     const participant = participantResult.rows[0];
 
+    // Claim the roster entry; a concurrent join with the same entry loses
+    if (rosterEntry) {
+      const claimResult = await query(
+        `UPDATE session_roster_entries SET participant_id = $1
+         WHERE id = $2 AND participant_id IS NULL`,
+        [participant.id, rosterEntry.id]
+      );
+
+      if (claimResult.rowCount === 0) {
+        await query('DELETE FROM student_participants WHERE id = $1', [participant.id]);
+        res.status(409).json({
+          success: false,
+          error: 'You have already joined this session',
+        });
+        return;
+      }
+    }
+
+    publishSessionEvent(session.id, 'join', participant.id, {
+      studentName: participant.student_name,
+      studentId: participant.student_id,
+      status: participant.status,
+      registeredAt: participant.registered_at,
+    });
+
     res.status(201).json({
       success: true,
       data: {
@@ -378,6 +479,7 @@ router.post('/:accessCode', async (req: Request, res: Response): Promise<void> =
           studentName: participant.student_name,
           studentId: participant.student_id,
           status: participant.status,
+          accommodations: normalizeAccommodations(participant.accommodations),
         },
         session: {
           id: session.id,
@@ -385,6 +487,7 @@ router.post('/:accessCode', async (req: Request, res: Response): Promise<void> =
           topicCount: session.topic_count,
           topicDuration: session.topic_duration,
           interviewMode: session.interview_mode,
+          interviewLanguage: session.interview_language,
         },
       },
     });
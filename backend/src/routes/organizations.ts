@@ -0,0 +1,310 @@
+import { Router, Request, Response } from 'express';
+import { query, getClient } from '../db/connection.js';
+import { authMiddleware, requireOrganizationRole, OrganizationRole } from '../middleware/auth.js';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(authMiddleware);
+
+const ORGANIZATION_ROLES: OrganizationRole[] = ['admin', 'teacher', 'ta'];
+
+/**
+ * Number of admins left if the given member lost the admin role
+ * An organization always keeps at least one admin to manage it.
+ */
+async function remainingAdminCount(organizationId: string, teacherId: string): Promise<number> {
+  const result = await query<{ count: number }>(
+    `SELECT COUNT(*)::integer AS count
+     FROM organization_members
+     WHERE organization_id = $1 AND role = 'admin' AND teacher_id <> $2`,
+    [organizationId, teacherId]
+  );
+  return result.rows[0].count;
+}
+
+/**
+ * GET /api/organizations
+ * Organizations the teacher belongs to, with their role
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const result = await query(
+      `SELECT o.id, o.name, o.created_at, om.role,
+              (SELECT COUNT(*) FROM organization_members m WHERE m.organization_id = o.id)::integer AS member_count
+       FROM organizations o
+       JOIN organization_members om ON om.organization_id = o.id
+       WHERE om.teacher_id = $1
+       ORDER BY o.name ASC`,
+      [req.teacher.id]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        organizations: result.rows.map((o) => ({
+          id: o.id,
+          name: o.name,
+          role: o.role,
+          memberCount: o.member_count,
+          createdAt: o.created_at,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('List organizations error:', error);
+    res.status(500).json({ success: false, error: 'Failed to list organizations' });
+  }
+});
+
+/**
+ * POST /api/organizations
+ * Create an organization (the creator becomes its admin)
+ */
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { name } = req.body;
+
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      res.status(400).json({ success: false, error: 'Name is required' });
+      return;
+    }
+
+    if (name.length > 200) {
+      res.status(400).json({ success: false, error: 'Name must be 200 characters or less' });
+      return;
+    }
+
+    // Create the organization and its first admin together
+    const client = await getClient();
+    let organization;
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(
+        'INSERT INTO organizations (name) VALUES ($1) RETURNING id, name, created_at',
+        [name.trim()]
+      );
+      organization = result.rows[0];
+      await client.query(
+        `INSERT INTO organization_members (organization_id, teacher_id, role) VALUES ($1, $2, 'admin')`,
+        [organization.id, req.teacher.id]
+      );
+      await client.query('COMMIT');
+    } catch (transactionError) {
+      await client.query('ROLLBACK');
+      throw transactionError;
+    } finally {
+      client.release();
+    }
+
+    res.status(201).json({
+      success: true,
+      data: {
+        organization: {
+          id: organization.id,
+          name: organization.name,
+          role: 'admin',
+          memberCount: 1,
+          createdAt: organization.created_at,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Create organization error:', error);
+    res.status(500).json({ success: false, error: 'Failed to create organization' });
+  }
+});
+
+/**
+ * GET /api/organizations/:orgId/members
+ * Members of an organization
+ */
+router.get('/:orgId/members', requireOrganizationRole('admin', 'teacher', 'ta'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { orgId } = req.params;
+
+    const result = await query(
+      `SELECT t.id, t.name, t.email, om.role, om.created_at
+       FROM organization_members om
+       JOIN teachers t ON t.id = om.teacher_id
+       WHERE om.organization_id = $1
+       ORDER BY om.role ASC, t.name ASC`,
+      [orgId]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        members: result.rows.map((m) => ({
+          id: m.id,
+          name: m.name,
+          email: m.email,
+          role: m.role,
+          joinedAt: m.created_at,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('List organization members error:', error);
+    res.status(500).json({ success: false, error: 'Failed to list members' });
+  }
+});
+
+/**
+ * POST /api/organizations/:orgId/members
+ * Add a teacher to the organization by email (admin only)
+ */
+router.post('/:orgId/members', requireOrganizationRole('admin'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { orgId } = req.params;
+    const { email, role = 'teacher' } = req.body;
+
+    if (typeof email !== 'string' || email.trim().length === 0) {
+      res.status(400).json({ success: false, error: 'Email is required' });
+      return;
+    }
+
+    if (!ORGANIZATION_ROLES.includes(role)) {
+      res.status(400).json({ success: false, error: `Role must be one of: ${ORGANIZATION_ROLES.join(', ')}` });
+      return;
+    }
+
+    const teacherResult = await query(
+      'SELECT id, name, email FROM teachers WHERE email = $1',
+      [email.trim().toLowerCase()]
+    );
+
+    if (teacherResult.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'No teacher account with that email' });
+      return;
+    }
+
+    const member = teacherResult.rows[0];
+
+    const result = await query(
+      `INSERT INTO organization_members (organization_id, teacher_id, role)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (organization_id, teacher_id) DO NOTHING
+       RETURNING created_at`,
+      [orgId, member.id, role]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(409).json({ success: false, error: 'Teacher is already a member' });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      data: {
+        member: {
+          id: member.id,
+          name: member.name,
+          email: member.email,
+          role,
+          joinedAt: result.rows[0].created_at,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Add organization member error:', error);
+    res.status(500).json({ success: false, error: 'Failed to add member' });
+  }
+});
+
+/**
+ * PATCH /api/organizations/:orgId/members/:teacherId
+ * Change a member's role (admin only)
+ */
+router.patch('/:orgId/members/:teacherId', requireOrganizationRole('admin'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { orgId, teacherId } = req.params;
+    const { role } = req.body;
+
+    if (!ORGANIZATION_ROLES.includes(role)) {
+      res.status(400).json({ success: false, error: `Role must be one of: ${ORGANIZATION_ROLES.join(', ')}` });
+      return;
+    }
+
+    if (role !== 'admin' && (await remainingAdminCount(orgId, teacherId)) === 0) {
+      res.status(409).json({ success: false, error: 'An organization needs at least one admin' });
+      return;
+    }
+
+    const result = await query(
+      `UPDATE organization_members SET role = $1
+       WHERE organization_id = $2 AND teacher_id = $3
+       RETURNING role`,
+      [role, orgId, teacherId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'Member not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { role: result.rows[0].role },
+    });
+  } catch (error) {
+    console.error('Update organization member error:', error);
+    res.status(500).json({ success: false, error: 'Failed to update member' });
+  }
+});
+
+/**
+ * DELETE /api/organizations/:orgId/members/:teacherId
+ * Remove a member (admins remove anyone; members can leave)
+ * Sessions the member created stay theirs and stay in the organization.
+ */
+router.delete('/:orgId/members/:teacherId', requireOrganizationRole('admin', 'teacher', 'ta'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { orgId, teacherId } = req.params;
+
+    if (req.organizationRole !== 'admin' && teacherId !== req.teacher.id) {
+      res.status(403).json({ success: false, error: 'This requires the admin role in the organization' });
+      return;
+    }
+
+    if ((await remainingAdminCount(orgId, teacherId)) === 0) {
+      res.status(409).json({ success: false, error: 'An organization needs at least one admin' });
+      return;
+    }
+
+    const result = await query(
+      'DELETE FROM organization_members WHERE organization_id = $1 AND teacher_id = $2 RETURNING teacher_id',
+      [orgId, teacherId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'Member not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { message: 'Member removed' },
+    });
+  } catch (error) {
+    console.error('Remove organization member error:', error);
+    res.status(500).json({ success: false, error: 'Failed to remove member' });
+  }
+});
+
+export default router;
@@ -1,7 +1,29 @@
 import { Router, Request, Response } from 'express';
-import { query } from '../db/connection.js';
-import { authMiddleware } from '../middleware/auth.js';
-import { downloadFile, isStorageConfigured } from '../services/storage.js';
+import { query, getClient } from '../db/connection.js';
+import { authMiddleware, requireSessionAccess, getOrganizationRole, resolveSessionRole } from '../middleware/auth.js';
+import { attachmentDisposition, getSignedUrl, isStorageConfigured } from '../services/storage/index.js';
+import { parseRubric } from '../services/rubric.js';
+import { MAX_TOPICS, parseTopics } from '../services/topics.js';
+import { parseQuestionBank } from '../services/questionBank.js';
+import { subscribeSessionEvents, publishSessionEvent } from '../services/sessionEvents.js';
+import {
+  EXPORT_FORMATS,
+  EXPORT_CONTENT_TYPES,
+  ExportFormat,
+  ExportParticipantRecord,
+  buildExportRows,
+  toCsv,
+  toXlsx,
+} from '../services/sessionExport.js';
+import { isReportFontAvailable, renderReport, ReportParticipant } from '../services/interviewReport.js';
+import { buildIntegrityReport } from '../services/integritySignals.js';
+import { parseRosterCsv, normalizeRosterName, hashRosterPin } from '../services/roster.js';
+import { INTERVIEW_LANGUAGES, DEFAULT_INTERVIEW_LANGUAGE, isInterviewLanguage } from '../services/languages.js';
+import { parseScheduleTime, scheduleError } from '../services/sessionSchedule.js';
+import { SESSION_SETTING_COLUMNS } from '../services/sessionTemplates.js';
+import { parsePauseBudget, studentPauseStatus } from '../services/studentPause.js';
+import { normalizeAccommodations, parseAccommodations } from '../services/accommodations.js';
+import { parseEvaluationReview, EvaluationReview } from '../services/evaluationReview.js';
 
 const router = Router();
 
@@ -11,9 +33,108 @@ router.use(authMiddleware);
 // QR code API URL
 const QR_API_URL = 'https://api.qrserver.com/v1/create-qr-code';
 
+// SSE keep-alive interval (proxies drop idle connections around 30-60s)
+const SSE_KEEPALIVE_MS = 25000;
+
+/**
+ * Participants with topics, transcript and summary for PDF reports
+ * One participant when participantId is given, otherwise every completed participant.
+ */
+async function loadReportParticipants(sessionId: string, participantId?: string): Promise<ReportParticipant[]> {
+  const participantsResult = await query(
+    `SELECT id, student_name, student_id, status, chosen_interview_mode, submitted_file_name,
+            file_submitted_at, interview_started_at, interview_ended_at, analyzed_topics, summary,
+            teacher_review
+     FROM student_participants
+     WHERE session_id = $1 AND ${participantId ? 'id = $2' : "status = 'completed'"}
+     ORDER BY student_id ASC NULLS LAST, student_name ASC`,
+    participantId ? [sessionId, participantId] : [sessionId]
+  );
+
+  if (participantsResult.rows.length === 0) {
+    return [];
+  }
+
+  const conversationsResult = await query(
+    `SELECT participant_id, topic_index, role, content, created_at
+     FROM interview_conversations
+     WHERE participant_id = ANY($1)
+     ORDER BY topic_index ASC, turn_index ASC`,
+    [participantsResult.rows.map((p) => p.id)]
+  );
+
+  return participantsResult.rows.map((p) => ({
+    id: p.id,
+    studentName: p.student_name,
+    studentId: p.student_id,
+    status: p.status,
+    interviewMode: p.chosen_interview_mode,
+    submittedFileName: p.submitted_file_name,
+    fileSubmittedAt: p.file_submitted_at,
+    interviewStartedAt: p.interview_started_at,
+    interviewEndedAt: p.interview_ended_at,
+    topics: p.analyzed_topics || [],
+    conversations: conversationsResult.rows
+      .filter((c) => c.participant_id === p.id)
+      .map((c) => ({
+        topicIndex: c.topic_index,
+        role: c.role,
+        content: c.content,
+        createdAt: c.created_at,
+      })),
+    summary: p.summary,
+    review: p.teacher_review,
+  }));
+}
+
+/**
+ * Why the teacher can't put a session in the organization, or null if they can
+ * Admins and teachers can; TAs only work on sessions shared with them.
+ */
+async function organizationSessionError(organizationId: unknown, teacherId: string): Promise<string | null> {
+  if (typeof organizationId !== 'string') {
+    return 'organizationId must be a string';
+  }
+
+  const role = await getOrganizationRole(organizationId, teacherId);
+  if (!role) return 'Organization not found';
+  if (role === 'ta') return 'Teaching assistants cannot add sessions to an organization';
+  return null;
+}
+
+/**
+ * Roster entries with the participant that joined as each one
+ */
+async function loadRoster(sessionId: string) {
+  const result = await query(
+    `SELECT re.id, re.student_name, re.student_id, re.pin_hash IS NOT NULL AS has_pin,
+            re.participant_id, re.accommodations, sp.status AS participant_status, sp.registered_at
+     FROM session_roster_entries re
+     LEFT JOIN student_participants sp ON sp.id = re.participant_id
+     WHERE re.session_id = $1
+     ORDER BY re.student_id ASC NULLS LAST, re.student_name ASC`,
+    [sessionId]
+  );
+
+  return {
+    entries: result.rows.map((e) => ({
+      id: e.id,
+      studentName: e.student_name,
+      studentId: e.student_id,
+      hasPin: e.has_pin,
+      accommodations: normalizeAccommodations(e.accommodations),
+      participantId: e.participant_id,
+      participantStatus: e.participant_status,
+      joinedAt: e.registered_at,
+    })),
+    total: result.rows.length,
+    joined: result.rows.filter((e) => e.participant_id).length,
+  };
+}
+
 /**
  * GET /api/sessions
- * List all sessions for authenticated teacher
+ * List sessions the teacher owns, co-teaches, or can view as an organization admin
  */
 router.get('/', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -27,15 +148,27 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
     let queryText = `
       SELECT
         s.id, s.title, s.description,
-        s.topic_count, s.topic_duration, s.interview_mode,
+        s.topic_count, s.topic_duration, s.interview_mode, s.interview_language,
         s.access_code, s.status, s.created_at, s.updated_at,
-        s.starts_at, s.ends_at,
+        s.starts_at, s.ends_at, s.organization_id,
+        o.name as organization_name, t.name as owner_name,
+        s.teacher_id = $1 AS is_owner, sc.role AS collaborator_role, om.role AS org_role,
         COUNT(sp.id)::integer as participant_count,
         COUNT(CASE WHEN sp.status = 'completed' THEN 1 END)::integer as completed_count,
         COUNT(CASE WHEN sp.status = 'interview_in_progress' THEN 1 END)::integer as active_count
       FROM assignment_sessions s
+      JOIN teachers t ON t.id = s.teacher_id
+      LEFT JOIN organizations o ON o.id = s.organization_id
+      LEFT JOIN session_collaborators sc ON sc.session_id = s.id AND sc.teacher_id = $1
+      LEFT JOIN organization_members om ON om.organization_id = s.organization_id AND om.teacher_id = $1
       LEFT JOIN student_participants sp ON s.id = sp.session_id
-      WHERE s.teacher_id = $1
+      WHERE (
+        s.teacher_id = $1
+        OR sc.teacher_id IS NOT NULL
+        OR s.organization_id IN (
+          SELECT organization_id FROM organization_members WHERE teacher_id = $1 AND role = 'admin'
+        )
+      )
     `;
 
     const params: (string | undefined)[] = [req.teacher.id];
@@ -45,7 +178,7 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
       params.push(status as string);
     }
 
-    queryText += ' GROUP BY s.id ORDER BY s.created_at DESC';
+    queryText += ' GROUP BY s.id, o.name, t.name, sc.role, om.role ORDER BY s.created_at DESC';
 
     const result = await query(queryText, params);
 
@@ -59,6 +192,7 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
           topicCount: row.topic_count,
           topicDuration: row.topic_duration,
           interviewMode: row.interview_mode,
+          interviewLanguage: row.interview_language,
           accessCode: row.access_code,
           status: row.status,
           participantCount: row.participant_count,
@@ -66,6 +200,14 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
           activeCount: row.active_count,
           startsAt: row.starts_at,
           endsAt: row.ends_at,
+          // Same rules as requireSessionAccess, so the list only offers what the routes allow
+          accessRole: resolveSessionRole({
+            is_owner: row.is_owner,
+            collaborator_role: row.collaborator_role,
+            org_role: row.org_role,
+          }),
+          ownerName: row.owner_name,
+          organization: row.organization_id ? { id: row.organization_id, name: row.organization_name } : null,
           createdAt: row.created_at,
           updatedAt: row.updated_at,
         })),
@@ -94,7 +236,15 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
       topicCount = 3,
       topicDuration = 180,
       interviewMode = 'student_choice',
+      interviewLanguage = DEFAULT_INTERVIEW_LANGUAGE,
       assignmentInfo,
+      rubric: rubricInput,
+      requireTopicApproval = false,
+      questionBank: questionBankInput,
+      organizationId = null,
+      startsAt: startsAtInput,
+      endsAt: endsAtInput,
+      pauseBudget: pauseBudgetInput = 0,
     } = req.body;
 
     // Validate title
@@ -114,11 +264,11 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Validate topic count (1-5)
-    if (topicCount < 1 || topicCount > 5) {
+    // Validate topic count (1-MAX_TOPICS)
+    if (topicCount < 1 || topicCount > MAX_TOPICS) {
       res.status(400).json({
         success: false,
-        error: 'Topic count must be between 1 and 5',
+        error: `Topic count must be between 1 and ${MAX_TOPICS}`,
       });
       return;
     }
@@ -141,10 +291,82 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // Validate interview language
+    if (!isInterviewLanguage(interviewLanguage)) {
+      res.status(400).json({
+        success: false,
+        error: `Interview language must be one of: ${INTERVIEW_LANGUAGES.join(', ')}`,
+      });
+      return;
+    }
+
+    // Validate rubric (optional)
+    const { rubric, error: rubricError } = parseRubric(rubricInput);
+    if (rubricError) {
+      res.status(400).json({
+        success: false,
+        error: rubricError,
+      });
+      return;
+    }
+
+    if (typeof requireTopicApproval !== 'boolean') {
+      res.status(400).json({
+        success: false,
+        error: 'requireTopicApproval must be a boolean',
+      });
+      return;
+    }
+
+    // Validate question bank (optional)
+    const { questionBank, error: questionBankError } = parseQuestionBank(questionBankInput);
+    if (questionBankError) {
+      res.status(400).json({
+        success: false,
+        error: questionBankError,
+      });
+      return;
+    }
+
+    // Validate student pause budget (seconds per interview, 0 = off)
+    const { budget: pauseBudget, error: pauseBudgetError } = parsePauseBudget(pauseBudgetInput);
+    if (pauseBudgetError) {
+      res.status(400).json({
+        success: false,
+        error: pauseBudgetError,
+      });
+      return;
+    }
+
+    // Validate organization (optional)
+    if (organizationId !== null) {
+      const organizationError = await organizationSessionError(organizationId, req.teacher.id);
+      if (organizationError) {
+        res.status(400).json({
+          success: false,
+          error: organizationError,
+        });
+        return;
+      }
+    }
+
+    // Validate schedule (optional; the session scheduler opens and closes it)
+    const { time: startsAt, error: startsAtError } = parseScheduleTime(startsAtInput, 'startsAt');
+    const { time: endsAt, error: endsAtError } = parseScheduleTime(endsAtInput, 'endsAt');
+    const windowError = startsAtError || endsAtError || scheduleError(startsAt, endsAt);
+    if (windowError) {
+      res.status(400).json({
+        success: false,
+        error: windowError,
+      });
+      return;
+    }
+
     const result = await query(
       `INSERT INTO assignment_sessions
-        (teacher_id, title, description, topic_count, topic_duration, interview_mode, assignment_info)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
+        (teacher_id, title, description, topic_count, topic_duration, interview_mode, assignment_info, rubric,
+         require_topic_approval, question_bank, organization_id, interview_language, starts_at, ends_at, pause_budget)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
        RETURNING *`,
       [
         req.teacher.id,
@@ -154,6 +376,14 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
         topicDuration,
         interviewMode,
         assignmentInfo?.trim() || null,
+        rubric ? JSON.stringify(rubric) : null,
+        requireTopicApproval,
+        questionBank ? JSON.stringify(questionBank) : null,
+        organizationId,
+        interviewLanguage,
+        startsAt,
+        endsAt,
+        pauseBudget,
       ]
     );
 
@@ -170,8 +400,16 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
           topicCount: session.topic_count,
           topicDuration: session.topic_duration,
           interviewMode: session.interview_mode,
+          interviewLanguage: session.interview_language,
           assignmentInfo: session.assignment_info,
+          rubric: session.rubric,
+          requireTopicApproval: session.require_topic_approval,
+          questionBank: session.question_bank,
+          pauseBudget: session.pause_budget,
+          organizationId: session.organization_id,
           status: session.status,
+          startsAt: session.starts_at,
+          endsAt: session.ends_at,
           createdAt: session.created_at,
         },
       },
@@ -186,7 +424,7 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
  * GET /api/sessions/:id
  * Get session details
  */
-router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+router.get('/:id', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.teacher) {
       res.status(401).json({ success: false, error: 'Not authenticated' });
@@ -196,9 +434,12 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
 
     const result = await query(
-      `SELECT * FROM assignment_sessions
-       WHERE id = $1 AND teacher_id = $2`,
-      [id, req.teacher.id]
+      `SELECT s.*, t.name AS owner_name, o.name AS organization_name
+       FROM assignment_sessions s
+       JOIN teachers t ON t.id = s.teacher_id
+       LEFT JOIN organizations o ON o.id = s.organization_id
+       WHERE s.id = $1`,
+      [id]
     );
 
     if (result.rows.length === 0) {
@@ -214,7 +455,8 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
     // Get participants with interview state for topic progress display
     const participantsResult = await query(
       `SELECT sp.id, sp.student_name, sp.student_id, sp.status,
-              sp.registered_at, sp.interview_ended_at,
+              sp.registered_at, sp.interview_ended_at, sp.disconnected_at,
+              sp.chosen_interview_mode, sp.topics_approved_at,
               ist.current_topic_index, ist.current_phase
        FROM student_participants sp
        LEFT JOIN interview_states ist ON sp.id = ist.participant_id
@@ -232,12 +474,22 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
         topicCount: session.topic_count,
         topicDuration: session.topic_duration,
         interviewMode: session.interview_mode,
+        interviewLanguage: session.interview_language,
         assignmentInfo: session.assignment_info,
+        rubric: session.rubric,
+        requireTopicApproval: session.require_topic_approval,
+        questionBank: session.question_bank,
+        pauseBudget: session.pause_budget,
         accessCode: session.access_code,
         status: session.status,
         reconnectTimeout: session.reconnect_timeout,
         startsAt: session.starts_at,
         endsAt: session.ends_at,
+        accessRole: req.sessionRole,
+        ownerName: session.owner_name,
+        organization: session.organization_id
+          ? { id: session.organization_id, name: session.organization_name }
+          : null,
         createdAt: session.created_at,
         updatedAt: session.updated_at,
         participants: participantsResult.rows.map((p) => ({
@@ -247,6 +499,9 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
           status: p.status,
           registeredAt: p.registered_at,
           interviewEndedAt: p.interview_ended_at,
+          disconnectedAt: p.disconnected_at,
+          chosenInterviewMode: p.chosen_interview_mode,
+          topicsApprovedAt: p.topics_approved_at,
           currentTopicIndex: p.current_topic_index,
           currentPhase: p.current_phase,
         })),
@@ -258,11 +513,55 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * GET /api/sessions/:id/events
+ * Server-Sent Events stream of participant activity for live monitoring
+ * Events: join, reconnect, upload, topics-approved, interview-start, topic-change, disconnect, abandon,
+ * evaluation-complete
+ */
+router.get('/:id/events', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx, Railway)
+    });
+    res.write(`retry: 3000\n\n`);
+    res.write(`event: connected\ndata: ${JSON.stringify({ sessionId: id })}\n\n`);
+
+    const unsubscribe = subscribeSessionEvents(id, (event) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+
+    const keepAlive = setInterval(() => {
+      res.write(': keep-alive\n\n');
+    }, SSE_KEEPALIVE_MS);
+
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  } catch (error) {
+    console.error('Session events error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, error: 'Failed to open event stream' });
+    }
+  }
+});
+
 /**
  * PUT /api/sessions/:id
  * Update session
  */
-router.put('/:id', async (req: Request, res: Response): Promise<void> => {
+router.put('/:id', requireSessionAccess('edit'), async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.teacher) {
       res.status(401).json({ success: false, error: 'Not authenticated' });
@@ -270,12 +569,26 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
     }
 
     const { id } = req.params;
-    const { title, description, topicCount, topicDuration, interviewMode } = req.body;
+    const {
+      title,
+      description,
+      topicCount,
+      topicDuration,
+      interviewMode,
+      interviewLanguage,
+      rubric: rubricInput,
+      requireTopicApproval,
+      questionBank: questionBankInput,
+      organizationId,
+      startsAt: startsAtInput,
+      endsAt: endsAtInput,
+      pauseBudget: pauseBudgetInput,
+    } = req.body;
 
-    // Check session exists and belongs to teacher
+    // Check session exists
     const existing = await query(
-      'SELECT status FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
-      [id, req.teacher.id]
+      'SELECT status, starts_at, ends_at FROM assignment_sessions WHERE id = $1',
+      [id]
     );
 
     if (existing.rows.length === 0) {
@@ -289,7 +602,7 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
     const currentStatus = existing.rows[0].status;
 
     // Only allow full updates for draft sessions
-    if (currentStatus !== 'draft' && (topicCount || topicDuration || interviewMode)) {
+    if (currentStatus !== 'draft' && (topicCount || topicDuration || interviewMode || interviewLanguage)) {
       res.status(400).json({
         success: false,
         error: 'Cannot modify settings for active or closed sessions',
@@ -299,7 +612,7 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
 
     // Build update query dynamically
     const updates: string[] = [];
-    const values: (string | number)[] = [];
+    const values: (string | number | boolean | Date | null)[] = [];
     let paramIndex = 1;
 
     if (title !== undefined) {
@@ -317,8 +630,8 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
     }
 
     if (topicCount !== undefined && currentStatus === 'draft') {
-      if (topicCount < 1 || topicCount > 5) {
-        res.status(400).json({ success: false, error: 'Topic count must be between 1 and 5' });
+      if (topicCount < 1 || topicCount > MAX_TOPICS) {
+        res.status(400).json({ success: false, error: `Topic count must be between 1 and ${MAX_TOPICS}` });
         return;
       }
       updates.push(`topic_count = $${paramIndex++}`);
@@ -343,6 +656,107 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
       values.push(interviewMode);
     }
 
+    if (interviewLanguage !== undefined && currentStatus === 'draft') {
+      if (!isInterviewLanguage(interviewLanguage)) {
+        res.status(400).json({ success: false, error: `Interview language must be one of: ${INTERVIEW_LANGUAGES.join(', ')}` });
+        return;
+      }
+      updates.push(`interview_language = $${paramIndex++}`);
+      values.push(interviewLanguage);
+    }
+
+    // Rubric can change at any time; it only affects evaluations that have not run yet
+    if (rubricInput !== undefined) {
+      const { rubric, error: rubricError } = parseRubric(rubricInput);
+      if (rubricError) {
+        res.status(400).json({ success: false, error: rubricError });
+        return;
+      }
+      updates.push(`rubric = $${paramIndex++}`);
+      values.push(rubric ? JSON.stringify(rubric) : null);
+    }
+
+    // Approval can be toggled at any time; it applies to participants who have not started yet
+    if (requireTopicApproval !== undefined) {
+      if (typeof requireTopicApproval !== 'boolean') {
+        res.status(400).json({ success: false, error: 'requireTopicApproval must be a boolean' });
+        return;
+      }
+      updates.push(`require_topic_approval = $${paramIndex++}`);
+      values.push(requireTopicApproval);
+    }
+
+    // Question bank can change at any time; interviews already started keep their plan
+    if (questionBankInput !== undefined) {
+      const { questionBank, error: questionBankError } = parseQuestionBank(questionBankInput);
+      if (questionBankError) {
+        res.status(400).json({ success: false, error: questionBankError });
+        return;
+      }
+      updates.push(`question_bank = $${paramIndex++}`);
+      values.push(questionBank ? JSON.stringify(questionBank) : null);
+    }
+
+    // Pause budget can change at any time; running interviews use the new budget right away
+    if (pauseBudgetInput !== undefined) {
+      const { budget: pauseBudget, error: pauseBudgetError } = parsePauseBudget(pauseBudgetInput);
+      if (pauseBudgetError) {
+        res.status(400).json({ success: false, error: pauseBudgetError });
+        return;
+      }
+      updates.push(`pause_budget = $${paramIndex++}`);
+      values.push(pauseBudget);
+    }
+
+    // Only the owner decides which organization's admins can see the session (null = personal)
+    if (organizationId !== undefined) {
+      if (req.sessionRole !== 'owner') {
+        res.status(403).json({ success: false, error: 'Only the session owner can change its organization' });
+        return;
+      }
+      if (organizationId !== null) {
+        const organizationError = await organizationSessionError(organizationId, req.teacher.id);
+        if (organizationError) {
+          res.status(400).json({ success: false, error: organizationError });
+          return;
+        }
+      }
+      updates.push(`organization_id = $${paramIndex++}`);
+      values.push(organizationId);
+    }
+
+    // Opening time can change until the session opens, closing time until it closes
+    if (startsAtInput !== undefined || endsAtInput !== undefined) {
+      if (startsAtInput !== undefined && currentStatus !== 'draft') {
+        res.status(400).json({ success: false, error: 'Opening time can only be changed for draft sessions' });
+        return;
+      }
+      if (currentStatus === 'closed') {
+        res.status(400).json({ success: false, error: 'Cannot change the schedule of a closed session' });
+        return;
+      }
+
+      const { time: startsAt, error: startsAtError } = parseScheduleTime(startsAtInput, 'startsAt');
+      const { time: endsAt, error: endsAtError } = parseScheduleTime(endsAtInput, 'endsAt');
+      const windowError = startsAtError || endsAtError || scheduleError(
+        startsAtInput !== undefined ? startsAt : existing.rows[0].starts_at,
+        endsAtInput !== undefined ? endsAt : existing.rows[0].ends_at
+      );
+      if (windowError) {
+        res.status(400).json({ success: false, error: windowError });
+        return;
+      }
+
+      if (startsAtInput !== undefined) {
+        updates.push(`starts_at = $${paramIndex++}`);
+        values.push(startsAt);
+      }
+      if (endsAtInput !== undefined) {
+        updates.push(`ends_at = $${paramIndex++}`);
+        values.push(endsAt);
+      }
+    }
+
     if (updates.length === 0) {
       res.status(400).json({
         success: false,
@@ -352,12 +766,11 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
     }
 
     values.push(id);
-    values.push(req.teacher.id);
 
     const result = await query(
       `UPDATE assignment_sessions
        SET ${updates.join(', ')}
-       WHERE id = $${paramIndex++} AND teacher_id = $${paramIndex}
+       WHERE id = $${paramIndex}
        RETURNING *`,
       values
     );
@@ -375,7 +788,15 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
           topicCount: session.topic_count,
           topicDuration: session.topic_duration,
           interviewMode: session.interview_mode,
+          interviewLanguage: session.interview_language,
+          rubric: session.rubric,
+          requireTopicApproval: session.require_topic_approval,
+          questionBank: session.question_bank,
+          pauseBudget: session.pause_budget,
+          organizationId: session.organization_id,
           status: session.status,
+          startsAt: session.starts_at,
+          endsAt: session.ends_at,
           updatedAt: session.updated_at,
         },
       },
@@ -390,7 +811,7 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
  * DELETE /api/sessions/:id
  * Delete session (only draft status)
  */
-router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+router.delete('/:id', requireSessionAccess('own'), async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.teacher) {
       res.status(401).json({ success: false, error: 'Not authenticated' });
@@ -399,10 +820,10 @@ router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
 
     const { id } = req.params;
 
-    // Check session exists, belongs to teacher, and is draft
+    // Check session exists and is draft
     const existing = await query(
-      'SELECT status FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
-      [id, req.teacher.id]
+      'SELECT status FROM assignment_sessions WHERE id = $1',
+      [id]
     );
 
     if (existing.rows.length === 0) {
@@ -439,7 +860,7 @@ router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
  * POST /api/sessions/:id/activate
  * Activate session (generates access code)
  */
-router.post('/:id/activate', async (req: Request, res: Response): Promise<void> => {
+router.post('/:id/activate', requireSessionAccess('edit'), async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.teacher) {
       res.status(401).json({ success: false, error: 'Not authenticated' });
@@ -450,8 +871,8 @@ router.post('/:id/activate', async (req: Request, res: Response): Promise<void>
 
     // Check session exists and is draft
     const existing = await query(
-      'SELECT status FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
-      [id, req.teacher.id]
+      'SELECT status, ends_at <= NOW() AS window_passed FROM assignment_sessions WHERE id = $1',
+      [id]
     );
 
     if (existing.rows.length === 0) {
@@ -470,13 +891,21 @@ router.post('/:id/activate', async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Update status to active (trigger generates access_code)
+    if (existing.rows[0].window_passed) {
+      res.status(400).json({
+        success: false,
+        error: 'The scheduled closing time has already passed',
+      });
+      return;
+    }
+
+    // Update status to active (trigger generates access_code); a scheduled opening time is replaced by now
     const result = await query(
       `UPDATE assignment_sessions
        SET status = 'active', starts_at = NOW()
-       WHERE id = $1 AND teacher_id = $2
+       WHERE id = $1
        RETURNING id, access_code`,
-      [id, req.teacher.id]
+      [id]
     );
 
     const session = result.rows[0];
@@ -499,9 +928,9 @@ router.post('/:id/activate', async (req: Request, res: Response): Promise<void>
 
 /**
  * POST /api/sessions/:id/close
- * Close session
+ * Close session (interviews in progress finish their current topic, then are finalized)
  */
-router.post('/:id/close', async (req: Request, res: Response): Promise<void> => {
+router.post('/:id/close', requireSessionAccess('edit'), async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.teacher) {
       res.status(401).json({ success: false, error: 'Not authenticated' });
@@ -512,8 +941,8 @@ router.post('/:id/close', async (req: Request, res: Response): Promise<void> =>
 
     // Check session exists and is active
     const existing = await query(
-      'SELECT status FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
-      [id, req.teacher.id]
+      'SELECT status FROM assignment_sessions WHERE id = $1',
+      [id]
     );
 
     if (existing.rows.length === 0) {
@@ -551,11 +980,86 @@ router.post('/:id/close', async (req: Request, res: Response): Promise<void> =>
   }
 });
 
+/**
+ * POST /api/sessions/:id/duplicate
+ * Copy the session's settings into a new draft owned by the teacher
+ * Status, access code, schedule, roster, collaborators and participants are not copied.
+ */
+router.post('/:id/duplicate', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { title } = req.body;
+
+    if (title !== undefined && (typeof title !== 'string' || title.trim().length === 0 || title.length > 200)) {
+      res.status(400).json({
+        success: false,
+        error: 'Title must be 1-200 characters',
+      });
+      return;
+    }
+
+    const existing = await query(
+      'SELECT title, organization_id FROM assignment_sessions WHERE id = $1',
+      [id]
+    );
+    const source = existing.rows[0];
+
+    // The copy stays in the organization only if the teacher may add sessions to it
+    const organizationId = source.organization_id
+      && !(await organizationSessionError(source.organization_id, req.teacher.id))
+      ? source.organization_id
+      : null;
+
+    const result = await query(
+      `INSERT INTO assignment_sessions (teacher_id, organization_id, title, ${SESSION_SETTING_COLUMNS})
+       SELECT $2, $3, $4, ${SESSION_SETTING_COLUMNS}
+       FROM assignment_sessions
+       WHERE id = $1
+       RETURNING *`,
+      [id, req.teacher.id, organizationId, title?.trim() || `${source.title} (copy)`.slice(0, 200)]
+    );
+
+    const session = result.rows[0];
+
+    res.status(201).json({
+      success: true,
+      data: {
+        message: 'Session duplicated',
+        session: {
+          id: session.id,
+          title: session.title,
+          description: session.description,
+          topicCount: session.topic_count,
+          topicDuration: session.topic_duration,
+          interviewMode: session.interview_mode,
+          interviewLanguage: session.interview_language,
+          assignmentInfo: session.assignment_info,
+          rubric: session.rubric,
+          requireTopicApproval: session.require_topic_approval,
+          questionBank: session.question_bank,
+          pauseBudget: session.pause_budget,
+          organizationId: session.organization_id,
+          status: session.status,
+          createdAt: session.created_at,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Duplicate session error:', error);
+    res.status(500).json({ success: false, error: 'Failed to duplicate session' });
+  }
+});
+
 /**
  * GET /api/sessions/:id/qr
  * Get QR code for session
  */
-router.get('/:id/qr', async (req: Request, res: Response): Promise<void> => {
+router.get('/:id/qr', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.teacher) {
       res.status(401).json({ success: false, error: 'Not authenticated' });
@@ -565,9 +1069,8 @@ router.get('/:id/qr', async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
 
     const result = await query(
-      `SELECT access_code, status FROM assignment_sessions
-       WHERE id = $1 AND teacher_id = $2`,
-      [id, req.teacher.id]
+      'SELECT access_code, status FROM assignment_sessions WHERE id = $1',
+      [id]
     );
 
     if (result.rows.length === 0) {
@@ -610,7 +1113,7 @@ router.get('/:id/qr', async (req: Request, res: Response): Promise<void> => {
  * GET /api/sessions/:id/participants
  * List session participants
  */
-router.get('/:id/participants', async (req: Request, res: Response): Promise<void> => {
+router.get('/:id/participants', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.teacher) {
       res.status(401).json({ success: false, error: 'Not authenticated' });
@@ -620,25 +1123,11 @@ router.get('/:id/participants', async (req: Request, res: Response): Promise<voi
     const { id } = req.params;
     const { status } = req.query;
 
-    // Verify session belongs to teacher
-    const sessionCheck = await query(
-      'SELECT id FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
-      [id, req.teacher.id]
-    );
-
-    if (sessionCheck.rows.length === 0) {
-      res.status(404).json({
-        success: false,
-        error: 'Session not found',
-      });
-      return;
-    }
-
     let queryText = `
       SELECT id, student_name, student_id, status,
              registered_at, file_submitted_at,
              interview_started_at, interview_ended_at,
-             chosen_interview_mode
+             chosen_interview_mode, accommodations
       FROM student_participants
       WHERE session_id = $1
     `;
@@ -667,6 +1156,7 @@ router.get('/:id/participants', async (req: Request, res: Response): Promise<voi
           fileSubmittedAt: p.file_submitted_at,
           interviewStartedAt: p.interview_started_at,
           interviewEndedAt: p.interview_ended_at,
+          accommodations: normalizeAccommodations(p.accommodations),
         })),
       },
     });
@@ -677,113 +1167,1024 @@ router.get('/:id/participants', async (req: Request, res: Response): Promise<voi
 });
 
 /**
- * GET /api/sessions/:id/participants/:participantId
- * Get participant details with conversation history
+ * GET /api/sessions/:id/roster
+ * Class roster with who has joined
  */
-router.get('/:id/participants/:participantId', async (req: Request, res: Response): Promise<void> => {
+router.get('/:id/roster', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.teacher) {
       res.status(401).json({ success: false, error: 'Not authenticated' });
       return;
     }
 
-    const { id, participantId } = req.params;
-
-    // Verify session belongs to teacher
-    const sessionCheck = await query(
-      'SELECT id FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
-      [id, req.teacher.id]
-    );
-
-    if (sessionCheck.rows.length === 0) {
-      res.status(404).json({
-        success: false,
-        error: 'Session not found',
-      });
-      return;
-    }
-
-    // Get participant details
-    const participantResult = await query(
-      `SELECT
-        id, student_name, student_id, status,
-        chosen_interview_mode, submitted_file_name, submitted_file_url,
-        analyzed_topics, summary,
-        registered_at, file_submitted_at,
-        interview_started_at, interview_ended_at
-       FROM student_participants
-       WHERE id = $1 AND session_id = $2`,
-      [participantId, id]
-    );
-
-    if (participantResult.rows.length === 0) {
-      res.status(404).json({
-        success: false,
-        error: 'Participant not found',
-      });
-      return;
-    }
-
-    const participant = participantResult.rows[0];
-
-    // Get conversation history
-    const conversationsResult = await query(
-      `SELECT topic_index, turn_index, role, content, created_at
-       FROM interview_conversations
-       WHERE participant_id = $1
-       ORDER BY topic_index ASC, turn_index ASC`,
-      [participantId]
-    );
+    const { id } = req.params;
 
     res.status(200).json({
       success: true,
-      data: {
-        id: participant.id,
-        studentName: participant.student_name,
-        studentId: participant.student_id,
-        status: participant.status,
-        chosenInterviewMode: participant.chosen_interview_mode,
-        submittedFileName: participant.submitted_file_name,
-        submittedFileUrl: participant.submitted_file_url,
-        analyzedTopics: participant.analyzed_topics,
-        summary: participant.summary,
-        registeredAt: participant.registered_at,
-        fileSubmittedAt: participant.file_submitted_at,
-        interviewStartedAt: participant.interview_started_at,
-        interviewEndedAt: participant.interview_ended_at,
-        conversations: conversationsResult.rows.map((c) => ({
-          topicIndex: c.topic_index,
-          turnIndex: c.turn_index,
-          role: c.role,
-          content: c.content,
-          createdAt: c.created_at,
-        })),
-      },
+      data: await loadRoster(id),
     });
   } catch (error) {
-    console.error('Get participant details error:', error);
-    res.status(500).json({ success: false, error: 'Failed to get participant details' });
+    console.error('Get roster error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get roster' });
   }
 });
 
 /**
- * GET /api/sessions/:id/participants/:participantId/download
- * Download participant's submitted file
+ * PUT /api/sessions/:id/roster
+ * Replace the class roster from CSV text (name, student ID, optional PIN)
+ * Students who already joined stay linked to their entry.
  */
-router.get('/:id/participants/:participantId/download', async (req: Request, res: Response): Promise<void> => {
+router.put('/:id/roster', requireSessionAccess('edit'), async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.teacher) {
       res.status(401).json({ success: false, error: 'Not authenticated' });
       return;
     }
 
-    const { id, participantId } = req.params;
-
-    // Verify session belongs to teacher
-    const sessionResult = await query(
-      'SELECT id FROM assignment_sessions WHERE id = $1 AND teacher_id = $2',
-      [id, req.teacher.id]
-    );
+    const { id } = req.params;
+
+    const { entries, error: rosterError } = parseRosterCsv(req.body.csv);
+    if (rosterError || !entries) {
+      res.status(400).json({ success: false, error: rosterError });
+      return;
+    }
+
+    // Re-link participants that joined before the roster was (re)uploaded
+    const participantsResult = await query(
+      'SELECT id, student_name, student_id FROM student_participants WHERE session_id = $1 ORDER BY registered_at ASC',
+      [id]
+    );
+    const linked = new Set<string>();
+    const participantIds = entries.map((entry) => {
+      const match = participantsResult.rows.find(
+        (p) =>
+          !linked.has(p.id) &&
+          normalizeRosterName(p.student_name) === normalizeRosterName(entry.studentName) &&
+          (entry.studentId === null || entry.studentId === p.student_id)
+      );
+      if (!match) return null;
+      linked.add(match.id);
+      return match.id as string;
+    });
+
+    const pinHashes = await Promise.all(entries.map((entry) => (entry.pin ? hashRosterPin(entry.pin) : null)));
+
+    // Accommodations are set per entry in the app, not in the CSV: keep them for students still listed
+    const previousResult = await query(
+      'SELECT student_name, student_id, accommodations FROM session_roster_entries WHERE session_id = $1',
+      [id]
+    );
+    const accommodations = entries.map((entry) => {
+      const previous = previousResult.rows.find(
+        (e) =>
+          normalizeRosterName(e.student_name) === normalizeRosterName(entry.studentName) &&
+          e.student_id === entry.studentId
+      );
+      return JSON.stringify(normalizeAccommodations(previous?.accommodations));
+    });
+
+    // Swap the roster in one transaction so the session is never briefly open to anyone
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM session_roster_entries WHERE session_id = $1', [id]);
+      await client.query(
+        `INSERT INTO session_roster_entries (session_id, student_name, student_id, pin_hash, participant_id, accommodations)
+         SELECT $1::uuid, * FROM unnest($2::text[], $3::text[], $4::text[], $5::uuid[], $6::jsonb[])`,
+        [
+          id,
+          entries.map((entry) => entry.studentName),
+          entries.map((entry) => entry.studentId),
+          pinHashes,
+          participantIds,
+          accommodations,
+        ]
+      );
+      await client.query('COMMIT');
+    } catch (transactionError) {
+      await client.query('ROLLBACK');
+      throw transactionError;
+    } finally {
+      client.release();
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await loadRoster(id),
+    });
+  } catch (error) {
+    console.error('Update roster error:', error);
+    res.status(500).json({ success: false, error: 'Failed to update roster' });
+  }
+});
+
+/**
+ * PUT /api/sessions/:id/roster/:entryId/accommodations
+ * Set a roster entry's accommodations; the student gets them on joining
+ * (or right away when they already joined as this entry)
+ */
+router.put('/:id/roster/:entryId/accommodations', requireSessionAccess('edit'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, entryId } = req.params;
+
+    const { accommodations, error: accommodationsError } = parseAccommodations(req.body.accommodations);
+    if (!accommodations) {
+      res.status(400).json({ success: false, error: accommodationsError });
+      return;
+    }
+
+    const result = await query<{ participant_id: string | null }>(
+      `UPDATE session_roster_entries SET accommodations = $1
+       WHERE id = $2 AND session_id = $3
+       RETURNING participant_id`,
+      [JSON.stringify(accommodations), entryId, id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'Roster entry not found' });
+      return;
+    }
+
+    const participantId = result.rows[0].participant_id;
+    if (participantId) {
+      await query('UPDATE student_participants SET accommodations = $1 WHERE id = $2', [
+        JSON.stringify(accommodations),
+        participantId,
+      ]);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { accommodations },
+    });
+  } catch (error) {
+    console.error('Update roster accommodations error:', error);
+    res.status(500).json({ success: false, error: 'Failed to update accommodations' });
+  }
+});
+
+/**
+ * DELETE /api/sessions/:id/roster
+ * Remove the class roster (anyone with the access code can join again)
+ */
+router.delete('/:id/roster', requireSessionAccess('edit'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    await query('DELETE FROM session_roster_entries WHERE session_id = $1', [id]);
+
+    res.status(200).json({
+      success: true,
+      data: { message: 'Roster removed' },
+    });
+  } catch (error) {
+    console.error('Delete roster error:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete roster' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/collaborators
+ * Owner and co-teachers of a session (with the role they actually have, see getSessionRole)
+ */
+router.get('/:id/collaborators', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const ownerResult = await query(
+      `SELECT t.id, t.name, t.email
+       FROM assignment_sessions s
+       JOIN teachers t ON t.id = s.teacher_id
+       WHERE s.id = $1`,
+      [id]
+    );
+
+    const collaboratorsResult = await query(
+      `SELECT t.id, t.name, t.email, sc.created_at, sc.role AS collaborator_role, om.role AS org_role
+       FROM session_collaborators sc
+       JOIN teachers t ON t.id = sc.teacher_id
+       JOIN assignment_sessions s ON s.id = sc.session_id
+       LEFT JOIN organization_members om ON om.organization_id = s.organization_id AND om.teacher_id = sc.teacher_id
+       WHERE sc.session_id = $1
+       ORDER BY sc.created_at ASC`,
+      [id]
+    );
+
+    const owner = ownerResult.rows[0];
+
+    res.status(200).json({
+      success: true,
+      data: {
+        owner: { id: owner.id, name: owner.name, email: owner.email },
+        collaborators: collaboratorsResult.rows.map((c) => ({
+          id: c.id,
+          name: c.name,
+          email: c.email,
+          role: resolveSessionRole({ is_owner: false, collaborator_role: c.collaborator_role, org_role: c.org_role }),
+          addedAt: c.created_at,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('List collaborators error:', error);
+    res.status(500).json({ success: false, error: 'Failed to list collaborators' });
+  }
+});
+
+/**
+ * POST /api/sessions/:id/collaborators
+ * Share the session with another teacher by email (editor or viewer)
+ * Sharing again with the same teacher changes their role. TAs in the session's
+ * organization can only be viewers.
+ */
+router.post('/:id/collaborators', requireSessionAccess('own'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { email, role = 'viewer' } = req.body;
+
+    if (typeof email !== 'string' || email.trim().length === 0) {
+      res.status(400).json({ success: false, error: 'Email is required' });
+      return;
+    }
+
+    if (!['editor', 'viewer'].includes(role)) {
+      res.status(400).json({ success: false, error: 'Role must be editor or viewer' });
+      return;
+    }
+
+    const teacherResult = await query(
+      'SELECT id, name, email FROM teachers WHERE email = $1',
+      [email.trim().toLowerCase()]
+    );
+
+    if (teacherResult.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'No teacher account with that email' });
+      return;
+    }
+
+    const collaborator = teacherResult.rows[0];
+
+    if (collaborator.id === req.teacher.id) {
+      res.status(400).json({ success: false, error: 'You already own this session' });
+      return;
+    }
+
+    if (role === 'editor') {
+      const sessionResult = await query('SELECT organization_id FROM assignment_sessions WHERE id = $1', [id]);
+      const organizationId = sessionResult.rows[0]?.organization_id;
+      if (organizationId && (await getOrganizationRole(organizationId, collaborator.id)) === 'ta') {
+        res.status(400).json({ success: false, error: 'Teaching assistants can only be added as viewers' });
+        return;
+      }
+    }
+
+    const result = await query(
+      `INSERT INTO session_collaborators (session_id, teacher_id, role, added_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (session_id, teacher_id) DO UPDATE SET role = EXCLUDED.role
+       RETURNING role, created_at`,
+      [id, collaborator.id, role, req.teacher.id]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        collaborator: {
+          id: collaborator.id,
+          name: collaborator.name,
+          email: collaborator.email,
+          role: result.rows[0].role,
+          addedAt: result.rows[0].created_at,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Add collaborator error:', error);
+    res.status(500).json({ success: false, error: 'Failed to add collaborator' });
+  }
+});
+
+/**
+ * DELETE /api/sessions/:id/collaborators/:teacherId
+ * Stop sharing the session (the owner removes anyone; co-teachers can remove themselves)
+ */
+router.delete('/:id/collaborators/:teacherId', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, teacherId } = req.params;
+
+    if (req.sessionRole !== 'owner' && teacherId !== req.teacher.id) {
+      res.status(403).json({ success: false, error: 'Only the session owner can do this' });
+      return;
+    }
+
+    const result = await query(
+      'DELETE FROM session_collaborators WHERE session_id = $1 AND teacher_id = $2 RETURNING teacher_id',
+      [id, teacherId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'Collaborator not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { message: 'Collaborator removed' },
+    });
+  } catch (error) {
+    console.error('Remove collaborator error:', error);
+    res.status(500).json({ success: false, error: 'Failed to remove collaborator' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/export?format=csv|xlsx|json
+ * Download results with one row per participant
+ */
+router.get('/:id/export', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+    const format = (req.query.format ?? 'csv') as ExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+      });
+      return;
+    }
+
+    const sessionResult = await query(
+      'SELECT title, rubric FROM assignment_sessions WHERE id = $1',
+      [id]
+    );
+
+    if (sessionResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+      return;
+    }
+
+    const session = sessionResult.rows[0];
+
+    const participantsResult = await query<Omit<ExportParticipantRecord, 'answer_counts'> & { id: string }>(
+      `SELECT sp.id, sp.student_name, sp.student_id, sp.status, sp.chosen_interview_mode,
+              sp.registered_at, sp.file_submitted_at, sp.interview_started_at, sp.interview_ended_at,
+              sp.analyzed_topics, sp.summary, sp.teacher_review, ist.topics_state
+       FROM student_participants sp
+       LEFT JOIN interview_states ist ON sp.id = ist.participant_id
+       WHERE sp.session_id = $1
+       ORDER BY sp.student_id ASC NULLS LAST, sp.student_name ASC`,
+      [id]
+    );
+
+    const answerCountsResult = await query(
+      `SELECT ic.participant_id, ic.topic_index, COUNT(*)::int AS answer_count
+       FROM interview_conversations ic
+       JOIN student_participants sp ON sp.id = ic.participant_id
+       WHERE sp.session_id = $1 AND ic.role = 'student'
+       GROUP BY ic.participant_id, ic.topic_index`,
+      [id]
+    );
+
+    const answerCounts = new Map<string, Record<number, number>>();
+    for (const row of answerCountsResult.rows) {
+      const counts = answerCounts.get(row.participant_id) ?? {};
+      counts[row.topic_index] = row.answer_count;
+      answerCounts.set(row.participant_id, counts);
+    }
+
+    const rows = buildExportRows(
+      participantsResult.rows.map((p) => ({
+        ...p,
+        answer_counts: answerCounts.get(p.id) ?? {},
+      }))
+    );
+
+    // Rubric order for the per-criterion columns
+    const criteriaNames: string[] = (session.rubric?.criteria ?? []).map((c: { name: string }) => c.name);
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', attachmentDisposition(`${session.title}_${date}.${format}`));
+
+    if (format === 'json') {
+      res.send(JSON.stringify({ title: session.title, exportedAt: new Date().toISOString(), participants: rows }, null, 2));
+    } else if (format === 'xlsx') {
+      res.send(await toXlsx(rows, criteriaNames, session.title));
+    } else {
+      res.send(toCsv(rows, criteriaNames));
+    }
+  } catch (error) {
+    console.error('Export session error:', error);
+    res.status(500).json({ success: false, error: 'Failed to export session' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/report.pdf
+ * PDF report bundling every completed participant
+ */
+router.get('/:id/report.pdf', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    if (!isReportFontAvailable()) {
+      res.status(503).json({ success: false, error: 'PDF report font not configured' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const sessionResult = await query(
+      `SELECT s.title, t.name AS teacher_name
+       FROM assignment_sessions s
+       JOIN teachers t ON t.id = s.teacher_id
+       WHERE s.id = $1`,
+      [id]
+    );
+
+    if (sessionResult.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return;
+    }
+
+    const session = sessionResult.rows[0];
+    const participants = await loadReportParticipants(id);
+
+    if (participants.length === 0) {
+      res.status(404).json({ success: false, error: 'No completed participants to report' });
+      return;
+    }
+
+    const pdf = await renderReport({ title: session.title, teacherName: session.teacher_name }, participants);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', attachmentDisposition(`${session.title}_report.pdf`));
+    res.setHeader('Content-Length', pdf.length);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Session report error:', error);
+    res.status(500).json({ success: false, error: 'Failed to generate report' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/participants/:participantId/report.pdf
+ * PDF report of one participant's topics, transcript and evaluation
+ */
+router.get('/:id/participants/:participantId/report.pdf', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    if (!isReportFontAvailable()) {
+      res.status(503).json({ success: false, error: 'PDF report font not configured' });
+      return;
+    }
+
+    const { id, participantId } = req.params;
+
+    const sessionResult = await query(
+      `SELECT s.title, t.name AS teacher_name
+       FROM assignment_sessions s
+       JOIN teachers t ON t.id = s.teacher_id
+       WHERE s.id = $1`,
+      [id]
+    );
+
+    if (sessionResult.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return;
+    }
+
+    const session = sessionResult.rows[0];
+    const [participant] = await loadReportParticipants(id, participantId);
+
+    if (!participant) {
+      res.status(404).json({ success: false, error: 'Participant not found' });
+      return;
+    }
+
+    const pdf = await renderReport({ title: session.title, teacherName: session.teacher_name }, [participant]);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      attachmentDisposition(`${session.title}_${participant.studentName}_report.pdf`)
+    );
+    res.setHeader('Content-Length', pdf.length);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Participant report error:', error);
+    res.status(500).json({ success: false, error: 'Failed to generate report' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/participants/:participantId
+ * Get participant details with conversation history
+ */
+router.get('/:id/participants/:participantId', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, participantId } = req.params;
+
+    // Get participant details
+    const participantResult = await query(
+      `SELECT
+        sp.id, sp.student_name, sp.student_id, sp.status,
+        sp.chosen_interview_mode, sp.submitted_file_name, sp.submitted_file_url,
+        sp.analyzed_topics, sp.topics_approved_at, sp.summary,
+        sp.registered_at, sp.file_submitted_at,
+        sp.interview_started_at, sp.interview_ended_at, sp.accommodations,
+        ist.participant_id AS has_interview_state, ist.student_pause_started_at,
+        ist.student_pause_used, ist.student_pause_count, s.pause_budget
+       FROM student_participants sp
+       JOIN assignment_sessions s ON s.id = sp.session_id
+       LEFT JOIN interview_states ist ON ist.participant_id = sp.id
+       WHERE sp.id = $1 AND sp.session_id = $2`,
+      [participantId, id]
+    );
+
+    if (participantResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Participant not found',
+      });
+      return;
+    }
+
+    const participant = participantResult.rows[0];
+
+    // Get conversation history
+    const conversationsResult = await query(
+      `SELECT id, topic_index, turn_index, role, content, bank_question_id, follow_up, audio_url, telemetry, created_at
+       FROM interview_conversations
+       WHERE participant_id = $1
+       ORDER BY topic_index ASC, turn_index ASC`,
+      [participantId]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        id: participant.id,
+        studentName: participant.student_name,
+        studentId: participant.student_id,
+        status: participant.status,
+        chosenInterviewMode: participant.chosen_interview_mode,
+        submittedFileName: participant.submitted_file_name,
+        submittedFileUrl: participant.submitted_file_url,
+        analyzedTopics: participant.analyzed_topics,
+        topicsApprovedAt: participant.topics_approved_at,
+        summary: participant.summary,
+        registeredAt: participant.registered_at,
+        fileSubmittedAt: participant.file_submitted_at,
+        interviewStartedAt: participant.interview_started_at,
+        interviewEndedAt: participant.interview_ended_at,
+        accommodations: normalizeAccommodations(participant.accommodations),
+        // Student-requested pauses (null before the interview starts)
+        studentPause: participant.has_interview_state ? studentPauseStatus(participant) : null,
+        conversations: conversationsResult.rows.map((c) => ({
+          id: c.id,
+          topicIndex: c.topic_index,
+          turnIndex: c.turn_index,
+          role: c.role,
+          content: c.content,
+          bankQuestionId: c.bank_question_id,
+          followUp: c.follow_up,
+          hasAudio: !!c.audio_url,
+          telemetry: c.telemetry,
+          createdAt: c.created_at,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Get participant details error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get participant details' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/participants/:participantId/integrity
+ * Authenticity signals (answer latency, verbatim copying, typing speed, pastes and focus loss,
+ * skipped topics, disconnects)
+ */
+router.get('/:id/participants/:participantId/integrity', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, participantId } = req.params;
+
+    const participantResult = await query(
+      `SELECT sp.chosen_interview_mode, sp.extracted_text, sp.disconnect_count, sp.analyzed_topics,
+              ist.topics_state
+       FROM student_participants sp
+       LEFT JOIN interview_states ist ON ist.participant_id = sp.id
+       WHERE sp.id = $1 AND sp.session_id = $2`,
+      [participantId, id]
+    );
+
+    if (participantResult.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'Participant not found' });
+      return;
+    }
+
+    const participant = participantResult.rows[0];
+
+    const conversationsResult = await query(
+      `SELECT id, topic_index, turn_index, role, content, telemetry, created_at
+       FROM interview_conversations
+       WHERE participant_id = $1
+       ORDER BY topic_index ASC, turn_index ASC`,
+      [participantId]
+    );
+
+    const report = buildIntegrityReport({
+      interviewMode: participant.chosen_interview_mode,
+      extractedText: participant.extracted_text,
+      disconnectCount: participant.disconnect_count,
+      topics: participant.topics_state ?? participant.analyzed_topics ?? [],
+      conversations: conversationsResult.rows.map((c) => ({
+        id: c.id,
+        topicIndex: c.topic_index,
+        turnIndex: c.turn_index,
+        role: c.role,
+        content: c.content,
+        createdAt: c.created_at,
+        telemetry: c.telemetry,
+      })),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('Get integrity signals error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get integrity signals' });
+  }
+});
+
+/**
+ * PUT /api/sessions/:id/participants/:participantId/accommodations
+ * Set a participant's accommodations (kept in sync with their roster entry)
+ * Extra time is applied when the interview starts; text size and read-aloud take effect right away.
+ */
+router.put('/:id/participants/:participantId/accommodations', requireSessionAccess('edit'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, participantId } = req.params;
+
+    const { accommodations, error: accommodationsError } = parseAccommodations(req.body.accommodations);
+    if (!accommodations) {
+      res.status(400).json({ success: false, error: accommodationsError });
+      return;
+    }
+
+    const result = await query(
+      `UPDATE student_participants SET accommodations = $1
+       WHERE id = $2 AND session_id = $3
+       RETURNING status`,
+      [JSON.stringify(accommodations), participantId, id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'Participant not found' });
+      return;
+    }
+
+    await query('UPDATE session_roster_entries SET accommodations = $1 WHERE participant_id = $2', [
+      JSON.stringify(accommodations),
+      participantId,
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        accommodations,
+        // Extra time and chat-only no longer change an interview that has started
+        interviewStarted: result.rows[0].status !== 'registered' && result.rows[0].status !== 'file_submitted',
+      },
+    });
+  } catch (error) {
+    console.error('Update participant accommodations error:', error);
+    res.status(500).json({ success: false, error: 'Failed to update accommodations' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/participants/:participantId/review
+ * Teacher review of the evaluation and its history (oldest first); the AI original is the participant's summary
+ */
+router.get('/:id/participants/:participantId/review', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, participantId } = req.params;
+
+    const participantResult = await query(
+      'SELECT summary, teacher_review FROM student_participants WHERE id = $1 AND session_id = $2',
+      [participantId, id]
+    );
+
+    if (participantResult.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'Participant not found' });
+      return;
+    }
+
+    const historyResult = await query(
+      `SELECT er.id, er.review, er.created_at, t.name AS teacher_name
+       FROM evaluation_reviews er
+       LEFT JOIN teachers t ON t.id = er.teacher_id
+       WHERE er.participant_id = $1
+       ORDER BY er.created_at ASC`,
+      [participantId]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        aiSummary: participantResult.rows[0].summary,
+        review: participantResult.rows[0].teacher_review,
+        history: historyResult.rows.map((r) => ({
+          id: r.id,
+          review: r.review,
+          // null when the teacher's account was deleted (review.reviewedBy keeps the name)
+          teacherName: r.teacher_name,
+          createdAt: r.created_at,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Get evaluation review error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get evaluation review' });
+  }
+});
+
+/**
+ * PUT /api/sessions/:id/participants/:participantId/review
+ * Save the teacher's score, strengths, weaknesses, private notes and verdict
+ * Finished interviews only; the AI summary is kept and every save is added to the history.
+ */
+router.put('/:id/participants/:participantId/review', requireSessionAccess('edit'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, participantId } = req.params;
+
+    const { review: input, error: reviewError } = parseEvaluationReview(req.body);
+    if (!input) {
+      res.status(400).json({ success: false, error: reviewError });
+      return;
+    }
+
+    const participantResult = await query(
+      'SELECT status FROM student_participants WHERE id = $1 AND session_id = $2',
+      [participantId, id]
+    );
+
+    if (participantResult.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'Participant not found' });
+      return;
+    }
+
+    // Abandoned interviews have no AI evaluation but can still be graded by hand
+    const status = participantResult.rows[0].status;
+    if (status !== 'completed' && status !== 'abandoned') {
+      res.status(400).json({ success: false, error: 'Only finished interviews can be reviewed' });
+      return;
+    }
+
+    const review: EvaluationReview = {
+      ...input,
+      reviewedBy: req.teacher.name,
+      reviewedAt: new Date().toISOString(),
+    };
+
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+      await client.query('UPDATE student_participants SET teacher_review = $1 WHERE id = $2', [
+        JSON.stringify(review),
+        participantId,
+      ]);
+      await client.query(
+        'INSERT INTO evaluation_reviews (participant_id, teacher_id, review) VALUES ($1, $2, $3)',
+        [participantId, req.teacher.id, JSON.stringify(review)]
+      );
+      await client.query('COMMIT');
+    } catch (transactionError) {
+      await client.query('ROLLBACK');
+      throw transactionError;
+    } finally {
+      client.release();
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { review },
+    });
+  } catch (error) {
+    console.error('Update evaluation review error:', error);
+    res.status(500).json({ success: false, error: 'Failed to save evaluation review' });
+  }
+});
+
+/**
+ * PUT /api/sessions/:id/participants/:participantId/topics
+ * Replace a participant's topics before the interview starts (edit, reorder, add, remove, weight and time)
+ * Pass approve: true to approve the edited topics in the same request.
+ */
+router.put('/:id/participants/:participantId/topics', requireSessionAccess('edit'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, participantId } = req.params;
+    const { topics: topicsInput, approve = false } = req.body;
+
+    const { topics, error: topicsError } = parseTopics(topicsInput);
+    if (!topics) {
+      res.status(400).json({ success: false, error: topicsError });
+      return;
+    }
+
+    const participantResult = await query(
+      `SELECT sp.status
+       FROM student_participants sp
+       JOIN assignment_sessions s ON sp.session_id = s.id
+       WHERE sp.id = $1 AND sp.session_id = $2`,
+      [participantId, id]
+    );
+
+    if (participantResult.rows.length === 0) {
+      res.status(404).json({ success: false, error: 'Participant not found' });
+      return;
+    }
+
+    // Topics are locked once the interview has started
+    if (participantResult.rows[0].status !== 'file_submitted') {
+      res.status(409).json({
+        success: false,
+        error: 'Topics can only be changed after upload and before the interview starts',
+      });
+      return;
+    }
+
+    const result = await query(
+      `UPDATE student_participants
+       SET analyzed_topics = $1,
+           topics_approved_at = CASE WHEN $2::boolean THEN NOW() ELSE topics_approved_at END
+       WHERE id = $3
+       RETURNING analyzed_topics, topics_approved_at`,
+      [JSON.stringify(topics), approve === true, participantId]
+    );
+
+    const updated = result.rows[0];
+
+    if (approve === true) {
+      publishSessionEvent(id, 'topics-approved', participantId, {
+        topicsApprovedAt: updated.topics_approved_at,
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        analyzedTopics: updated.analyzed_topics,
+        topicsApprovedAt: updated.topics_approved_at,
+      },
+    });
+  } catch (error) {
+    console.error('Update participant topics error:', error);
+    res.status(500).json({ success: false, error: 'Failed to update topics' });
+  }
+});
+
+/**
+ * POST /api/sessions/:id/participants/:participantId/topics/approve
+ * Approve a participant's current topics so they can start the interview
+ */
+router.post('/:id/participants/:participantId/topics/approve', requireSessionAccess('edit'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, participantId } = req.params;
+
+    const result = await query(
+      `UPDATE student_participants sp
+       SET topics_approved_at = NOW()
+       WHERE sp.id = $1 AND sp.session_id = $2
+         AND sp.status = 'file_submitted'
+       RETURNING sp.analyzed_topics, sp.topics_approved_at`,
+      [participantId, id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Participant not found or not waiting for topic approval',
+      });
+      return;
+    }
+
+    const approved = result.rows[0];
+
+    publishSessionEvent(id, 'topics-approved', participantId, {
+      topicsApprovedAt: approved.topics_approved_at,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        analyzedTopics: approved.analyzed_topics,
+        topicsApprovedAt: approved.topics_approved_at,
+      },
+    });
+  } catch (error) {
+    console.error('Approve participant topics error:', error);
+    res.status(500).json({ success: false, error: 'Failed to approve topics' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/participants/:participantId/download
+ * Signed URL of the participant's submitted file (saved under the original file name)
+ */
+router.get('/:id/participants/:participantId/download', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, participantId } = req.params;
+
+    const sessionResult = await query(
+      'SELECT files_purged_at FROM assignment_sessions WHERE id = $1',
+      [id]
+    );
 
     if (sessionResult.rows.length === 0) {
       res.status(404).json({ success: false, error: 'Session not found' });
@@ -806,7 +2207,12 @@ router.get('/:id/participants/:participantId/download', async (req: Request, res
     const { submitted_file_name: fileName, submitted_file_url: fileUrl } = participantResult.rows[0];
 
     if (!fileUrl) {
-      res.status(404).json({ success: false, error: '파일 저장소가 설정되지 않아 다운로드할 수 없습니다. 관리자에게 문의하세요.' });
+      res.status(404).json({
+        success: false,
+        error: sessionResult.rows[0].files_purged_at
+          ? '보관 기간이 지나 제출 파일이 삭제되었습니다.'
+          : '제출 파일이 저장되지 않아 다운로드할 수 없습니다. 관리자에게 문의하세요.',
+      });
       return;
     }
 
@@ -815,22 +2221,66 @@ router.get('/:id/participants/:participantId/download', async (req: Request, res
       return;
     }
 
-    // Download file from Supabase
-    const buffer = await downloadFile(fileUrl);
-
-    // RFC 5987 encoding for Korean filenames
-    const encodedFilename = encodeURIComponent(fileName || 'download.pdf')
-      .replace(/['()]/g, escape)
-      .replace(/\*/g, '%2A');
+    const url = await getSignedUrl(fileUrl, { downloadName: fileName || 'download.pdf' });
 
-    res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodedFilename}`);
-    res.setHeader('Content-Length', buffer.length);
-    res.send(buffer);
+    res.status(200).json({
+      success: true,
+      data: { url },
+    });
   } catch (error) {
     console.error('Download file error:', error);
     res.status(500).json({ success: false, error: 'Failed to download file' });
   }
 });
 
+/**
+ * GET /api/sessions/:id/participants/:participantId/conversations/:conversationId/audio
+ * Signed URL of the archived audio of a voice interview turn
+ */
+router.get('/:id/participants/:participantId/conversations/:conversationId/audio', requireSessionAccess('view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, participantId, conversationId } = req.params;
+
+    if (!/^\d+$/.test(conversationId)) {
+      res.status(404).json({ success: false, error: 'Audio not found' });
+      return;
+    }
+
+    // Verify the turn belongs to this session's participant
+    const conversationResult = await query(
+      `SELECT ic.audio_url
+       FROM interview_conversations ic
+       JOIN student_participants sp ON sp.id = ic.participant_id
+       WHERE ic.id = $1 AND sp.id = $2 AND sp.session_id = $3`,
+      [conversationId, participantId, id]
+    );
+
+    const audioUrl: string | null = conversationResult.rows[0]?.audio_url ?? null;
+    if (!audioUrl) {
+      res.status(404).json({ success: false, error: 'Audio not found' });
+      return;
+    }
+
+    if (!isStorageConfigured()) {
+      res.status(503).json({ success: false, error: 'Storage service not configured' });
+      return;
+    }
+
+    const url = await getSignedUrl(audioUrl);
+
+    res.status(200).json({
+      success: true,
+      data: { url },
+    });
+  } catch (error) {
+    console.error('Get conversation audio error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get audio' });
+  }
+});
+
 export default router;
@@ -7,6 +7,7 @@ import { Router, Request, Response } from 'express';
 import multer from 'multer';
 import { textToSpeech, speechToText, checkSpeechServices } from '../services/speech.js';
 import { studentAuthMiddleware } from '../middleware/studentAuth.js';
+import { archiveAnswerRecording, discardAnswerRecording, recordQuestionClip } from '../services/audioArchive.js';
 
 const router = Router();
 
@@ -80,7 +81,12 @@ router.post('/tts', studentAuthMiddleware, async (req: Request, res: Response):
       return;
     }
 
-    const audioBuffer = await textToSpeech(text);
+    const audioBuffer = await textToSpeech(text, req.participant?.interviewLanguage);
+
+    // Kept with the question once it is answered (audio archive)
+    if (req.participant) {
+      recordQuestionClip(req.participant.id, text, audioBuffer);
+    }
 
     // Send audio as MP3
     res.setHeader('Content-Type', 'audio/mpeg');
@@ -112,7 +118,16 @@ router.post('/stt', studentAuthMiddleware, upload.single('audio'), async (req: R
 
     const context = req.body.context as string | undefined;
 
-    const transcribedText = await speechToText(req.file.buffer, context);
+    // Stored alongside the transcript so a disputed transcription can be checked
+    if (req.participant) {
+      archiveAnswerRecording(req.participant, req.file.buffer, req.file.mimetype);
+    }
+
+    const transcribedText = await speechToText(req.file.buffer, context, req.participant?.interviewLanguage);
+
+    if (req.participant && !transcribedText.trim()) {
+      discardAnswerRecording(req.participant.id);
+    }
 
     res.json({
       success: true,
@@ -121,6 +136,10 @@ router.post('/stt', studentAuthMiddleware, upload.single('audio'), async (req: R
       },
     });
   } catch (error) {
+    // No transcript means no answer to link the stored recording to
+    if (req.participant) {
+      discardAnswerRecording(req.participant.id);
+    }
     console.error('STT error:', error);
     res.status(500).json({
       success: false,
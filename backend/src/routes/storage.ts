@@ -0,0 +1,59 @@
+/**
+ * Storage Routes - signed file URLs for the local disk driver
+ * S3 and Supabase serve their signed URLs themselves.
+ */
+
+import { Router, Request, Response } from 'express';
+import nodePath from 'path';
+import { attachmentDisposition, getStorageDriver, LocalStorageDriver, verifyLocalSignature } from '../services/storage/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/storage/files/:path?expires=&download=&signature=
+ * Serve a locally stored file through a URL from getSignedUrl()
+ */
+router.get('/files/*', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const storage = getStorageDriver();
+    if (!(storage instanceof LocalStorageDriver)) {
+      res.status(404).json({ success: false, error: 'Not Found' });
+      return;
+    }
+
+    const path = req.params[0];
+    const { expires, signature, download } = req.query;
+    const downloadName = typeof download === 'string' ? download : undefined;
+
+    if (
+      typeof expires !== 'string'
+      || typeof signature !== 'string'
+      || !verifyLocalSignature(path, expires, signature, downloadName)
+    ) {
+      res.status(403).json({ success: false, error: 'Invalid or expired link' });
+      return;
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = await storage.get(path);
+    } catch {
+      res.status(404).json({ success: false, error: 'File not found' });
+      return;
+    }
+
+    res.type(nodePath.extname(path) || 'application/octet-stream');
+    // Signed URLs are opened from the frontend origin (links, <audio>)
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.setHeader('Content-Length', buffer.length);
+    if (downloadName) {
+      res.setHeader('Content-Disposition', attachmentDisposition(downloadName));
+    }
+    res.send(buffer);
+  } catch (error) {
+    console.error('Serve stored file error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get file' });
+  }
+});
+
+export default router;
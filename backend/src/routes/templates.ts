@@ -0,0 +1,236 @@
+import { Router, Request, Response } from 'express';
+import { query } from '../db/connection.js';
+import { authMiddleware, getSessionRole } from '../middleware/auth.js';
+import {
+  SESSION_SETTING_COLUMNS,
+  SessionTemplateRow,
+  formatTemplate,
+  organizationTemplateError,
+} from '../services/sessionTemplates.js';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(authMiddleware);
+
+// Templates the teacher can see: their own and those shared with their organizations
+const VISIBLE_TEMPLATES_SQL = `
+  SELECT st.*, t.name AS owner_name, o.name AS organization_name
+  FROM session_templates st
+  JOIN teachers t ON t.id = st.teacher_id
+  LEFT JOIN organizations o ON o.id = st.organization_id
+  WHERE (
+    st.teacher_id = $1
+    OR st.organization_id IN (SELECT organization_id FROM organization_members WHERE teacher_id = $1)
+  )
+`;
+
+/**
+ * Template the teacher can see, or null
+ */
+async function loadTemplate(templateId: string, teacherId: string): Promise<SessionTemplateRow | null> {
+  const result = await query<SessionTemplateRow>(`${VISIBLE_TEMPLATES_SQL} AND st.id = $2`, [teacherId, templateId]);
+  return result.rows[0] ?? null;
+}
+
+function nameError(name: unknown): string | null {
+  if (typeof name !== 'string' || name.trim().length === 0) return 'Name is required';
+  if (name.length > 200) return 'Name must be 200 characters or less';
+  return null;
+}
+
+/**
+ * GET /api/templates
+ * Templates the teacher owns or that are shared with their organizations
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const result = await query<SessionTemplateRow>(`${VISIBLE_TEMPLATES_SQL} ORDER BY st.name ASC`, [req.teacher.id]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        templates: result.rows.map((row) => formatTemplate(row, req.teacher!.id)),
+      },
+    });
+  } catch (error) {
+    console.error('List templates error:', error);
+    res.status(500).json({ success: false, error: 'Failed to list templates' });
+  }
+});
+
+/**
+ * POST /api/templates
+ * Save a session's settings as a named template (optionally shared with an organization)
+ */
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { name, sessionId, organizationId = null } = req.body;
+
+    const invalidName = nameError(name);
+    if (invalidName) {
+      res.status(400).json({ success: false, error: invalidName });
+      return;
+    }
+
+    if (typeof sessionId !== 'string' || !(await getSessionRole(sessionId, req.teacher.id))) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return;
+    }
+
+    if (organizationId !== null) {
+      const organizationError = await organizationTemplateError(organizationId, req.teacher.id);
+      if (organizationError) {
+        res.status(400).json({ success: false, error: organizationError });
+        return;
+      }
+    }
+
+    const result = await query<{ id: string }>(
+      `INSERT INTO session_templates (teacher_id, organization_id, name, title, ${SESSION_SETTING_COLUMNS})
+       SELECT $2, $3, $4, title, ${SESSION_SETTING_COLUMNS}
+       FROM assignment_sessions
+       WHERE id = $1
+       RETURNING id`,
+      [sessionId, req.teacher.id, organizationId, name.trim()]
+    );
+
+    const template = await loadTemplate(result.rows[0].id, req.teacher.id);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        message: 'Template saved',
+        template: formatTemplate(template!, req.teacher.id),
+      },
+    });
+  } catch (error) {
+    console.error('Create template error:', error);
+    res.status(500).json({ success: false, error: 'Failed to save template' });
+  }
+});
+
+/**
+ * PUT /api/templates/:id
+ * Rename a template or change the organization it is shared with (owner only)
+ */
+router.put('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { name, organizationId } = req.body;
+
+    const existing = await loadTemplate(id, req.teacher.id);
+    if (!existing) {
+      res.status(404).json({ success: false, error: 'Template not found' });
+      return;
+    }
+
+    if (existing.teacher_id !== req.teacher.id) {
+      res.status(403).json({ success: false, error: 'Only the template owner can change it' });
+      return;
+    }
+
+    const updates: string[] = [];
+    const values: (string | null)[] = [];
+    let paramIndex = 1;
+
+    if (name !== undefined) {
+      const invalidName = nameError(name);
+      if (invalidName) {
+        res.status(400).json({ success: false, error: invalidName });
+        return;
+      }
+      updates.push(`name = $${paramIndex++}`);
+      values.push(name.trim());
+    }
+
+    // null = stop sharing
+    if (organizationId !== undefined) {
+      if (organizationId !== null) {
+        const organizationError = await organizationTemplateError(organizationId, req.teacher.id);
+        if (organizationError) {
+          res.status(400).json({ success: false, error: organizationError });
+          return;
+        }
+      }
+      updates.push(`organization_id = $${paramIndex++}`);
+      values.push(organizationId);
+    }
+
+    if (updates.length === 0) {
+      res.status(400).json({ success: false, error: 'No fields to update' });
+      return;
+    }
+
+    values.push(id);
+    await query(`UPDATE session_templates SET ${updates.join(', ')} WHERE id = $${paramIndex}`, values);
+
+    const template = await loadTemplate(id, req.teacher.id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        message: 'Template updated',
+        template: formatTemplate(template!, req.teacher.id),
+      },
+    });
+  } catch (error) {
+    console.error('Update template error:', error);
+    res.status(500).json({ success: false, error: 'Failed to update template' });
+  }
+});
+
+/**
+ * DELETE /api/templates/:id
+ * Delete a template (owner only; sessions created from it are not affected)
+ */
+router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.teacher) {
+      res.status(401).json({ success: false, error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const existing = await loadTemplate(id, req.teacher.id);
+    if (!existing) {
+      res.status(404).json({ success: false, error: 'Template not found' });
+      return;
+    }
+
+    if (existing.teacher_id !== req.teacher.id) {
+      res.status(403).json({ success: false, error: 'Only the template owner can delete it' });
+      return;
+    }
+
+    await query('DELETE FROM session_templates WHERE id = $1', [id]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        message: 'Template deleted',
+      },
+    });
+  } catch (error) {
+    console.error('Delete template error:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete template' });
+  }
+});
+
+export default router;
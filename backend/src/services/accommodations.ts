@@ -0,0 +1,97 @@
+/**
+ * Accommodations
+ * Per-student accommodations set by the teacher (student_participants.accommodations,
+ * session_roster_entries.accommodations): extended time for students with an IEP, a
+ * chat-only interview, larger text and read-aloud chat questions
+ *
+ * Roster entry accommodations are copied to the participant who joins as the entry.
+ * Extended time is applied once, when the interview starts, by scaling every topic's
+ * time in topics_state; the timers already count down from those values.
+ */
+
+export interface Accommodations {
+  // Topic time multiplier (1 = no extra time, 1.5 = time and a half)
+  timeMultiplier: number;
+  // Chat interview even when the session is voice or student's choice
+  chatOnly: boolean;
+  // Larger text on the student pages
+  largeText: boolean;
+  // Read chat questions aloud with TTS
+  readAloud: boolean;
+}
+
+export const MIN_TIME_MULTIPLIER = 1;
+export const MAX_TIME_MULTIPLIER = 3;
+// Multipliers go in quarter steps (1.25, 1.5, 2, ...)
+const TIME_MULTIPLIER_STEP = 0.25;
+
+export const NO_ACCOMMODATIONS: Accommodations = {
+  timeMultiplier: 1,
+  chatOnly: false,
+  largeText: false,
+  readAloud: false,
+};
+
+function isValidMultiplier(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    value >= MIN_TIME_MULTIPLIER &&
+    value <= MAX_TIME_MULTIPLIER &&
+    Number.isInteger(value / TIME_MULTIPLIER_STEP)
+  );
+}
+
+/**
+ * Stored JSONB → accommodations with defaults ('{}' = none)
+ */
+export function normalizeAccommodations(raw: unknown): Accommodations {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof Accommodations, unknown>>;
+  return {
+    timeMultiplier: isValidMultiplier(value.timeMultiplier) ? value.timeMultiplier : 1,
+    chatOnly: value.chatOnly === true,
+    largeText: value.largeText === true,
+    readAloud: value.readAloud === true,
+  };
+}
+
+/**
+ * Validate accommodations from a request body (omitted fields are off)
+ */
+export function parseAccommodations(input: unknown): { accommodations: Accommodations | null; error?: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { accommodations: null, error: 'Accommodations must be an object' };
+  }
+
+  const value = input as Partial<Record<keyof Accommodations, unknown>>;
+
+  if (value.timeMultiplier !== undefined && !isValidMultiplier(value.timeMultiplier)) {
+    return {
+      accommodations: null,
+      error: `timeMultiplier must be ${MIN_TIME_MULTIPLIER}-${MAX_TIME_MULTIPLIER} in steps of ${TIME_MULTIPLIER_STEP}`,
+    };
+  }
+
+  for (const key of ['chatOnly', 'largeText', 'readAloud'] as const) {
+    if (value[key] !== undefined && typeof value[key] !== 'boolean') {
+      return { accommodations: null, error: `${key} must be true or false` };
+    }
+  }
+
+  return { accommodations: normalizeAccommodations(value) };
+}
+
+/**
+ * Topic times with the extended time applied (whole seconds)
+ */
+export function extendTopicDurations(durations: number[], accommodations: Accommodations): number[] {
+  return durations.map((duration) => Math.round(duration * accommodations.timeMultiplier));
+}
+
+export default {
+  MIN_TIME_MULTIPLIER,
+  MAX_TIME_MULTIPLIER,
+  NO_ACCOMMODATIONS,
+  normalizeAccommodations,
+  parseAccommodations,
+  extendTopicDurations,
+};
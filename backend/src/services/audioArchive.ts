@@ -0,0 +1,183 @@
+/**
+ * Audio Archive Service
+ * Keeps the audio behind voice interview turns (interview_conversations.audio_url)
+ *
+ * Student answers: the recording sent to POST /api/speech/stt is stored right away and
+ * linked to the answer row created by the following POST /api/interview/answer.
+ * AI questions: TTS is requested sentence by sentence, often before the question row
+ * exists, so the clips are held in memory and stored as one file once the student
+ * answers that question. Pending audio lives in this process (like sessionEvents), so
+ * a restart only loses audio of turns in progress.
+ *
+ * An answer recording that is never linked to an answer row (empty transcript, replaced
+ * by a newer recording, expired) is deleted from storage here: the retention worker only
+ * knows paths recorded in the database.
+ */
+import { uploadFile, deleteFiles, isStorageConfigured } from './storage/index.js';
+
+interface ParticipantRef {
+  id: string;
+  sessionId: string;
+}
+
+interface PendingAnswer {
+  path: Promise<string | null>;
+  createdAt: number;
+}
+
+interface TtsClip {
+  text: string;
+  audio: Buffer;
+  createdAt: number;
+}
+
+// A recording not followed by an answer within this window is not linked
+const PENDING_TTL_MS = 10 * 60 * 1000;
+// Upper bound on clips held per participant (a question is a handful of sentences)
+const MAX_CLIPS_PER_PARTICIPANT = 50;
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/wav': 'wav',
+  'audio/mp3': 'mp3',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+};
+
+const pendingAnswers = new Map<string, PendingAnswer>();
+const pendingClips = new Map<string, TtsClip[]>();
+
+export function isAudioArchiveEnabled(): boolean {
+  return process.env.AUDIO_ARCHIVE_ENABLED !== 'false' && isStorageConfigured();
+}
+
+// Whitespace differs between streamed sentences and the stored question
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Remove a recording that will not be linked to an answer (waits for its upload to finish)
+function deleteUnlinkedRecording(pending: PendingAnswer): void {
+  pending.path
+    .then((path) => (path ? deleteFiles([path]) : undefined))
+    .catch((error) => console.error('[AudioArchive] Failed to delete unlinked answer recording:', error));
+}
+
+function pruneExpired(now: number): void {
+  for (const [participantId, pending] of pendingAnswers) {
+    if (now - pending.createdAt > PENDING_TTL_MS) {
+      pendingAnswers.delete(participantId);
+      deleteUnlinkedRecording(pending);
+    }
+  }
+  for (const [participantId, clips] of pendingClips) {
+    const fresh = clips.filter((clip) => now - clip.createdAt <= PENDING_TTL_MS);
+    if (fresh.length === 0) pendingClips.delete(participantId);
+    else pendingClips.set(participantId, fresh);
+  }
+}
+
+/**
+ * Store a student's answer recording; the next answer submitted takes it
+ * A newer recording replaces one that was never submitted.
+ */
+export function archiveAnswerRecording(participant: ParticipantRef, audio: Buffer, mimeType: string): void {
+  if (!isAudioArchiveEnabled()) return;
+  pruneExpired(Date.now());
+
+  const extension = AUDIO_EXTENSIONS[mimeType] ?? 'webm';
+  const path = uploadFile(audio, `answer.${extension}`, participant.sessionId, participant.id, mimeType).catch(
+    (error) => {
+      console.error('[AudioArchive] Failed to store answer recording:', error);
+      return null;
+    }
+  );
+
+  const replaced = pendingAnswers.get(participant.id);
+  if (replaced) deleteUnlinkedRecording(replaced);
+
+  pendingAnswers.set(participant.id, { path, createdAt: Date.now() });
+}
+
+/**
+ * Drop an unsubmitted recording and its stored file (empty transcription, STT failure)
+ */
+export function discardAnswerRecording(participantId: string): void {
+  const pending = pendingAnswers.get(participantId);
+  if (!pending) return;
+  pendingAnswers.delete(participantId);
+  deleteUnlinkedRecording(pending);
+}
+
+/**
+ * Storage path of the recording behind the answer being submitted, if any
+ */
+export async function takeAnswerRecording(participantId: string): Promise<string | null> {
+  const pending = pendingAnswers.get(participantId);
+  if (!pending) return null;
+  pendingAnswers.delete(participantId);
+
+  if (Date.now() - pending.createdAt > PENDING_TTL_MS) {
+    deleteUnlinkedRecording(pending);
+    return null;
+  }
+  return pending.path;
+}
+
+/**
+ * Hold a TTS clip until the question it belongs to is answered
+ */
+export function recordQuestionClip(participantId: string, text: string, audio: Buffer): void {
+  if (!isAudioArchiveEnabled()) return;
+  const now = Date.now();
+  pruneExpired(now);
+
+  const clips = pendingClips.get(participantId) ?? [];
+  clips.push({ text: normalize(text), audio, createdAt: now });
+  pendingClips.set(participantId, clips.slice(-MAX_CLIPS_PER_PARTICIPANT));
+}
+
+/**
+ * Store the held TTS clips of a question as one MP3 and return its storage path
+ * Clips are matched to the question text and put in question order; a sentence played
+ * twice (replay, reconnect) is kept once. MP3 frames are self-contained, so the clips
+ * can simply be concatenated. All held clips are released either way.
+ */
+export async function archiveQuestionAudio(
+  participant: ParticipantRef,
+  question: { topicIndex: number; turnIndex: number; content: string }
+): Promise<string | null> {
+  const clips = pendingClips.get(participant.id) ?? [];
+  pendingClips.delete(participant.id);
+  if (!isAudioArchiveEnabled() || clips.length === 0) return null;
+
+  const content = normalize(question.content);
+  const byText = new Map<string, TtsClip>();
+  for (const clip of clips) {
+    if (clip.text && content.includes(clip.text)) byText.set(clip.text, clip);
+  }
+  if (byText.size === 0) return null;
+
+  const ordered = Array.from(byText.values()).sort(
+    (a, b) => content.indexOf(a.text) - content.indexOf(b.text)
+  );
+
+  return uploadFile(
+    Buffer.concat(ordered.map((clip) => clip.audio)),
+    `question_t${question.topicIndex}_${question.turnIndex}.mp3`,
+    participant.sessionId,
+    participant.id,
+    'audio/mpeg'
+  );
+}
+
+export default {
+  isAudioArchiveEnabled,
+  archiveAnswerRecording,
+  discardAnswerRecording,
+  takeAnswerRecording,
+  recordQuestionClip,
+  archiveQuestionAudio,
+};
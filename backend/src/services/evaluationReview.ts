@@ -0,0 +1,128 @@
+/**
+ * Evaluation Review
+ * Teacher review of the AI evaluation (student_participants.teacher_review): an adjusted
+ * score, edited strengths and weaknesses, private notes and a verdict
+ *
+ * student_participants.summary stays as the AI wrote it. Each save is also appended to
+ * evaluation_reviews, so the AI original and every teacher edit can be compared later.
+ * Reports and exports use the reviewed values (finalEvaluation); the notes are for
+ * teachers only and never leave the teacher view.
+ */
+import type { EvaluationResult } from './llm.js';
+
+export const REVIEW_VERDICTS = ['verified', 'needs_follow_up', 'suspected'] as const;
+export type ReviewVerdict = (typeof REVIEW_VERDICTS)[number];
+
+// Spreadsheet and PDF labels
+export const REVIEW_VERDICT_LABELS: Record<ReviewVerdict, string> = {
+  verified: '확인됨',
+  needs_follow_up: '추가 확인 필요',
+  suspected: '부정 의심',
+};
+
+const MAX_FEEDBACK_ITEMS = 10;
+const MAX_FEEDBACK_LENGTH = 500;
+const MAX_NOTES_LENGTH = 5000;
+
+// What the teacher edits
+export interface EvaluationReviewInput {
+  score: number;
+  strengths: string[];
+  weaknesses: string[];
+  // Private to teachers
+  notes: string;
+  verdict: ReviewVerdict | null;
+}
+
+// As stored in teacher_review and evaluation_reviews.review
+export interface EvaluationReview extends EvaluationReviewInput {
+  // Teacher name at the time of the review
+  reviewedBy: string;
+  reviewedAt: string;
+}
+
+function parseFeedback(input: unknown, field: string): { items: string[] | null; error?: string } {
+  if (input === undefined) return { items: [] };
+  if (!Array.isArray(input) || input.some((item) => typeof item !== 'string')) {
+    return { items: null, error: `${field} must be a list of strings` };
+  }
+
+  const items = (input as string[]).map((item) => item.trim()).filter(Boolean);
+  if (items.length > MAX_FEEDBACK_ITEMS) {
+    return { items: null, error: `At most ${MAX_FEEDBACK_ITEMS} ${field}` };
+  }
+  if (items.some((item) => item.length > MAX_FEEDBACK_LENGTH)) {
+    return { items: null, error: `Each of the ${field} must be ${MAX_FEEDBACK_LENGTH} characters or less` };
+  }
+  return { items };
+}
+
+/**
+ * Validate a review from a request body
+ */
+export function parseEvaluationReview(input: unknown): { review: EvaluationReviewInput | null; error?: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { review: null, error: 'Review must be an object' };
+  }
+
+  const value = input as Record<string, unknown>;
+
+  if (typeof value.score !== 'number' || !Number.isInteger(value.score) || value.score < 0 || value.score > 100) {
+    return { review: null, error: 'score must be a whole number from 0 to 100' };
+  }
+
+  const strengths = parseFeedback(value.strengths, 'strengths');
+  if (!strengths.items) return { review: null, error: strengths.error };
+
+  const weaknesses = parseFeedback(value.weaknesses, 'weaknesses');
+  if (!weaknesses.items) return { review: null, error: weaknesses.error };
+
+  if (value.notes !== undefined && typeof value.notes !== 'string') {
+    return { review: null, error: 'notes must be a string' };
+  }
+  const notes = ((value.notes as string | undefined) ?? '').trim();
+  if (notes.length > MAX_NOTES_LENGTH) {
+    return { review: null, error: `notes must be ${MAX_NOTES_LENGTH} characters or less` };
+  }
+
+  const verdict = value.verdict ?? null;
+  if (verdict !== null && !REVIEW_VERDICTS.includes(verdict as ReviewVerdict)) {
+    return { review: null, error: `verdict must be one of: ${REVIEW_VERDICTS.join(', ')}` };
+  }
+
+  return {
+    review: {
+      score: value.score,
+      strengths: strengths.items,
+      weaknesses: weaknesses.items,
+      notes,
+      verdict: verdict as ReviewVerdict | null,
+    },
+  };
+}
+
+/**
+ * The evaluation as the teacher finalized it (the AI result when not reviewed)
+ * Rubric and topic breakdowns stay the AI's; the teacher's score replaces the total.
+ */
+export function finalEvaluation(
+  summary: EvaluationResult | null,
+  review: EvaluationReview | null
+): EvaluationResult | null {
+  if (!review) return summary;
+
+  return {
+    ...summary,
+    overallComment: summary?.overallComment ?? '',
+    score: review.score,
+    strengths: review.strengths,
+    weaknesses: review.weaknesses,
+  };
+}
+
+export default {
+  REVIEW_VERDICTS,
+  REVIEW_VERDICT_LABELS,
+  parseEvaluationReview,
+  finalEvaluation,
+};
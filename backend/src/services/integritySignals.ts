@@ -0,0 +1,386 @@
+/**
+ * Integrity Signals Service
+ * Authenticity evidence for GET /api/sessions/:id/participants/:participantId/integrity
+ *
+ * The LLM evaluation only judges answer quality. These signals are computed from data
+ * already stored for the interview (conversation timestamps, the extracted submission
+ * text, topic outcomes, disconnects, chat answer telemetry) and point the teacher at specific
+ * turns to look at. They are evidence, not a verdict: every flag carries the turns it is based on.
+ */
+
+/**
+ * How a chat answer was written, as reported by the student's browser
+ * Sent with POST /api/interview/answer and stored on the student turn.
+ */
+export interface AnswerTelemetry {
+  pasteCount: number;
+  pastedChars: number;
+  // Key presses and IME input events while composing (not counting navigation keys)
+  keystrokes: number;
+  // Tab hidden or window blurred while the answer was being written
+  focusLossCount: number;
+  focusLossMs: number;
+  // From the question appearing (or the previous answer) to submit
+  composeMs: number;
+}
+
+export interface IntegrityConversation {
+  id: number;
+  topicIndex: number;
+  turnIndex: number;
+  role: 'ai' | 'student';
+  content: string;
+  createdAt: Date;
+  telemetry?: AnswerTelemetry | null;
+}
+
+export interface IntegrityInput {
+  interviewMode: string | null;
+  extractedText: string | null;
+  disconnectCount: number;
+  // interview_states.topics_state once the interview started, otherwise the analyzed topics
+  topics: Array<{ title: string; status?: string }>;
+  conversations: IntegrityConversation[];
+}
+
+export interface TurnTiming {
+  conversationId: number;
+  topicIndex: number;
+  turnIndex: number;
+  // From the question being asked to the answer being submitted
+  latencySeconds: number;
+  characters: number;
+  charsPerSecond: number;
+}
+
+export interface VerbatimMatch {
+  conversationId: number;
+  topicIndex: number;
+  turnIndex: number;
+  excerpt: string;
+  length: number;
+}
+
+export type IntegrityFlagType =
+  | 'slow_answer'
+  | 'fast_answer'
+  | 'verbatim_copy'
+  | 'pasted_answer'
+  | 'low_keystrokes'
+  | 'focus_loss'
+  | 'skipped_topics'
+  | 'disconnects';
+
+export interface IntegrityFlag {
+  type: IntegrityFlagType;
+  severity: 'notice' | 'warning';
+  // Turns the flag is based on (empty for skipped topics and disconnects)
+  conversationIds: number[];
+}
+
+export interface IntegrityReport {
+  flags: IntegrityFlag[];
+  timings: TurnTiming[];
+  medianLatencySeconds: number | null;
+  slowAnswerThresholdSeconds: number | null;
+  verbatimMatches: VerbatimMatch[];
+  skippedTopics: Array<{ index: number; title: string }>;
+  disconnectCount: number;
+}
+
+// A pause this long (or 3x the student's median, whichever is longer) stands out
+const SLOW_ANSWER_MIN_SECONDS = 90;
+const SLOW_ANSWER_MEDIAN_FACTOR = 3;
+
+// Chat answers: faster than anyone types, counting time spent reading the question too
+const FAST_ANSWER_MIN_CHARS = 150;
+const FAST_ANSWER_CHARS_PER_SECOND = 8;
+
+// Verbatim spans are found with fixed-length shingles of the submission text
+const SHINGLE_LENGTH = 24;
+const MIN_VERBATIM_CHARS = 60;
+// Bounds memory for very long submissions; copied passages are rarely past this point
+const MAX_SOURCE_CHARS = 200_000;
+
+// Chat telemetry: a paste this long is more than a quoted term; most of the answer pasted is a warning
+const PASTE_MIN_CHARS = 40;
+const PASTE_WARNING_RATIO = 0.5;
+// Answers this long typed with fewer key presses than half their length (drag-drop, autofill)
+const LOW_KEYSTROKES_MIN_CHARS = 100;
+const LOW_KEYSTROKES_RATIO = 0.5;
+// Time away from the interview tab while answering
+const FOCUS_LOSS_NOTICE_SECONDS = 10;
+const FOCUS_LOSS_WARNING_SECONDS = 60;
+// Client-reported counters are capped so a tampered payload cannot bloat the row
+const MAX_TELEMETRY_COUNT = 1_000_000;
+const MAX_TELEMETRY_MS = 24 * 60 * 60 * 1000;
+
+// Flags about the interview as a whole
+const SKIPPED_TOPICS_WARNING_RATIO = 0.5;
+const DISCONNECTS_NOTICE = 2;
+const DISCONNECTS_WARNING = 4;
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function telemetryNumber(value: unknown, max: number): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) return null;
+  return Math.min(Math.round(value), max);
+}
+
+/**
+ * Validate answer telemetry from the request body
+ * Returns null when it is missing or malformed; the answer itself is still accepted.
+ */
+export function parseAnswerTelemetry(raw: unknown): AnswerTelemetry | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Record<string, unknown>;
+
+  const telemetry = {
+    pasteCount: telemetryNumber(value.pasteCount, MAX_TELEMETRY_COUNT),
+    pastedChars: telemetryNumber(value.pastedChars, MAX_TELEMETRY_COUNT),
+    keystrokes: telemetryNumber(value.keystrokes, MAX_TELEMETRY_COUNT),
+    focusLossCount: telemetryNumber(value.focusLossCount, MAX_TELEMETRY_COUNT),
+    focusLossMs: telemetryNumber(value.focusLossMs, MAX_TELEMETRY_MS),
+    composeMs: telemetryNumber(value.composeMs, MAX_TELEMETRY_MS),
+  };
+
+  if (Object.values(telemetry).some((n) => n === null)) return null;
+  return telemetry as AnswerTelemetry;
+}
+
+/**
+ * Time from each question to the student's answer
+ * The question is the latest AI turn of the same topic created before the answer.
+ */
+export function measureTurnTimings(conversations: IntegrityConversation[]): TurnTiming[] {
+  const ordered = [...conversations].sort(
+    (a, b) => a.topicIndex - b.topicIndex || a.turnIndex - b.turnIndex
+  );
+
+  const timings: TurnTiming[] = [];
+  let lastQuestion: IntegrityConversation | null = null;
+
+  for (const turn of ordered) {
+    if (lastQuestion && lastQuestion.topicIndex !== turn.topicIndex) {
+      lastQuestion = null;
+    }
+    if (turn.role === 'ai') {
+      lastQuestion = turn;
+      continue;
+    }
+    if (!lastQuestion) continue;
+
+    const latencySeconds = (new Date(turn.createdAt).getTime() - new Date(lastQuestion.createdAt).getTime()) / 1000;
+    if (latencySeconds <= 0) continue;
+
+    const characters = turn.content.trim().length;
+    timings.push({
+      conversationId: turn.id,
+      topicIndex: turn.topicIndex,
+      turnIndex: turn.turnIndex,
+      latencySeconds: round(latencySeconds),
+      characters,
+      charsPerSecond: round(characters / latencySeconds),
+    });
+    // Follow-up answers without a new question are not timed against the old one
+    lastQuestion = null;
+  }
+
+  return timings;
+}
+
+/**
+ * Long spans of student answers that appear word for word in the submission
+ * Whitespace and case are ignored; overlapping shingle hits are merged into one span.
+ */
+export function findVerbatimMatches(
+  conversations: IntegrityConversation[],
+  extractedText: string | null
+): VerbatimMatch[] {
+  if (!extractedText) return [];
+
+  const source = normalize(extractedText.slice(0, MAX_SOURCE_CHARS));
+  if (source.length < SHINGLE_LENGTH) return [];
+
+  const shingles = new Set<string>();
+  for (let i = 0; i + SHINGLE_LENGTH <= source.length; i++) {
+    shingles.add(source.slice(i, i + SHINGLE_LENGTH));
+  }
+
+  const matches: VerbatimMatch[] = [];
+
+  for (const turn of conversations) {
+    if (turn.role !== 'student') continue;
+    const answer = normalize(turn.content);
+
+    let spanStart = -1;
+    let spanEnd = -1;
+    const closeSpan = () => {
+      if (spanStart >= 0 && spanEnd - spanStart >= MIN_VERBATIM_CHARS) {
+        matches.push({
+          conversationId: turn.id,
+          topicIndex: turn.topicIndex,
+          turnIndex: turn.turnIndex,
+          excerpt: answer.slice(spanStart, spanEnd),
+          length: spanEnd - spanStart,
+        });
+      }
+      spanStart = -1;
+    };
+
+    for (let i = 0; i + SHINGLE_LENGTH <= answer.length; i++) {
+      if (shingles.has(answer.slice(i, i + SHINGLE_LENGTH))) {
+        if (spanStart < 0) spanStart = i;
+        spanEnd = i + SHINGLE_LENGTH;
+      } else if (spanStart >= 0 && i >= spanEnd) {
+        closeSpan();
+      }
+    }
+    closeSpan();
+  }
+
+  return matches;
+}
+
+/**
+ * Build the integrity report for one participant
+ */
+export function buildIntegrityReport(input: IntegrityInput): IntegrityReport {
+  const flags: IntegrityFlag[] = [];
+
+  // Answer latency
+  const timings = measureTurnTimings(input.conversations);
+  const medianLatency = median(timings.map((t) => t.latencySeconds));
+  const slowThreshold =
+    medianLatency === null ? null : Math.max(SLOW_ANSWER_MIN_SECONDS, medianLatency * SLOW_ANSWER_MEDIAN_FACTOR);
+
+  if (slowThreshold !== null) {
+    const slow = timings.filter((t) => t.latencySeconds > slowThreshold);
+    if (slow.length > 0) {
+      flags.push({
+        type: 'slow_answer',
+        severity: 'notice',
+        conversationIds: slow.map((t) => t.conversationId),
+      });
+    }
+  }
+
+  // Typing speed only means something when the answer was typed
+  if (input.interviewMode === 'chat') {
+    const fast = timings.filter(
+      (t) => t.characters >= FAST_ANSWER_MIN_CHARS && t.charsPerSecond > FAST_ANSWER_CHARS_PER_SECOND
+    );
+    if (fast.length > 0) {
+      flags.push({
+        type: 'fast_answer',
+        severity: 'warning',
+        conversationIds: fast.map((t) => t.conversationId),
+      });
+    }
+  }
+
+  // Copied from the submission
+  const verbatimMatches = findVerbatimMatches(input.conversations, input.extractedText);
+  if (verbatimMatches.length > 0) {
+    flags.push({
+      type: 'verbatim_copy',
+      severity: 'warning',
+      conversationIds: Array.from(new Set(verbatimMatches.map((m) => m.conversationId))),
+    });
+  }
+
+  // Chat answer telemetry (voice answers and older turns have none)
+  const answersWithTelemetry = input.conversations.filter(
+    (c): c is IntegrityConversation & { telemetry: AnswerTelemetry } => c.role === 'student' && !!c.telemetry
+  );
+
+  const pasted = answersWithTelemetry.filter((c) => c.telemetry.pastedChars >= PASTE_MIN_CHARS);
+  if (pasted.length > 0) {
+    const mostlyPasted = pasted.some(
+      (c) => c.telemetry.pastedChars >= c.content.trim().length * PASTE_WARNING_RATIO
+    );
+    flags.push({
+      type: 'pasted_answer',
+      severity: mostlyPasted ? 'warning' : 'notice',
+      conversationIds: pasted.map((c) => c.id),
+    });
+  }
+
+  // Pasted text already explains missing key presses
+  const lowKeystrokes = answersWithTelemetry.filter((c) => {
+    const typed = c.content.trim().length - c.telemetry.pastedChars;
+    return typed >= LOW_KEYSTROKES_MIN_CHARS && c.telemetry.keystrokes < typed * LOW_KEYSTROKES_RATIO;
+  });
+  if (lowKeystrokes.length > 0) {
+    flags.push({
+      type: 'low_keystrokes',
+      severity: 'warning',
+      conversationIds: lowKeystrokes.map((c) => c.id),
+    });
+  }
+
+  const focusLoss = answersWithTelemetry.filter(
+    (c) => c.telemetry.focusLossMs >= FOCUS_LOSS_NOTICE_SECONDS * 1000
+  );
+  if (focusLoss.length > 0) {
+    flags.push({
+      type: 'focus_loss',
+      severity: focusLoss.some((c) => c.telemetry.focusLossMs >= FOCUS_LOSS_WARNING_SECONDS * 1000)
+        ? 'warning'
+        : 'notice',
+      conversationIds: focusLoss.map((c) => c.id),
+    });
+  }
+
+  // Topics that timed out without an answer
+  const skippedTopics = input.topics
+    .map((topic, index) => ({ index, title: topic.title, status: topic.status }))
+    .filter((topic) => topic.status === 'skipped')
+    .map(({ index, title }) => ({ index, title }));
+  if (skippedTopics.length > 0) {
+    flags.push({
+      type: 'skipped_topics',
+      severity: skippedTopics.length / input.topics.length >= SKIPPED_TOPICS_WARNING_RATIO ? 'warning' : 'notice',
+      conversationIds: [],
+    });
+  }
+
+  if (input.disconnectCount >= DISCONNECTS_NOTICE) {
+    flags.push({
+      type: 'disconnects',
+      severity: input.disconnectCount >= DISCONNECTS_WARNING ? 'warning' : 'notice',
+      conversationIds: [],
+    });
+  }
+
+  return {
+    flags,
+    timings,
+    medianLatencySeconds: medianLatency === null ? null : round(medianLatency),
+    slowAnswerThresholdSeconds: slowThreshold === null ? null : round(slowThreshold),
+    verbatimMatches,
+    skippedTopics,
+    disconnectCount: input.disconnectCount,
+  };
+}
+
+export default {
+  parseAnswerTelemetry,
+  measureTurnTimings,
+  findVerbatimMatches,
+  buildIntegrityReport,
+};
@@ -0,0 +1,365 @@
+/**
+ * Interview Report Service
+ * Printable PDF of a participant's topics, full transcript and evaluation
+ * (GET /api/sessions/:id/participants/:participantId/report.pdf and GET /api/sessions/:id/report.pdf)
+ *
+ * Reports are attached to academic-integrity case files, so every page carries the
+ * session, student and generation time, and the transcript is printed verbatim.
+ * pdfkit's built-in fonts have no Hangul glyphs; a CJK font must be installed
+ * (font-noto-cjk in the Docker image) or pointed to with PDF_FONT_PATH.
+ */
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import type { EvaluationResult } from './llm.js';
+import { finalEvaluation, REVIEW_VERDICT_LABELS, EvaluationReview } from './evaluationReview.js';
+
+export interface ReportConversation {
+  topicIndex: number;
+  role: 'ai' | 'student';
+  content: string;
+  createdAt: Date;
+}
+
+export interface ReportParticipant {
+  id: string;
+  studentName: string;
+  studentId: string | null;
+  status: string;
+  interviewMode: string | null;
+  submittedFileName: string | null;
+  fileSubmittedAt: Date | null;
+  interviewStartedAt: Date | null;
+  interviewEndedAt: Date | null;
+  topics: Array<{ title: string; description?: string }>;
+  conversations: ReportConversation[];
+  summary: EvaluationResult | null;
+  // Teacher review (its private notes are not printed)
+  review: EvaluationReview | null;
+}
+
+export interface ReportSession {
+  title: string;
+  teacherName: string;
+}
+
+interface FontFace {
+  path: string;
+  // PostScript name of the face inside a .ttc collection
+  family?: string;
+}
+
+// Checked in order when PDF_FONT_PATH is not set
+const FONT_CANDIDATES: Array<{ regular: FontFace; bold: FontFace }> = [
+  // Alpine font-noto-cjk (Docker image)
+  {
+    regular: { path: '/usr/share/fonts/noto/NotoSansCJK-Regular.ttc', family: 'NotoSansCJKkr-Regular' },
+    bold: { path: '/usr/share/fonts/noto/NotoSansCJK-Bold.ttc', family: 'NotoSansCJKkr-Bold' },
+  },
+  // Debian/Ubuntu fonts-noto-cjk
+  {
+    regular: { path: '/usr/share/fonts/opentype/noto/NotoSansCJK-Regular.ttc', family: 'NotoSansCJKkr-Regular' },
+    bold: { path: '/usr/share/fonts/opentype/noto/NotoSansCJK-Bold.ttc', family: 'NotoSansCJKkr-Bold' },
+  },
+  // Debian/Ubuntu fonts-nanum
+  {
+    regular: { path: '/usr/share/fonts/truetype/nanum/NanumGothic.ttf' },
+    bold: { path: '/usr/share/fonts/truetype/nanum/NanumGothicBold.ttf' },
+  },
+  // macOS (local development)
+  {
+    regular: { path: '/System/Library/Fonts/AppleSDGothicNeo.ttc', family: 'AppleSDGothicNeo-Regular' },
+    bold: { path: '/System/Library/Fonts/AppleSDGothicNeo.ttc', family: 'AppleSDGothicNeo-Bold' },
+  },
+];
+
+// Spreadsheet exports use the same zone (services/sessionExport.ts)
+const REPORT_TIMEZONE = 'Asia/Seoul';
+
+const PAGE_MARGIN = 50;
+const COLOR_TEXT = '#111827';
+const COLOR_MUTED = '#6b7280';
+const COLOR_AI = '#1d4ed8';
+const COLOR_STUDENT = '#047857';
+
+const STATUS_LABELS: Record<string, string> = {
+  registered: '대기중',
+  file_submitted: '파일 제출됨',
+  interview_in_progress: '진행중',
+  completed: '완료',
+  abandoned: '이탈',
+};
+
+const MODE_LABELS: Record<string, string> = {
+  voice: '음성',
+  chat: '채팅',
+};
+
+let resolvedFonts: { regular: FontFace; bold: FontFace } | null | undefined;
+
+function resolveFonts(): { regular: FontFace; bold: FontFace } | null {
+  if (resolvedFonts !== undefined) return resolvedFonts;
+
+  const configured = process.env.PDF_FONT_PATH;
+  if (configured) {
+    const bold = process.env.PDF_FONT_BOLD_PATH || configured;
+    resolvedFonts = fs.existsSync(configured) && fs.existsSync(bold)
+      ? { regular: { path: configured }, bold: { path: bold } }
+      : null;
+    if (!resolvedFonts) {
+      console.warn(`[Report] PDF_FONT_PATH / PDF_FONT_BOLD_PATH not found: ${configured}, ${bold}`);
+    }
+    return resolvedFonts;
+  }
+
+  resolvedFonts = FONT_CANDIDATES.find((c) => fs.existsSync(c.regular.path) && fs.existsSync(c.bold.path)) ?? null;
+  if (!resolvedFonts) {
+    console.warn('[Report] No Korean font found; set PDF_FONT_PATH to a TTF/OTF font with Hangul glyphs');
+  }
+  return resolvedFonts;
+}
+
+/**
+ * Whether a Korean-capable font is available for PDF reports
+ */
+export function isReportFontAvailable(): boolean {
+  return resolveFonts() !== null;
+}
+
+function formatTimestamp(value: Date | null): string {
+  if (!value) return '-';
+  return new Date(value).toLocaleString('sv-SE', { timeZone: REPORT_TIMEZONE }).slice(0, 16);
+}
+
+// AI turns are markdown; print them as plain text
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, (block) => block.replace(/```\w*\n?/g, ''))
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\*\*([^*]+)\*\*/g, '$1')
+    .replace(/\*([^*\n]+)\*/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*[-*]\s+/gm, '• ');
+}
+
+type Doc = PDFKit.PDFDocument;
+
+function sectionHeading(doc: Doc, text: string): void {
+  doc.moveDown(0.8);
+  doc.font('bold').fontSize(13).fillColor(COLOR_TEXT).text(text);
+  const y = doc.y + 2;
+  doc
+    .moveTo(PAGE_MARGIN, y)
+    .lineTo(doc.page.width - PAGE_MARGIN, y)
+    .lineWidth(0.5)
+    .strokeColor('#d1d5db')
+    .stroke();
+  doc.moveDown(0.5);
+}
+
+function field(doc: Doc, label: string, value: string): void {
+  doc.font('bold').fontSize(10).fillColor(COLOR_MUTED).text(`${label}  `, { continued: true });
+  doc.font('regular').fillColor(COLOR_TEXT).text(value);
+}
+
+function bulletList(doc: Doc, items: string[]): void {
+  if (items.length === 0) {
+    doc.font('regular').fontSize(10).fillColor(COLOR_MUTED).text('-');
+    return;
+  }
+  for (const item of items) {
+    doc.font('regular').fontSize(10).fillColor(COLOR_TEXT).text(`• ${item}`, { indent: 8 });
+  }
+}
+
+function renderParticipant(doc: Doc, session: ReportSession, participant: ReportParticipant): void {
+  doc.font('bold').fontSize(18).fillColor(COLOR_TEXT).text('인터뷰 보고서');
+  doc.font('regular').fontSize(11).fillColor(COLOR_MUTED).text(session.title);
+  doc.moveDown(0.8);
+
+  field(doc, '학생', participant.studentId ? `${participant.studentName} (${participant.studentId})` : participant.studentName);
+  field(doc, '상태', STATUS_LABELS[participant.status] ?? participant.status);
+  field(doc, '인터뷰 방식', participant.interviewMode ? MODE_LABELS[participant.interviewMode] ?? participant.interviewMode : '-');
+  field(doc, '제출 파일', participant.submittedFileName ?? '-');
+  field(doc, '제출 시각', formatTimestamp(participant.fileSubmittedAt));
+  field(doc, '인터뷰 시간', `${formatTimestamp(participant.interviewStartedAt)} ~ ${formatTimestamp(participant.interviewEndedAt)}`);
+  field(doc, '담당 교사', session.teacherName);
+
+  // Evaluation
+  sectionHeading(doc, '평가 결과');
+  const summary = finalEvaluation(participant.summary, participant.review);
+  const review = participant.review;
+  if (!summary) {
+    doc.font('regular').fontSize(10).fillColor(COLOR_MUTED).text('평가가 아직 완료되지 않았습니다.');
+  } else {
+    doc
+      .font('bold')
+      .fontSize(12)
+      .fillColor(COLOR_TEXT)
+      .text(summary.score === null ? '점수: 미채점 (AI 평가 실패, 교사 검토 필요)' : `점수: ${summary.score} / 100`);
+    if (review) {
+      const aiScore = !participant.summary
+        ? ''
+        : participant.summary.score === null
+          ? 'AI 평가 실패, '
+          : `AI 평가 ${participant.summary.score}점, `;
+      doc
+        .font('regular')
+        .fontSize(9)
+        .fillColor(COLOR_MUTED)
+        .text(`${aiScore}${review.reviewedBy} 검토 (${formatTimestamp(new Date(review.reviewedAt))})`);
+      if (review.verdict) {
+        field(doc, '검토 결과', REVIEW_VERDICT_LABELS[review.verdict]);
+      }
+    }
+    doc.moveDown(0.4);
+
+    if (summary.criteria && summary.criteria.length > 0) {
+      for (const criterion of summary.criteria) {
+        doc
+          .font('bold')
+          .fontSize(10)
+          .fillColor(COLOR_TEXT)
+          .text(`${criterion.name} — ${criterion.level} (${criterion.score}점, 가중치 ${criterion.weight})`);
+        if (criterion.rationale) {
+          doc.font('regular').fontSize(10).text(criterion.rationale, { indent: 8 });
+        }
+        for (const quote of criterion.evidence) {
+          doc.font('regular').fontSize(9).fillColor(COLOR_MUTED).text(`“${quote}”`, { indent: 16 });
+        }
+        doc.moveDown(0.3);
+      }
+    }
+
+    doc.font('bold').fontSize(10).fillColor(COLOR_TEXT).text('강점');
+    bulletList(doc, summary.strengths);
+    doc.moveDown(0.3);
+    doc.font('bold').fontSize(10).fillColor(COLOR_TEXT).text('약점');
+    bulletList(doc, summary.weaknesses);
+    doc.moveDown(0.3);
+    doc.font('bold').fontSize(10).fillColor(COLOR_TEXT).text('총평');
+    doc.font('regular').fontSize(10).text(summary.overallComment || '-');
+  }
+
+  // Transcript, grouped by topic in interview order
+  sectionHeading(doc, '주제 및 대화 기록');
+  if (participant.topics.length === 0) {
+    doc.font('regular').fontSize(10).fillColor(COLOR_MUTED).text('분석된 주제가 없습니다.');
+  }
+
+  participant.topics.forEach((topic, index) => {
+    doc.moveDown(0.4);
+    doc.font('bold').fontSize(11).fillColor(COLOR_TEXT).text(`주제 ${index + 1}. ${topic.title}`);
+    if (topic.description) {
+      doc.font('regular').fontSize(9).fillColor(COLOR_MUTED).text(topic.description);
+    }
+    doc.moveDown(0.3);
+
+    const turns = participant.conversations.filter((c) => c.topicIndex === index);
+    if (turns.length === 0) {
+      doc.font('regular').fontSize(10).fillColor(COLOR_MUTED).text('대화 기록 없음');
+      return;
+    }
+
+    for (const turn of turns) {
+      const isAi = turn.role === 'ai';
+      doc
+        .font('bold')
+        .fontSize(9)
+        .fillColor(isAi ? COLOR_AI : COLOR_STUDENT)
+        .text(`${isAi ? 'AI' : participant.studentName}  `, { continued: true })
+        .font('regular')
+        .fillColor(COLOR_MUTED)
+        .text(formatTimestamp(turn.createdAt));
+      doc
+        .font('regular')
+        .fontSize(10)
+        .fillColor(COLOR_TEXT)
+        .text(isAi ? stripMarkdown(turn.content) : turn.content, { indent: 8 });
+      doc.moveDown(0.4);
+    }
+  });
+}
+
+// Header/footer on every page: session, student and page numbers
+function stampPages(doc: Doc, session: ReportSession, pageOwners: string[], generatedAt: string): void {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise add a page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+
+    const width = doc.page.width - PAGE_MARGIN * 2;
+    doc
+      .font('regular')
+      .fontSize(8)
+      .fillColor(COLOR_MUTED)
+      .text(`${session.title} · ${pageOwners[i - range.start]}`, PAGE_MARGIN, PAGE_MARGIN / 2, {
+        width,
+        lineBreak: false,
+      });
+    doc.text(
+      `생성 ${generatedAt} · ${i - range.start + 1} / ${range.count}`,
+      PAGE_MARGIN,
+      doc.page.height - PAGE_MARGIN / 2 - 8,
+      { width, align: 'right', lineBreak: false }
+    );
+
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+/**
+ * Render one or more participants into a single PDF, each starting on a new page
+ */
+export function renderReport(session: ReportSession, participants: ReportParticipant[]): Promise<Buffer> {
+  const fonts = resolveFonts();
+  if (!fonts) {
+    return Promise.reject(new Error('No Korean font available for PDF reports'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: participants.length === 1 ? `${session.title} - ${participants[0].studentName}` : session.title,
+        Author: session.teacherName,
+        Subject: '인터뷰 보고서',
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    try {
+      doc.registerFont('regular', fonts.regular.path, fonts.regular.family);
+      doc.registerFont('bold', fonts.bold.path, fonts.bold.family);
+
+      // Which participant each page belongs to, for the page header
+      const pageOwners: string[] = [];
+      participants.forEach((participant, index) => {
+        if (index > 0) doc.addPage();
+        const firstPage = doc.bufferedPageRange().count - 1;
+        renderParticipant(doc, session, participant);
+        const lastPage = doc.bufferedPageRange().count - 1;
+        for (let page = firstPage; page <= lastPage; page++) {
+          pageOwners[page] = participant.studentName;
+        }
+      });
+
+      stampPages(doc, session, pageOwners, formatTimestamp(new Date()));
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+export default {
+  isReportFontAvailable,
+  renderReport,
+};
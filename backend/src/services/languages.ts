@@ -0,0 +1,197 @@
+/**
+ * Interview Languages
+ * Per-session interview language (assignment_sessions.interview_language)
+ *
+ * The language decides what the LLM writes (topics, questions, follow-up rationale,
+ * evaluation), the Whisper language hint and the ElevenLabs voice, plus the few
+ * fixed questions the server falls back to. Teacher-facing PDF reports stay Korean.
+ * Prompt instructions are English; the input around the student's own text (transcript
+ * labels, requests) is in the interview language so a prompt never mixes two of them.
+ */
+
+export type InterviewLanguage = 'ko' | 'en' | 'ja' | 'zh';
+
+export const INTERVIEW_LANGUAGES: InterviewLanguage[] = ['ko', 'en', 'ja', 'zh'];
+
+export const DEFAULT_INTERVIEW_LANGUAGE: InterviewLanguage = 'ko';
+
+export interface LanguageProfile {
+  code: InterviewLanguage;
+  // Used in prompts: "Respond in <promptName>"
+  promptName: string;
+  // Prompt style examples
+  exampleQuestion: string;
+  exampleBadQuestion: string;
+  spokenFillers: string;
+  // Prompt input scaffolding (services/llm.ts)
+  prompt: {
+    // Speaker label of student turns in transcripts ("<label>: answer")
+    studentLabel: string;
+    analyzeTopics: (topicCount: number) => string;
+    assignment: string;
+    assignmentExcerpt: string;
+    previousConversation: string;
+    topicConversation: string;
+    transcript: string;
+    firstQuestion: string;
+    nextQuestion: string;
+    assessAnswer: string;
+    evaluateInterview: string;
+  };
+  // Server-side fallbacks when the LLM is unavailable
+  firstQuestion: (topicTitle: string) => string;
+  topicQuestion: (topicTitle: string) => string;
+  followUpQuestion: string;
+  evaluationFallback: {
+    strengths: string[];
+    weaknesses: string[];
+    overallComment: string;
+  };
+}
+
+const PROFILES: Record<InterviewLanguage, LanguageProfile> = {
+  ko: {
+    code: 'ko',
+    promptName: 'Korean',
+    exampleQuestion: '이 부분을 어떻게 생각해서 이렇게 작성하셨어요?',
+    exampleBadQuestion: '다음 세 가지에 대해 답해주세요: 1. 첫 번째...',
+    spokenFillers: '"그럼", "그래서", "음"',
+    prompt: {
+      studentLabel: '학생',
+      analyzeTopics: (count) => `다음 과제 텍스트를 분석하고 ${count}개의 주요 주제를 JSON 형식으로 추출해주세요:`,
+      assignment: '과제 내용',
+      assignmentExcerpt: '과제 내용 (일부)',
+      previousConversation: '이전 대화',
+      topicConversation: '이 주제의 대화',
+      transcript: '인터뷰 기록',
+      firstQuestion: '이 주제에 대한 첫 번째 질문을 생성해주세요.',
+      nextQuestion: '다음 질문을 생성해주세요.',
+      assessAnswer: '학생의 마지막 답변을 평가하고 JSON 형식으로 다음 질문 방향을 정해주세요.',
+      evaluateInterview: '다음 인터뷰를 평가하고 JSON 형식으로 결과를 제공해주세요.',
+    },
+    firstQuestion: (title) => `${title}에 대해 설명해 주세요. 이 부분을 어떻게 작성하셨나요?`,
+    topicQuestion: (title) => `${title}에 대해 설명해 주세요.`,
+    followUpQuestion: '이 부분에 대해 더 자세히 설명해 주시겠어요?',
+    evaluationFallback: {
+      strengths: ['인터뷰에 참여했습니다.'],
+      weaknesses: ['평가를 완료하지 못했습니다.'],
+      overallComment: '인터뷰가 완료되었습니다. 세부 평가는 교사에게 문의하세요.',
+    },
+  },
+  en: {
+    code: 'en',
+    promptName: 'English',
+    exampleQuestion: 'What were you thinking when you wrote this part this way?',
+    exampleBadQuestion: 'Please answer the following three points: 1. First...',
+    spokenFillers: '"so", "okay", "I see"',
+    prompt: {
+      studentLabel: 'Student',
+      analyzeTopics: (count) => `Analyze the following assignment text and extract ${count} main topics in JSON format:`,
+      assignment: 'Assignment',
+      assignmentExcerpt: 'Assignment (excerpt)',
+      previousConversation: 'Previous conversation',
+      topicConversation: 'Conversation on this topic',
+      transcript: 'Interview transcript',
+      firstQuestion: 'Generate the first question on this topic.',
+      nextQuestion: 'Generate the next question.',
+      assessAnswer: "Assess the student's last answer and choose the direction of the next question in JSON format.",
+      evaluateInterview: 'Evaluate the following interview and provide the result in JSON format.',
+    },
+    firstQuestion: (title) => `Please explain ${title}. How did you write this part?`,
+    topicQuestion: (title) => `Please explain ${title}.`,
+    followUpQuestion: 'Could you explain this part in more detail?',
+    evaluationFallback: {
+      strengths: ['Took part in the interview.'],
+      weaknesses: ['The evaluation could not be completed.'],
+      overallComment: 'The interview is complete. Please ask your teacher for a detailed evaluation.',
+    },
+  },
+  ja: {
+    code: 'ja',
+    promptName: 'Japanese',
+    exampleQuestion: 'この部分はどのように考えてこう書いたのですか？',
+    exampleBadQuestion: '次の三つについて答えてください：1. 一つ目…',
+    spokenFillers: '"じゃあ", "なるほど", "えっと"',
+    prompt: {
+      studentLabel: '学生',
+      analyzeTopics: (count) => `次の課題テキストを分析し、${count}個の主なトピックをJSON形式で抽出してください：`,
+      assignment: '課題内容',
+      assignmentExcerpt: '課題内容（一部）',
+      previousConversation: 'これまでの会話',
+      topicConversation: 'このトピックの会話',
+      transcript: 'インタビュー記録',
+      firstQuestion: 'このトピックについて最初の質問を作成してください。',
+      nextQuestion: '次の質問を作成してください。',
+      assessAnswer: '学生の最後の回答を評価し、次の質問の方向をJSON形式で決めてください。',
+      evaluateInterview: '次のインタビューを評価し、結果をJSON形式で出力してください。',
+    },
+    firstQuestion: (title) => `${title}について説明してください。この部分はどのように書きましたか？`,
+    topicQuestion: (title) => `${title}について説明してください。`,
+    followUpQuestion: 'この部分についてもう少し詳しく説明してもらえますか？',
+    evaluationFallback: {
+      strengths: ['インタビューに参加しました。'],
+      weaknesses: ['評価を完了できませんでした。'],
+      overallComment: 'インタビューが完了しました。詳しい評価は先生に確認してください。',
+    },
+  },
+  zh: {
+    code: 'zh',
+    promptName: 'Simplified Chinese',
+    exampleQuestion: '你写这一部分的时候是怎么考虑的？',
+    exampleBadQuestion: '请回答以下三点：1. 第一……',
+    spokenFillers: '"那么", "所以", "嗯"',
+    prompt: {
+      studentLabel: '学生',
+      analyzeTopics: (count) => `请分析以下作业文本，并以JSON格式提取${count}个主要主题：`,
+      assignment: '作业内容',
+      assignmentExcerpt: '作业内容（部分）',
+      previousConversation: '之前的对话',
+      topicConversation: '本主题的对话',
+      transcript: '面试记录',
+      firstQuestion: '请就这个主题提出第一个问题。',
+      nextQuestion: '请提出下一个问题。',
+      assessAnswer: '请评估学生的最后一个回答，并以JSON格式确定下一个问题的方向。',
+      evaluateInterview: '请评估以下面试，并以JSON格式给出结果。',
+    },
+    firstQuestion: (title) => `请说明一下${title}。这一部分你是怎么写的？`,
+    topicQuestion: (title) => `请说明一下${title}。`,
+    followUpQuestion: '能再详细说明一下这一部分吗？',
+    evaluationFallback: {
+      strengths: ['参加了面试。'],
+      weaknesses: ['未能完成评估。'],
+      overallComment: '面试已结束。详细评估请咨询老师。',
+    },
+  },
+};
+
+export function isInterviewLanguage(value: unknown): value is InterviewLanguage {
+  return typeof value === 'string' && (INTERVIEW_LANGUAGES as string[]).includes(value);
+}
+
+/**
+ * Profile for a stored language code (unknown or missing codes get the default)
+ */
+export function languageProfile(language?: string | null): LanguageProfile {
+  return PROFILES[isInterviewLanguage(language) ? language : DEFAULT_INTERVIEW_LANGUAGE];
+}
+
+/**
+ * ElevenLabs voice for the language
+ * ELEVENLABS_VOICE_ID_<LANG> (e.g. ELEVENLABS_VOICE_ID_EN) overrides ELEVENLABS_VOICE_ID
+ */
+export function ttsVoiceId(language?: string | null): string {
+  const code = languageProfile(language).code;
+  return (
+    process.env[`ELEVENLABS_VOICE_ID_${code.toUpperCase()}`] ||
+    process.env.ELEVENLABS_VOICE_ID ||
+    '4JJwo477JUAx3HV0T7n7'
+  );
+}
+
+export default {
+  INTERVIEW_LANGUAGES,
+  DEFAULT_INTERVIEW_LANGUAGE,
+  isInterviewLanguage,
+  languageProfile,
+  ttsVoiceId,
+};
@@ -1,35 +1,20 @@
-import OpenAI from 'openai';
-
-// Lazy initialization to ensure env vars are loaded
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      console.error('OPENAI_API_KEY is not set in environment variables');
-      throw new Error('OpenAI API key not configured');
-    }
-    openaiClient = new OpenAI({ apiKey });
-    console.log('OpenAI client initialized successfully');
-  }
-  return openaiClient;
+import { getLLMProvider, type LLMRequest } from './llmProviders/index.js';
+import { Rubric, CriterionScore, computeWeightedScore, filterEvidence } from './rubric.js';
+import { InterviewLanguage, languageProfile } from './languages.js';
+import { topicWeight, weightedTopicScore } from './topics.js';
+
+// Self-hosted models sometimes wrap JSON in markdown fences despite JSON mode
+function parseJSONResponse<T>(content: string): T {
+  const trimmed = content.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return JSON.parse(fenced ? fenced[1] : trimmed) as T;
 }
 
-// Reasoning effort type matching OpenAI SDK (supports GPT-5.x models)
-// - 'none': No reasoning (default for gpt-5.1+, lowest latency)
-// - 'minimal', 'low', 'medium', 'high': Increasing reasoning depth
-// - 'xhigh': Maximum reasoning (supported for gpt-5.1-codex-max+)
-type ReasoningEffort = 'none' | 'minimal' | 'low' | 'medium' | 'high' | 'xhigh';
-
-const VALID_EFFORTS: readonly string[] = ['none', 'minimal', 'low', 'medium', 'high', 'xhigh'];
-
-function getReasoningEffort(): ReasoningEffort {
-  const effort = process.env.OPENAI_REASONING_EFFORT || 'medium';
-  if (VALID_EFFORTS.includes(effort)) {
-    return effort as ReasoningEffort;
-  }
-  return 'medium';
+// One "<speaker>: text" line per message; student turns use the interview language's label
+function formatTranscript(messages: Array<{ role: 'ai' | 'student'; content: string }>, studentLabel: string): string {
+  return messages
+    .map((msg) => `${msg.role === 'ai' ? 'AI' : studentLabel}: ${msg.content}`)
+    .join('\n');
 }
 
 // Topic interface
@@ -37,6 +22,10 @@ export interface Topic {
   index: number;
   title: string;
   description: string;
+  // Importance 1-3 (minor detail / normal / core); missing = normal (see services/topics.ts)
+  weight?: number;
+  // Teacher-set time budget in seconds; missing = share of the session budget by weight
+  duration?: number;
 }
 
 // Question generation context
@@ -50,20 +39,88 @@ export interface QuestionContext {
   assignmentInfo?: string;
   topicDuration?: number;
   interviewMode?: 'voice' | 'chat';
+  // Optional teacher questions for this topic (services/questionBank.ts)
+  bankQuestions?: string[];
+  // How the last answer went and what the next question should do (assessAnswer)
+  followUp?: FollowUpPlan;
+  // Session interview language (default Korean)
+  language?: InterviewLanguage;
+}
+
+// How well the latest answer holds up
+export type AnswerAssessment = 'correct' | 'vague' | 'incorrect' | 'contradicts_submission';
+
+// What the next question does about it
+export type FollowUpMove = 'probe_deeper' | 'ask_example' | 'challenge_contradiction' | 'move_on';
+
+export type QuestionDifficulty = 'basic' | 'standard' | 'advanced';
+
+// Stored on the AI turn (interview_conversations.follow_up) as the reason for the question
+export interface FollowUpPlan {
+  assessment: AnswerAssessment;
+  move: FollowUpMove;
+  difficulty: QuestionDifficulty;
+  rationale: string;
+}
+
+const ANSWER_ASSESSMENTS: AnswerAssessment[] = ['correct', 'vague', 'incorrect', 'contradicts_submission'];
+const FOLLOW_UP_MOVES: FollowUpMove[] = ['probe_deeper', 'ask_example', 'challenge_contradiction', 'move_on'];
+const DIFFICULTIES: QuestionDifficulty[] = ['basic', 'standard', 'advanced'];
+
+// Default move when the model returns an assessment without a usable move
+const DEFAULT_MOVES: Record<AnswerAssessment, FollowUpMove> = {
+  correct: 'probe_deeper',
+  vague: 'ask_example',
+  incorrect: 'ask_example',
+  contradicts_submission: 'challenge_contradiction',
+};
+
+const FOLLOW_UP_GUIDELINES: Record<FollowUpMove, string> = {
+  probe_deeper: 'The last answer was convincing. Go one level deeper on the same point: ask why, how it works, or what would change under different conditions.',
+  ask_example: 'The last answer was vague or shaky. Ask for one concrete example, step, or detail from their own work that shows they know it.',
+  challenge_contradiction: 'The last answer does not match the submission. Politely point at the specific part of the submission and ask the student to reconcile the two.',
+  move_on: 'This point is settled. Move to a different aspect of the current topic that has not been discussed yet.',
+};
+
+// The assessment runs before every follow-up question and holds it back, so it gets a
+// short budget (LLM_ASSESSMENT_TIMEOUT_MS); past it the question is generated without one
+const DEFAULT_ASSESSMENT_TIMEOUT_MS = 3000;
+
+function getAssessmentTimeoutMs(): number {
+  const value = parseInt(process.env.LLM_ASSESSMENT_TIMEOUT_MS || '', 10);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_ASSESSMENT_TIMEOUT_MS;
+}
+
+const DIFFICULTY_GUIDELINES: Record<QuestionDifficulty, string> = {
+  basic: 'Keep the question simple and concrete so the student can show what they do know.',
+  standard: 'Ask at a normal level for this assignment.',
+  advanced: 'The student is answering well; ask a demanding question about reasoning, trade-offs, or edge cases.',
+};
+
+/**
+ * Difficulty for the next question from the answers so far in the topic
+ * Each convincing answer raises it one level and each weak answer lowers it; starts at standard.
+ */
+export function nextDifficulty(previousAssessments: AnswerAssessment[]): QuestionDifficulty {
+  let level = 1;
+  for (const assessment of previousAssessments) {
+    level += assessment === 'correct' ? 1 : -1;
+    level = Math.max(0, Math.min(DIFFICULTIES.length - 1, level));
+  }
+  return DIFFICULTIES[level];
 }
 
 /**
- * Analyze extracted PDF text and identify main topics for interview
- * Uses OpenAI Responses API with gpt-5.2 and medium reasoning effort
+ * Analyze extracted assignment text and identify main topics for interview
+ * Uses the configured LLM provider (LLM_PROVIDER)
  */
 export async function analyzeTopics(
   extractedText: string,
   topicCount: number,
-  assignmentInfo?: string
+  assignmentInfo?: string,
+  language?: InterviewLanguage
 ): Promise<Topic[]> {
-  const model = process.env.OPENAI_MODEL || 'gpt-5.2';
-  const reasoningEffort = getReasoningEffort();
-
+  const { promptName, prompt } = languageProfile(language);
   const assignmentContext = assignmentInfo
     ? `\n\nAssignment Context (provided by teacher):\n${assignmentInfo}\n\nUse this context to focus on the most relevant and important aspects of the assignment.`
     : '';
@@ -77,43 +134,42 @@ Requirements:
 3. Avoid overlapping topics
 4. Focus on areas where the student's understanding can be verified
 5. If assignment context is provided, prioritize topics that align with the assignment's core objectives
+6. Rate each topic's importance as "weight": 3 for the core idea or methodology of the work, 2 for a normal topic, 1 for a minor detail. Heavier topics get more interview time and count more in the final score
 
 Respond in JSON format:
 {
   "topics": [
     {
       "index": 0,
-      "title": "Topic title in Korean",
-      "description": "Brief description of what to discuss, in Korean"
+      "title": "Topic title in ${promptName}",
+      "description": "Brief description of what to discuss, in ${promptName}",
+      "weight": 2
     }
   ]
 }`;
 
   try {
-    const client = getOpenAIClient();
-    console.log(`[analyzeTopics] Using model: ${model}, reasoning: ${reasoningEffort}`);
-
-    const response = await client.responses.create({
-      model,
+    const content = await getLLMProvider().complete({
+      task: 'analyzeTopics',
       instructions,
-      input: `다음 과제 텍스트를 분석하고 ${topicCount}개의 주요 주제를 JSON 형식으로 추출해주세요:\n\n${extractedText.slice(0, 15000)}`,
-      text: { format: { type: 'json_object' } },
-      reasoning: { effort: reasoningEffort },
+      input: `${prompt.analyzeTopics(topicCount)}\n\n${extractedText.slice(0, 15000)}`,
+      responseFormat: 'json',
+      hints: { topicCount },
     });
 
-    const content = response.output_text;
     if (!content) {
       throw new Error('Empty response from LLM');
     }
 
     console.log(`[analyzeTopics] Successfully received response`);
-    const parsed = JSON.parse(content);
+    const parsed = parseJSONResponse<{ topics?: Topic[] }>(content);
     const topics: Topic[] = parsed.topics || [];
 
     return topics.map((topic, idx) => ({
       index: idx,
       title: topic.title,
       description: topic.description,
+      weight: topicWeight(topic),
     }));
   } catch (error: unknown) {
     const err = error as Error & { status?: number; code?: string };
@@ -127,19 +183,10 @@ Respond in JSON format:
   }
 }
 
-/**
- * Generate an interview question for a specific topic
- * Uses OpenAI Responses API with gpt-5.2
- */
-export async function generateQuestion(
-  context: QuestionContext
-): Promise<string> {
-  const model = process.env.OPENAI_MODEL || 'gpt-5.2';
-  const reasoningEffort = getReasoningEffort();
-
-  const conversationHistory = context.previousConversation
-    .map((msg) => `${msg.role === 'ai' ? 'AI' : '학생'}: ${msg.content}`)
-    .join('\n');
+// Build the provider request shared by generateQuestion and generateQuestionStream
+function buildQuestionRequest(context: QuestionContext): LLMRequest {
+  const { promptName, exampleQuestion, exampleBadQuestion, spokenFillers, prompt } = languageProfile(context.language);
+  const conversationHistory = formatTranscript(context.previousConversation, prompt.studentLabel);
 
   // Adjust question complexity based on topic duration
   const duration = context.topicDuration || 180;
@@ -157,40 +204,50 @@ export async function generateQuestion(
     ? `\n\nAssignment Context: ${context.assignmentInfo}\nFocus questions on the core objectives mentioned in this context.`
     : '';
 
+  // Offer the teacher's optional questions; the model adapts them to the conversation
+  const questionBankContext = context.bankQuestions && context.bankQuestions.length > 0
+    ? `\n\nTeacher's question bank for this topic:\n${context.bankQuestions.map((q) => `- ${q}`).join('\n')}\nWhen one of these fits the conversation, ask it in your own words or build a follow-up on it. Do not repeat a question that was already asked.`
+    : '';
+
+  // Adaptive follow-up: steer the next question by how the last answer went
+  const followUpContext = context.followUp
+    ? `\n\nAssessment of the student's last answer: ${context.followUp.assessment} (${context.followUp.rationale})\nNext move: ${FOLLOW_UP_GUIDELINES[context.followUp.move]}\nDifficulty: ${DIFFICULTY_GUIDELINES[context.followUp.difficulty]}`
+    : '';
+
   // Voice mode: short, conversational questions for spoken delivery
   const voiceModeInstructions = `You are conducting an oral interview to verify a student's authorship of their homework.
 
 Current topic: ${context.topic.title}
-Topic description: ${context.topic.description}${assignmentContext}
+Topic description: ${context.topic.description}${assignmentContext}${questionBankContext}${followUpContext}
 
 CRITICAL Guidelines for VOICE mode:
 1. Keep questions SHORT (1-2 sentences maximum) - this will be spoken aloud
-2. Use conversational, natural Korean - avoid formal written style
+2. Use conversational, natural ${promptName} - avoid formal written style
 3. NEVER use numbered lists, bullet points, or structured formatting
 4. Ask ONE focused question at a time, not multiple questions
-5. Use spoken language patterns naturally (e.g., "그럼", "그래서", "음")
-6. Questions should be in Korean
+5. Use spoken language patterns naturally (e.g., ${spokenFillers})
+6. Questions should be in ${promptName}
 7. Build on previous answers if available${complexityGuideline}
 
-Example good question: "이 부분을 어떻게 생각해서 이렇게 작성하셨어요?"
-Example bad question: "다음 세 가지에 대해 답해주세요: 1. 첫 번째..."`;
+Example good question: "${exampleQuestion}"
+Example bad question: "${exampleBadQuestion}"`;
 
   // Chat mode: similar to voice mode with short, conversational questions
   const chatModeInstructions = `You are conducting an oral interview to verify a student's authorship of their homework.
 
 Current topic: ${context.topic.title}
-Topic description: ${context.topic.description}${assignmentContext}
+Topic description: ${context.topic.description}${assignmentContext}${questionBankContext}${followUpContext}
 
 CRITICAL Guidelines for CHAT mode:
 1. Keep questions SHORT (2-3 sentences maximum)
-2. Use conversational, natural Korean
+2. Use conversational, natural ${promptName}
 3. NEVER use numbered lists, bullet points, or structured formatting
 4. Ask ONE focused question at a time, not multiple questions
-5. Questions should be in Korean
+5. Questions should be in ${promptName}
 6. Build on previous answers if available${complexityGuideline}
 
-Example good question: "이 부분을 어떻게 생각해서 이렇게 작성하셨어요?"
-Example bad question: "다음 세 가지에 대해 답해주세요: 1. 첫 번째..."`;
+Example good question: "${exampleQuestion}"
+Example bad question: "${exampleBadQuestion}"`;
 
   // Select instructions based on interview mode
   const instructions = context.interviewMode === 'voice'
@@ -198,8 +255,8 @@ Example bad question: "다음 세 가지에 대해 답해주세요: 1. 첫 번
     : chatModeInstructions;
 
   const input = conversationHistory
-    ? `이전 대화:\n${conversationHistory}\n\n다음 질문을 생성해주세요.`
-    : `과제 내용:\n${context.assignmentText.slice(0, 5000)}\n\n이 주제에 대한 첫 번째 질문을 생성해주세요.`;
+    ? `${prompt.previousConversation}:\n${conversationHistory}\n\n${prompt.nextQuestion}`
+    : `${prompt.assignment}:\n${context.assignmentText.slice(0, 5000)}\n\n${prompt.firstQuestion}`;
 
   // Dynamic token limit based on duration and mode
   // Voice mode needs shorter responses for better listening experience
@@ -208,18 +265,26 @@ Example bad question: "다음 세 가지에 대해 답해주세요: 1. 첫 번
     ? Math.min(baseTokens, 300)  // Voice mode: cap at 300 tokens for shorter questions
     : baseTokens;
 
-  try {
-    const client = getOpenAIClient();
+  return {
+    task: 'generateQuestion',
+    instructions,
+    input,
+    responseFormat: 'text',
+    maxOutputTokens: maxTokens,
+    hints: { topicTitle: context.topic.title },
+  };
+}
 
-    const response = await client.responses.create({
-      model,
-      instructions,
-      input,
-      reasoning: { effort: reasoningEffort },
-      max_output_tokens: maxTokens,
-    });
+/**
+ * Generate an interview question for a specific topic
+ * Uses the configured LLM provider (LLM_PROVIDER)
+ */
+export async function generateQuestion(
+  context: QuestionContext
+): Promise<string> {
+  try {
+    const content = await getLLMProvider().complete(buildQuestionRequest(context));
 
-    const content = response.output_text;
     if (!content) {
       throw new Error('Empty response from LLM');
     }
@@ -232,36 +297,226 @@ Example bad question: "다음 세 가지에 대해 답해주세요: 1. 첫 번
   }
 }
 
+/**
+ * Assess the student's latest answer and choose the next move
+ * Compares the answer with the submission and the topic conversation so far. The
+ * difficulty comes from earlier assessments in the topic, not from the model.
+ * Fails when the model takes longer than LLM_ASSESSMENT_TIMEOUT_MS (default 3s).
+ */
+export async function assessAnswer(
+  context: Pick<QuestionContext, 'topic' | 'assignmentText' | 'previousConversation' | 'assignmentInfo' | 'language'>,
+  previousAssessments: AnswerAssessment[]
+): Promise<FollowUpPlan> {
+  const { promptName, prompt } = languageProfile(context.language);
+  const conversationHistory = formatTranscript(context.previousConversation, prompt.studentLabel);
+
+  const assignmentContext = context.assignmentInfo
+    ? `\nAssignment Context: ${context.assignmentInfo}`
+    : '';
+
+  const instructions = `You are assisting an oral interview that verifies a student's authorship of their homework.
+
+Current topic: ${context.topic.title}
+Topic description: ${context.topic.description}${assignmentContext}
+
+Assess ONLY the student's last answer in the conversation against their submitted work:
+- "correct": specific and consistent with the submission
+- "vague": generic, evasive, or too short to show understanding
+- "incorrect": factually wrong or misunderstands their own work
+- "contradicts_submission": conflicts with what the submission says or does
+
+Then choose the next move:
+- "probe_deeper": go further into the same point
+- "ask_example": ask for a concrete example or detail
+- "challenge_contradiction": confront the mismatch with the submission
+- "move_on": the point is settled; continue with another aspect of the topic
+
+Respond in JSON format:
+{
+  "assessment": "correct" | "vague" | "incorrect" | "contradicts_submission",
+  "move": "probe_deeper" | "ask_example" | "challenge_contradiction" | "move_on",
+  "rationale": "One sentence in ${promptName} for the teacher, citing the answer or the submission"
+}`;
+
+  const timeoutMs = getAssessmentTimeoutMs();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+    const content = await Promise.race([
+      getLLMProvider().complete({
+        task: 'assessAnswer',
+        instructions,
+        input: `${prompt.assignment}:\n${context.assignmentText.slice(0, 5000)}\n\n${prompt.topicConversation}:\n${conversationHistory}\n\n${prompt.assessAnswer}`,
+        responseFormat: 'json',
+        hints: { topicTitle: context.topic.title, studentLabel: prompt.studentLabel },
+      }),
+      timeout,
+    ]);
+
+    if (!content) {
+      throw new Error('Empty response from LLM');
+    }
+
+    const parsed = parseJSONResponse<{ assessment?: string; move?: string; rationale?: string }>(content);
+    const assessment = ANSWER_ASSESSMENTS.find((a) => a === parsed.assessment?.trim());
+    if (!assessment) {
+      throw new Error(`Unknown assessment: ${parsed.assessment}`);
+    }
+    const move = FOLLOW_UP_MOVES.find((m) => m === parsed.move?.trim()) || DEFAULT_MOVES[assessment];
+
+    return {
+      assessment,
+      move,
+      difficulty: nextDifficulty([...previousAssessments, assessment]),
+      rationale: (parsed.rationale || '').trim().slice(0, 500),
+    };
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('[assessAnswer] Error:', err.message);
+    throw new Error('Failed to assess answer');
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Terminal punctuation (plus closing quotes/brackets) followed by whitespace, or a line break
+const SENTENCE_BOUNDARY = /[.?!。？！]+["'”’)\]]*\s+|\n+/;
+
+/**
+ * Split off the complete sentences at the front of a streaming buffer
+ * The unfinished tail is returned as `rest` and should be kept for the next delta.
+ */
+export function splitCompleteSentences(buffer: string): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  let rest = buffer;
+  let match = rest.match(SENTENCE_BOUNDARY);
+
+  while (match && match.index !== undefined) {
+    const end = match.index + match[0].length;
+    const sentence = rest.slice(0, end).trim();
+    if (sentence) {
+      sentences.push(sentence);
+    }
+    rest = rest.slice(end);
+    match = rest.match(SENTENCE_BOUNDARY);
+  }
+
+  return { sentences, rest };
+}
+
+/**
+ * Generate an interview question, reporting each sentence as soon as it is complete
+ * Lets voice mode start TTS on the first sentence while the rest is still being
+ * generated. Resolves with the full question once the stream ends.
+ */
+export async function generateQuestionStream(
+  context: QuestionContext,
+  onSentence: (sentence: string, sentenceIndex: number) => void
+): Promise<string> {
+  try {
+    const spoken: string[] = [];
+    const emit = (sentence: string) => {
+      onSentence(sentence, spoken.length);
+      spoken.push(sentence);
+    };
+
+    let buffer = '';
+    for await (const delta of getLLMProvider().stream(buildQuestionRequest(context))) {
+      const { sentences, rest } = splitCompleteSentences(buffer + delta);
+      buffer = rest;
+      sentences.forEach(emit);
+    }
+
+    const last = buffer.trim();
+    if (last) {
+      emit(last);
+    }
+
+    if (spoken.length === 0) {
+      throw new Error('Empty response from LLM');
+    }
+
+    // Re-join the sentences as they were spoken so the stored question matches the audio
+    return spoken.join(' ');
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('[generateQuestionStream] Error:', err.message);
+    throw new Error('Failed to generate interview question');
+  }
+}
+
+// Evaluation result (stored as student_participants.summary)
+export interface EvaluationResult {
+  // null = not graded (the AI evaluation failed; see fallback)
+  score: number | null;
+  strengths: string[];
+  weaknesses: string[];
+  overallComment: string;
+  criteria?: CriterionScore[];
+  // Without a rubric the score is the weighted average of these
+  topics?: TopicScore[];
+  // The AI evaluation failed: no score, generic feedback; the teacher grades it
+  fallback?: boolean;
+}
+
+// Score of one interview topic, weighted by its importance
+export interface TopicScore {
+  index: number;
+  title: string;
+  weight: number;
+  score: number;
+}
+
+// Render the rubric as prompt text, one criterion per block with its levels
+function formatRubric(rubric: Rubric): string {
+  return rubric.criteria
+    .map((criterion, idx) => {
+      const levels = criterion.levels
+        .map((level) => `   - "${level.label}" (score ${level.score}): ${level.descriptor}`)
+        .join('\n');
+      const description = criterion.description ? ` - ${criterion.description}` : '';
+      return `${idx + 1}. ${criterion.name} (weight ${criterion.weight})${description}\n${levels}`;
+    })
+    .join('\n');
+}
+
+// A model score as a whole number from 0 to 100, or null when it gave no number
+function toScore(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const score = Number(value);
+  return Number.isFinite(score) ? Math.min(100, Math.max(0, Math.round(score))) : null;
+}
+
 /**
  * Evaluate student responses and generate summary
- * Uses OpenAI Responses API with gpt-5.2
+ * Uses the configured LLM provider (LLM_PROVIDER)
+ * When a rubric is given, each criterion is scored with evidence quotes and
+ * the overall score becomes the weighted average of the criterion scores.
  */
 export async function evaluateInterview(
   assignmentText: string,
   conversations: Array<{
     topicIndex: number;
     topicTitle: string;
+    topicWeight?: number;
     messages: Array<{ role: 'ai' | 'student'; content: string }>;
-  }>
-): Promise<{
-  score: number;
-  strengths: string[];
-  weaknesses: string[];
-  overallComment: string;
-}> {
-  const model = process.env.OPENAI_MODEL || 'gpt-5.2';
-  const reasoningEffort = getReasoningEffort();
-
+  }>,
+  rubric?: Rubric | null,
+  language?: InterviewLanguage
+): Promise<EvaluationResult> {
+  const { promptName, prompt } = languageProfile(language);
   const conversationSummary = conversations
     .map((conv) => {
-      const msgs = conv.messages
-        .map((m) => `${m.role === 'ai' ? 'AI' : '학생'}: ${m.content}`)
-        .join('\n');
-      return `### ${conv.topicTitle}\n${msgs}`;
+      const msgs = formatTranscript(conv.messages, prompt.studentLabel);
+      const weight = topicWeight({ weight: conv.topicWeight });
+      return `### Topic ${conv.topicIndex + 1}: ${conv.topicTitle} (weight ${weight}/3)\n${msgs}`;
     })
     .join('\n\n');
 
-  const instructions = `You are an expert evaluator assessing whether a student authored their own homework based on an oral interview.
+  const defaultInstructions = `You are an expert evaluator assessing whether a student authored their own homework based on an oral interview.
 
 Evaluate based on:
 1. Depth of understanding demonstrated
@@ -269,31 +524,121 @@ Evaluate based on:
 3. Ability to elaborate on specific points
 4. Confidence and clarity in responses
 
+Score each topic of the interview separately. Topic weights (1 = minor detail, 3 = core idea) are applied to your topic scores afterwards, so do not adjust the scores for weight yourself.
+
 Respond in JSON format:
 {
-  "score": 0-100,
-  "strengths": ["strength 1 in Korean", "strength 2 in Korean"],
-  "weaknesses": ["weakness 1 in Korean", "weakness 2 in Korean"],
-  "overallComment": "Overall assessment in Korean"
+  "topicScores": [{ "topic": 1, "score": 0-100 }],
+  "strengths": ["strength 1 in ${promptName}", "strength 2 in ${promptName}"],
+  "weaknesses": ["weakness 1 in ${promptName}", "weakness 2 in ${promptName}"],
+  "overallComment": "Overall assessment in ${promptName}"
 }`;
 
-  try {
-    const client = getOpenAIClient();
+  const rubricInstructions = rubric
+    ? `You are an expert evaluator assessing whether a student authored their own homework based on an oral interview.
 
-    const response = await client.responses.create({
-      model,
-      instructions,
-      input: `다음 인터뷰를 평가하고 JSON 형식으로 결과를 제공해주세요.\n\n과제 내용 (일부):\n${assignmentText.slice(0, 5000)}\n\n인터뷰 기록:\n${conversationSummary}`,
-      text: { format: { type: 'json_object' } },
-      reasoning: { effort: reasoningEffort },
+Score the interview against the teacher's rubric below. For each criterion, choose exactly one level.
+
+Rubric:
+${formatRubric(rubric)}
+
+Requirements:
+1. Use the exact criterion names and level labels from the rubric
+2. For each criterion, quote 1-3 short passages copied VERBATIM from the student's answers (lines starting with "${prompt.studentLabel}:") as evidence
+3. Do not paraphrase evidence quotes; if there is no supporting answer, return an empty evidence array
+4. Explain briefly in ${promptName} why the level was chosen
+5. Each topic header shows its weight (1 = minor detail, 3 = core idea); give answers on heavier topics more influence when choosing levels
+
+Respond in JSON format:
+{
+  "criteria": [
+    {
+      "name": "Criterion name",
+      "level": "Level label",
+      "rationale": "Reason in ${promptName}",
+      "evidence": ["verbatim student quote"]
+    }
+  ],
+  "strengths": ["strength 1 in ${promptName}", "strength 2 in ${promptName}"],
+  "weaknesses": ["weakness 1 in ${promptName}", "weakness 2 in ${promptName}"],
+  "overallComment": "Overall assessment in ${promptName}"
+}`
+    : '';
+
+  try {
+    const content = await getLLMProvider().complete({
+      task: 'evaluateInterview',
+      instructions: rubric ? rubricInstructions : defaultInstructions,
+      input: `${prompt.evaluateInterview}\n\n${prompt.assignmentExcerpt}:\n${assignmentText.slice(0, 5000)}\n\n${prompt.transcript}:\n${conversationSummary}`,
+      responseFormat: 'json',
+      hints: rubric ? { rubric, studentLabel: prompt.studentLabel } : { studentLabel: prompt.studentLabel },
     });
 
-    const content = response.output_text;
     if (!content) {
       throw new Error('Empty response from LLM');
     }
 
-    return JSON.parse(content);
+    const parsed = parseJSONResponse<EvaluationResult & {
+      criteria?: Array<{ name?: string; level?: string; rationale?: string; evidence?: unknown }>;
+      topicScores?: Array<{ topic?: number; score?: number }>;
+    }>(content);
+
+    if (!rubric) {
+      // Topics the model skipped fall back to its overall score; without one they are
+      // left out of the weighting rather than counted as 0
+      const overallScore = toScore(parsed.score);
+      const topics: TopicScore[] = conversations.flatMap((conv) => {
+        const result = parsed.topicScores?.find((t) => Number(t.topic) === conv.topicIndex + 1);
+        const score = toScore(result?.score) ?? overallScore;
+        if (score === null) return [];
+        return [{
+          index: conv.topicIndex,
+          title: conv.topicTitle,
+          weight: topicWeight({ weight: conv.topicWeight }),
+          score,
+        }];
+      });
+
+      const score = topics.length > 0 ? weightedTopicScore(topics) : overallScore;
+      if (score === null) {
+        throw new Error('No topic or overall score in the evaluation');
+      }
+
+      return {
+        score,
+        strengths: parsed.strengths || [],
+        weaknesses: parsed.weaknesses || [],
+        overallComment: parsed.overallComment || '',
+        topics,
+      };
+    }
+
+    // Map model output back onto the rubric so scores come from the teacher's levels
+    const studentAnswers = conversations.flatMap((conv) =>
+      conv.messages.filter((m) => m.role === 'student').map((m) => m.content)
+    );
+    const criteria: CriterionScore[] = rubric.criteria.map((criterion) => {
+      const result = parsed.criteria?.find((c) => c.name?.trim() === criterion.name);
+      const level = criterion.levels.find((l) => l.label === result?.level?.trim())
+        // Unknown or missing level: fall back to the lowest level
+        || criterion.levels[criterion.levels.length - 1];
+      return {
+        name: criterion.name,
+        weight: criterion.weight,
+        level: level.label,
+        score: level.score,
+        rationale: result?.rationale || '',
+        evidence: filterEvidence(result?.evidence, studentAnswers),
+      };
+    });
+
+    return {
+      score: computeWeightedScore(criteria),
+      strengths: parsed.strengths || [],
+      weaknesses: parsed.weaknesses || [],
+      overallComment: parsed.overallComment || '',
+      criteria,
+    };
   } catch (error: unknown) {
     const err = error as Error & { status?: number; code?: string };
     console.error('[evaluateInterview] Error:', err.message);
@@ -304,5 +649,6 @@ Respond in JSON format:
 export default {
   analyzeTopics,
   generateQuestion,
+  assessAnswer,
   evaluateInterview,
 };
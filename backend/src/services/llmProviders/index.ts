@@ -0,0 +1,40 @@
+import type { LLMProvider, LLMProviderName } from './types.js';
+import { OpenAIProvider } from './openaiProvider.js';
+import { OpenAICompatibleProvider } from './openaiCompatibleProvider.js';
+import { MockLLMProvider } from './mockProvider.js';
+
+export type { LLMProvider, LLMProviderName, LLMRequest, LLMTask, LLMRequestHints } from './types.js';
+
+const VALID_PROVIDERS: readonly string[] = ['openai', 'openai-compatible', 'mock'];
+
+// Lazy initialization to ensure env vars are loaded
+let provider: LLMProvider | null = null;
+
+export function getProviderName(): LLMProviderName {
+  const name = process.env.LLM_PROVIDER || 'openai';
+  if (VALID_PROVIDERS.includes(name)) {
+    return name as LLMProviderName;
+  }
+  console.warn(`[LLM] Unknown LLM_PROVIDER "${name}", falling back to openai`);
+  return 'openai';
+}
+
+/**
+ * Get the LLM provider selected for this deployment (LLM_PROVIDER env var)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    switch (getProviderName()) {
+      case 'mock':
+        provider = new MockLLMProvider();
+        break;
+      case 'openai-compatible':
+        provider = new OpenAICompatibleProvider();
+        break;
+      default:
+        provider = new OpenAIProvider();
+    }
+    console.log(`[LLM] Using provider: ${provider.name}`);
+  }
+  return provider;
+}
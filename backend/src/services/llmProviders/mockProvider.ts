@@ -0,0 +1,146 @@
+import type { LLMProvider, LLMRequest } from './types.js';
+
+// Small stable hash so the same input always yields the same output
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+const MOCK_QUESTIONS = [
+  '이 부분을 어떻게 생각해서 이렇게 작성하셨어요?',
+  '이 내용을 정리하면서 가장 어려웠던 점은 무엇이었나요?',
+  '여기서 다른 방법을 선택하지 않은 이유가 있을까요?',
+  '이 부분을 친구에게 설명한다면 어떻게 말해 주실 건가요?',
+  '이 결론에 도달하기까지 어떤 자료를 참고하셨나요?',
+];
+
+const MOCK_STREAM_CHUNK = 4;
+
+/**
+ * Deterministic offline provider for local development and CI
+ * Produces stable topics, questions, and evaluations without any network calls.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+
+  async complete(request: LLMRequest): Promise<string> {
+    switch (request.task) {
+      case 'analyzeTopics':
+        return JSON.stringify({ topics: this.mockTopics(request) });
+      case 'generateQuestion':
+        return this.mockQuestion(request);
+      case 'assessAnswer':
+        return JSON.stringify(this.mockAssessment(request));
+      case 'evaluateInterview':
+        return JSON.stringify(this.mockEvaluation(request));
+    }
+  }
+
+  // Replays the completion a few characters at a time, like a real token stream
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const content = await this.complete(request);
+    for (let i = 0; i < content.length; i += MOCK_STREAM_CHUNK) {
+      yield content.slice(i, i + MOCK_STREAM_CHUNK);
+    }
+  }
+
+  private mockTopics(request: LLMRequest) {
+    const topicCount = request.hints?.topicCount || 3;
+
+    // Use the first distinct lines of the submission as topic titles
+    const lines = request.input
+      .split('\n')
+      .slice(1)
+      .map((line) => line.trim())
+      .filter((line) => line.length >= 5);
+    const uniqueLines = Array.from(new Set(lines));
+
+    return Array.from({ length: topicCount }, (_, idx) => {
+      const source = uniqueLines[idx];
+      return {
+        index: idx,
+        title: source ? source.slice(0, 40) : `주제 ${idx + 1}`,
+        description: source
+          ? `과제에서 "${source.slice(0, 60)}" 부분에 대해 설명합니다.`
+          : `과제의 ${idx + 1}번째 핵심 내용에 대해 설명합니다.`,
+        // First topic is the core one
+        weight: idx === 0 ? 3 : 2,
+      };
+    });
+  }
+
+  private mockQuestion(request: LLMRequest): string {
+    const question = MOCK_QUESTIONS[hashString(request.input) % MOCK_QUESTIONS.length];
+    const topicTitle = request.hints?.topicTitle;
+    return topicTitle ? `[${topicTitle}] ${question}` : question;
+  }
+
+  private mockAssessment(request: LLMRequest) {
+    // Judge the last answer by its length alone
+    const label = `${request.hints?.studentLabel ?? '학생'}:`;
+    const lastAnswer = request.input
+      .split('\n')
+      .filter((line) => line.startsWith(label))
+      .pop() ?? '';
+    const answerLength = lastAnswer.slice(label.length).trim().length;
+
+    return answerLength >= 40
+      ? { assessment: 'correct', move: 'probe_deeper', rationale: '모의 판단: 답변이 충분히 구체적입니다.' }
+      : { assessment: 'vague', move: 'ask_example', rationale: '모의 판단: 답변이 짧아 구체적인 예시가 필요합니다.' };
+  }
+
+  private mockEvaluation(request: LLMRequest) {
+    // Score grows with the amount the student actually said
+    const label = `${request.hints?.studentLabel ?? '학생'}:`;
+    const studentLines = request.input
+      .split('\n')
+      .filter((line) => line.startsWith(label));
+    const answeredChars = studentLines.reduce((sum, line) => sum + line.length, 0);
+    const score = Math.min(95, 40 + Math.floor(answeredChars / 20));
+
+    // Per topic: the same formula over the answers under each "### Topic N:" header
+    const topicScores = request.input
+      .split(/^### /m)
+      .slice(1)
+      .map((section) => {
+        const topic = Number(section.match(/^Topic (\d+):/)?.[1]);
+        const chars = section
+          .split('\n')
+          .filter((line) => line.startsWith(label))
+          .reduce((sum, line) => sum + line.length, 0);
+        return { topic, score: Math.min(95, 40 + Math.floor(chars / 20)) };
+      })
+      .filter((t) => Number.isInteger(t.topic));
+
+    // Rubric: pick a level from the same answer volume and quote the first answer
+    const rubric = request.hints?.rubric;
+    const criteria = rubric?.criteria.map((criterion) => {
+      const levelIndex = Math.min(
+        criterion.levels.length - 1,
+        Math.max(0, Math.floor(((100 - score) / 100) * criterion.levels.length))
+      );
+      const firstAnswer = studentLines[0]?.slice(label.length).trim().slice(0, 40);
+      return {
+        name: criterion.name,
+        level: criterion.levels[levelIndex].label,
+        rationale: '모의 평가 결과입니다.',
+        evidence: firstAnswer ? [firstAnswer] : [],
+      };
+    });
+
+    return {
+      score,
+      ...(criteria ? { criteria } : { topicScores }),
+      strengths: studentLines.length > 0
+        ? ['질문에 성실하게 답변함']
+        : [],
+      weaknesses: answeredChars < 200
+        ? ['답변이 짧아 이해도를 충분히 확인하기 어려움']
+        : [],
+      overallComment: `모의 평가 결과입니다. 학생 답변 ${studentLines.length}개를 기준으로 산출했습니다.`,
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import OpenAI from 'openai';
+import type { LLMProvider, LLMRequest } from './types.js';
+
+/**
+ * OpenAI-compatible provider for self-hosted models (vLLM, Ollama, LM Studio, etc.)
+ * Uses the Chat Completions endpoint, which these servers implement.
+ * Config: LLM_BASE_URL (required), LLM_MODEL (required), LLM_API_KEY (optional)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  private client: OpenAI | null = null;
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (!baseURL) {
+        console.error('LLM_BASE_URL is not set in environment variables');
+        throw new Error('OpenAI-compatible base URL not configured');
+      }
+      // Most self-hosted servers ignore the key, but the SDK requires a value
+      this.client = new OpenAI({ baseURL, apiKey: process.env.LLM_API_KEY || 'not-needed' });
+      console.log(`OpenAI-compatible client initialized (${baseURL})`);
+    }
+    return this.client;
+  }
+
+  private getModel(request: LLMRequest): string {
+    const model = process.env.LLM_MODEL;
+    if (!model) {
+      throw new Error('LLM_MODEL is not configured for the OpenAI-compatible provider');
+    }
+    console.log(`[${request.task}] Using compatible model: ${model}`);
+    return model;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const model = this.getModel(request);
+    const client = this.getClient();
+
+    const response = await client.chat.completions.create({
+      model,
+      messages: [
+        { role: 'system', content: request.instructions },
+        { role: 'user', content: request.input },
+      ],
+      ...(request.responseFormat === 'json' && {
+        response_format: { type: 'json_object' as const },
+      }),
+      ...(request.maxOutputTokens && { max_tokens: request.maxOutputTokens }),
+    });
+
+    return response.choices[0]?.message?.content || '';
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const model = this.getModel(request);
+    const client = this.getClient();
+
+    const chunks = await client.chat.completions.create({
+      model,
+      messages: [
+        { role: 'system', content: request.instructions },
+        { role: 'user', content: request.input },
+      ],
+      ...(request.maxOutputTokens && { max_tokens: request.maxOutputTokens }),
+      stream: true,
+    });
+
+    for await (const chunk of chunks) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+}
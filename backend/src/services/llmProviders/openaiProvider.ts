@@ -0,0 +1,76 @@
+import OpenAI from 'openai';
+import type { LLMProvider, LLMRequest } from './types.js';
+
+// Reasoning effort type matching OpenAI SDK (supports GPT-5.x models)
+// - 'none': No reasoning (default for gpt-5.1+, lowest latency)
+// - 'minimal', 'low', 'medium', 'high': Increasing reasoning depth
+// - 'xhigh': Maximum reasoning (supported for gpt-5.1-codex-max+)
+type ReasoningEffort = 'none' | 'minimal' | 'low' | 'medium' | 'high' | 'xhigh';
+
+const VALID_EFFORTS: readonly string[] = ['none', 'minimal', 'low', 'medium', 'high', 'xhigh'];
+
+function getReasoningEffort(): ReasoningEffort {
+  const effort = process.env.OPENAI_REASONING_EFFORT || 'medium';
+  if (VALID_EFFORTS.includes(effort)) {
+    return effort as ReasoningEffort;
+  }
+  return 'medium';
+}
+
+/**
+ * OpenAI provider using the Responses API
+ * Model: OPENAI_MODEL (default gpt-5.2), reasoning: OPENAI_REASONING_EFFORT
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI | null = null;
+
+  // Lazy initialization to ensure env vars are loaded
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        console.error('OPENAI_API_KEY is not set in environment variables');
+        throw new Error('OpenAI API key not configured');
+      }
+      this.client = new OpenAI({ apiKey });
+      console.log('OpenAI client initialized successfully');
+    }
+    return this.client;
+  }
+
+  private buildParams(request: LLMRequest) {
+    const model = process.env.OPENAI_MODEL || 'gpt-5.2';
+    const reasoningEffort = getReasoningEffort();
+
+    console.log(`[${request.task}] Using model: ${model}, reasoning: ${reasoningEffort}`);
+
+    return {
+      model,
+      instructions: request.instructions,
+      input: request.input,
+      ...(request.responseFormat === 'json' && {
+        text: { format: { type: 'json_object' as const } },
+      }),
+      reasoning: { effort: reasoningEffort },
+      ...(request.maxOutputTokens && { max_output_tokens: request.maxOutputTokens }),
+    };
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const client = this.getClient();
+    const response = await client.responses.create(this.buildParams(request));
+    return response.output_text;
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const client = this.getClient();
+    const events = await client.responses.create({ ...this.buildParams(request), stream: true });
+
+    for await (const event of events) {
+      if (event.type === 'response.output_text.delta') {
+        yield event.delta;
+      }
+    }
+  }
+}
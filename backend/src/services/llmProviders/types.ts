@@ -0,0 +1,37 @@
+/**
+ * LLM Provider types
+ * A provider turns a single completion request into raw text.
+ * Prompt construction and response parsing stay in services/llm.ts.
+ */
+
+import type { Rubric } from '../rubric.js';
+
+// Which high-level operation a request belongs to (used for logging and by the mock provider)
+export type LLMTask = 'analyzeTopics' | 'generateQuestion' | 'assessAnswer' | 'evaluateInterview';
+
+// Structured hints that offline providers can use instead of parsing prompts
+export interface LLMRequestHints {
+  topicCount?: number;
+  topicTitle?: string;
+  rubric?: Rubric;
+  // Transcript label of student lines ("<label>: answer"), which follows the interview language
+  studentLabel?: string;
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  instructions: string;
+  input: string;
+  responseFormat: 'text' | 'json';
+  maxOutputTokens?: number;
+  hints?: LLMRequestHints;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<string>;
+  // Yields text deltas as the model produces them (text responses only)
+  stream(request: LLMRequest): AsyncIterable<string>;
+}
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'mock';
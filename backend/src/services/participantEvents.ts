@@ -0,0 +1,67 @@
+/**
+ * Participant Events Service
+ * In-process pub/sub for student-scoped push (consumed by GET /api/interview/events)
+ *
+ * The AI generation worker publishes here the moment a question (or fallback) is
+ * committed, so clients don't have to poll /api/interview/ai-status.
+ * In voice mode it also publishes 'question-sentence' while the question is still
+ * being generated, so TTS can start on the first sentence.
+ */
+import { EventEmitter } from 'events';
+
+export type ParticipantEventType = 'question-sentence' | 'question-ready' | 'question-failed';
+
+export interface ParticipantEvent {
+  type: ParticipantEventType;
+  participantId: string;
+  topicIndex: number;
+  turnIndex: number;
+  // Full question ('question-sentence': the text generated so far)
+  question: string;
+  // 'question-sentence' only: the newly completed sentence and its position
+  sentence?: string;
+  sentenceIndex?: number;
+  error?: string;
+  timestamp: string;
+}
+
+export type ParticipantEventListener = (event: ParticipantEvent) => void;
+
+const emitter = new EventEmitter();
+// A student may have the interview open in more than one tab
+emitter.setMaxListeners(0);
+
+/**
+ * Publish an event to all open streams of the participant
+ */
+export function publishParticipantEvent(
+  participantId: string,
+  type: ParticipantEventType,
+  payload: Omit<ParticipantEvent, 'type' | 'participantId' | 'timestamp'>
+): void {
+  const event: ParticipantEvent = {
+    type,
+    participantId,
+    ...payload,
+    timestamp: new Date().toISOString(),
+  };
+  emitter.emit(`participant:${participantId}`, event);
+}
+
+/**
+ * Subscribe to a participant's events; returns an unsubscribe function
+ */
+export function subscribeParticipantEvents(
+  participantId: string,
+  listener: ParticipantEventListener
+): () => void {
+  emitter.on(`participant:${participantId}`, listener);
+  return () => {
+    emitter.off(`participant:${participantId}`, listener);
+  };
+}
+
+export default {
+  publishParticipantEvent,
+  subscribeParticipantEvents,
+};
@@ -0,0 +1,187 @@
+/**
+ * Question Bank Service
+ * Teacher-defined seed questions attached to assignment_sessions.question_bank
+ *
+ * Required questions are asked verbatim so every student covers the same concepts;
+ * optional ones are handed to the LLM to adapt or follow up on. Topics differ per
+ * student, so questions are tied to topics by keyword rather than by index, and the
+ * assignment is fixed per participant at /start (interview_states.question_plan).
+ */
+import crypto from 'crypto';
+import type { Topic } from './llm.js';
+
+export interface BankQuestion {
+  id: string;
+  text: string;
+  required: boolean;
+  // Matched against topic title/description; empty = any topic
+  keywords: string[];
+}
+
+export interface QuestionBank {
+  questions: BankQuestion[];
+}
+
+export interface PlannedQuestion {
+  id: string;
+  text: string;
+}
+
+export interface TopicQuestionPlan {
+  required: PlannedQuestion[];
+  optional: PlannedQuestion[];
+}
+
+// One entry per analyzed topic, same order
+export interface QuestionPlan {
+  topics: TopicQuestionPlan[];
+}
+
+const MAX_QUESTIONS = 20;
+const MAX_TEXT_LENGTH = 500;
+const MAX_KEYWORDS = 10;
+const MAX_KEYWORD_LENGTH = 50;
+const ID_PATTERN = /^[\w-]{1,64}$/;
+
+/**
+ * Validate and normalize a question bank from a request body
+ * Returns null for empty input so it can be cleared. Existing ids are kept so
+ * conversations keep pointing at the same question after an edit.
+ */
+export function parseQuestionBank(input: unknown): { questionBank: QuestionBank | null; error?: string } {
+  if (input === null || input === undefined) {
+    return { questionBank: null };
+  }
+
+  const raw = input as { questions?: unknown };
+  if (typeof input !== 'object' || !Array.isArray(raw.questions)) {
+    return { questionBank: null, error: 'Question bank must have a questions array' };
+  }
+
+  if (raw.questions.length === 0) {
+    return { questionBank: null };
+  }
+
+  if (raw.questions.length > MAX_QUESTIONS) {
+    return { questionBank: null, error: `Question bank can have at most ${MAX_QUESTIONS} questions` };
+  }
+
+  const questions: BankQuestion[] = [];
+  const seenIds = new Set<string>();
+  for (const item of raw.questions as Array<Record<string, unknown>>) {
+    const text = typeof item?.text === 'string' ? item.text.trim() : '';
+    if (!text || text.length > MAX_TEXT_LENGTH) {
+      return { questionBank: null, error: `Each question needs text of ${MAX_TEXT_LENGTH} characters or less` };
+    }
+
+    if (item.keywords !== undefined && !Array.isArray(item.keywords)) {
+      return { questionBank: null, error: `Question "${text}" keywords must be an array` };
+    }
+    const keywords = ((item.keywords as unknown[] | undefined) ?? [])
+      .filter((k): k is string => typeof k === 'string')
+      .map((k) => k.trim())
+      .filter((k) => k.length > 0);
+    if (keywords.length > MAX_KEYWORDS || keywords.some((k) => k.length > MAX_KEYWORD_LENGTH)) {
+      return {
+        questionBank: null,
+        error: `Question "${text}" can have at most ${MAX_KEYWORDS} keywords of ${MAX_KEYWORD_LENGTH} characters`,
+      };
+    }
+
+    let id = typeof item.id === 'string' && ID_PATTERN.test(item.id) ? item.id : crypto.randomUUID();
+    if (seenIds.has(id)) id = crypto.randomUUID();
+    seenIds.add(id);
+
+    questions.push({ id, text, required: item.required === true, keywords });
+  }
+
+  return { questionBank: { questions } };
+}
+
+function matchingTopics(question: BankQuestion, topics: Topic[]): number[] {
+  if (question.keywords.length === 0) return [];
+  const keywords = question.keywords.map((k) => k.toLowerCase());
+  return topics
+    .map((topic, index) => ({ index, haystack: `${topic.title} ${topic.description}`.toLowerCase() }))
+    .filter(({ haystack }) => keywords.some((k) => haystack.includes(k)))
+    .map(({ index }) => index);
+}
+
+/**
+ * Assign bank questions to a participant's topics
+ * Required questions go to the least-loaded matching topic (any topic when nothing
+ * matches), so they are spread out and each is asked exactly once. Optional questions
+ * are offered on every matching topic, or on all topics when nothing matches.
+ */
+export function planQuestions(bank: QuestionBank | null, topics: Topic[]): QuestionPlan | null {
+  if (!bank || bank.questions.length === 0 || topics.length === 0) {
+    return null;
+  }
+
+  const plan: QuestionPlan = {
+    topics: topics.map(() => ({ required: [], optional: [] })),
+  };
+  const allTopics = topics.map((_, index) => index);
+
+  for (const question of bank.questions) {
+    const matches = matchingTopics(question, topics);
+    const candidates = matches.length > 0 ? matches : allTopics;
+    const planned = { id: question.id, text: question.text };
+
+    if (question.required) {
+      // Earliest topic wins ties
+      const target = candidates.reduce((best, index) =>
+        plan.topics[index].required.length < plan.topics[best].required.length ? index : best
+      );
+      plan.topics[target].required.push(planned);
+    } else {
+      for (const index of candidates) {
+        plan.topics[index].optional.push(planned);
+      }
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Read interview_states.question_plan (JSONB, or a string from older drivers)
+ */
+export function readQuestionPlan(value: unknown): QuestionPlan | null {
+  if (!value) return null;
+  const plan = (typeof value === 'string' ? JSON.parse(value) : value) as QuestionPlan;
+  return Array.isArray(plan?.topics) ? plan : null;
+}
+
+/**
+ * The required question to ask next on a topic, if any
+ * Required questions are not asked back to back: after one, the LLM gets a turn to
+ * follow up on the answer before the next required question comes up.
+ * @param askedIds - bank_question_id values already asked on this topic
+ * @param lastAiTurnFromBank - whether the previous AI turn on this topic was a bank question
+ */
+export function nextRequiredQuestion(
+  plan: QuestionPlan | null,
+  topicIndex: number,
+  askedIds: ReadonlySet<string>,
+  lastAiTurnFromBank: boolean
+): PlannedQuestion | null {
+  if (lastAiTurnFromBank) return null;
+  const required = plan?.topics[topicIndex]?.required ?? [];
+  return required.find((q) => !askedIds.has(q.id)) ?? null;
+}
+
+/**
+ * Optional question texts offered to the LLM for a topic
+ */
+export function optionalQuestionsFor(plan: QuestionPlan | null, topicIndex: number): string[] {
+  return (plan?.topics[topicIndex]?.optional ?? []).map((q) => q.text);
+}
+
+export default {
+  parseQuestionBank,
+  planQuestions,
+  readQuestionPlan,
+  nextRequiredQuestion,
+  optionalQuestionsFor,
+};
@@ -0,0 +1,228 @@
+/**
+ * Roster Service
+ * Class rosters uploaded per session (session_roster_entries)
+ *
+ * A session with a roster only admits students who match an entry: same name
+ * (ignoring case and spacing), same student ID when the entry has one, and the entry's
+ * PIN when it has one. Teachers export rosters from NEIS or a spreadsheet, so the CSV
+ * parser accepts Korean or English headers, or bare "name,studentId,pin" rows.
+ */
+import bcrypt from 'bcrypt';
+
+export interface RosterEntryInput {
+  studentName: string;
+  studentId: string | null;
+  pin: string | null;
+}
+
+// Row shape needed for matching (session_roster_entries)
+export interface RosterEntryRecord {
+  id: string;
+  student_name: string;
+  student_id: string | null;
+  pin_hash: string | null;
+  participant_id: string | null;
+  // JSONB, copied to the participant on join (services/accommodations.ts)
+  accommodations?: unknown;
+}
+
+const MAX_ENTRIES = 500;
+const MAX_NAME_LENGTH = 100;
+const MAX_STUDENT_ID_LENGTH = 50;
+const PIN_PATTERN = /^[A-Za-z0-9]{4,12}$/;
+// Low cost: a roster hashes hundreds of PINs at once, and short PINs rely on the lockout anyway
+const SALT_ROUNDS = 6;
+
+const NAME_HEADERS = ['이름', '성명', '학생명', '학생이름', 'name', 'studentname', 'student_name'];
+const STUDENT_ID_HEADERS = ['학번', '번호', 'id', 'studentid', 'student_id'];
+const PIN_HEADERS = ['pin', '핀', '비밀번호', 'password'];
+
+// Wrong PINs allowed per entry before it is locked for a while
+const MAX_PIN_FAILURES = 5;
+const PIN_LOCKOUT_MS = 10 * 60 * 1000;
+
+const pinFailures = new Map<string, { count: number; lockedUntil: number }>();
+
+/**
+ * Split CSV text into rows of trimmed cells (RFC 4180 quoting; tab-separated text
+ * pasted from a spreadsheet is accepted too)
+ */
+function parseCsvRows(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0];
+  const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter((r) => r.some((c) => c.length > 0));
+}
+
+/**
+ * Names are compared ignoring case, spacing and Unicode composition
+ */
+export function normalizeRosterName(name: string): string {
+  return name.normalize('NFC').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function entryKey(name: string, studentId: string | null): string {
+  return `${normalizeRosterName(name)}\n${studentId ?? ''}`;
+}
+
+/**
+ * Validate and normalize a roster CSV from a request body
+ * Returns an empty list for empty input so the roster can be cleared.
+ */
+export function parseRosterCsv(input: unknown): { entries: RosterEntryInput[] | null; error?: string } {
+  if (typeof input !== 'string') {
+    return { entries: null, error: 'Roster CSV text is required' };
+  }
+
+  const rows = parseCsvRows(input);
+  if (rows.length === 0) {
+    return { entries: [] };
+  }
+
+  // Header row: find columns by name; otherwise columns are name, student ID, PIN
+  const header = rows[0].map((c) => c.toLowerCase().replace(/\s+/g, ''));
+  let columns = { name: 0, studentId: 1, pin: 2 };
+  let dataRows = rows;
+  const nameColumn = header.findIndex((c) => NAME_HEADERS.includes(c));
+  if (nameColumn !== -1) {
+    columns = {
+      name: nameColumn,
+      studentId: header.findIndex((c) => STUDENT_ID_HEADERS.includes(c)),
+      pin: header.findIndex((c) => PIN_HEADERS.includes(c)),
+    };
+    dataRows = rows.slice(1);
+  }
+
+  if (dataRows.length > MAX_ENTRIES) {
+    return { entries: null, error: `Roster can have at most ${MAX_ENTRIES} students` };
+  }
+
+  const entries: RosterEntryInput[] = [];
+  const seen = new Set<string>();
+  for (const [index, row] of dataRows.entries()) {
+    // Line number as the teacher sees it in the file
+    const line = index + 1 + (dataRows === rows ? 0 : 1);
+    const cell = (column: number) => (column >= 0 ? row[column] ?? '' : '');
+
+    const studentName = cell(columns.name).replace(/\s+/g, ' ');
+    if (!studentName || studentName.length > MAX_NAME_LENGTH) {
+      return { entries: null, error: `Line ${line}: name is required (${MAX_NAME_LENGTH} characters or less)` };
+    }
+
+    const studentId = cell(columns.studentId) || null;
+    if (studentId && studentId.length > MAX_STUDENT_ID_LENGTH) {
+      return { entries: null, error: `Line ${line}: student ID must be ${MAX_STUDENT_ID_LENGTH} characters or less` };
+    }
+
+    const pin = cell(columns.pin) || null;
+    if (pin && !PIN_PATTERN.test(pin)) {
+      return { entries: null, error: `Line ${line}: PIN must be 4-12 letters or digits` };
+    }
+
+    const key = entryKey(studentName, studentId);
+    if (seen.has(key)) {
+      return { entries: null, error: `Line ${line}: ${studentName} is listed twice` };
+    }
+    seen.add(key);
+
+    entries.push({ studentName, studentId, pin });
+  }
+
+  return { entries };
+}
+
+/**
+ * Find the roster entry a joining student matches
+ * An entry with the same student ID wins over a name-only entry.
+ */
+export function findRosterMatch<T extends Pick<RosterEntryRecord, 'student_name' | 'student_id'>>(
+  entries: T[],
+  studentName: string,
+  studentId: string | null
+): T | null {
+  const name = normalizeRosterName(studentName);
+  const candidates = entries.filter((e) => normalizeRosterName(e.student_name) === name);
+  return (
+    candidates.find((e) => e.student_id !== null && e.student_id === studentId) ??
+    candidates.find((e) => e.student_id === null) ??
+    null
+  );
+}
+
+export async function hashRosterPin(pin: string): Promise<string> {
+  return bcrypt.hash(pin, SALT_ROUNDS);
+}
+
+export function isPinLocked(entryId: string): boolean {
+  const failures = pinFailures.get(entryId);
+  if (!failures) return false;
+  if (failures.lockedUntil > 0 && failures.lockedUntil < Date.now()) {
+    pinFailures.delete(entryId);
+    return false;
+  }
+  return failures.lockedUntil > 0;
+}
+
+/**
+ * Check a PIN against a roster entry, counting wrong attempts
+ * PINs are short, so an entry locks after MAX_PIN_FAILURES wrong tries.
+ */
+export async function verifyRosterPin(entryId: string, pin: string, pinHash: string): Promise<boolean> {
+  if (await bcrypt.compare(pin, pinHash)) {
+    pinFailures.delete(entryId);
+    return true;
+  }
+
+  const failures = pinFailures.get(entryId) ?? { count: 0, lockedUntil: 0 };
+  failures.count += 1;
+  if (failures.count >= MAX_PIN_FAILURES) {
+    failures.lockedUntil = Date.now() + PIN_LOCKOUT_MS;
+    console.warn(`[Roster] Roster entry ${entryId} locked after ${failures.count} wrong PINs`);
+  }
+  pinFailures.set(entryId, failures);
+  return false;
+}
+
+export default {
+  parseRosterCsv,
+  normalizeRosterName,
+  findRosterMatch,
+  hashRosterPin,
+  isPinLocked,
+  verifyRosterPin,
+};
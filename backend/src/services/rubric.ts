@@ -0,0 +1,140 @@
+/**
+ * Rubric Service
+ * Teacher-defined evaluation rubrics attached to assignment_sessions.rubric
+ */
+
+// A single achievement level within a criterion (e.g. "우수" = 100)
+export interface RubricLevel {
+  label: string;
+  score: number; // 0-100
+  descriptor: string;
+}
+
+export interface RubricCriterion {
+  name: string;
+  description?: string;
+  weight: number; // relative weight, normalized when computing the total
+  levels: RubricLevel[];
+}
+
+export interface Rubric {
+  criteria: RubricCriterion[];
+}
+
+// Per-criterion result stored in student_participants.summary.criteria
+export interface CriterionScore {
+  name: string;
+  weight: number;
+  level: string;
+  score: number;
+  rationale: string;
+  evidence: string[];
+}
+
+const MAX_CRITERIA = 10;
+const MAX_LEVELS = 6;
+
+/**
+ * Validate and normalize a rubric from a request body
+ * Returns null rubric for empty input so it can be cleared.
+ */
+export function parseRubric(input: unknown): { rubric: Rubric | null; error?: string } {
+  if (input === null || input === undefined) {
+    return { rubric: null };
+  }
+
+  const raw = input as { criteria?: unknown };
+  if (typeof input !== 'object' || !Array.isArray(raw.criteria)) {
+    return { rubric: null, error: 'Rubric must have a criteria array' };
+  }
+
+  if (raw.criteria.length === 0) {
+    return { rubric: null };
+  }
+
+  if (raw.criteria.length > MAX_CRITERIA) {
+    return { rubric: null, error: `Rubric can have at most ${MAX_CRITERIA} criteria` };
+  }
+
+  const criteria: RubricCriterion[] = [];
+  for (const item of raw.criteria as Array<Record<string, unknown>>) {
+    const name = typeof item?.name === 'string' ? item.name.trim() : '';
+    if (!name || name.length > 100) {
+      return { rubric: null, error: 'Each criterion needs a name of 100 characters or less' };
+    }
+
+    const weight = Number(item.weight);
+    if (!Number.isInteger(weight) || weight < 1 || weight > 100) {
+      return { rubric: null, error: `Criterion "${name}" must have a whole-number weight between 1 and 100` };
+    }
+
+    if (!Array.isArray(item.levels) || item.levels.length < 2 || item.levels.length > MAX_LEVELS) {
+      return { rubric: null, error: `Criterion "${name}" must have between 2 and ${MAX_LEVELS} levels` };
+    }
+
+    const levels: RubricLevel[] = [];
+    for (const level of item.levels as Array<Record<string, unknown>>) {
+      const label = typeof level?.label === 'string' ? level.label.trim() : '';
+      const score = Number(level?.score);
+      if (!label || !Number.isFinite(score) || score < 0 || score > 100) {
+        return { rubric: null, error: `Criterion "${name}" has an invalid level (label and 0-100 score required)` };
+      }
+      levels.push({
+        label,
+        score,
+        descriptor: typeof level.descriptor === 'string' ? level.descriptor.trim() : '',
+      });
+    }
+
+    criteria.push({
+      name,
+      description: typeof item.description === 'string' && item.description.trim()
+        ? item.description.trim()
+        : undefined,
+      weight,
+      // Keep levels ordered from highest to lowest score
+      levels: levels.sort((a, b) => b.score - a.score),
+    });
+  }
+
+  return { rubric: { criteria } };
+}
+
+/**
+ * Weighted total (0-100) from per-criterion scores
+ */
+export function computeWeightedScore(scores: CriterionScore[]): number {
+  const totalWeight = scores.reduce((sum, s) => sum + s.weight, 0);
+  if (totalWeight === 0) {
+    return 0;
+  }
+  const weighted = scores.reduce((sum, s) => sum + s.score * s.weight, 0);
+  return Math.round(weighted / totalWeight);
+}
+
+// Collapse whitespace so quotes survive line breaks and spacing differences
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Keep only evidence quotes that actually appear in the student's answers
+ * Guards against the model paraphrasing or inventing quotes.
+ */
+export function filterEvidence(quotes: unknown, studentAnswers: string[]): string[] {
+  if (!Array.isArray(quotes)) {
+    return [];
+  }
+  const corpus = studentAnswers.map(normalizeText);
+  return quotes
+    .filter((q): q is string => typeof q === 'string')
+    .map((q) => normalizeText(q).replace(/^["'“”]+|["'“”]+$/g, ''))
+    .filter((q) => q.length > 0 && corpus.some((answer) => answer.includes(q)))
+    .slice(0, 3);
+}
+
+export default {
+  parseRubric,
+  computeWeightedScore,
+  filterEvidence,
+};
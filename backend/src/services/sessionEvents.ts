@@ -0,0 +1,85 @@
+/**
+ * Session Events Service
+ * In-process pub/sub for teacher monitoring (consumed by GET /api/sessions/:id/events)
+ *
+ * Routes and workers publish participant lifecycle events here; each open SSE
+ * connection subscribes to its session. Workers run in the same process as the
+ * API server, so a plain EventEmitter is enough.
+ */
+import { EventEmitter } from 'events';
+
+export type SessionEventType =
+  | 'join'
+  | 'reconnect'
+  | 'upload'
+  | 'topics-approved'
+  | 'interview-start'
+  | 'topic-change'
+  | 'disconnect'
+  | 'abandon'
+  | 'evaluation-complete';
+
+// Participant fields that changed (camelCase, same shape as GET /api/sessions/:id participants)
+export interface ParticipantSnapshot {
+  studentName?: string;
+  studentId?: string | null;
+  status?: string;
+  chosenInterviewMode?: string | null;
+  topicsApprovedAt?: string | null;
+  registeredAt?: string;
+  interviewEndedAt?: string | null;
+  currentTopicIndex?: number | null;
+  currentPhase?: string | null;
+  disconnectedAt?: string | null;
+}
+
+export interface SessionEvent {
+  type: SessionEventType;
+  sessionId: string;
+  participantId: string;
+  participant: ParticipantSnapshot;
+  timestamp: string;
+}
+
+export type SessionEventListener = (event: SessionEvent) => void;
+
+const emitter = new EventEmitter();
+// One listener per open teacher tab; don't warn for busy classrooms
+emitter.setMaxListeners(0);
+
+/**
+ * Publish an event to all subscribers of the session
+ */
+export function publishSessionEvent(
+  sessionId: string,
+  type: SessionEventType,
+  participantId: string,
+  participant: ParticipantSnapshot = {}
+): void {
+  const event: SessionEvent = {
+    type,
+    sessionId,
+    participantId,
+    participant,
+    timestamp: new Date().toISOString(),
+  };
+  emitter.emit(`session:${sessionId}`, event);
+}
+
+/**
+ * Subscribe to a session's events; returns an unsubscribe function
+ */
+export function subscribeSessionEvents(
+  sessionId: string,
+  listener: SessionEventListener
+): () => void {
+  emitter.on(`session:${sessionId}`, listener);
+  return () => {
+    emitter.off(`session:${sessionId}`, listener);
+  };
+}
+
+export default {
+  publishSessionEvent,
+  subscribeSessionEvents,
+};
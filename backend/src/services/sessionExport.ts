@@ -0,0 +1,249 @@
+/**
+ * Session Export Service
+ * One row per participant for GET /api/sessions/:id/export (csv | xlsx | json)
+ *
+ * Teachers paste these into the school grade system, so the spreadsheet formats use
+ * Korean headers, Korean status labels and local (KST) timestamps. JSON keeps the raw
+ * values for scripts.
+ */
+import ExcelJS from 'exceljs';
+import type { EvaluationResult } from './llm.js';
+import { finalEvaluation, REVIEW_VERDICT_LABELS, EvaluationReview, ReviewVerdict } from './evaluationReview.js';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+};
+
+// Spreadsheets have no timezone; show times the way teachers see them in the app
+const EXPORT_TIMEZONE = 'Asia/Seoul';
+
+const PARTICIPANT_STATUS_LABELS: Record<string, string> = {
+  registered: '대기중',
+  file_submitted: '파일 제출됨',
+  interview_in_progress: '진행중',
+  completed: '완료',
+  abandoned: '이탈',
+};
+
+const TOPIC_STATUS_LABELS: Record<string, string> = {
+  pending: '대기',
+  active: '진행중',
+  done: '완료',
+};
+
+const MODE_LABELS: Record<string, string> = {
+  voice: '음성',
+  chat: '채팅',
+};
+
+// Database row shape (student_participants + interview_states.topics_state)
+export interface ExportParticipantRecord {
+  student_name: string;
+  student_id: string | null;
+  status: string;
+  chosen_interview_mode: string | null;
+  registered_at: Date | null;
+  file_submitted_at: Date | null;
+  interview_started_at: Date | null;
+  interview_ended_at: Date | null;
+  analyzed_topics: Array<{ title: string }> | null;
+  topics_state: Array<{ title: string; status: string }> | null;
+  summary: EvaluationResult | null;
+  teacher_review: EvaluationReview | null;
+  // Student answers per topic_index
+  answer_counts: Record<number, number>;
+}
+
+export interface ExportTopic {
+  title: string;
+  status: string;
+  answerCount: number;
+}
+
+export interface ExportRow {
+  studentName: string;
+  studentId: string | null;
+  status: string;
+  interviewMode: string | null;
+  registeredAt: string | null;
+  fileSubmittedAt: string | null;
+  interviewStartedAt: string | null;
+  interviewEndedAt: string | null;
+  // Teacher's score when reviewed, otherwise the AI's
+  score: number | null;
+  // Evaluated but without a score: the AI evaluation failed and no teacher has graded it
+  notGraded: boolean;
+  aiScore: number | null;
+  verdict: ReviewVerdict | null;
+  strengths: string[];
+  weaknesses: string[];
+  overallComment: string | null;
+  criteria: Array<{ name: string; level: string; score: number }>;
+  topics: ExportTopic[];
+  answerCount: number;
+}
+
+type Cell = string | number | null;
+
+function toIso(value: Date | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+/**
+ * Normalize participant records into export rows (also the JSON format)
+ */
+export function buildExportRows(records: ExportParticipantRecord[]): ExportRow[] {
+  return records.map((record) => {
+    // topics_state exists once the interview started; before that only the analyzed titles do
+    const topics: ExportTopic[] = (record.topics_state ?? record.analyzed_topics ?? []).map(
+      (topic: { title: string; status?: string }, index) => ({
+        title: topic.title,
+        status: topic.status ?? 'pending',
+        answerCount: record.answer_counts[index] ?? 0,
+      })
+    );
+
+    const evaluation = finalEvaluation(record.summary, record.teacher_review);
+
+    return {
+      studentName: record.student_name,
+      studentId: record.student_id,
+      status: record.status,
+      interviewMode: record.chosen_interview_mode,
+      registeredAt: toIso(record.registered_at),
+      fileSubmittedAt: toIso(record.file_submitted_at),
+      interviewStartedAt: toIso(record.interview_started_at),
+      interviewEndedAt: toIso(record.interview_ended_at),
+      score: evaluation?.score ?? null,
+      notGraded: !!evaluation && evaluation.score === null,
+      aiScore: record.summary?.score ?? null,
+      verdict: record.teacher_review?.verdict ?? null,
+      strengths: evaluation?.strengths ?? [],
+      weaknesses: evaluation?.weaknesses ?? [],
+      overallComment: evaluation?.overallComment || null,
+      criteria: (evaluation?.criteria ?? []).map((c) => ({ name: c.name, level: c.level, score: c.score })),
+      topics,
+      answerCount: Object.values(record.answer_counts).reduce((sum, n) => sum + n, 0),
+    };
+  });
+}
+
+function formatTimestamp(iso: string | null): string | null {
+  if (!iso) return null;
+  // sv-SE formats as "YYYY-MM-DD HH:mm:ss", which spreadsheets parse as a date
+  return new Date(iso).toLocaleString('sv-SE', { timeZone: EXPORT_TIMEZONE });
+}
+
+/**
+ * Flatten rows into a header + cells table shared by CSV and XLSX
+ * Topic and rubric columns are sized to the widest participant so every row lines up.
+ */
+function buildTable(rows: ExportRow[], criteriaNames: string[]): { headers: string[]; cells: Cell[][] } {
+  const topicCount = Math.max(0, ...rows.map((r) => r.topics.length));
+
+  const headers = [
+    '이름',
+    '학번',
+    '상태',
+    '인터뷰 방식',
+    '등록 시각',
+    '제출 시각',
+    '인터뷰 시작',
+    '인터뷰 종료',
+    '점수',
+    'AI 점수',
+    '검토 결과',
+    ...criteriaNames.map((name) => `${name} (수준)`),
+    ...criteriaNames.map((name) => `${name} (점수)`),
+    '강점',
+    '약점',
+    '총평',
+    '답변 수',
+  ];
+  for (let i = 0; i < topicCount; i++) {
+    headers.push(`주제 ${i + 1}`, `주제 ${i + 1} 상태`, `주제 ${i + 1} 답변 수`);
+  }
+
+  const cells = rows.map((row) => {
+    const criterion = (name: string) => row.criteria.find((c) => c.name === name);
+    const line: Cell[] = [
+      row.studentName,
+      row.studentId,
+      PARTICIPANT_STATUS_LABELS[row.status] ?? row.status,
+      row.interviewMode ? MODE_LABELS[row.interviewMode] ?? row.interviewMode : null,
+      formatTimestamp(row.registeredAt),
+      formatTimestamp(row.fileSubmittedAt),
+      formatTimestamp(row.interviewStartedAt),
+      formatTimestamp(row.interviewEndedAt),
+      row.notGraded ? '미채점' : row.score,
+      row.aiScore,
+      row.verdict ? REVIEW_VERDICT_LABELS[row.verdict] : null,
+      ...criteriaNames.map((name) => criterion(name)?.level ?? null),
+      ...criteriaNames.map((name) => criterion(name)?.score ?? null),
+      row.strengths.join('\n'),
+      row.weaknesses.join('\n'),
+      row.overallComment,
+      row.answerCount,
+    ];
+    for (let i = 0; i < topicCount; i++) {
+      const topic = row.topics[i];
+      line.push(
+        topic?.title ?? null,
+        topic ? TOPIC_STATUS_LABELS[topic.status] ?? topic.status : null,
+        topic?.answerCount ?? null
+      );
+    }
+    return line;
+  });
+
+  return { headers, cells };
+}
+
+function csvField(value: Cell): string {
+  if (value === null) return '';
+  // Student-entered text starting with = + - @ would run as a formula in Excel
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV with a UTF-8 BOM so Excel opens Korean text correctly
+ */
+export function toCsv(rows: ExportRow[], criteriaNames: string[]): string {
+  const { headers, cells } = buildTable(rows, criteriaNames);
+  const lines = [headers, ...cells].map((line) => line.map(csvField).join(','));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Single-sheet workbook with a frozen, bold header row
+ */
+export async function toXlsx(rows: ExportRow[], criteriaNames: string[], sheetName: string): Promise<Buffer> {
+  const { headers, cells } = buildTable(rows, criteriaNames);
+
+  const workbook = new ExcelJS.Workbook();
+  // Sheet names are limited to 31 characters and can't contain []:*?/\
+  const worksheet = workbook.addWorksheet(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Results', {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  worksheet.addRow(headers).font = { bold: true };
+  worksheet.addRows(cells);
+  worksheet.columns.forEach((column, index) => {
+    column.width = Math.min(40, Math.max(10, headers[index].length * 2));
+    column.alignment = { vertical: 'top', wrapText: true };
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export default {
+  buildExportRows,
+  toCsv,
+  toXlsx,
+};
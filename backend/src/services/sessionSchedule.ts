@@ -0,0 +1,63 @@
+/**
+ * Session Schedule
+ * Opening and closing times of a session (assignment_sessions.starts_at / ends_at)
+ *
+ * A draft with starts_at is opened at that time and an active session with ends_at is
+ * closed at that time by workers/sessionScheduler.ts. Activating or closing by hand
+ * overwrites the time with NOW(), so after the fact both columns hold when the
+ * session really opened and closed.
+ */
+import { query } from '../db/connection.js';
+
+/**
+ * Parse an optional schedule time from a request body (null or '' clears it)
+ */
+export function parseScheduleTime(input: unknown, field: string): { time: Date | null; error?: string } {
+  if (input === null || input === undefined || input === '') {
+    return { time: null };
+  }
+
+  if (typeof input !== 'string' && typeof input !== 'number') {
+    return { time: null, error: `${field} must be an ISO date string` };
+  }
+
+  const time = new Date(input);
+  if (Number.isNaN(time.getTime())) {
+    return { time: null, error: `${field} must be a valid date` };
+  }
+
+  return { time };
+}
+
+/**
+ * Why the window can't be used, or null if it can
+ */
+export function scheduleError(startsAt: Date | null, endsAt: Date | null): string | null {
+  if (endsAt && startsAt && endsAt <= startsAt) {
+    return 'endsAt must be after startsAt';
+  }
+  if (endsAt && endsAt <= new Date()) {
+    return 'endsAt must be in the future';
+  }
+  return null;
+}
+
+/**
+ * Whether the session no longer takes new topics
+ * True once it is closed, or past ends_at while the scheduler has not caught up yet.
+ */
+export async function isSessionClosing(sessionId: string): Promise<boolean> {
+  const result = await query<{ closing: boolean }>(
+    `SELECT status = 'closed' OR (ends_at IS NOT NULL AND ends_at <= NOW()) AS closing
+     FROM assignment_sessions
+     WHERE id = $1`,
+    [sessionId]
+  );
+  return result.rows[0]?.closing ?? false;
+}
+
+export default {
+  parseScheduleTime,
+  scheduleError,
+  isSessionClosing,
+};
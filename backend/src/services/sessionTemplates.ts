@@ -0,0 +1,93 @@
+/**
+ * Session Templates
+ * Settings copied from a session into a new session (duplicate) or a named template
+ *
+ * Only the interview setup travels: status, access code, schedule, roster,
+ * collaborators and participants stay with the original session. Templates in an
+ * organization are usable by all of its members; only the owner changes them.
+ */
+import { getOrganizationRole } from '../middleware/auth.js';
+
+// Interview settings shared by assignment_sessions and session_templates (title is set per copy)
+export const SESSION_SETTING_COLUMNS = [
+  'description',
+  'topic_count',
+  'topic_duration',
+  'interview_mode',
+  'interview_language',
+  'assignment_info',
+  'rubric',
+  'require_topic_approval',
+  'question_bank',
+  'pause_budget',
+].join(', ');
+
+export interface SessionTemplateRow {
+  id: string;
+  teacher_id: string;
+  organization_id: string | null;
+  organization_name: string | null;
+  owner_name: string;
+  name: string;
+  title: string;
+  description: string | null;
+  topic_count: number;
+  topic_duration: number;
+  interview_mode: string;
+  interview_language: string;
+  assignment_info: string | null;
+  rubric: unknown;
+  require_topic_approval: boolean;
+  question_bank: unknown;
+  pause_budget: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Template as returned by the API (settings in the same shape as POST /api/sessions)
+ */
+export function formatTemplate(row: SessionTemplateRow, teacherId: string) {
+  return {
+    id: row.id,
+    name: row.name,
+    isOwner: row.teacher_id === teacherId,
+    ownerName: row.owner_name,
+    organization: row.organization_id ? { id: row.organization_id, name: row.organization_name } : null,
+    settings: {
+      title: row.title,
+      description: row.description,
+      topicCount: row.topic_count,
+      topicDuration: row.topic_duration,
+      interviewMode: row.interview_mode,
+      interviewLanguage: row.interview_language,
+      assignmentInfo: row.assignment_info,
+      rubric: row.rubric,
+      requireTopicApproval: row.require_topic_approval,
+      questionBank: row.question_bank,
+      pauseBudget: row.pause_budget,
+    },
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Why the teacher can't share a template with the organization, or null if they can
+ */
+export async function organizationTemplateError(organizationId: unknown, teacherId: string): Promise<string | null> {
+  if (typeof organizationId !== 'string') {
+    return 'organizationId must be a string';
+  }
+
+  const role = await getOrganizationRole(organizationId, teacherId);
+  if (!role) return 'Organization not found';
+  if (role === 'ta') return 'Teaching assistants cannot share templates with an organization';
+  return null;
+}
+
+export default {
+  SESSION_SETTING_COLUMNS,
+  formatTemplate,
+  organizationTemplateError,
+};
@@ -6,6 +6,7 @@
 import { ElevenLabsClient } from '@elevenlabs/elevenlabs-js';
 import OpenAI from 'openai';
 import { Readable } from 'stream';
+import { InterviewLanguage, languageProfile, ttsVoiceId } from './languages.js';
 
 // ElevenLabs client
 const elevenlabs = new ElevenLabsClient({
@@ -20,16 +21,18 @@ const openai = new OpenAI({
 /**
  * Text-to-Speech using ElevenLabs
  * @param text - Text to convert to speech
+ * @param language - Interview language (picks the voice, ELEVENLABS_VOICE_ID_<LANG>)
  * @returns Audio buffer (MP3)
  */
-export async function textToSpeech(text: string): Promise<Buffer> {
-  const voiceId = process.env.ELEVENLABS_VOICE_ID || '4JJwo477JUAx3HV0T7n7';
+export async function textToSpeech(text: string, language?: InterviewLanguage): Promise<Buffer> {
+  const voiceId = ttsVoiceId(language);
   const modelId = process.env.ELEVENLABS_MODEL || 'eleven_flash_v2_5';
 
   try {
     const audio = await elevenlabs.textToSpeech.convert(voiceId, {
       text,
       modelId: modelId,
+      languageCode: languageProfile(language).code,
       outputFormat: 'mp3_44100_128',
     });
 
@@ -57,11 +60,13 @@ export async function textToSpeech(text: string): Promise<Buffer> {
  * Speech-to-Text using OpenAI Whisper
  * @param audioBuffer - Audio data (webm, mp3, wav, etc.)
  * @param context - Optional context hint for better recognition
+ * @param language - Interview language (Whisper language hint)
  * @returns Transcribed text
  */
 export async function speechToText(
   audioBuffer: Buffer,
-  context?: string
+  context?: string,
+  language?: InterviewLanguage
 ): Promise<string> {
   try {
     // Create a File object from buffer (convert to Uint8Array for compatibility)
@@ -71,7 +76,7 @@ export async function speechToText(
     const response = await openai.audio.transcriptions.create({
       file,
       model: 'whisper-1',
-      language: 'ko',
+      language: languageProfile(language).code,
       prompt: context, // Context-aware hint for better accuracy
     });
 
@@ -0,0 +1,10 @@
+/**
+ * Content-Disposition for downloads (RFC 5987, so Korean file names survive)
+ * Used by the download routes and by signed URLs that save under a file name.
+ */
+export function attachmentDisposition(filename: string): string {
+  const encodedFilename = encodeURIComponent(filename)
+    .replace(/['()]/g, escape)
+    .replace(/\*/g, '%2A');
+  return `attachment; filename*=UTF-8''${encodedFilename}`;
+}
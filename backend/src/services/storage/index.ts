@@ -0,0 +1,167 @@
+/**
+ * Storage Service
+ * Submitted files and interview audio, behind one StorageDriver
+ *
+ * STORAGE_DRIVER picks the backend (local | s3 | supabase | none). When it is unset,
+ * Supabase is used if its credentials are set (existing deployments), then S3 if
+ * S3_BUCKET is set, and local disk otherwise, so uploads are always kept somewhere.
+ */
+import type { StorageDriver, StorageDriverName } from './types.js';
+import { LocalStorageDriver } from './localDriver.js';
+import { S3StorageDriver } from './s3Driver.js';
+import { SupabaseStorageDriver } from './supabaseDriver.js';
+
+export type { StorageDriver, StorageDriverName } from './types.js';
+export { LocalStorageDriver, verifyLocalSignature, LOCAL_FILES_ROUTE } from './localDriver.js';
+export { attachmentDisposition } from './disposition.js';
+
+const VALID_DRIVERS: readonly string[] = ['local', 's3', 'supabase', 'none'];
+
+// Default lifetime of signed URLs
+const SIGNED_URL_EXPIRES_SECONDS = 3600;
+
+// Lazy initialization to ensure env vars are loaded
+let driver: StorageDriver | null | undefined;
+
+export function getStorageDriverName(): StorageDriverName | 'none' {
+  const name = process.env.STORAGE_DRIVER;
+  if (name && VALID_DRIVERS.includes(name)) {
+    return name as StorageDriverName | 'none';
+  }
+  if (name) {
+    console.warn(`[Storage] Unknown STORAGE_DRIVER "${name}", detecting from environment`);
+  }
+
+  if (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY) return 'supabase';
+  if (process.env.S3_BUCKET) return 's3';
+  return 'local';
+}
+
+/**
+ * Get the storage driver selected for this deployment, or null if storage is disabled
+ */
+export function getStorageDriver(): StorageDriver | null {
+  if (driver === undefined) {
+    switch (getStorageDriverName()) {
+      case 'none':
+        driver = null;
+        break;
+      case 'supabase':
+        driver = new SupabaseStorageDriver();
+        break;
+      case 's3':
+        driver = new S3StorageDriver();
+        break;
+      default:
+        driver = new LocalStorageDriver();
+    }
+    console.log(`[Storage] Using driver: ${driver?.name ?? 'none'}`);
+  }
+  return driver;
+}
+
+function requireDriver(): StorageDriver {
+  const storage = getStorageDriver();
+  if (!storage) {
+    throw new Error('Storage is disabled (STORAGE_DRIVER=none)');
+  }
+  return storage;
+}
+
+/**
+ * Upload a file
+ * @param buffer - File buffer
+ * @param filename - Original filename
+ * @param sessionId - Session UUID
+ * @param participantId - Participant UUID
+ * @param contentType - MIME type
+ * @returns Storage path
+ */
+export async function uploadFile(
+  buffer: Buffer,
+  filename: string,
+  sessionId: string,
+  participantId: string,
+  contentType: string
+): Promise<string> {
+  const storage = requireDriver();
+
+  // Generate unique path: sessions/{sessionId}/{participantId}/{timestamp}_{filename}
+  const sanitizedFilename = filename.replace(/[^a-zA-Z0-9가-힣._-]/g, '_');
+  const path = `sessions/${sessionId}/${participantId}/${Date.now()}_${sanitizedFilename}`;
+
+  try {
+    await storage.put(path, buffer, contentType);
+  } catch (error) {
+    console.error(`[Storage] Upload error (${storage.name}):`, error);
+    throw error;
+  }
+
+  console.log(`[Storage] File uploaded (${storage.name}): ${path}`);
+  return path;
+}
+
+/**
+ * Download a file
+ * @param path - Storage path
+ * @returns File buffer
+ */
+export async function downloadFile(path: string): Promise<Buffer> {
+  const storage = requireDriver();
+
+  try {
+    return await storage.get(path);
+  } catch (error) {
+    console.error(`[Storage] Download error (${storage.name}):`, error);
+    throw error;
+  }
+}
+
+/**
+ * Delete files; paths that no longer exist are skipped
+ * @param paths - Storage paths
+ */
+export async function deleteFiles(paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+  const storage = requireDriver();
+
+  await storage.delete(paths);
+  console.log(`[Storage] Deleted ${paths.length} files (${storage.name})`);
+}
+
+/**
+ * Get a signed URL for temporary access
+ * @param path - Storage path
+ * @param options.downloadName - Serve as an attachment with this file name
+ * @param options.expiresInSeconds - URL lifetime (default 1 hour)
+ * @returns Signed URL
+ */
+export async function getSignedUrl(
+  path: string,
+  options: { downloadName?: string; expiresInSeconds?: number } = {}
+): Promise<string> {
+  const storage = requireDriver();
+
+  try {
+    return await storage.getSignedUrl(path, options.expiresInSeconds ?? SIGNED_URL_EXPIRES_SECONDS, options.downloadName);
+  } catch (error) {
+    console.error(`[Storage] Signed URL error (${storage.name}):`, error);
+    throw error;
+  }
+}
+
+/**
+ * Check if storage is configured
+ */
+export function isStorageConfigured(): boolean {
+  return getStorageDriver() !== null;
+}
+
+export default {
+  getStorageDriver,
+  uploadFile,
+  downloadFile,
+  deleteFiles,
+  getSignedUrl,
+  isStorageConfigured,
+};
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import nodePath from 'path';
+import type { StorageDriver } from './types.js';
+
+// Served by routes/storage.ts
+export const LOCAL_FILES_ROUTE = '/api/storage/files';
+
+/**
+ * Local disk driver for self-hosted deployments
+ * Config: STORAGE_LOCAL_DIR (default: ./storage; mount a volume there in containers),
+ * STORAGE_SIGNING_SECRET (default: JWT_SECRET) and PUBLIC_API_URL for signed URLs
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  get rootDir(): string {
+    return nodePath.resolve(process.env.STORAGE_LOCAL_DIR || './storage');
+  }
+
+  /**
+   * Absolute path of a storage path inside the storage directory
+   * Storage paths come from the database, but never let one escape the directory.
+   */
+  resolve(path: string): string {
+    const root = this.rootDir;
+    const resolved = nodePath.resolve(root, path);
+    if (!resolved.startsWith(root + nodePath.sep)) {
+      throw new Error(`Invalid storage path: ${path}`);
+    }
+    return resolved;
+  }
+
+  async put(path: string, buffer: Buffer): Promise<void> {
+    const filePath = this.resolve(path);
+    await fs.mkdir(nodePath.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, buffer, { flag: 'wx' });
+  }
+
+  async get(path: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(path));
+  }
+
+  async delete(paths: string[]): Promise<void> {
+    for (const path of paths) {
+      await fs.rm(this.resolve(path), { force: true });
+    }
+  }
+
+  async getSignedUrl(path: string, expiresInSeconds: number, downloadName?: string): Promise<string> {
+    this.resolve(path);
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const signature = signLocalPath(path, expires, downloadName);
+    const baseUrl = (process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 4010}`).replace(/\/+$/, '');
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    const download = downloadName ? `&download=${encodeURIComponent(downloadName)}` : '';
+    return `${baseUrl}${LOCAL_FILES_ROUTE}/${encodedPath}?expires=${expires}${download}&signature=${signature}`;
+  }
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('STORAGE_SIGNING_SECRET (or JWT_SECRET) is not configured');
+  }
+  return secret;
+}
+
+// The download name is signed too, so a link can't be reused under another name
+function signLocalPath(path: string, expires: number, downloadName = ''): string {
+  return crypto
+    .createHmac('sha256', getSigningSecret())
+    .update(`${path}\n${expires}\n${downloadName}`)
+    .digest('base64url');
+}
+
+/**
+ * Check a signed URL issued by LocalStorageDriver.getSignedUrl
+ */
+export function verifyLocalSignature(path: string, expires: string, signature: string, downloadName?: string): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) {
+    return false;
+  }
+
+  const expected = Buffer.from(signLocalPath(path, expiresAt, downloadName));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,90 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectsCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { StorageDriver } from './types.js';
+import { attachmentDisposition } from './disposition.js';
+
+// DeleteObjects accepts at most 1000 keys per request
+const DELETE_BATCH_SIZE = 1000;
+
+/**
+ * S3-compatible driver (AWS S3, MinIO, Cloudflare R2, NCP Object Storage, ...)
+ * Config: S3_BUCKET (required), S3_REGION (default: us-east-1), S3_ENDPOINT (for non-AWS
+ * servers), S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY (default: the AWS credential chain),
+ * S3_FORCE_PATH_STYLE (default: true when S3_ENDPOINT is set, as MinIO needs)
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private client: S3Client | null = null;
+
+  private get bucket(): string {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error('S3_BUCKET is not configured');
+    }
+    return bucket;
+  }
+
+  private getClient(): S3Client {
+    if (!this.client) {
+      const endpoint = process.env.S3_ENDPOINT || undefined;
+      const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+      const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+      this.client = new S3Client({
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+          ? process.env.S3_FORCE_PATH_STYLE === 'true'
+          : !!endpoint,
+        credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+      });
+      console.log(`[Storage] S3 client initialized (${endpoint || 'AWS'})`);
+    }
+    return this.client;
+  }
+
+  async put(path: string, buffer: Buffer, contentType: string): Promise<void> {
+    await this.getClient().send(
+      new PutObjectCommand({ Bucket: this.bucket, Key: path, Body: buffer, ContentType: contentType })
+    );
+  }
+
+  async get(path: string): Promise<Buffer> {
+    const response = await this.getClient().send(new GetObjectCommand({ Bucket: this.bucket, Key: path }));
+    if (!response.Body) {
+      throw new Error(`Empty response for ${path}`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async delete(paths: string[]): Promise<void> {
+    for (let i = 0; i < paths.length; i += DELETE_BATCH_SIZE) {
+      const batch = paths.slice(i, i + DELETE_BATCH_SIZE);
+      const response = await this.getClient().send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucket,
+          Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true },
+        })
+      );
+      if (response.Errors && response.Errors.length > 0) {
+        throw new Error(`Failed to delete ${response.Errors.length} files: ${response.Errors[0].Message}`);
+      }
+    }
+  }
+
+  async getSignedUrl(path: string, expiresInSeconds: number, downloadName?: string): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: path,
+      ResponseContentDisposition: downloadName ? attachmentDisposition(downloadName) : undefined,
+    });
+    return getSignedUrl(this.getClient(), command, {
+      expiresIn: expiresInSeconds,
+    });
+  }
+}
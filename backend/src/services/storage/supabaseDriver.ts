@@ -0,0 +1,68 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { StorageDriver } from './types.js';
+
+/**
+ * Supabase Storage driver
+ * Config: SUPABASE_URL, SUPABASE_SERVICE_KEY (required), SUPABASE_BUCKET (default: submissions)
+ */
+export class SupabaseStorageDriver implements StorageDriver {
+  readonly name = 'supabase';
+  private client: SupabaseClient | null = null;
+  private readonly bucket = process.env.SUPABASE_BUCKET || 'submissions';
+
+  private getClient(): SupabaseClient {
+    if (!this.client) {
+      const supabaseUrl = process.env.SUPABASE_URL;
+      const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
+
+      if (!supabaseUrl || !supabaseKey) {
+        throw new Error('Supabase credentials not configured');
+      }
+
+      this.client = createClient(supabaseUrl, supabaseKey);
+    }
+    return this.client;
+  }
+
+  async put(path: string, buffer: Buffer, contentType: string): Promise<void> {
+    const { error } = await this.getClient().storage.from(this.bucket).upload(path, buffer, {
+      contentType,
+      upsert: false,
+    });
+
+    if (error) {
+      throw new Error(`Failed to upload file: ${error.message}`);
+    }
+  }
+
+  async get(path: string): Promise<Buffer> {
+    const { data, error } = await this.getClient().storage.from(this.bucket).download(path);
+
+    if (error) {
+      throw new Error(`Failed to download file: ${error.message}`);
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async delete(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+    const { error } = await this.getClient().storage.from(this.bucket).remove(paths);
+
+    if (error) {
+      throw new Error(`Failed to delete files: ${error.message}`);
+    }
+  }
+
+  async getSignedUrl(path: string, expiresInSeconds: number, downloadName?: string): Promise<string> {
+    const { data, error } = await this.getClient()
+      .storage.from(this.bucket)
+      .createSignedUrl(path, expiresInSeconds, downloadName ? { download: downloadName } : undefined);
+
+    if (error) {
+      throw new Error(`Failed to get signed URL: ${error.message}`);
+    }
+
+    return data.signedUrl;
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Storage driver types
+ * A driver stores opaque files under a storage path
+ * ("sessions/{sessionId}/{participantId}/{timestamp}_{filename}").
+ * Paths are what the database keeps (submitted_file_url, audio_url), so they must stay
+ * valid when the same deployment switches between drivers' buckets or directories.
+ */
+
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  put(path: string, buffer: Buffer, contentType: string): Promise<void>;
+  get(path: string): Promise<Buffer>;
+  // Missing paths are not an error
+  delete(paths: string[]): Promise<void>;
+  // Time-limited URL a browser can fetch without authentication
+  // (with downloadName, the file is served as an attachment under that name)
+  getSignedUrl(path: string, expiresInSeconds: number, downloadName?: string): Promise<string>;
+}
+
+export type StorageDriverName = 'local' | 's3' | 'supabase';
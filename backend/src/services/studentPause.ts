@@ -0,0 +1,101 @@
+/**
+ * Student Pause
+ * Pauses requested by the student (fire drill, noisy classroom), capped by the
+ * session's pause budget (assignment_sessions.pause_budget, seconds per interview)
+ *
+ * A running pause is interview_states.student_pause_started_at. It only counts up to
+ * the budget left: past that the topic timer runs again, and the next heartbeat ends
+ * the pause. Ended pauses are added to accumulated_pause_time like TTS/STT pauses.
+ */
+import { query } from '../db/connection.js';
+
+// Same bound as the assignment_sessions.pause_budget CHECK
+export const MAX_PAUSE_BUDGET = 600;
+
+// interview_states columns joined with assignment_sessions.pause_budget (NULL without a state row)
+export interface StudentPauseRow {
+  pause_budget?: number | null;
+  student_pause_started_at?: string | Date | null;
+  student_pause_used?: number | null;
+  student_pause_count?: number | null;
+}
+
+// Pause state as sent to the student page and the teacher view
+export interface StudentPauseStatus {
+  budget: number;
+  used: number;
+  remaining: number;
+  paused: boolean;
+  count: number;
+}
+
+/**
+ * Validate a pause budget from a request body (seconds, 0 = off)
+ */
+export function parsePauseBudget(input: unknown): { budget: number | null; error?: string } {
+  const budget = Number(input);
+  if (!Number.isInteger(budget) || budget < 0 || budget > MAX_PAUSE_BUDGET) {
+    return { budget: null, error: `pauseBudget must be 0-${MAX_PAUSE_BUDGET} seconds` };
+  }
+  return { budget };
+}
+
+/**
+ * Seconds of the running student pause that count, capped by the budget left
+ */
+export function runningPauseSeconds(row: StudentPauseRow): number {
+  if (!row.student_pause_started_at) return 0;
+
+  const elapsed = Math.floor((Date.now() - new Date(row.student_pause_started_at).getTime()) / 1000);
+  const budgetLeft = Math.max(0, (row.pause_budget || 0) - (row.student_pause_used || 0));
+  return Math.min(Math.max(0, elapsed), budgetLeft);
+}
+
+export function studentPauseStatus(row: StudentPauseRow): StudentPauseStatus {
+  const budget = row.pause_budget || 0;
+  const used = (row.student_pause_used || 0) + runningPauseSeconds(row);
+  return {
+    budget,
+    used,
+    remaining: Math.max(0, budget - used),
+    paused: !!row.student_pause_started_at && used < budget,
+    count: row.student_pause_count || 0,
+  };
+}
+
+/**
+ * End the participant's running student pause, if any
+ * Returns the seconds added to the topic's pause time.
+ */
+export async function endStudentPause(participantId: string): Promise<number> {
+  const result = await query<{ seconds: number }>(
+    `UPDATE interview_states ist
+     SET accumulated_pause_time = COALESCE(ist.accumulated_pause_time, 0) + p.seconds,
+         student_pause_used = ist.student_pause_used + p.seconds,
+         student_pause_started_at = NULL
+     FROM (
+       SELECT
+         ist2.participant_id,
+         LEAST(
+           GREATEST(0, EXTRACT(EPOCH FROM NOW() - ist2.student_pause_started_at)::integer),
+           GREATEST(0, s.pause_budget - ist2.student_pause_used)
+         ) AS seconds
+       FROM interview_states ist2
+       JOIN student_participants sp ON sp.id = ist2.participant_id
+       JOIN assignment_sessions s ON s.id = sp.session_id
+       WHERE ist2.participant_id = $1 AND ist2.student_pause_started_at IS NOT NULL
+     ) p
+     WHERE ist.participant_id = p.participant_id
+     RETURNING p.seconds`,
+    [participantId]
+  );
+  return result.rows[0]?.seconds ?? 0;
+}
+
+export default {
+  MAX_PAUSE_BUDGET,
+  parsePauseBudget,
+  runningPauseSeconds,
+  studentPauseStatus,
+  endStudentPause,
+};
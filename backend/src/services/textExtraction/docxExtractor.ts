@@ -0,0 +1,13 @@
+import mammoth from 'mammoth';
+import type { TextExtractor, ExtractedText } from './types.js';
+
+export class DocxExtractor implements TextExtractor {
+  readonly format = 'docx';
+  readonly mimeTypes = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+  readonly extensions = ['.docx'];
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    const { value } = await mammoth.extractRawText({ buffer });
+    return { text: value, ocr: false };
+  }
+}
@@ -0,0 +1,74 @@
+import JSZip from 'jszip';
+import type { TextExtractor, ExtractedText } from './types.js';
+
+// Body text lives in Contents/section0.xml, section1.xml, ...
+const SECTION_PATH = /^Contents\/section(\d+)\.xml$/;
+
+// <hp:t>...</hp:t> text runs and <hp:p>/</hp:p> paragraph boundaries, in document order.
+// Table cells hold nested paragraphs, so an opening tag also ends the current line.
+const TEXT_OR_PARAGRAPH_BOUNDARY = /<(?:\w+:)?t(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?t>|<\/?(?:\w+:)?p(?:\s[^>]*)?>/g;
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlText(raw: string): string {
+  return raw
+    // Inline elements inside a run (<hp:tab/>, <hp:lineBreak/>, ...)
+    .replace(/<(?:\w+:)?tab\b[^>]*\/?>/g, '\t')
+    .replace(/<(?:\w+:)?lineBreak\b[^>]*\/?>/g, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+        return String.fromCodePoint(point);
+      }
+      return XML_ENTITIES[code] ?? entity;
+    });
+}
+
+/**
+ * HWPX (OWPML) - Hancom's zipped XML format, the default since Hangul 2014
+ */
+export class HwpxExtractor implements TextExtractor {
+  readonly format = 'hwpx';
+  readonly mimeTypes = ['application/vnd.hancom.hwpx', 'application/haansofthwpx', 'application/hwp+zip'];
+  readonly extensions = ['.hwpx'];
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    const zip = await JSZip.loadAsync(buffer);
+
+    const sections = Object.keys(zip.files)
+      .map((name) => ({ name, match: name.match(SECTION_PATH) }))
+      .filter((entry): entry is { name: string; match: RegExpMatchArray } => entry.match !== null)
+      .sort((a, b) => parseInt(a.match[1], 10) - parseInt(b.match[1], 10));
+
+    if (sections.length === 0) {
+      throw new Error('HWPX file has no body sections');
+    }
+
+    const paragraphs: string[] = [];
+    for (const section of sections) {
+      const xml = await zip.file(section.name)!.async('string');
+      let current = '';
+
+      for (const match of xml.matchAll(TEXT_OR_PARAGRAPH_BOUNDARY)) {
+        if (match[1] !== undefined) {
+          current += decodeXmlText(match[1]);
+        } else if (current) {
+          paragraphs.push(current);
+          current = '';
+        }
+      }
+      if (current) paragraphs.push(current);
+    }
+
+    return { text: paragraphs.join('\n'), ocr: false };
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Text extraction pipeline
+ * Picks an extractor for an uploaded file by MIME type (falling back to the file
+ * extension, since browsers often report HWP/HWPX as application/octet-stream).
+ */
+import path from 'path';
+import type { TextExtractor, ExtractedText } from './types.js';
+import { PdfExtractor } from './pdfExtractor.js';
+import { DocxExtractor } from './docxExtractor.js';
+import { HwpExtractor } from './hwpExtractor.js';
+import { HwpxExtractor } from './hwpxExtractor.js';
+import { PlainTextExtractor } from './plainTextExtractor.js';
+import { isOcrEnabled } from './ocr.js';
+
+export type { TextExtractor, ExtractedText } from './types.js';
+
+const EXTRACTORS: readonly TextExtractor[] = [
+  new PdfExtractor(),
+  new DocxExtractor(),
+  new HwpExtractor(),
+  new HwpxExtractor(),
+  new PlainTextExtractor(),
+];
+
+/**
+ * Find the extractor for an upload, or null if the format isn't supported
+ */
+export function findExtractor(mimeType: string, filename: string): TextExtractor | null {
+  const byMimeType = EXTRACTORS.find((e) => e.mimeTypes.includes(mimeType));
+  if (byMimeType) return byMimeType;
+
+  const extension = path.extname(filename).toLowerCase();
+  return EXTRACTORS.find((e) => e.extensions.includes(extension)) ?? null;
+}
+
+/**
+ * Extract plain text from an uploaded document
+ * @throws if the format is unsupported or the document can't be parsed
+ */
+export async function extractText(
+  buffer: Buffer,
+  mimeType: string,
+  filename: string
+): Promise<ExtractedText & { format: string }> {
+  const extractor = findExtractor(mimeType, filename);
+  if (!extractor) {
+    throw new Error(`Unsupported file type: ${mimeType || path.extname(filename)}`);
+  }
+
+  const result = await extractor.extract(buffer);
+  console.log(
+    `[TextExtraction] ${extractor.format}: ${result.text.length} chars${result.ocr ? ' (OCR)' : ''}`
+  );
+  return { ...result, format: extractor.format };
+}
+
+/**
+ * Content type to serve a stored submission with
+ */
+export function getContentType(filename: string): string {
+  const extension = path.extname(filename).toLowerCase();
+  const extractor = EXTRACTORS.find((e) => e.extensions.includes(extension));
+  return extractor?.mimeTypes[0] ?? 'application/octet-stream';
+}
+
+/**
+ * Accepted upload formats, for the upload page's file picker and validation
+ */
+export function getSupportedFormats(): { formats: string[]; extensions: string[]; mimeTypes: string[]; ocr: boolean } {
+  return {
+    formats: EXTRACTORS.map((e) => e.format),
+    extensions: EXTRACTORS.flatMap((e) => e.extensions),
+    mimeTypes: EXTRACTORS.flatMap((e) => e.mimeTypes),
+    ocr: isOcrEnabled(),
+  };
+}
+
+export default {
+  findExtractor,
+  extractText,
+  getContentType,
+  getSupportedFormats,
+};
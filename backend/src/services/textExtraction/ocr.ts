@@ -0,0 +1,74 @@
+/**
+ * OCR fallback for scanned PDFs
+ * Renders pages with poppler's pdftoppm and reads them with the local tesseract CLI.
+ * Both binaries are installed in the Docker image; without them OCR is skipped.
+ */
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+// Per-command limit so a pathological page can't hold the upload request forever
+const COMMAND_TIMEOUT_MS = 60000;
+const RENDER_DPI = 300;
+
+export function isOcrEnabled(): boolean {
+  return process.env.OCR_ENABLED !== 'false';
+}
+
+function getOcrLanguages(): string {
+  return process.env.OCR_LANGUAGES || 'kor+eng';
+}
+
+function getMaxPages(): number {
+  const parsed = parseInt(process.env.OCR_MAX_PAGES || '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : 10;
+}
+
+/**
+ * OCR the first OCR_MAX_PAGES pages of a PDF
+ * Returns an empty string when the OCR tools are not installed.
+ */
+export async function ocrPdf(buffer: Buffer): Promise<string> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hwv-ocr-'));
+
+  try {
+    const pdfPath = path.join(workDir, 'input.pdf');
+    await fs.writeFile(pdfPath, buffer);
+
+    await execFileAsync(
+      'pdftoppm',
+      ['-r', String(RENDER_DPI), '-gray', '-png', '-l', String(getMaxPages()), pdfPath, path.join(workDir, 'page')],
+      { timeout: COMMAND_TIMEOUT_MS }
+    );
+
+    // pdftoppm zero-pads page numbers to the page count's width, so a plain sort keeps order
+    const pages = (await fs.readdir(workDir))
+      .filter((name) => name.startsWith('page') && name.endsWith('.png'))
+      .sort();
+
+    const texts: string[] = [];
+    for (const page of pages) {
+      const { stdout } = await execFileAsync(
+        'tesseract',
+        [path.join(workDir, page), 'stdout', '-l', getOcrLanguages()],
+        { timeout: COMMAND_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 }
+      );
+      texts.push(stdout);
+    }
+
+    console.log(`[OCR] Recognized ${pages.length} page(s)`);
+    return texts.join('\n');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      console.warn('[OCR] pdftoppm/tesseract not installed, skipping OCR');
+      return '';
+    }
+    throw error;
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -0,0 +1,28 @@
+import pdfParse from 'pdf-parse';
+import type { TextExtractor, ExtractedText } from './types.js';
+import { isOcrEnabled, ocrPdf } from './ocr.js';
+
+// Less text than this usually means a scanned (image-only) PDF
+const SCANNED_PDF_THRESHOLD = 100;
+
+export class PdfExtractor implements TextExtractor {
+  readonly format = 'pdf';
+  readonly mimeTypes = ['application/pdf'];
+  readonly extensions = ['.pdf'];
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    const { text } = await pdfParse(buffer);
+
+    if (text.trim().length >= SCANNED_PDF_THRESHOLD || !isOcrEnabled()) {
+      return { text, ocr: false };
+    }
+
+    console.log('[TextExtraction] PDF has no text layer, falling back to OCR');
+    const ocrText = await ocrPdf(buffer);
+
+    // Keep whichever is longer; OCR on a mostly blank page can return less
+    return ocrText.trim().length > text.trim().length
+      ? { text: ocrText, ocr: true }
+      : { text, ocr: false };
+  }
+}
@@ -0,0 +1,22 @@
+import type { TextExtractor, ExtractedText } from './types.js';
+
+export class PlainTextExtractor implements TextExtractor {
+  readonly format = 'text';
+  readonly mimeTypes = ['text/plain', 'text/markdown'];
+  readonly extensions = ['.txt', '.md'];
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    // UTF-16 files from Windows Notepad start with a BOM
+    if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+      return { text: new TextDecoder('utf-16le').decode(buffer), ocr: false };
+    }
+
+    try {
+      // TextDecoder strips the UTF-8 BOM itself
+      return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), ocr: false };
+    } catch {
+      // Older Korean text files are saved as CP949/EUC-KR
+      return { text: new TextDecoder('euc-kr').decode(buffer), ocr: false };
+    }
+  }
+}
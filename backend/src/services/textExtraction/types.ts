@@ -0,0 +1,21 @@
+/**
+ * Text extraction types
+ * An extractor turns one kind of submitted document into plain text for
+ * topic analysis and question generation.
+ */
+
+export interface TextExtractor {
+  // Short format name used in logs ('pdf', 'docx', ...)
+  readonly format: string;
+  // MIME types browsers report for this format (first one is used for downloads)
+  readonly mimeTypes: readonly string[];
+  // Lowercase extensions including the dot; used when the browser sends a generic MIME type
+  readonly extensions: readonly string[];
+  extract(buffer: Buffer): Promise<ExtractedText>;
+}
+
+export interface ExtractedText {
+  text: string;
+  // True when the text came from OCR rather than the document itself
+  ocr: boolean;
+}
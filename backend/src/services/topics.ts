@@ -0,0 +1,124 @@
+/**
+ * Topic Service
+ * Teacher edits to a participant's analyzed_topics (topic approval step), and
+ * per-topic time budgets and score weights
+ *
+ * assignment_sessions.topic_duration is the average time per topic. The session
+ * budget (topic_duration x topic count) is shared by weight, so a core topic gets
+ * more time than a minor detail; a teacher-set duration on a topic overrides its share.
+ */
+import type { Topic } from './llm.js';
+
+// Same upper bound as assignment_sessions.topic_count
+export const MAX_TOPICS = 10;
+
+// 1 = minor detail, 2 = normal, 3 = core idea / methodology
+export const MIN_TOPIC_WEIGHT = 1;
+export const MAX_TOPIC_WEIGHT = 3;
+export const DEFAULT_TOPIC_WEIGHT = 2;
+
+// Same bounds as assignment_sessions.topic_duration
+export const MIN_TOPIC_DURATION = 60;
+export const MAX_TOPIC_DURATION = 600;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+/**
+ * Weight of a topic, defaulting topics analyzed before weights existed to normal
+ */
+export function topicWeight(topic: { weight?: unknown }): number {
+  const weight = Number(topic.weight);
+  if (!Number.isFinite(weight)) return DEFAULT_TOPIC_WEIGHT;
+  return Math.min(MAX_TOPIC_WEIGHT, Math.max(MIN_TOPIC_WEIGHT, Math.round(weight)));
+}
+
+/**
+ * Time budget in seconds for each topic, in topic order
+ * Topics with a teacher-set duration keep it; the rest of the session budget is
+ * shared by weight, rounded to 10 seconds and kept within the topic_duration bounds.
+ */
+export function allocateTopicDurations(topics: Topic[], topicDuration: number): number[] {
+  const budget = topicDuration * topics.length;
+  const fixedTime = topics.reduce((sum, t) => sum + (t.duration ?? 0), 0);
+  const sharedWeight = topics
+    .filter((t) => t.duration === undefined)
+    .reduce((sum, t) => sum + topicWeight(t), 0);
+  const remaining = Math.max(0, budget - fixedTime);
+
+  return topics.map((topic) => {
+    if (topic.duration !== undefined) return topic.duration;
+    const share = Math.round((remaining * topicWeight(topic)) / sharedWeight / 10) * 10;
+    return Math.min(MAX_TOPIC_DURATION, Math.max(MIN_TOPIC_DURATION, share));
+  });
+}
+
+/**
+ * Weighted total (0-100) from per-topic scores
+ */
+export function weightedTopicScore(scores: Array<{ score: number; weight: number }>): number {
+  const totalWeight = scores.reduce((sum, s) => sum + s.weight, 0);
+  if (totalWeight === 0) {
+    return 0;
+  }
+  const weighted = scores.reduce((sum, s) => sum + s.score * s.weight, 0);
+  return Math.round(weighted / totalWeight);
+}
+
+/**
+ * Validate a teacher-edited topic list from a request body
+ * Order in the array is the interview order; indexes are reassigned to match.
+ */
+export function parseTopics(input: unknown): { topics: Topic[] | null; error?: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { topics: null, error: 'At least one topic is required' };
+  }
+
+  if (input.length > MAX_TOPICS) {
+    return { topics: null, error: `At most ${MAX_TOPICS} topics are allowed` };
+  }
+
+  const topics: Topic[] = [];
+  for (const item of input as Array<Record<string, unknown>>) {
+    const title = typeof item?.title === 'string' ? item.title.trim() : '';
+    if (!title || title.length > MAX_TITLE_LENGTH) {
+      return { topics: null, error: `Each topic needs a title of ${MAX_TITLE_LENGTH} characters or less` };
+    }
+
+    const description = typeof item.description === 'string' ? item.description.trim() : '';
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      return { topics: null, error: `Topic "${title}" description must be ${MAX_DESCRIPTION_LENGTH} characters or less` };
+    }
+
+    let weight = DEFAULT_TOPIC_WEIGHT;
+    if (item.weight !== undefined && item.weight !== null) {
+      weight = Number(item.weight);
+      if (!Number.isInteger(weight) || weight < MIN_TOPIC_WEIGHT || weight > MAX_TOPIC_WEIGHT) {
+        return { topics: null, error: `Topic "${title}" weight must be ${MIN_TOPIC_WEIGHT}-${MAX_TOPIC_WEIGHT}` };
+      }
+    }
+
+    // null or missing = share of the session budget by weight
+    let duration: number | undefined;
+    if (item.duration !== undefined && item.duration !== null) {
+      duration = Number(item.duration);
+      if (!Number.isInteger(duration) || duration < MIN_TOPIC_DURATION || duration > MAX_TOPIC_DURATION) {
+        return {
+          topics: null,
+          error: `Topic "${title}" duration must be ${MIN_TOPIC_DURATION}-${MAX_TOPIC_DURATION} seconds`,
+        };
+      }
+    }
+
+    topics.push({ index: topics.length, title, description, weight, ...(duration !== undefined && { duration }) });
+  }
+
+  return { topics };
+}
+
+export default {
+  topicWeight,
+  allocateTopicDurations,
+  weightedTopicScore,
+  parseTopics,
+};
@@ -5,7 +5,17 @@
  */
 
 import { query, getClient } from '../db/connection.js';
-import { generateQuestion, Topic } from '../services/llm.js';
+import {
+  assessAnswer,
+  generateQuestion,
+  generateQuestionStream,
+  AnswerAssessment,
+  FollowUpPlan,
+  Topic,
+} from '../services/llm.js';
+import { publishParticipantEvent } from '../services/participantEvents.js';
+import { readQuestionPlan, nextRequiredQuestion, optionalQuestionsFor } from '../services/questionBank.js';
+import { InterviewLanguage, languageProfile } from '../services/languages.js';
 
 const POLL_INTERVAL_MS = 1000; // Check for pending jobs every second
 
@@ -26,16 +36,36 @@ interface ParticipantData {
 interface ConversationRow {
   role: 'ai' | 'student';
   content: string;
+  bank_question_id: string | null;
+  follow_up: FollowUpPlan | null;
 }
 
 interface InterviewStateRow {
   ai_generation_started_at: string | null;
   accumulated_pause_time: number | null;
+  pause_started_at: string | null;
 }
 
 interface SessionRow {
   topic_duration: number;
   assignment_info: string | null;
+  interview_language: string | null;
+  question_plan: unknown;
+  topics_state: Array<{ totalTime?: number }> | null;
+}
+
+/**
+ * Seconds the timer was paused for generation
+ * When a streamed question already started TTS, the TTS pause (pause_started_at)
+ * covers the rest of the generation, so stop counting there to avoid double counting.
+ */
+function generationPauseSeconds(
+  generationStartedAt: string | null,
+  pauseStartedAt: string | null
+): number {
+  if (!generationStartedAt) return 0;
+  const end = pauseStartedAt ? new Date(pauseStartedAt).getTime() : Date.now();
+  return Math.max(0, Math.floor((end - new Date(generationStartedAt).getTime()) / 1000));
 }
 
 async function processPendingJobs(): Promise<void> {
@@ -59,6 +89,9 @@ async function processPendingJobs(): Promise<void> {
     const job = result.rows[0];
     console.log(`[AIWorker] Processing job ${job.id} for participant ${job.participant_id}`);
 
+    // Known once the session is loaded; the fallback question uses it too
+    let language: InterviewLanguage | undefined;
+
     try {
       // Get context for question generation
       const contextResult = await query<ParticipantData>(
@@ -83,21 +116,27 @@ async function processPendingJobs(): Promise<void> {
         throw new Error(`Topic at index ${job.topic_index} not found`);
       }
 
-      // Get session settings for topic duration and assignment info
+      // Get session settings for topic duration and assignment info, plus the question bank plan
       const sessionResult = await query<SessionRow>(
-        `SELECT ass.topic_duration, ass.assignment_info
+        `SELECT ass.topic_duration, ass.assignment_info, ass.interview_language, ist.question_plan, ist.topics_state
          FROM assignment_sessions ass
          JOIN student_participants sp ON sp.session_id = ass.id
+         LEFT JOIN interview_states ist ON ist.participant_id = sp.id
          WHERE sp.id = $1`,
         [job.participant_id]
       );
 
-      const topicDuration = sessionResult.rows[0]?.topic_duration || 180;
+      // Time allocated to this topic at interview start (shared by topic weight)
+      const topicDuration = sessionResult.rows[0]?.topics_state?.[job.topic_index]?.totalTime
+        || sessionResult.rows[0]?.topic_duration
+        || 180;
       const assignmentInfo = sessionResult.rows[0]?.assignment_info || undefined;
+      const questionPlan = readQuestionPlan(sessionResult.rows[0]?.question_plan);
+      language = languageProfile(sessionResult.rows[0]?.interview_language).code;
 
       // Get previous conversations
       const conversationsResult = await query<ConversationRow>(
-        `SELECT role, content FROM interview_conversations
+        `SELECT role, content, bank_question_id, follow_up FROM interview_conversations
          WHERE participant_id = $1 AND topic_index = $2
          ORDER BY turn_index ASC`,
         [job.participant_id, job.topic_index]
@@ -108,16 +147,73 @@ async function processPendingJobs(): Promise<void> {
         content: c.content,
       }));
 
+      // Required bank questions are asked verbatim, with an LLM follow-up in between
+      const askedBankIds = new Set(
+        conversationsResult.rows.flatMap((c) => (c.bank_question_id ? [c.bank_question_id] : []))
+      );
+      const lastAiTurn = conversationsResult.rows.filter((c) => c.role === 'ai').pop();
+      const requiredQuestion = nextRequiredQuestion(
+        questionPlan,
+        job.topic_index,
+        askedBankIds,
+        !!lastAiTurn?.bank_question_id
+      );
+
+      // Adaptive follow-up: assess the answer just given and choose the next move
+      // Skipped for verbatim bank questions; a failed or slow assessment (LLM_ASSESSMENT_TIMEOUT_MS)
+      // falls back to a plain question
+      let followUp: FollowUpPlan | undefined;
+      if (!requiredQuestion) {
+        const previousAssessments: AnswerAssessment[] = conversationsResult.rows.flatMap((c) =>
+          c.follow_up ? [c.follow_up.assessment] : []
+        );
+        try {
+          followUp = await assessAnswer(
+            {
+              topic: currentTopic,
+              assignmentText: extracted_text,
+              previousConversation: prevConversations,
+              assignmentInfo,
+              language,
+            },
+            previousAssessments
+          );
+          console.log(`[AIWorker] Assessed answer: ${followUp.assessment} -> ${followUp.move} (${followUp.difficulty})`);
+        } catch (error) {
+          console.error(`[AIWorker] Answer assessment failed for job ${job.id}:`, (error as Error).message);
+        }
+      }
+
       // Generate question
       console.log(`[AIWorker] Generating question for topic: ${currentTopic.title}, mode: ${chosen_interview_mode || 'chat'}`);
-      const nextQuestion = await generateQuestion({
+      const questionContext = {
         topic: currentTopic,
         assignmentText: extracted_text,
         previousConversation: prevConversations,
         assignmentInfo,
         topicDuration,
         interviewMode: (chosen_interview_mode as 'voice' | 'chat') || 'chat',
-      });
+        bankQuestions: optionalQuestionsFor(questionPlan, job.topic_index),
+        followUp,
+        language,
+      };
+
+      // Voice mode: push each sentence as it completes so the client can start TTS early
+      let streamedText = '';
+      const nextQuestion = requiredQuestion
+        ? requiredQuestion.text
+        : questionContext.interviewMode === 'voice'
+        ? await generateQuestionStream(questionContext, (sentence, sentenceIndex) => {
+            streamedText = streamedText ? `${streamedText} ${sentence}` : sentence;
+            publishParticipantEvent(job.participant_id, 'question-sentence', {
+              topicIndex: job.topic_index,
+              turnIndex: job.turn_index,
+              question: streamedText,
+              sentence,
+              sentenceIndex,
+            });
+          })
+        : await generateQuestion(questionContext);
 
       console.log(`[AIWorker] Generated question: ${nextQuestion.substring(0, 50)}...`);
 
@@ -129,23 +225,28 @@ async function processPendingJobs(): Promise<void> {
 
         // Save AI question to conversations
         await client.query(
-          `INSERT INTO interview_conversations (participant_id, topic_index, turn_index, role, content)
-           VALUES ($1, $2, $3, 'ai', $4)`,
-          [job.participant_id, job.topic_index, job.turn_index, nextQuestion]
+          `INSERT INTO interview_conversations (participant_id, topic_index, turn_index, role, content, bank_question_id, follow_up)
+           VALUES ($1, $2, $3, 'ai', $4, $5, $6)`,
+          [
+            job.participant_id,
+            job.topic_index,
+            job.turn_index,
+            nextQuestion,
+            requiredQuestion?.id ?? null,
+            followUp ? JSON.stringify(followUp) : null,
+          ]
         );
 
         // Calculate pause duration and update interview state
         const stateResult = await client.query<InterviewStateRow>(
-          `SELECT ai_generation_started_at, accumulated_pause_time
+          `SELECT ai_generation_started_at, accumulated_pause_time, pause_started_at
            FROM interview_states WHERE participant_id = $1`,
           [job.participant_id]
         );
 
         if (stateResult.rows.length > 0) {
-          const { ai_generation_started_at, accumulated_pause_time } = stateResult.rows[0];
-          const pauseDuration = ai_generation_started_at
-            ? Math.floor((Date.now() - new Date(ai_generation_started_at).getTime()) / 1000)
-            : 0;
+          const { ai_generation_started_at, accumulated_pause_time, pause_started_at } = stateResult.rows[0];
+          const pauseDuration = generationPauseSeconds(ai_generation_started_at, pause_started_at);
           const newAccumulatedPause = (accumulated_pause_time || 0) + pauseDuration;
 
           console.log(`[AIWorker] Pause duration: ${pauseDuration}s, Total accumulated: ${newAccumulatedPause}s`);
@@ -170,6 +271,13 @@ async function processPendingJobs(): Promise<void> {
 
         await client.query('COMMIT');
         console.log(`[AIWorker] Completed job ${job.id}`);
+
+        // Push after commit so /ai-status fallback sees the same data
+        publishParticipantEvent(job.participant_id, 'question-ready', {
+          topicIndex: job.topic_index,
+          turnIndex: job.turn_index,
+          question: nextQuestion,
+        });
       } catch (txError) {
         await client.query('ROLLBACK');
         throw txError;
@@ -180,7 +288,7 @@ async function processPendingJobs(): Promise<void> {
       console.error(`[AIWorker] Failed job ${job.id}:`, error);
 
       // Mark job as failed with fallback question using transaction
-      const fallbackQuestion = '이 부분에 대해 더 자세히 설명해 주시겠어요?';
+      const fallbackQuestion = languageProfile(language).followUpQuestion;
       const failClient = await getClient();
 
       try {
@@ -206,16 +314,14 @@ async function processPendingJobs(): Promise<void> {
 
         // Calculate pause duration even on failure
         const stateResult = await failClient.query<InterviewStateRow>(
-          `SELECT ai_generation_started_at, accumulated_pause_time
+          `SELECT ai_generation_started_at, accumulated_pause_time, pause_started_at
            FROM interview_states WHERE participant_id = $1`,
           [job.participant_id]
         );
 
         if (stateResult.rows.length > 0) {
-          const { ai_generation_started_at, accumulated_pause_time } = stateResult.rows[0];
-          const pauseDuration = ai_generation_started_at
-            ? Math.floor((Date.now() - new Date(ai_generation_started_at).getTime()) / 1000)
-            : 0;
+          const { ai_generation_started_at, accumulated_pause_time, pause_started_at } = stateResult.rows[0];
+          const pauseDuration = generationPauseSeconds(ai_generation_started_at, pause_started_at);
           const newAccumulatedPause = (accumulated_pause_time || 0) + pauseDuration;
 
           await failClient.query(
@@ -230,6 +336,13 @@ async function processPendingJobs(): Promise<void> {
 
         await failClient.query('COMMIT');
         console.log(`[AIWorker] Job ${job.id} failed, fallback question saved`);
+
+        publishParticipantEvent(job.participant_id, 'question-failed', {
+          topicIndex: job.topic_index,
+          turnIndex: job.turn_index,
+          question: fallbackQuestion,
+          error: (error as Error).message,
+        });
       } catch (txError) {
         await failClient.query('ROLLBACK');
         console.error(`[AIWorker] Failed to save fallback for job ${job.id}:`, txError);
@@ -8,6 +8,7 @@
  * - Reconnect → clear disconnected_at
  */
 import { query } from '../db/connection.js';
+import { publishSessionEvent } from '../services/sessionEvents.js';
 
 // Configuration
 const CHECK_INTERVAL_MS = 5000; // 5 seconds
@@ -22,16 +23,22 @@ async function markDisconnectedParticipants(): Promise<number> {
   try {
     const result = await query(
       `UPDATE student_participants
-       SET disconnected_at = NOW()
+       SET disconnected_at = NOW(), disconnect_count = disconnect_count + 1
        WHERE status = 'interview_in_progress'
          AND last_active_at < NOW() - INTERVAL '${DISCONNECT_THRESHOLD_SECONDS} seconds'
          AND disconnected_at IS NULL
-       RETURNING id, student_name`
+       RETURNING id, session_id, student_name, disconnected_at`
     );
 
     if (result.rowCount && result.rowCount > 0) {
       console.log(`[DisconnectChecker] Marked ${result.rowCount} participants as disconnected:`,
         result.rows.map(r => r.student_name).join(', '));
+
+      for (const row of result.rows) {
+        publishSessionEvent(row.session_id, 'disconnect', row.id, {
+          disconnectedAt: row.disconnected_at,
+        });
+      }
     }
 
     return result.rowCount || 0;
@@ -55,12 +62,16 @@ async function markAbandonedParticipants(): Promise<number> {
          AND sp.status = 'interview_in_progress'
          AND sp.disconnected_at IS NOT NULL
          AND sp.disconnected_at < NOW() - (COALESCE(s.reconnect_timeout, ${RECONNECT_TIMEOUT_SECONDS}) || ' seconds')::INTERVAL
-       RETURNING sp.id, sp.student_name`
+       RETURNING sp.id, sp.session_id, sp.student_name`
     );
 
     if (result.rowCount && result.rowCount > 0) {
       console.log(`[DisconnectChecker] Marked ${result.rowCount} participants as abandoned:`,
         result.rows.map(r => r.student_name).join(', '));
+
+      for (const row of result.rows) {
+        publishSessionEvent(row.session_id, 'abandon', row.id, { status: 'abandoned' });
+      }
     }
 
     return result.rowCount || 0;
@@ -79,7 +90,8 @@ async function checkTopicTimeoutsForDisconnectedParticipants(): Promise<number>
   try {
     // Get all disconnected participants (interview_in_progress with disconnected_at set)
     const result = await query<{
-      participant_id: number;
+      participant_id: string;
+      session_id: string;
       student_name: string;
       disconnected_at: Date;
       current_topic_index: number;
@@ -88,6 +100,7 @@ async function checkTopicTimeoutsForDisconnectedParticipants(): Promise<number>
     }>(
       `SELECT
         sp.id as participant_id,
+        sp.session_id,
         sp.student_name,
         sp.disconnected_at,
         ist.current_topic_index,
@@ -138,6 +151,11 @@ async function checkTopicTimeoutsForDisconnectedParticipants(): Promise<number>
           [JSON.stringify(topicsState), row.participant_id]
         );
 
+        publishSessionEvent(row.session_id, 'topic-change', row.participant_id, {
+          currentTopicIndex: row.current_topic_index,
+          currentPhase: 'topic_expired_while_away',
+        });
+
         console.log(`[DisconnectChecker] Topic ${hasStudentResponse ? 'done' : 'skipped'} while away for ${row.student_name} (topic ${row.current_topic_index + 1}/${row.topic_count})`);
         updatedCount++;
       }
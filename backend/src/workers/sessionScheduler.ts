@@ -0,0 +1,82 @@
+/**
+ * Session Scheduler Worker
+ * Runs every 30 seconds to open and close sessions on their schedule
+ *
+ * - Draft sessions whose starts_at has passed become active (the trigger generates
+ *   the access code). Drafts whose whole window has already passed stay drafts.
+ * - Active sessions whose ends_at has passed are closed. Interviews still running
+ *   finish their current topic and are then finalized (see routes/interview.ts).
+ */
+import { query } from '../db/connection.js';
+
+// Configuration
+const CHECK_INTERVAL_MS = 30 * 1000; // 30 seconds
+
+/**
+ * Open due drafts and close expired active sessions
+ */
+async function runScheduler(): Promise<void> {
+  try {
+    const opened = await query<{ id: string; title: string; access_code: string }>(
+      `UPDATE assignment_sessions
+       SET status = 'active'
+       WHERE status = 'draft'
+         AND starts_at IS NOT NULL
+         AND starts_at <= NOW()
+         AND (ends_at IS NULL OR ends_at > NOW())
+       RETURNING id, title, access_code`
+    );
+
+    for (const session of opened.rows) {
+      console.log(`[SessionScheduler] Opened session "${session.title}" (${session.id}) with code ${session.access_code}`);
+    }
+  } catch (error) {
+    console.error('[SessionScheduler] Error opening scheduled sessions:', error);
+  }
+
+  try {
+    const closed = await query<{ id: string; title: string }>(
+      `UPDATE assignment_sessions
+       SET status = 'closed'
+       WHERE status = 'active'
+         AND ends_at IS NOT NULL
+         AND ends_at <= NOW()
+       RETURNING id, title`
+    );
+
+    for (const session of closed.rows) {
+      console.log(`[SessionScheduler] Closed session "${session.title}" (${session.id})`);
+    }
+  } catch (error) {
+    console.error('[SessionScheduler] Error closing scheduled sessions:', error);
+  }
+}
+
+// Start the worker
+let intervalId: NodeJS.Timeout | null = null;
+
+export function startSessionScheduler(): void {
+  if (intervalId) {
+    console.log('[SessionScheduler] Already running');
+    return;
+  }
+
+  console.log('[SessionScheduler] Starting worker (interval: 30s)');
+  intervalId = setInterval(runScheduler, CHECK_INTERVAL_MS);
+
+  // Run immediately on start
+  runScheduler();
+}
+
+export function stopSessionScheduler(): void {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log('[SessionScheduler] Stopped');
+  }
+}
+
+// Auto-start when imported (unless in test environment)
+if (process.env.NODE_ENV !== 'test') {
+  startSessionScheduler();
+}
@@ -0,0 +1,119 @@
+/**
+ * Storage Retention Worker
+ * Runs hourly to delete stored files of sessions closed more than
+ * STORAGE_RETENTION_DAYS ago (unset or 0 = keep files forever)
+ *
+ * - Submitted documents (student_participants.submitted_file_url)
+ * - Voice interview audio (interview_conversations.audio_url)
+ * Transcripts, topics and evaluations stay in the database. A session whose files
+ * could not be deleted is retried on the next run.
+ */
+import { query } from '../db/connection.js';
+import { deleteFiles, isStorageConfigured } from '../services/storage/index.js';
+
+// Configuration
+const CHECK_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const SESSIONS_PER_RUN = 20;
+
+function getRetentionDays(): number {
+  const days = parseInt(process.env.STORAGE_RETENTION_DAYS || '0', 10);
+  return Number.isFinite(days) && days > 0 ? days : 0;
+}
+
+/**
+ * Delete the stored files of one session and clear their paths
+ */
+async function purgeSessionFiles(sessionId: string): Promise<number> {
+  const filesResult = await query<{ path: string }>(
+    `SELECT submitted_file_url AS path
+     FROM student_participants
+     WHERE session_id = $1 AND submitted_file_url IS NOT NULL
+     UNION ALL
+     SELECT ic.audio_url AS path
+     FROM interview_conversations ic
+     JOIN student_participants sp ON sp.id = ic.participant_id
+     WHERE sp.session_id = $1 AND ic.audio_url IS NOT NULL`,
+    [sessionId]
+  );
+
+  await deleteFiles(filesResult.rows.map((row) => row.path));
+
+  await query(
+    `UPDATE student_participants SET submitted_file_url = NULL
+     WHERE session_id = $1 AND submitted_file_url IS NOT NULL`,
+    [sessionId]
+  );
+  await query(
+    `UPDATE interview_conversations ic SET audio_url = NULL
+     FROM student_participants sp
+     WHERE sp.id = ic.participant_id AND sp.session_id = $1 AND ic.audio_url IS NOT NULL`,
+    [sessionId]
+  );
+  await query('UPDATE assignment_sessions SET files_purged_at = NOW() WHERE id = $1', [sessionId]);
+
+  return filesResult.rows.length;
+}
+
+/**
+ * Purge files of sessions past the retention period
+ */
+async function runRetention(): Promise<void> {
+  const retentionDays = getRetentionDays();
+  if (retentionDays === 0 || !isStorageConfigured()) return;
+
+  try {
+    const result = await query<{ id: string; title: string }>(
+      `SELECT id, title
+       FROM assignment_sessions
+       WHERE status = 'closed'
+         AND files_purged_at IS NULL
+         AND COALESCE(ends_at, updated_at) < NOW() - ($1 || ' days')::INTERVAL
+       ORDER BY COALESCE(ends_at, updated_at) ASC
+       LIMIT ${SESSIONS_PER_RUN}`,
+      [retentionDays]
+    );
+
+    for (const session of result.rows) {
+      try {
+        const count = await purgeSessionFiles(session.id);
+        console.log(`[StorageRetention] Deleted ${count} files of session "${session.title}" (${session.id})`);
+      } catch (error) {
+        console.error(`[StorageRetention] Failed to purge session ${session.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('[StorageRetention] Error finding expired sessions:', error);
+  }
+}
+
+// Start the worker
+let intervalId: NodeJS.Timeout | null = null;
+
+export function startStorageRetention(): void {
+  if (intervalId) {
+    console.log('[StorageRetention] Already running');
+    return;
+  }
+
+  const retentionDays = getRetentionDays();
+  console.log(
+    `[StorageRetention] Starting worker (interval: 1h, retention: ${retentionDays > 0 ? `${retentionDays} days` : 'keep forever'})`
+  );
+  intervalId = setInterval(runRetention, CHECK_INTERVAL_MS);
+
+  // Run immediately on start
+  runRetention();
+}
+
+export function stopStorageRetention(): void {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+    console.log('[StorageRetention] Stopped');
+  }
+}
+
+// Auto-start when imported (unless in test environment)
+if (process.env.NODE_ENV !== 'test') {
+  startStorageRetention();
+}
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useStudentStore, EvaluationSummary } from '@/lib/store';
 import { api } from '@/lib/api';
+import { useTranslation } from '@/hooks/useTranslation';
 
 /**
  * Interview complete page
@@ -14,12 +15,14 @@ export default function CompletePage() {
 
   // Store
   const { sessionToken, participant, clearSession, setParticipant } = useStudentStore();
+  const { t } = useTranslation();
 
   // Local state
   const [summary, setSummary] = useState<EvaluationSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [status, setStatus] = useState<'completed' | 'abandoned'>('completed');
-  const [loadingMessage, setLoadingMessage] = useState('결과를 불러오는 중...');
+  // Polls for the evaluation so far (null until the first poll misses)
+  const [pollProgress, setPollProgress] = useState<{ count: number; max: number } | null>(null);
 
   // Load summary from participant or fetch with polling
   useEffect(() => {
@@ -75,9 +78,9 @@ export default function CompletePage() {
         // On error, use default summary
         if (isMounted) {
           setSummary({
-            strengths: ['인터뷰에 참여해주셔서 감사합니다.'],
+            strengths: [t('complete.fallbackStrength')],
             weaknesses: [],
-            overallComment: '인터뷰가 완료되었습니다. 결과는 교사에게 전달됩니다.',
+            overallComment: t('complete.fallbackComment'),
           });
           setIsLoading(false);
         }
@@ -95,16 +98,16 @@ export default function CompletePage() {
           // Max polls reached - show fallback
           console.log('[complete] Max polls reached, showing fallback');
           setSummary({
-            strengths: ['인터뷰에 참여해주셔서 감사합니다.'],
+            strengths: [t('complete.fallbackStrength')],
             weaknesses: [],
-            overallComment: '인터뷰가 완료되었습니다. 결과는 곧 교사에게 전달됩니다.',
+            overallComment: t('complete.fallbackCommentPending'),
           });
           setIsLoading(false);
           return;
         }
 
         // Update loading message
-        setLoadingMessage(`AI가 인터뷰를 분석하고 있습니다... (${pollCount}/${MAX_POLLS})`);
+        setPollProgress({ count: pollCount, max: MAX_POLLS });
 
         // Schedule next poll
         timeoutId = setTimeout(pollForSummary, 2000);
@@ -119,7 +122,7 @@ export default function CompletePage() {
         clearTimeout(timeoutId);
       }
     };
-  }, [sessionToken, participant, router, setParticipant]);
+  }, [sessionToken, participant, router, setParticipant, t]);
 
   // Handle finish
   const handleFinish = () => {
@@ -138,8 +141,8 @@ export default function CompletePage() {
             </svg>
           ),
           bgColor: 'bg-green-100',
-          title: '인터뷰 완료',
-          message: '수고하셨습니다! 인터뷰가 정상적으로 완료되었습니다.',
+          title: t('complete.completedTitle'),
+          message: t('complete.completedMessage'),
         };
       case 'abandoned':
         return {
@@ -149,8 +152,8 @@ export default function CompletePage() {
             </svg>
           ),
           bgColor: 'bg-red-100',
-          title: '세션 만료',
-          message: '세션이 만료되었습니다.',
+          title: t('complete.abandonedTitle'),
+          message: t('complete.abandonedMessage'),
         };
     }
   };
@@ -163,7 +166,9 @@ export default function CompletePage() {
       <div className="min-h-screen flex items-center justify-center bg-slate-50">
         <div className="flex flex-col items-center gap-4">
           <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
-          <p className="text-slate-600 text-center">{loadingMessage}</p>
+          <p className="text-slate-600 text-center">
+            {pollProgress ? t('complete.analyzing', pollProgress) : t('complete.loading')}
+          </p>
         </div>
       </div>
     );
@@ -188,13 +193,13 @@ export default function CompletePage() {
               <svg className="w-5 h-5 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
               </svg>
-              AI 평가 결과
+              {t('complete.resultTitle')}
             </h2>
 
             {/* Score (if available) */}
-            {summary.score !== undefined && (
+            {summary.score != null && (
               <div className="mb-6 p-4 bg-slate-50 rounded-xl text-center">
-                <p className="text-sm text-slate-500 mb-1">종합 점수</p>
+                <p className="text-sm text-slate-500 mb-1">{t('complete.score')}</p>
                 <p className="text-4xl font-bold text-blue-600">{summary.score}<span className="text-lg text-slate-400">/100</span></p>
               </div>
             )}
@@ -206,7 +211,7 @@ export default function CompletePage() {
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
-                  강점
+                  {t('complete.strengths')}
                 </h3>
                 <ul className="list-disc list-inside space-y-1 text-slate-700">
                   {summary.strengths.map((strength, idx) => (
@@ -223,7 +228,7 @@ export default function CompletePage() {
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                   </svg>
-                  개선점
+                  {t('complete.weaknesses')}
                 </h3>
                 <ul className="list-disc list-inside space-y-1 text-slate-700">
                   {summary.weaknesses.map((weakness, idx) => (
@@ -235,7 +240,7 @@ export default function CompletePage() {
 
             {/* Overall Comment */}
             <div className="bg-slate-50 rounded-xl p-4">
-              <h3 className="font-semibold text-slate-900 mb-2">종합 코멘트</h3>
+              <h3 className="font-semibold text-slate-900 mb-2">{t('complete.overallComment')}</h3>
               <p className="text-slate-700 leading-relaxed">{summary.overallComment}</p>
             </div>
           </div>
@@ -248,8 +253,7 @@ export default function CompletePage() {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
             </svg>
             <p className="text-sm text-amber-800">
-              이 페이지를 닫으면 결과를 다시 볼 수 없습니다.
-              필요하다면 스크린샷을 찍어두세요.
+              {t('complete.closeWarning')}
             </p>
           </div>
         </div>
@@ -259,7 +263,7 @@ export default function CompletePage() {
           onClick={handleFinish}
           className="w-full py-3 px-4 bg-slate-200 text-slate-700 rounded-xl hover:bg-slate-300 transition-colors font-medium"
         >
-          종료하기
+          {t('complete.finish')}
         </button>
       </div>
     </div>
@@ -0,0 +1,13 @@
+'use client';
+
+import { useAccommodations } from '@/hooks/useAccommodations';
+
+/**
+ * Student interview pages (upload, start, interview, transition, complete)
+ * Applies the student's accommodations, such as larger text, on every page
+ */
+export default function InterviewLayout({ children }: { children: React.ReactNode }) {
+  useAccommodations();
+
+  return <>{children}</>;
+}
@@ -3,15 +3,18 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { useStudentStore, Message } from '@/lib/store';
-import { api, ApiError } from '@/lib/api';
+import { api, ApiError, AnswerTelemetry, StudentPauseStatus } from '@/lib/api';
 import { useInterviewTimer } from '@/hooks/useInterviewTimer';
 import { useHeartbeat } from '@/hooks/useHeartbeat';
+import { useStudentPause } from '@/hooks/useStudentPause';
 import { useSpeech } from '@/hooks/useSpeech';
-import { useAIGenerationPolling } from '@/hooks/useAIGenerationPolling';
+import { useAIGenerationEvents } from '@/hooks/useAIGenerationEvents';
+import { useTranslation } from '@/hooks/useTranslation';
 import { MessageBubble } from '@/components/interview/MessageBubble';
 import { Timer } from '@/components/interview/Timer';
 import { TopicProgress } from '@/components/interview/TopicProgress';
 import { ChatInterface } from '@/components/interview/ChatInterface';
+import { PauseButton, PauseOverlay } from '@/components/interview/PauseControl';
 import VoiceInterface from '@/components/interview/VoiceInterface';
 import VoiceInterviewPage from '@/components/interview/VoiceInterviewPage';
 
@@ -38,12 +41,15 @@ export default function InterviewPage() {
     addMessage,
     setMessages,
   } = useStudentStore();
+  const { t } = useTranslation();
 
   // Local state
   const [isLoading, setIsLoading] = useState(true);
   const [aiGenerating, setAiGenerating] = useState(false);
   const [pollEnabled, setPollEnabled] = useState(false); // 폴링 활성화 (submitAnswer 완료 후에만)
   const [error, setError] = useState<string | null>(null);
+  // Pause request refused (shown next to the timer, the interview goes on)
+  const [pauseFailed, setPauseFailed] = useState(false);
   // 빠른 연속 클릭 방지 (React 상태는 비동기라 즉시 반영 안됨)
   const isSubmittingRef = useRef(false);
   // 초기화 중복 실행 방지
@@ -125,6 +131,42 @@ export default function InterviewPage() {
     startListeningRef.current = startListening;
   }, [startListening]);
 
+  // Read-aloud accommodation (chat mode): each new AI question is read with TTS
+  const readAloud = !isVoiceMode && (participant?.accommodations?.readAloud ?? false);
+  const lastAiMessage = [...messages].reverse().find((m) => m.role === 'ai');
+  const lastReadQuestionRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!readAloud || isLoading || !lastAiMessage) return;
+
+    const key = `${lastAiMessage.timestamp}:${lastAiMessage.content}`;
+    if (lastReadQuestionRef.current === key) return;
+    lastReadQuestionRef.current = key;
+
+    speak(lastAiMessage.content).catch((err) => console.error('Read-aloud failed:', err));
+  }, [readAloud, isLoading, lastAiMessage, speak]);
+
+  // The server stops the topic timer while a question is read, as for voice mode TTS
+  const wasSpeakingRef = useRef(false);
+  useEffect(() => {
+    if (!readAloud || !sessionToken || isSpeaking === wasSpeakingRef.current) return;
+    wasSpeakingRef.current = isSpeaking;
+
+    api.interview.pauseEvent(sessionToken, isSpeaking ? 'tts_start' : 'tts_end').catch((err) => {
+      console.warn('Failed to send read-aloud pause event:', err);
+    });
+  }, [readAloud, sessionToken, isSpeaking]);
+
+  // Student pause (chat mode; voice mode handles its own in VoiceInterviewPage)
+  const studentPause = useStudentPause({ sessionToken });
+  const { sync: syncStudentPause } = studentPause;
+
+  const handlePause = async () => {
+    setPauseFailed(false);
+    const paused = await studentPause.pause();
+    if (!paused) setPauseFailed(true);
+  };
+
   // Interview timer hook
   // Voice mode: Timer ONLY runs when microphone is actively recording (isListening)
   // Chat mode: Timer runs when topic started, pauses during AI generation
@@ -144,6 +186,7 @@ export default function InterviewPage() {
     isTranscribing,
     isListening,
     isVoiceMode,
+    isStudentPaused: studentPause.isPaused,
   });
 
   // Heartbeat hook - now always enabled as server accounts for pause time
@@ -159,6 +202,9 @@ export default function InterviewPage() {
     onTopicExpired: () => {
       router.push('/interview/transition');
     },
+    onStateUpdate: (data) => {
+      if (!isVoiceMode) syncStudentPause(data.studentPause);
+    },
     enabled: !!sessionToken, // Always enabled - server now correctly calculates pause time
   });
 
@@ -257,6 +303,7 @@ export default function InterviewPage() {
             created_at: string;
           }>;
           aiGenerationPending?: boolean;
+          studentPause?: StudentPauseStatus;
         };
 
         // Check status and redirect if needed
@@ -278,13 +325,15 @@ export default function InterviewPage() {
           setTimerAiGenerating(true);
         }
 
+        if (!isVoiceMode) syncStudentPause(state.studentPause);
+
         // Update interview state
         setInterviewState({
           currentTopicIndex: state.currentTopicIndex,
           currentPhase: state.currentPhase as 'topic_intro' | 'topic_active' | 'topic_transition' | 'topic_expired_while_away' | 'finalizing' | 'completed',
-          topicsState: state.topicsState.map((t) => ({
-            ...t,
-            status: t.status as 'pending' | 'active' | 'done' | 'skipped',
+          topicsState: state.topicsState.map((topic) => ({
+            ...topic,
+            status: topic.status as 'pending' | 'active' | 'done' | 'skipped',
           })),
         });
 
@@ -336,13 +385,13 @@ export default function InterviewPage() {
 
         // Handle session expired (403)
         if (err instanceof ApiError && err.status === 403) {
-          setError('세션이 만료되었습니다. 30분 이상 이탈로 인해 인터뷰가 종료되었습니다.');
+          setError(t('interview.sessionExpired'));
           setTimeout(() => {
             useStudentStore.getState().clearSession();
             router.push('/join');
           }, 3000);
         } else {
-          setError('인터뷰 상태를 불러오는데 실패했습니다.');
+          setError(t('interview.loadFailed'));
         }
       } finally {
         setIsLoading(false);
@@ -350,9 +399,9 @@ export default function InterviewPage() {
     };
 
     initializeInterview();
-  }, [sessionToken, router, setInterviewState, setMessages, setTimerAiGenerating, isVoiceMode]);
+  }, [sessionToken, router, setInterviewState, setMessages, setTimerAiGenerating, syncStudentPause, isVoiceMode, t]);
 
-  // Handle AI question received (from polling or direct response)
+  // Handle AI question received (from push, polling fallback, or direct response)
   const handleAIQuestionReceived = useCallback(async (question: string) => {
     // Add AI message
     const aiMessage: Message = {
@@ -394,15 +443,16 @@ export default function InterviewPage() {
     setTimerAiGenerating(false);
   }, [addMessage, isVoiceMode, speak, interviewState, currentTopic, topicsState, currentTopicIndex, setInterviewState, setTimerAiGenerating]);
 
-  // AI generation polling hook - polls for completion when pollEnabled is true
-  // pollEnabled is set to true only AFTER submitAnswer response confirms AI generation started
-  useAIGenerationPolling({
+  // AI generation events hook - questions are pushed over SSE as soon as they are ready
+  // pollEnabled is set to true only AFTER submitAnswer response confirms AI generation started;
+  // polling kicks in only if the push stream is down or the push is late
+  useAIGenerationEvents({
     sessionToken,
-    isGenerating: pollEnabled, // 폴링은 pollEnabled가 true일 때만 시작
+    isGenerating: pollEnabled, // 폴백 폴링은 pollEnabled가 true일 때만 시작
     onComplete: handleAIQuestionReceived,
     onError: (err) => {
       console.error('AI generation polling error:', err);
-      setError('AI 질문 생성에 실패했습니다. 다시 시도해주세요.');
+      setError(t('interview.generationFailed'));
       isSubmittingRef.current = false;
       setAiGenerating(false);
       setPollEnabled(false);
@@ -412,7 +462,8 @@ export default function InterviewPage() {
   });
 
   // Handle answer submission
-  const handleSubmitAnswer = async (answer: string) => {
+  // telemetry: chat answers only (paste/keystroke/focus-loss counters)
+  const handleSubmitAnswer = async (answer: string, telemetry?: AnswerTelemetry) => {
     // ref로 즉시 체크하여 빠른 연속 클릭 방지
     // aiGenerating도 체크하여 AI 생성 중 중복 제출 방지
     if (!sessionToken || isSubmittingRef.current || aiGenerating) return;
@@ -431,14 +482,18 @@ export default function InterviewPage() {
     addMessage(studentMessage);
 
     try {
-      const response = await api.interview.submitAnswer(sessionToken, answer);
+      const response = await api.interview.submitAnswer(sessionToken, answer, telemetry);
 
-      // New async flow: If aiGenerationPending is true, polling hook will handle completion
+      // New async flow: If aiGenerationPending is true, events hook will handle completion
       if (response.aiGenerationPending) {
-        console.log('[INTERVIEW] AI generation started in background, polling for completion');
-        // Enable polling NOW - after server confirmed AI generation started
+        // The push may already have delivered the question before this response arrived
+        if (!isSubmittingRef.current) {
+          return;
+        }
+        console.log('[INTERVIEW] AI generation started in background, waiting for push');
+        // Enable fallback polling NOW - after server confirmed AI generation started
         setPollEnabled(true);
-        // Keep aiGenerating=true, polling hook will call handleAIQuestionReceived when done
+        // Keep aiGenerating=true, events hook will call handleAIQuestionReceived when done
         return;
       }
 
@@ -451,7 +506,7 @@ export default function InterviewPage() {
 
       // Handle session expired (403)
       if (err instanceof ApiError && err.status === 403) {
-        setError('세션이 만료되었습니다. 30분 이상 이탈로 인해 인터뷰가 종료되었습니다.');
+        setError(t('interview.sessionExpired'));
         setTimeout(() => {
           useStudentStore.getState().clearSession();
           router.push('/join');
@@ -473,7 +528,7 @@ export default function InterviewPage() {
       }
 
       // Other errors - reset state and show error
-      setError('답변 제출에 실패했습니다. 다시 시도해주세요.');
+      setError(t('interview.submitFailed'));
       isSubmittingRef.current = false;
       setAiGenerating(false);
       setTimerAiGenerating(false);
@@ -506,13 +561,13 @@ export default function InterviewPage() {
       }
     } catch (error) {
       console.error('Voice answer completion failed:', error);
-      setError('음성 변환에 실패했습니다. 다시 시도해주세요.');
+      setError(t('interview.transcriptionFailed'));
     } finally {
       // Reset ref after completion (if handleSubmitAnswer wasn't called)
       // Note: handleSubmitAnswer also manages the ref, so this is a safety reset
       isSubmittingRef.current = false;
     }
-  }, [isVoiceMode, stopListening, handleSubmitAnswer]);
+  }, [isVoiceMode, stopListening, handleSubmitAnswer, t]);
 
   // Loading state
   if (isLoading) {
@@ -520,7 +575,7 @@ export default function InterviewPage() {
       <div className="min-h-screen flex items-center justify-center bg-slate-50">
         <div className="flex flex-col items-center gap-4">
           <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
-          <p className="text-slate-600">인터뷰를 불러오는 중...</p>
+          <p className="text-slate-600">{t('interview.loading')}</p>
         </div>
       </div>
     );
@@ -536,13 +591,13 @@ export default function InterviewPage() {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
             </svg>
           </div>
-          <h2 className="text-xl font-bold text-slate-900 mb-2">오류 발생</h2>
+          <h2 className="text-xl font-bold text-slate-900 mb-2">{t('interview.errorTitle')}</h2>
           <p className="text-slate-600 mb-6">{error}</p>
           <button
             onClick={() => window.location.reload()}
             className="w-full py-3 px-4 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors"
           >
-            다시 시도
+            {t('interview.retry')}
           </button>
         </div>
       </div>
@@ -561,14 +616,24 @@ export default function InterviewPage() {
         currentIndex={currentTopicIndex}
         totalTopics={topicsState.length}
         currentTitle={currentTopic?.title ?? ''}
-        topicsState={topicsState.map((t) => ({
-          ...t,
-          status: t.status as 'pending' | 'active' | 'done' | 'skipped',
+        topicsState={topicsState.map((topic) => ({
+          ...topic,
+          status: topic.status as 'pending' | 'active' | 'done' | 'skipped',
         }))}
       />
 
       {/* Timer */}
-      <div className="flex justify-end px-4 py-2 bg-white border-b">
+      <div className="flex items-center justify-end gap-3 px-4 py-2 bg-white border-b">
+        {pauseFailed && (
+          <span className="text-sm text-red-600">{t('pause.failed')}</span>
+        )}
+        {studentPause.enabled && (
+          <PauseButton
+            remaining={studentPause.remaining}
+            onPause={handlePause}
+            disabled={aiGenerating || studentPause.isUpdating}
+          />
+        )}
         <Timer timeLeft={timeLeft} isPaused={isPaused} />
       </div>
 
@@ -576,7 +641,7 @@ export default function InterviewPage() {
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.length === 0 ? (
           <div className="text-center text-slate-500 py-8">
-            <p>질문을 기다리는 중...</p>
+            <p>{t('interview.waitingForQuestion')}</p>
           </div>
         ) : (
           messages.map((msg, idx) => (
@@ -616,9 +681,17 @@ export default function InterviewPage() {
       ) : (
         <ChatInterface
           onSubmit={handleSubmitAnswer}
-          disabled={aiGenerating}
+          disabled={aiGenerating || studentPause.isPaused}
           onTypingChange={handleTypingChange}
-          placeholder="답변을 입력하세요..."
+          placeholder={t('chat.placeholder')}
+        />
+      )}
+
+      {studentPause.isPaused && (
+        <PauseOverlay
+          remaining={studentPause.remaining}
+          onResume={studentPause.resume}
+          isResuming={studentPause.isUpdating}
         />
       )}
     </div>
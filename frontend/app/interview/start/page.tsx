@@ -15,17 +15,22 @@ import {
   ArrowLeft,
   XCircle,
   Check,
+  Hourglass,
 } from 'lucide-react';
 import { api, ApiError } from '@/lib/api';
 import { useStudentStore, Topic } from '@/lib/store';
 import { requestMicrophonePermission } from '@/hooks/useSpeech';
+import { useTranslation } from '@/hooks/useTranslation';
 
 type InterviewMode = 'voice' | 'chat';
 type MicPermission = 'pending' | 'granted' | 'denied' | 'checking';
 
+const APPROVAL_POLL_INTERVAL = 5000;
+
 export default function StartPage() {
   const router = useRouter();
   const { sessionToken, participant, sessionInfo, setParticipant, setInterviewState } = useStudentStore();
+  const { t } = useTranslation();
 
   const [selectedMode, setSelectedMode] = useState<InterviewMode | null>(null);
   const [isStarting, setIsStarting] = useState(false);
@@ -33,6 +38,9 @@ export default function StartPage() {
   const [confirmStart, setConfirmStart] = useState(false);
   const [isHydrated, setIsHydrated] = useState(false);
   const [micPermission, setMicPermission] = useState<MicPermission>('pending');
+  // null until the first check; the teacher may have to approve the topics first
+  const [approvalPending, setApprovalPending] = useState<boolean | null>(null);
+  const [approvedTopicCount, setApprovedTopicCount] = useState<number | null>(null);
 
   // Track hydration
   useEffect(() => {
@@ -51,9 +59,38 @@ export default function StartPage() {
     }
   }, [isHydrated, sessionToken, participant, router]);
 
-  // Determine available modes
+  // Check topic approval, and keep polling while the teacher is reviewing
+  const checkTopicApproval = useCallback(async () => {
+    if (!sessionToken) return;
+
+    try {
+      const result = await api.interview.topicApproval(sessionToken);
+      setApprovalPending(!result.approved);
+      setApprovedTopicCount(result.topicCount);
+    } catch (err) {
+      console.error('Failed to check topic approval:', err);
+      // Don't block the button on a failed check; /start still enforces approval
+      setApprovalPending((prev) => prev ?? false);
+    }
+  }, [sessionToken]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    checkTopicApproval();
+  }, [isHydrated, checkTopicApproval]);
+
+  useEffect(() => {
+    if (!approvalPending) return;
+
+    const intervalId = setInterval(checkTopicApproval, APPROVAL_POLL_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [approvalPending, checkTopicApproval]);
+
+  // Determine available modes (a chat-only accommodation overrides the session's mode)
   const availableModes: InterviewMode[] =
-    sessionInfo?.interviewMode === 'student_choice'
+    participant?.accommodations?.chatOnly
+      ? ['chat']
+      : sessionInfo?.interviewMode === 'student_choice'
       ? ['voice', 'chat']
       : sessionInfo?.interviewMode
       ? [sessionInfo.interviewMode as InterviewMode]
@@ -79,7 +116,7 @@ export default function StartPage() {
       setSelectedMode('voice');
     } else {
       setMicPermission('denied');
-      setError('마이크 권한이 필요합니다. 채팅 모드를 선택해주세요.');
+      setError(t('start.micRequired'));
     }
   };
 
@@ -135,10 +172,13 @@ export default function StartPage() {
 
       router.push('/interview');
     } catch (err) {
-      if (err instanceof ApiError) {
+      if (err instanceof ApiError && err.status === 409) {
+        // Approval setting was turned on after this page loaded
+        setApprovalPending(true);
+      } else if (err instanceof ApiError) {
         setError(err.message);
       } else {
-        setError('인터뷰 시작에 실패했습니다');
+        setError(t('start.failed'));
       }
       setConfirmStart(false);
     } finally {
@@ -148,16 +188,17 @@ export default function StartPage() {
 
   // Format duration for display
   const formatDuration = (seconds: number): string => {
-    const minutes = Math.floor(seconds / 60);
-    return `${minutes}분`;
+    return t('common.minutes', { minutes: Math.floor(seconds / 60) });
   };
 
+  // Extra time accommodation (topic times are extended when the interview starts)
+  const timeMultiplier = participant?.accommodations?.timeMultiplier ?? 1;
+
   // Get total interview time
   const getTotalTime = (): string => {
     if (!sessionInfo) return '';
-    const total = sessionInfo.topicCount * sessionInfo.topicDuration;
-    const minutes = Math.floor(total / 60);
-    return `약 ${minutes}분`;
+    const total = sessionInfo.topicCount * sessionInfo.topicDuration * timeMultiplier;
+    return t('start.totalTime', { minutes: Math.floor(total / 60) });
   };
 
   if (!sessionToken || !participant) {
@@ -165,6 +206,8 @@ export default function StartPage() {
   }
 
   const topics = participant.analyzedTopics || [];
+  // The teacher may have added or removed topics during review
+  const topicCount = approvedTopicCount ?? topics.length;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 p-4">
@@ -172,10 +215,10 @@ export default function StartPage() {
         {/* Header */}
         <div className="text-center mb-8">
           <h1 className="text-2xl font-bold text-slate-900 mb-2">
-            인터뷰 준비
+            {t('start.title')}
           </h1>
           <p className="text-slate-600">
-            {sessionInfo?.title}에 대한 인터뷰를 시작합니다
+            {t('start.description', { title: sessionInfo?.title ?? '' })}
           </p>
         </div>
 
@@ -185,14 +228,14 @@ export default function StartPage() {
             <div className="w-8 h-8 bg-green-500 text-white rounded-full flex items-center justify-center">
               <CheckCircle className="h-4 w-4" />
             </div>
-            <span className="text-sm text-slate-600">파일 업로드</span>
+            <span className="text-sm text-slate-600">{t('upload.stepUpload')}</span>
           </div>
           <div className="w-12 h-0.5 bg-blue-500 mx-2" />
           <div className="flex items-center gap-2">
             <div className="w-8 h-8 bg-blue-600 text-white rounded-full flex items-center justify-center text-sm font-bold">
               2
             </div>
-            <span className="text-sm text-slate-600">인터뷰 시작</span>
+            <span className="text-sm text-slate-600">{t('upload.stepInterview')}</span>
           </div>
         </div>
 
@@ -203,23 +246,39 @@ export default function StartPage() {
               <FileText className="h-6 w-6 text-blue-500" />
             </div>
             <div>
-              <h2 className="text-lg font-bold text-slate-900">인터뷰 준비 완료</h2>
+              <h2 className="text-lg font-bold text-slate-900">{t('start.ready')}</h2>
               <p className="text-slate-600">
-                {topics.length}개의 주제가 준비되었습니다
+                {t('start.topicsReady', { count: topicCount })}
               </p>
             </div>
           </div>
 
           <div className="flex items-center gap-2 p-3 bg-blue-50 rounded-lg text-blue-700 text-sm">
             <Clock className="h-4 w-4 flex-shrink-0" />
-            <span>예상 소요 시간: {getTotalTime()}</span>
+            <span>
+              {t('start.estimatedTime', { time: getTotalTime() })}
+              {timeMultiplier > 1 && ` · ${t('start.extraTime', { percent: Math.round((timeMultiplier - 1) * 100) })}`}
+            </span>
           </div>
         </div>
 
+        {/* Topic Approval Pending */}
+        {approvalPending && (
+          <div className="flex items-start gap-3 p-4 mb-6 bg-amber-50 border border-amber-200 rounded-xl">
+            <Hourglass className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
+            <div className="text-sm text-amber-800">
+              <p className="font-medium mb-1">{t('start.approvalPending')}</p>
+              <p className="text-amber-700">
+                {t('start.approvalPendingDescription')}
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Mode Selection */}
         {availableModes.length > 1 && (
           <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
-            <h2 className="text-lg font-bold text-slate-900 mb-4">인터뷰 방식 선택</h2>
+            <h2 className="text-lg font-bold text-slate-900 mb-4">{t('start.chooseMode')}</h2>
 
             <div className="grid grid-cols-2 gap-4">
               {/* Voice Mode */}
@@ -272,9 +331,9 @@ export default function StartPage() {
                     <Mic className="h-6 w-6" />
                   )}
                 </div>
-                <p className="font-semibold text-slate-900 mb-1">음성 인터뷰</p>
+                <p className="font-semibold text-slate-900 mb-1">{t('start.voiceMode')}</p>
                 <p className="text-sm text-slate-500">
-                  마이크로 대화하듯 답변
+                  {t('start.voiceModeShort')}
                 </p>
               </button>
 
@@ -298,9 +357,9 @@ export default function StartPage() {
                 >
                   <MessageSquare className="h-6 w-6" />
                 </div>
-                <p className="font-semibold text-slate-900 mb-1">채팅 인터뷰</p>
+                <p className="font-semibold text-slate-900 mb-1">{t('start.chatMode')}</p>
                 <p className="text-sm text-slate-500">
-                  타이핑으로 답변 작성
+                  {t('start.chatModeShort')}
                 </p>
               </button>
             </div>
@@ -310,7 +369,7 @@ export default function StartPage() {
         {/* Fixed Mode Info */}
         {availableModes.length === 1 && (
           <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
-            <h2 className="text-lg font-bold text-slate-900 mb-4">인터뷰 방식</h2>
+            <h2 className="text-lg font-bold text-slate-900 mb-4">{t('start.mode')}</h2>
             <div className="flex items-center gap-4 p-4 bg-slate-50 rounded-xl">
               <div className="w-12 h-12 bg-blue-500 text-white rounded-lg flex items-center justify-center">
                 {availableModes[0] === 'voice' ? (
@@ -321,12 +380,12 @@ export default function StartPage() {
               </div>
               <div>
                 <p className="font-semibold text-slate-900">
-                  {availableModes[0] === 'voice' ? '음성 인터뷰' : '채팅 인터뷰'}
+                  {availableModes[0] === 'voice' ? t('start.voiceMode') : t('start.chatMode')}
                 </p>
                 <p className="text-sm text-slate-500">
                   {availableModes[0] === 'voice'
-                    ? '마이크로 대화하듯 답변합니다'
-                    : '타이핑으로 답변을 작성합니다'}
+                    ? t('start.voiceModeDescription')
+                    : t('start.chatModeDescription')}
                 </p>
               </div>
             </div>
@@ -338,13 +397,13 @@ export default function StartPage() {
           <div className="flex items-start gap-3">
             <AlertTriangle className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
             <div className="text-sm text-amber-800">
-              <p className="font-medium mb-1">시작 전 확인사항</p>
+              <p className="font-medium mb-1">{t('start.checklistTitle')}</p>
               <ul className="list-disc list-inside space-y-1 text-amber-700">
-                <li>인터뷰 중에는 브라우저를 닫지 마세요</li>
-                <li>각 주제별로 시간 제한이 있습니다</li>
-                <li className="text-red-600 font-medium">30분 이상 이탈 시 세션이 만료되어 인터뷰가 종료됩니다</li>
+                <li>{t('start.checklistKeepOpen')}</li>
+                <li>{t('start.checklistTimeLimit')}</li>
+                <li className="text-red-600 font-medium">{t('start.checklistExpiry')}</li>
                 {selectedMode === 'voice' && (
-                  <li>조용한 환경에서 마이크를 준비해주세요</li>
+                  <li>{t('start.checklistMic')}</li>
                 )}
               </ul>
             </div>
@@ -366,12 +425,17 @@ export default function StartPage() {
             className="flex items-center gap-2 py-3 px-6 border border-slate-300 text-slate-700 font-medium rounded-xl hover:bg-slate-50 transition-all"
           >
             <ArrowLeft className="h-5 w-5" />
-            이전
+            {t('start.back')}
           </button>
 
           <button
             onClick={handleStart}
-            disabled={!selectedMode || isStarting || (selectedMode === 'voice' && micPermission !== 'granted')}
+            disabled={
+              !selectedMode ||
+              isStarting ||
+              approvalPending !== false ||
+              (selectedMode === 'voice' && micPermission !== 'granted')
+            }
             className={`
               flex-1 flex items-center justify-center gap-2 py-3 px-6 font-semibold rounded-xl transition-all
               ${
@@ -385,16 +449,16 @@ export default function StartPage() {
             {isStarting ? (
               <>
                 <Loader2 className="h-5 w-5 animate-spin" />
-                시작 중...
+                {t('start.starting')}
               </>
             ) : confirmStart ? (
               <>
                 <CheckCircle className="h-5 w-5" />
-                확인, 시작합니다
+                {t('start.confirm')}
               </>
             ) : (
               <>
-                인터뷰 시작
+                {t('start.submit')}
                 <ArrowRight className="h-5 w-5" />
               </>
             )}
@@ -403,7 +467,7 @@ export default function StartPage() {
 
         {/* Info Note */}
         <p className="text-center text-sm text-slate-500 mt-6">
-          준비가 되면 인터뷰 시작 버튼을 눌러주세요
+          {t('start.note')}
         </p>
       </div>
     </div>
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useStudentStore } from '@/lib/store';
 import { api, ApiError } from '@/lib/api';
+import { useTranslation } from '@/hooks/useTranslation';
 
 /**
  * Topic transition page
@@ -21,6 +22,7 @@ export default function TransitionPage() {
     setParticipant,
     participant,
   } = useStudentStore();
+  const { t } = useTranslation();
 
   // Local state
   const [isLoading, setIsLoading] = useState(false);
@@ -62,9 +64,9 @@ export default function TransitionPage() {
           setInterviewState({
             currentTopicIndex: response.currentTopicIndex,
             currentPhase: 'topic_intro',
-            topicsState: response.topicsState.map((t) => ({
-              ...t,
-              status: t.status as 'pending' | 'active' | 'done' | 'skipped',
+            topicsState: response.topicsState.map((topic) => ({
+              ...topic,
+              status: topic.status as 'pending' | 'active' | 'done' | 'skipped',
             })),
           });
 
@@ -109,6 +111,8 @@ export default function TransitionPage() {
       } else {
         // Move to next topic
         const response = await api.interview.nextTopic(sessionToken) as {
+          // Session closed during this topic - the server finalizes instead
+          shouldFinalize?: boolean;
           currentTopicIndex: number;
           currentTopic: {
             index: number;
@@ -126,13 +130,18 @@ export default function TransitionPage() {
           }>;
         };
 
+        if (response.shouldFinalize) {
+          router.push('/interview/complete');
+          return;
+        }
+
         // Update interview state
         setInterviewState({
           currentTopicIndex: response.currentTopicIndex,
           currentPhase: 'topic_intro',
-          topicsState: response.topicsState.map((t) => ({
-            ...t,
-            status: t.status as 'pending' | 'active' | 'done' | 'skipped',
+          topicsState: response.topicsState.map((topic) => ({
+            ...topic,
+            status: topic.status as 'pending' | 'active' | 'done' | 'skipped',
           })),
         });
 
@@ -152,14 +161,14 @@ export default function TransitionPage() {
 
       // Handle session expired (403)
       if (err instanceof ApiError && err.status === 403) {
-        setError('세션이 만료되었습니다. 30분 이상 이탈로 인해 인터뷰가 종료되었습니다.');
+        setError(t('interview.sessionExpired'));
         // Clear session and redirect to join page after delay
         setTimeout(() => {
           useStudentStore.getState().clearSession();
           router.push('/join');
         }, 3000);
       } else {
-        setError('다음 단계로 진행하는데 실패했습니다.');
+        setError(t('transition.failed'));
       }
       setIsLoading(false);
     }
@@ -187,28 +196,31 @@ export default function TransitionPage() {
 
         {/* Title */}
         <h1 className="text-2xl font-bold text-slate-900 mb-2">
-          {isExpiredWhileAway ? '주제 시간 종료' : isLastTopic ? '모든 주제 완료' : '주제 완료'}
+          {isExpiredWhileAway
+            ? t('transition.timeUpTitle')
+            : isLastTopic
+            ? t('transition.allDoneTitle')
+            : t('transition.doneTitle')}
         </h1>
 
         {/* Current topic info */}
         <p className="text-slate-600 mb-4">
-          &quot;{currentTopic?.title}&quot;
           {isExpiredWhileAway
-            ? ' 주제의 시간이 종료되었습니다.'
-            : ' 주제가 완료되었습니다.'}
+            ? t('transition.timeUpDescription', { title: currentTopic?.title ?? '' })
+            : t('transition.doneDescription', { title: currentTopic?.title ?? '' })}
         </p>
 
         {/* Expired while away notice */}
         {isExpiredWhileAway && (
           <p className="text-sm text-amber-600 mb-4">
-            (이탈 중 시간이 만료되었습니다)
+            {t('transition.expiredWhileAway')}
           </p>
         )}
 
 
         {/* Info text */}
         <p className="text-sm text-slate-500 mb-6">
-          이 화면에서는 시간이 흐르지 않습니다
+          {t('transition.timerPaused')}
         </p>
 
         {/* Error message */}
@@ -227,12 +239,12 @@ export default function TransitionPage() {
           {isLoading ? (
             <>
               <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-              <span>처리 중...</span>
+              <span>{t('transition.processing')}</span>
             </>
           ) : isLastTopic ? (
-            '결과 확인'
+            t('transition.showResults')
           ) : (
-            '다음 주제 시작'
+            t('transition.nextTopic')
           )}
         </button>
       </div>
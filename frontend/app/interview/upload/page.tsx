@@ -14,10 +14,30 @@ import {
 } from 'lucide-react';
 import { api, ApiError } from '@/lib/api';
 import { useStudentStore, Topic } from '@/lib/store';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface UploadFormats {
+  extensions: string[];
+  mimeTypes: string[];
+  maxFileSize: number;
+}
+
+// Used until GET /api/interview/upload-formats answers (the server validates again anyway)
+const DEFAULT_UPLOAD_FORMATS: UploadFormats = {
+  extensions: ['.pdf'],
+  mimeTypes: ['application/pdf'],
+  maxFileSize: 10 * 1024 * 1024,
+};
+
+function getExtension(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? '' : filename.slice(dot).toLowerCase();
+}
 
 export default function UploadPage() {
   const router = useRouter();
   const { sessionToken, participant, sessionInfo, setParticipant } = useStudentStore();
+  const { t } = useTranslation();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [file, setFile] = useState<File | null>(null);
@@ -27,12 +47,26 @@ export default function UploadPage() {
   const [analyzedTopics, setAnalyzedTopics] = useState<Topic[] | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isHydrated, setIsHydrated] = useState(false);
+  const [uploadFormats, setUploadFormats] = useState<UploadFormats>(DEFAULT_UPLOAD_FORMATS);
 
   // Track hydration
   useEffect(() => {
     setIsHydrated(true);
   }, []);
 
+  // Accepted file types come from the backend's text extraction pipeline
+  useEffect(() => {
+    if (!sessionToken) return;
+
+    api.interview
+      .uploadFormats(sessionToken)
+      .then(setUploadFormats)
+      .catch((err) => console.error('Failed to load upload formats:', err));
+  }, [sessionToken]);
+
+  const maxFileSizeMB = Math.round(uploadFormats.maxFileSize / (1024 * 1024));
+  const formatLabel = uploadFormats.extensions.map((ext) => ext.slice(1).toUpperCase()).join(', ');
+
   // Redirect if not authenticated or already uploaded (only after hydration)
   useEffect(() => {
     if (!isHydrated) return;
@@ -46,6 +80,29 @@ export default function UploadPage() {
     }
   }, [isHydrated, sessionToken, participant, router]);
 
+  // Validate and set file
+  const validateAndSetFile = useCallback((selectedFile: File) => {
+    setError(null);
+    setAnalyzedTopics(null);
+
+    // Check file type (HWP/HWPX often arrive without a MIME type, so the extension counts too)
+    if (
+      !uploadFormats.mimeTypes.includes(selectedFile.type) &&
+      !uploadFormats.extensions.includes(getExtension(selectedFile.name))
+    ) {
+      setError(t('upload.typeNotAllowed', { formats: formatLabel }));
+      return;
+    }
+
+    // Check file size
+    if (selectedFile.size > uploadFormats.maxFileSize) {
+      setError(t('upload.tooLarge', { size: maxFileSizeMB }));
+      return;
+    }
+
+    setFile(selectedFile);
+  }, [uploadFormats, formatLabel, maxFileSizeMB, t]);
+
   // Handle file drop
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -56,7 +113,7 @@ export default function UploadPage() {
     if (droppedFile) {
       validateAndSetFile(droppedFile);
     }
-  }, []);
+  }, [validateAndSetFile]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -76,26 +133,6 @@ export default function UploadPage() {
     }
   };
 
-  // Validate and set file
-  const validateAndSetFile = (selectedFile: File) => {
-    setError(null);
-    setAnalyzedTopics(null);
-
-    // Check file type
-    if (selectedFile.type !== 'application/pdf') {
-      setError('PDF 파일만 업로드할 수 있습니다');
-      return;
-    }
-
-    // Check file size (10MB)
-    if (selectedFile.size > 10 * 1024 * 1024) {
-      setError('파일 크기는 10MB 이하여야 합니다');
-      return;
-    }
-
-    setFile(selectedFile);
-  };
-
   // Handle upload
   const handleUpload = async () => {
     if (!file || !sessionToken) return;
@@ -121,8 +158,8 @@ export default function UploadPage() {
       setUploadProgress(100);
 
       // Store analyzed topics
-      const topics = (result.analyzedTopics as Topic[]).map((t, idx) => ({
-        ...t,
+      const topics = (result.analyzedTopics as Topic[]).map((topic, idx) => ({
+        ...topic,
         index: idx,
       }));
       setAnalyzedTopics(topics);
@@ -138,7 +175,7 @@ export default function UploadPage() {
       if (err instanceof ApiError) {
         setError(err.message);
       } else {
-        setError('파일 업로드에 실패했습니다');
+        setError(t('upload.failed'));
       }
       setUploadProgress(0);
     } finally {
@@ -178,10 +215,10 @@ export default function UploadPage() {
         {/* Header */}
         <div className="text-center mb-8">
           <h1 className="text-2xl font-bold text-slate-900 mb-2">
-            과제 파일 업로드
+            {t('upload.title')}
           </h1>
           <p className="text-slate-600">
-            {sessionInfo?.title || '과제'} 검증을 위해 PDF 파일을 업로드해주세요
+            {t('upload.description', { title: sessionInfo?.title || t('upload.defaultTitle') })}
           </p>
         </div>
 
@@ -191,14 +228,14 @@ export default function UploadPage() {
             <div className="w-8 h-8 bg-blue-600 text-white rounded-full flex items-center justify-center text-sm font-bold">
               1
             </div>
-            <span className="text-sm text-slate-600">파일 업로드</span>
+            <span className="text-sm text-slate-600">{t('upload.stepUpload')}</span>
           </div>
           <div className="w-12 h-0.5 bg-slate-200 mx-2" />
           <div className="flex items-center gap-2">
             <div className="w-8 h-8 bg-slate-200 text-slate-500 rounded-full flex items-center justify-center text-sm font-bold">
               2
             </div>
-            <span className="text-sm text-slate-400">인터뷰 시작</span>
+            <span className="text-sm text-slate-400">{t('upload.stepInterview')}</span>
           </div>
         </div>
 
@@ -223,7 +260,7 @@ export default function UploadPage() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".pdf,application/pdf"
+                accept={[...uploadFormats.extensions, ...uploadFormats.mimeTypes].join(',')}
                 onChange={handleFileChange}
                 className="hidden"
               />
@@ -233,10 +270,10 @@ export default function UploadPage() {
                 }`}
               />
               <p className="text-lg font-medium text-slate-700 mb-2">
-                {isDragging ? '여기에 놓으세요' : 'PDF 파일을 드래그하거나 클릭하세요'}
+                {isDragging ? t('upload.dropHere') : t('upload.dragOrClick')}
               </p>
               <p className="text-sm text-slate-500">
-                최대 10MB까지 업로드 가능
+                {t('upload.limits', { formats: formatLabel, size: maxFileSizeMB })}
               </p>
             </div>
           ) : (
@@ -272,10 +309,10 @@ export default function UploadPage() {
                   <div className="flex items-center justify-between text-sm">
                     <span className="text-slate-600">
                       {uploadProgress < 50
-                        ? '파일 업로드 중...'
+                        ? t('upload.uploading')
                         : uploadProgress < 90
-                        ? 'AI가 분석 중...'
-                        : '분석 완료!'}
+                        ? t('upload.analyzing')
+                        : t('upload.analyzed')}
                     </span>
                     <span className="text-blue-600 font-medium">{uploadProgress}%</span>
                   </div>
@@ -295,7 +332,7 @@ export default function UploadPage() {
                   className="w-full flex items-center justify-center gap-2 py-3 px-6 bg-blue-600 text-white font-semibold rounded-xl hover:bg-blue-700 transition-all"
                 >
                   <Sparkles className="h-5 w-5" />
-                  AI 분석 시작
+                  {t('upload.analyze')}
                 </button>
               )}
             </div>
@@ -318,16 +355,16 @@ export default function UploadPage() {
                 <CheckCircle className="h-6 w-6 text-green-500" />
               </div>
               <div>
-                <h2 className="text-lg font-bold text-slate-900">분석 완료!</h2>
+                <h2 className="text-lg font-bold text-slate-900">{t('upload.analyzed')}</h2>
                 <p className="text-slate-600">
-                  AI가 과제에서 {analyzedTopics.length}개의 주제를 추출했습니다
+                  {t('upload.topicsExtracted', { count: analyzedTopics.length })}
                 </p>
               </div>
             </div>
 
             <div className="bg-blue-50 border border-blue-100 rounded-xl p-4 mb-6">
               <p className="text-sm text-blue-800">
-                인터뷰 준비가 완료되었습니다. 다음 단계에서 인터뷰 모드를 선택하고 시작할 수 있습니다.
+                {t('upload.ready')}
               </p>
             </div>
 
@@ -335,7 +372,7 @@ export default function UploadPage() {
               onClick={handleContinue}
               className="w-full flex items-center justify-center gap-2 py-3 px-6 bg-blue-600 text-white font-semibold rounded-xl hover:bg-blue-700 transition-all"
             >
-              다음 단계로
+              {t('upload.next')}
               <ArrowRight className="h-5 w-5" />
             </button>
           </div>
@@ -343,7 +380,7 @@ export default function UploadPage() {
 
         {/* Info Note */}
         <p className="text-center text-sm text-slate-500">
-          업로드된 파일은 인터뷰 질문 생성에만 사용됩니다
+          {t('upload.privacyNote')}
         </p>
       </div>
     </div>
@@ -14,9 +14,11 @@ import {
   ArrowRight,
   ArrowLeft,
   FileText,
+  KeyRound,
 } from 'lucide-react';
 import { api, ApiError } from '@/lib/api';
-import { useStudentStore } from '@/lib/store';
+import { useStudentStore, InterviewLanguage } from '@/lib/store';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface SessionInfo {
   id: string;
@@ -25,6 +27,10 @@ interface SessionInfo {
   topicCount: number;
   topicDuration: number;
   interviewMode: 'voice' | 'chat' | 'student_choice';
+  interviewLanguage?: InterviewLanguage;
+  // Class roster: only listed students can join (with a PIN if the teacher set one)
+  rosterRequired?: boolean;
+  pinRequired?: boolean;
 }
 
 export default function JoinSessionPage() {
@@ -37,12 +43,16 @@ export default function JoinSessionPage() {
   const [session, setSession] = useState<SessionInfo | null>(null);
   const [studentName, setStudentName] = useState('');
   const [studentId, setStudentId] = useState('');
+  const [pin, setPin] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isJoining, setIsJoining] = useState(false);
   const [showReconnectModal, setShowReconnectModal] = useState(false);
   const [initialTokenChecked, setInitialTokenChecked] = useState(false);
 
+  // Before joining, the page follows the looked-up session's language
+  const { t } = useTranslation(session?.interviewLanguage);
+
   // Load session info on mount (only check reconnect once on initial load)
   useEffect(() => {
     const loadSession = async () => {
@@ -60,6 +70,7 @@ export default function JoinSessionPage() {
               topicCount: (reconnectResult.sessionInfo as SessionInfo).topicCount,
               topicDuration: (reconnectResult.sessionInfo as SessionInfo).topicDuration,
               interviewMode: (reconnectResult.sessionInfo as SessionInfo).interviewMode,
+              interviewLanguage: (reconnectResult.sessionInfo as SessionInfo).interviewLanguage,
             });
             setIsLoading(false);
             return;
@@ -78,11 +89,8 @@ export default function JoinSessionPage() {
         const result = await api.join.lookup(code);
         setSession(result.session as SessionInfo);
       } catch (err) {
-        if (err instanceof ApiError) {
-          setError(err.message);
-        } else {
-          setError('세션을 불러올 수 없습니다');
-        }
+        // '' shows the generic message in the page language
+        setError(err instanceof ApiError ? err.message : '');
       } finally {
         setIsLoading(false);
       }
@@ -119,7 +127,7 @@ export default function JoinSessionPage() {
     e.preventDefault();
 
     if (!studentName.trim()) {
-      setError('이름을 입력해주세요');
+      setError(t('join.nameRequired'));
       return;
     }
 
@@ -130,16 +138,19 @@ export default function JoinSessionPage() {
       const result = await api.join.register(
         code,
         studentName.trim(),
-        studentId.trim() || undefined
+        studentId.trim() || undefined,
+        pin.trim() || undefined
       );
+      const joined = result.participant as { id: string; studentName: string; studentId: string | null };
 
       // Store session info
       setSessionToken((result as { sessionToken: string }).sessionToken);
       setParticipant({
-        id: (result.participant as { id: string }).id,
+        id: joined.id,
         sessionId: (result.session as { id: string }).id,
-        studentName: studentName.trim(),
-        studentId: studentId.trim() || undefined,
+        // Roster sessions store the name as the teacher listed it
+        studentName: joined.studentName,
+        studentId: joined.studentId || undefined,
         status: 'registered',
       });
       setSessionInfo({
@@ -147,6 +158,7 @@ export default function JoinSessionPage() {
         topicCount: (result.session as SessionInfo).topicCount,
         topicDuration: (result.session as SessionInfo).topicDuration,
         interviewMode: (result.session as SessionInfo).interviewMode,
+        interviewLanguage: (result.session as SessionInfo).interviewLanguage,
       });
 
       // Wait for Zustand persist to complete before navigating
@@ -156,7 +168,7 @@ export default function JoinSessionPage() {
       if (err instanceof ApiError) {
         setError(err.message);
       } else {
-        setError('참가에 실패했습니다');
+        setError(t('join.joinFailed'));
       }
     } finally {
       setIsJoining(false);
@@ -165,22 +177,7 @@ export default function JoinSessionPage() {
 
   // Format duration for display
   const formatDuration = (seconds: number): string => {
-    const minutes = Math.floor(seconds / 60);
-    return `${minutes}분`;
-  };
-
-  // Get mode display text
-  const getModeText = (mode: string): string => {
-    switch (mode) {
-      case 'voice':
-        return '음성 인터뷰';
-      case 'chat':
-        return '채팅 인터뷰';
-      case 'student_choice':
-        return '선택 가능';
-      default:
-        return mode;
-    }
+    return t('common.minutes', { minutes: Math.floor(seconds / 60) });
   };
 
   if (isLoading) {
@@ -188,28 +185,28 @@ export default function JoinSessionPage() {
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100">
         <div className="text-center">
           <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
-          <p className="text-slate-600">세션 정보를 불러오는 중...</p>
+          <p className="text-slate-600">{t('join.loading')}</p>
         </div>
       </div>
     );
   }
 
-  if (error && !session) {
+  if (error !== null && !session) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 p-4">
         <div className="w-full max-w-md text-center">
           <div className="bg-white rounded-2xl shadow-lg p-8">
             <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
             <h2 className="text-xl font-bold text-slate-900 mb-2">
-              세션을 찾을 수 없습니다
+              {t('join.notFound')}
             </h2>
-            <p className="text-slate-600 mb-6">{error}</p>
+            <p className="text-slate-600 mb-6">{error || t('join.loadFailed')}</p>
             <Link
               href="/join"
               className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700"
             >
               <ArrowLeft className="h-4 w-4" />
-              다시 입력하기
+              {t('join.retry')}
             </Link>
           </div>
         </div>
@@ -228,10 +225,10 @@ export default function JoinSessionPage() {
                 <FileText className="h-8 w-8 text-blue-600" />
               </div>
               <h2 className="text-xl font-bold text-slate-900 mb-2">
-                이전 세션이 있습니다
+                {t('join.reconnectTitle')}
               </h2>
               <p className="text-slate-600">
-                {session.title}에 대한 진행 중인 세션을 발견했습니다.
+                {t('join.reconnectDescription', { title: session.title })}
               </p>
             </div>
 
@@ -244,11 +241,11 @@ export default function JoinSessionPage() {
                 {isJoining ? (
                   <>
                     <Loader2 className="h-5 w-5 animate-spin" />
-                    연결 중...
+                    {t('join.connecting')}
                   </>
                 ) : (
                   <>
-                    이어서 진행하기
+                    {t('join.continue')}
                     <ArrowRight className="h-5 w-5" />
                   </>
                 )}
@@ -258,7 +255,7 @@ export default function JoinSessionPage() {
                 disabled={isJoining}
                 className="w-full py-3 px-6 border border-slate-300 text-slate-700 font-medium rounded-xl hover:bg-slate-50 disabled:opacity-50 transition-all"
               >
-                새로 시작하기
+                {t('join.startOver')}
               </button>
             </div>
 
@@ -283,7 +280,7 @@ export default function JoinSessionPage() {
           className="inline-flex items-center gap-2 text-slate-600 hover:text-slate-900 mb-6 transition-colors"
         >
           <ArrowLeft className="h-4 w-4" />
-          다른 코드 입력
+          {t('join.otherCode')}
         </Link>
 
         {/* Session Info Card */}
@@ -294,7 +291,7 @@ export default function JoinSessionPage() {
                 <Hash className="h-5 w-5 text-blue-600" />
               </div>
               <div>
-                <p className="text-sm text-slate-500">접근 코드</p>
+                <p className="text-sm text-slate-500">{t('join.accessCode')}</p>
                 <p className="font-mono font-bold text-lg">{code}</p>
               </div>
             </div>
@@ -312,7 +309,7 @@ export default function JoinSessionPage() {
                   <FileText className="h-4 w-4 text-slate-400" />
                 </div>
                 <p className="text-lg font-bold text-slate-900">{session.topicCount}</p>
-                <p className="text-xs text-slate-500">주제</p>
+                <p className="text-xs text-slate-500">{t('join.topics')}</p>
               </div>
               <div className="text-center">
                 <div className="flex items-center justify-center mb-1">
@@ -321,7 +318,7 @@ export default function JoinSessionPage() {
                 <p className="text-lg font-bold text-slate-900">
                   {formatDuration(session.topicDuration)}
                 </p>
-                <p className="text-xs text-slate-500">주제당</p>
+                <p className="text-xs text-slate-500">{t('join.perTopic')}</p>
               </div>
               <div className="text-center">
                 <div className="flex items-center justify-center mb-1">
@@ -335,12 +332,12 @@ export default function JoinSessionPage() {
                 </div>
                 <p className="text-lg font-bold text-slate-900">
                   {session.interviewMode === 'voice'
-                    ? '음성'
+                    ? t('join.modeVoice')
                     : session.interviewMode === 'chat'
-                    ? '채팅'
-                    : '선택'}
+                    ? t('join.modeChat')
+                    : t('join.modeChoice')}
                 </p>
-                <p className="text-xs text-slate-500">인터뷰</p>
+                <p className="text-xs text-slate-500">{t('join.interview')}</p>
               </div>
             </div>
           </div>
@@ -348,13 +345,13 @@ export default function JoinSessionPage() {
 
         {/* Join Form */}
         <div className="bg-white rounded-2xl shadow-lg p-6">
-          <h2 className="text-lg font-bold text-slate-900 mb-4">참가 정보 입력</h2>
+          <h2 className="text-lg font-bold text-slate-900 mb-4">{t('join.formTitle')}</h2>
 
           <form onSubmit={handleSubmit} className="space-y-4">
             {/* Student Name */}
             <div>
               <label htmlFor="studentName" className="block text-sm font-medium text-slate-700 mb-1">
-                이름 <span className="text-red-500">*</span>
+                {t('join.name')} <span className="text-red-500">*</span>
               </label>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -368,7 +365,7 @@ export default function JoinSessionPage() {
                     setStudentName(e.target.value);
                     setError(null);
                   }}
-                  placeholder="홍길동"
+                  placeholder={t('join.namePlaceholder')}
                   className="block w-full pl-10 pr-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
                   maxLength={100}
                   autoComplete="name"
@@ -380,7 +377,10 @@ export default function JoinSessionPage() {
             {/* Student ID (Optional) */}
             <div>
               <label htmlFor="studentId" className="block text-sm font-medium text-slate-700 mb-1">
-                학번 <span className="text-slate-400">(선택)</span>
+                {t('join.studentId')}{' '}
+                <span className="text-slate-400">
+                  {session?.rosterRequired ? t('join.studentIdRoster') : t('common.optional')}
+                </span>
               </label>
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -399,6 +399,32 @@ export default function JoinSessionPage() {
               </div>
             </div>
 
+            {/* PIN (roster sessions) */}
+            {session?.pinRequired && (
+              <div>
+                <label htmlFor="pin" className="block text-sm font-medium text-slate-700 mb-1">
+                  PIN <span className="text-slate-400">{t('join.pinHint')}</span>
+                </label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <KeyRound className="h-5 w-5 text-slate-400" />
+                  </div>
+                  <input
+                    id="pin"
+                    type="password"
+                    value={pin}
+                    onChange={(e) => {
+                      setPin(e.target.value);
+                      setError(null);
+                    }}
+                    className="block w-full pl-10 pr-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    maxLength={12}
+                    autoComplete="off"
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Error Message */}
             {error && (
               <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700">
@@ -416,11 +442,11 @@ export default function JoinSessionPage() {
               {isJoining ? (
                 <>
                   <Loader2 className="h-5 w-5 animate-spin" />
-                  참가 중...
+                  {t('join.joining')}
                 </>
               ) : (
                 <>
-                  참가하기
+                  {t('join.submit')}
                   <ArrowRight className="h-5 w-5" />
                 </>
               )}
@@ -430,7 +456,9 @@ export default function JoinSessionPage() {
 
         {/* Info Note */}
         <p className="text-center text-sm text-slate-500 mt-6">
-          참가 후 과제 파일을 업로드하게 됩니다
+          {session?.rosterRequired
+            ? t('join.rosterNote')
+            : t('join.uploadNote')}
         </p>
       </div>
     </div>
@@ -7,7 +7,7 @@ import { StatusBadge } from '@/components/ui/StatusBadge';
 import { CreateSessionModal } from '@/components/teacher/CreateSessionModal';
 import { useTeacherStore, Session } from '@/lib/store';
 import { api, ApiError } from '@/lib/api';
-import { cn } from '@/lib/utils';
+import { cn, saveBlob } from '@/lib/utils';
 import {
   Plus,
   LogOut,
@@ -19,6 +19,9 @@ import {
   Users,
   Link2,
   Check,
+  Download,
+  Building2,
+  Share2,
 } from 'lucide-react';
 
 type FilterStatus = 'all' | 'draft' | 'active' | 'closed';
@@ -150,6 +153,23 @@ export default function TeacherDashboardPage() {
     }
   };
 
+  // Results spreadsheet, one row per participant
+  const handleExport = async (sessionId: string) => {
+    if (!token) return;
+    setActionLoading(sessionId);
+
+    try {
+      const { blob, filename } = await api.sessions.export(token, sessionId, 'xlsx');
+      saveBlob(blob, filename || 'results.xlsx');
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError(err.message);
+      }
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const handleLogout = () => {
     logout();
     router.push('/teacher/login');
@@ -174,14 +194,24 @@ export default function TeacherDashboardPage() {
               <h1 className="text-xl font-semibold text-gray-900">Dashboard</h1>
               <p className="text-sm text-gray-500">Welcome, {teacher?.name}</p>
             </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              leftIcon={<LogOut className="h-4 w-4" />}
-              onClick={handleLogout}
-            >
-              Logout
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                leftIcon={<Building2 className="h-4 w-4" />}
+                onClick={() => router.push('/teacher/organizations')}
+              >
+                Organizations
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                leftIcon={<LogOut className="h-4 w-4" />}
+                onClick={handleLogout}
+              >
+                Logout
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -275,6 +305,22 @@ export default function TeacherDashboardPage() {
                       {session.description}
                     </p>
                   )}
+                  {(session.organization || (session.accessRole && session.accessRole !== 'owner')) && (
+                    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                      {session.accessRole && session.accessRole !== 'owner' && (
+                        <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-purple-50 text-purple-700 rounded">
+                          <Share2 className="h-3 w-3" />
+                          {session.ownerName} · {session.accessRole === 'editor' ? 'Editor' : 'View only'}
+                        </span>
+                      )}
+                      {session.organization && (
+                        <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-gray-100 text-gray-600 rounded">
+                          <Building2 className="h-3 w-3" />
+                          {session.organization.name}
+                        </span>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 {/* Card Body */}
@@ -308,7 +354,7 @@ export default function TeacherDashboardPage() {
 
                 {/* Card Actions */}
                 <div className="px-4 py-3 bg-gray-50 border-t border-gray-100 flex items-center gap-2">
-                  {session.status === 'draft' && (
+                  {session.status === 'draft' && session.accessRole !== 'viewer' && (
                     <>
                       <Button
                         variant="primary"
@@ -319,16 +365,18 @@ export default function TeacherDashboardPage() {
                       >
                         Activate
                       </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        leftIcon={<Trash2 className="h-4 w-4" />}
-                        onClick={(e) => { e.stopPropagation(); handleDelete(session.id); }}
-                        disabled={actionLoading === session.id}
-                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                      >
-                        Delete
-                      </Button>
+                      {session.accessRole === 'owner' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          leftIcon={<Trash2 className="h-4 w-4" />}
+                          onClick={(e) => { e.stopPropagation(); handleDelete(session.id); }}
+                          disabled={actionLoading === session.id}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          Delete
+                        </Button>
+                      )}
                     </>
                   )}
 
@@ -351,16 +399,18 @@ export default function TeacherDashboardPage() {
                       >
                         {copiedId === session.id ? 'Copied!' : 'URL'}
                       </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        leftIcon={<XCircle className="h-4 w-4" />}
-                        onClick={(e) => { e.stopPropagation(); handleClose(session.id); }}
-                        isLoading={actionLoading === session.id}
-                        className="text-orange-600 hover:text-orange-700 hover:bg-orange-50"
-                      >
-                        Close
-                      </Button>
+                      {session.accessRole !== 'viewer' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          leftIcon={<XCircle className="h-4 w-4" />}
+                          onClick={(e) => { e.stopPropagation(); handleClose(session.id); }}
+                          isLoading={actionLoading === session.id}
+                          className="text-orange-600 hover:text-orange-700 hover:bg-orange-50"
+                        >
+                          Close
+                        </Button>
+                      )}
                     </>
                   )}
 
@@ -375,6 +425,18 @@ export default function TeacherDashboardPage() {
                       {copiedId === session.id ? 'Copied!' : 'Copy URL'}
                     </Button>
                   )}
+
+                  {session.status !== 'draft' && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      leftIcon={<Download className="h-4 w-4" />}
+                      onClick={(e) => { e.stopPropagation(); handleExport(session.id); }}
+                      disabled={actionLoading === session.id}
+                    >
+                      Export
+                    </Button>
+                  )}
                 </div>
               </div>
             ))}
@@ -0,0 +1,345 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import { useTeacherStore } from '@/lib/store';
+import { api, ApiError, Organization, OrganizationMember, OrganizationRole } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { ArrowLeft, Building2, Plus, UserPlus, X, Loader2 } from 'lucide-react';
+
+const ROLE_OPTIONS: Array<{ value: OrganizationRole; label: string }> = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'teacher', label: 'Teacher' },
+  { value: 'ta', label: 'TA' },
+];
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  admin: 'Admin',
+  teacher: 'Teacher',
+  ta: 'TA',
+};
+
+export default function OrganizationsPage() {
+  const router = useRouter();
+  const { token, teacher } = useTeacherStore();
+
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [newOrganizationName, setNewOrganizationName] = useState('');
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberRole, setMemberRole] = useState<OrganizationRole>('teacher');
+  const [isLoading, setIsLoading] = useState(true);
+  const [membersLoading, setMembersLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = organizations.find((o) => o.id === selectedId) ?? null;
+  const isAdmin = selected?.role === 'admin';
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!token) {
+      router.replace('/teacher/login');
+    }
+  }, [token, router]);
+
+  const fetchOrganizations = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const result = await api.organizations.list(token);
+      setOrganizations(result.organizations);
+      setSelectedId((current) =>
+        result.organizations.some((o) => o.id === current) ? current : result.organizations[0]?.id ?? null
+      );
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load organizations');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  const fetchMembers = useCallback(async () => {
+    if (!token || !selectedId) return;
+
+    setMembersLoading(true);
+    try {
+      const result = await api.organizations.members(token, selectedId);
+      setMembers(result.members);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load members');
+    } finally {
+      setMembersLoading(false);
+    }
+  }, [token, selectedId]);
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, [fetchOrganizations]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  // Run a change, then reload both lists (member counts and own role can change)
+  // After leaving, the member list is no longer readable; the selection moves on instead.
+  const runAction = async (action: () => Promise<unknown>, fallbackError: string, reloadMembers = true) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+      await fetchOrganizations();
+      if (reloadMembers) await fetchMembers();
+      return true;
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : fallbackError);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !newOrganizationName.trim()) return;
+
+    const created = await runAction(async () => {
+      const { organization } = await api.organizations.create(token, newOrganizationName.trim());
+      setSelectedId(organization.id);
+    }, 'Failed to create organization');
+    if (created) setNewOrganizationName('');
+  };
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !selectedId || !memberEmail.trim()) return;
+
+    const added = await runAction(
+      () => api.organizations.addMember(token, selectedId, memberEmail.trim(), memberRole),
+      'Failed to add member'
+    );
+    if (added) setMemberEmail('');
+  };
+
+  const handleRoleChange = (member: OrganizationMember, role: OrganizationRole) => {
+    if (!token || !selectedId) return;
+    runAction(() => api.organizations.updateMember(token, selectedId, member.id, role), 'Failed to change role');
+  };
+
+  const handleRemove = (member: OrganizationMember) => {
+    if (!token || !selectedId) return;
+    const isSelf = member.id === teacher?.id;
+    if (!confirm(isSelf ? `Leave ${selected?.name}?` : `Remove ${member.name} from ${selected?.name}?`)) return;
+
+    runAction(() => api.organizations.removeMember(token, selectedId, member.id), 'Failed to remove member', !isSelf);
+  };
+
+  if (!token) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4 h-16">
+            <Button
+              variant="ghost"
+              size="sm"
+              leftIcon={<ArrowLeft className="h-4 w-4" />}
+              onClick={() => router.push('/teacher/dashboard')}
+            >
+              Back
+            </Button>
+            <h1 className="text-xl font-semibold text-gray-900">Organizations</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Error */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            {error}
+            <button
+              onClick={() => setError(null)}
+              className="ml-4 text-sm underline hover:no-underline"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Organization List */}
+          <div className="lg:col-span-1 space-y-6">
+            <div className="bg-white rounded-xl border border-gray-200">
+              <div className="p-4 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">My Organizations</h2>
+              </div>
+
+              {isLoading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 text-gray-400 animate-spin" />
+                </div>
+              ) : organizations.length === 0 ? (
+                <p className="p-4 text-sm text-gray-500">
+                  You are not in an organization yet. Create one for your school or department, or ask
+                  its admin to add you.
+                </p>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {organizations.map((organization) => (
+                    <button
+                      key={organization.id}
+                      onClick={() => setSelectedId(organization.id)}
+                      className={cn(
+                        'w-full p-4 text-left transition-colors',
+                        selectedId === organization.id
+                          ? 'bg-blue-50 border-l-4 border-blue-500'
+                          : 'hover:bg-gray-50'
+                      )}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="flex items-center gap-2 font-medium text-gray-900">
+                          <Building2 className="h-4 w-4 text-gray-400" />
+                          {organization.name}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          {ROLE_LABELS[organization.role]} · {organization.memberCount}
+                        </span>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Create Organization */}
+            <form onSubmit={handleCreate} className="bg-white rounded-xl border border-gray-200 p-4 space-y-2">
+              <label className="block text-sm font-medium text-gray-700">New organization</label>
+              <div className="flex gap-2">
+                <input
+                  value={newOrganizationName}
+                  onChange={(e) => setNewOrganizationName(e.target.value)}
+                  placeholder="e.g., OO고등학교 정보과"
+                  maxLength={200}
+                  className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <Button
+                  type="submit"
+                  size="sm"
+                  leftIcon={<Plus className="h-4 w-4" />}
+                  isLoading={isSaving}
+                  disabled={!newOrganizationName.trim()}
+                >
+                  Create
+                </Button>
+              </div>
+            </form>
+          </div>
+
+          {/* Members */}
+          {selected && (
+            <div className="lg:col-span-2">
+              <div className="bg-white rounded-xl border border-gray-200">
+                <div className="p-4 border-b border-gray-200">
+                  <h2 className="text-lg font-semibold text-gray-900">{selected.name} Members</h2>
+                  <p className="text-sm text-gray-500">
+                    Admins manage members and can view every session in the organization. Teachers can
+                    create organization sessions. TAs work on sessions shared with them.
+                  </p>
+                </div>
+
+                {membersLoading ? (
+                  <div className="flex justify-center py-6">
+                    <Loader2 className="h-5 w-5 text-gray-400 animate-spin" />
+                  </div>
+                ) : (
+                  <div className="divide-y divide-gray-100">
+                    {members.map((member) => (
+                      <div key={member.id} className="flex items-center justify-between p-4">
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {member.name}
+                            {member.id === teacher?.id && <span className="ml-1 text-sm text-gray-500">(you)</span>}
+                          </p>
+                          <p className="text-sm text-gray-500">{member.email}</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {isAdmin ? (
+                            <select
+                              value={member.role}
+                              onChange={(e) => handleRoleChange(member, e.target.value as OrganizationRole)}
+                              disabled={isSaving}
+                              className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              {ROLE_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="text-sm text-gray-600">{ROLE_LABELS[member.role]}</span>
+                          )}
+                          {(isAdmin || member.id === teacher?.id) && (
+                            <button
+                              type="button"
+                              onClick={() => handleRemove(member)}
+                              disabled={isSaving}
+                              className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                              aria-label={member.id === teacher?.id ? 'Leave organization' : `Remove ${member.name}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {isAdmin && (
+                  <form onSubmit={handleAddMember} className="p-4 border-t border-gray-200 flex gap-2">
+                    <input
+                      type="email"
+                      value={memberEmail}
+                      onChange={(e) => setMemberEmail(e.target.value)}
+                      placeholder="teacher@school.ac.kr"
+                      className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <select
+                      value={memberRole}
+                      onChange={(e) => setMemberRole(e.target.value as OrganizationRole)}
+                      className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {ROLE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      type="submit"
+                      variant="secondary"
+                      size="sm"
+                      leftIcon={<UserPlus className="h-4 w-4" />}
+                      isLoading={isSaving}
+                      disabled={!memberEmail.trim()}
+                    >
+                      Add
+                    </Button>
+                  </form>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,14 +1,18 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { Button } from '@/components/ui/Button';
 import { StatusBadge, BadgeStatus } from '@/components/ui/StatusBadge';
 import { MultiSelectDropdown } from '@/components/ui/MultiSelectDropdown';
 import { ParticipantDetail } from '@/components/teacher/ParticipantDetail';
-import { useTeacherStore } from '@/lib/store';
-import { api, ApiError } from '@/lib/api';
-import { cn } from '@/lib/utils';
+import { RosterPanel } from '@/components/teacher/RosterPanel';
+import { SharingPanel } from '@/components/teacher/SharingPanel';
+import { SaveTemplateModal } from '@/components/teacher/SaveTemplateModal';
+import { useTeacherStore, SessionRole, InterviewLanguage } from '@/lib/store';
+import { api, ApiError, StreamEvent } from '@/lib/api';
+import { cn, saveBlob } from '@/lib/utils';
+import { LOCALE_NAMES } from '@/lib/i18n';
 import {
   ArrowLeft,
   QrCode,
@@ -23,6 +27,11 @@ import {
   Loader2,
   Link2,
   Check,
+  WifiOff,
+  ClipboardCheck,
+  Download,
+  CopyPlus,
+  BookmarkPlus,
 } from 'lucide-react';
 
 interface SessionDetail {
@@ -32,10 +41,17 @@ interface SessionDetail {
   topicCount: number;
   topicDuration: number;
   interviewMode: string;
+  interviewLanguage: InterviewLanguage;
   accessCode?: string;
   status: 'draft' | 'active' | 'closed';
+  requireTopicApproval?: boolean;
+  questionBank?: { questions: Array<{ id: string; text: string; required: boolean }> } | null;
+  pauseBudget?: number;
   startsAt?: string;
   endsAt?: string;
+  accessRole: SessionRole;
+  ownerName: string;
+  organization: { id: string; name: string } | null;
   createdAt: string;
   participants: Participant[];
 }
@@ -46,13 +62,26 @@ interface Participant {
   studentId?: string;
   status: BadgeStatus;
   chosenInterviewMode?: string;
+  topicsApprovedAt?: string | null;
   registeredAt: string;
   interviewEndedAt?: string;
   // Interview progress info
   currentTopicIndex?: number;
   currentPhase?: string;
+  disconnectedAt?: string | null;
 }
 
+// Live event from GET /api/sessions/:id/events
+interface SessionEventData {
+  type: string;
+  participantId: string;
+  participant: Partial<Participant>;
+  timestamp: string;
+}
+
+// Events that change what the participant detail panel shows
+const DETAIL_REFRESH_EVENTS = ['upload', 'topics-approved', 'interview-start', 'topic-change', 'evaluation-complete'];
+
 type FilterStatus = 'all' | 'completed' | 'interview_in_progress' | 'registered';
 
 // Participant detail type from API
@@ -65,8 +94,9 @@ interface ParticipantDetailData {
   submittedFileName: string | null;
   submittedFileUrl: string | null;
   analyzedTopics: Array<{ title: string; description?: string }> | null;
+  topicsApprovedAt: string | null;
   summary: {
-    score: number;
+    score: number | null;
     strengths: string[];
     weaknesses: string[];
     overallComment: string;
@@ -76,20 +106,33 @@ interface ParticipantDetailData {
   interviewStartedAt: string | null;
   interviewEndedAt: string | null;
   conversations: Array<{
+    id?: number;
     topicIndex: number;
     turnIndex: number;
     role: 'ai' | 'student';
     content: string;
+    bankQuestionId?: string | null;
+    hasAudio?: boolean;
     createdAt: string;
   }>;
 }
 
+// 'pdf' is the bundled report of completed participants; the rest are result tables
+type ExportFormat = 'csv' | 'xlsx' | 'json' | 'pdf';
+
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'xlsx', label: 'Excel (.xlsx)' },
+  { format: 'csv', label: 'CSV (.csv)' },
+  { format: 'json', label: 'JSON (.json)' },
+  { format: 'pdf', label: 'PDF 보고서 (.pdf)' },
+];
+
 export default function SessionDetailPage() {
   const router = useRouter();
   const params = useParams();
   const sessionId = params.id as string;
 
-  const { token } = useTeacherStore();
+  const { token, teacher } = useTeacherStore();
 
   const [session, setSession] = useState<SessionDetail | null>(null);
   const [selectedFilters, setSelectedFilters] = useState<Set<FilterStatus>>(() => new Set<FilterStatus>(['all']));
@@ -98,11 +141,19 @@ export default function SessionDetailPage() {
   const [actionLoading, setActionLoading] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
   const [urlCopySuccess, setUrlCopySuccess] = useState(false);
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [templateModalOpen, setTemplateModalOpen] = useState(false);
+  const [templateSaved, setTemplateSaved] = useState(false);
 
   // Participant detail state
   const [selectedParticipantId, setSelectedParticipantId] = useState<string | null>(null);
   const [participantDetail, setParticipantDetail] = useState<ParticipantDetailData | null>(null);
   const [participantLoading, setParticipantLoading] = useState(false);
+  const selectedParticipantIdRef = useRef<string | null>(null);
+
+  // Live updates state
+  const [isLive, setIsLive] = useState(false);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -111,6 +162,11 @@ export default function SessionDetailPage() {
     }
   }, [token, router]);
 
+  // The page stays mounted when moving to a duplicate
+  useEffect(() => {
+    setTemplateSaved(false);
+  }, [sessionId]);
+
   // Fetch session details
   const fetchSession = useCallback(async () => {
     if (!token || !sessionId) return;
@@ -136,6 +192,75 @@ export default function SessionDetailPage() {
     fetchSession();
   }, [fetchSession]);
 
+  useEffect(() => {
+    selectedParticipantIdRef.current = selectedParticipantId;
+  }, [selectedParticipantId]);
+
+  // Refresh the open detail panel without showing the loading spinner
+  const refreshParticipantDetail = useCallback(async (participantId: string) => {
+    if (!token || !sessionId) return;
+
+    try {
+      const result = await api.sessions.getParticipant(token, sessionId, participantId);
+      if (selectedParticipantIdRef.current === participantId) {
+        setParticipantDetail(result);
+      }
+    } catch (err) {
+      console.error('Failed to refresh participant details:', err);
+    }
+  }, [token, sessionId]);
+
+  // Apply a live event to the participant list
+  const handleSessionEvent = useCallback(({ event, data }: StreamEvent) => {
+    if (event === 'connected') return;
+
+    const { participantId, participant: changes } = data as SessionEventData;
+
+    setSession((prev) => {
+      if (!prev) return prev;
+
+      const exists = prev.participants.some((p) => p.id === participantId);
+      if (!exists) {
+        // New student joined after the page loaded
+        if (event !== 'join') return prev;
+        return {
+          ...prev,
+          participants: [
+            { id: participantId, status: 'registered', ...changes } as Participant,
+            ...prev.participants,
+          ],
+        };
+      }
+
+      return {
+        ...prev,
+        participants: prev.participants.map((p) =>
+          p.id === participantId ? { ...p, ...changes } : p
+        ),
+      };
+    });
+
+    if (selectedParticipantIdRef.current === participantId && DETAIL_REFRESH_EVENTS.includes(event)) {
+      refreshParticipantDetail(participantId);
+    }
+  }, [refreshParticipantDetail]);
+
+  // Subscribe to live session events
+  useEffect(() => {
+    if (!token || !sessionId) return;
+
+    const close = api.sessions.events(token, sessionId, {
+      onOpen: () => setIsLive(true),
+      onError: () => setIsLive(false),
+      onEvent: handleSessionEvent,
+    });
+
+    return () => {
+      close();
+      setIsLive(false);
+    };
+  }, [token, sessionId, handleSessionEvent]);
+
   // Filter participants
   const filteredParticipants = session?.participants.filter((p) => {
     if (selectedFilters.has('all') || selectedFilters.size === 0) return true;
@@ -177,6 +302,42 @@ export default function SessionDetailPage() {
     }
   };
 
+  // New draft with the same settings (e.g. the next class section)
+  const handleDuplicate = async () => {
+    if (!token || !sessionId) return;
+    setActionLoading(true);
+
+    try {
+      const { session: copy } = await api.sessions.duplicate(token, sessionId);
+      router.push(`/teacher/sessions/${copy.id}`);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError(err.message);
+      }
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!token || !sessionId) return;
+    setExportMenuOpen(false);
+    setIsExporting(true);
+
+    try {
+      const { blob, filename } = format === 'pdf'
+        ? await api.sessions.report(token, sessionId)
+        : await api.sessions.export(token, sessionId, format);
+      saveBlob(blob, filename || `results.${format}`);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError(err.message);
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const copyAccessCode = async () => {
     if (!session?.accessCode) return;
 
@@ -281,6 +442,9 @@ export default function SessionDetailPage() {
     );
   }
 
+  // Viewers (view-only co-teachers, org admins) can't run or change the session
+  const canEdit = session.accessRole !== 'viewer';
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -301,10 +465,33 @@ export default function SessionDetailPage() {
                   <h1 className="text-xl font-semibold text-gray-900">{session.title}</h1>
                   <StatusBadge status={session.status} />
                 </div>
+                {(session.accessRole !== 'owner' || session.organization) && (
+                  <p className="text-sm text-gray-500">
+                    {session.accessRole !== 'owner' &&
+                      `${session.ownerName}'s session · ${canEdit ? 'Editor' : 'View only'}`}
+                    {session.accessRole !== 'owner' && session.organization && ' · '}
+                    {session.organization?.name}
+                  </p>
+                )}
               </div>
             </div>
 
             <div className="flex items-center gap-2">
+              <span
+                className={cn(
+                  'flex items-center gap-1.5 px-2 text-xs font-medium',
+                  isLive ? 'text-green-600' : 'text-gray-400'
+                )}
+                title={isLive ? 'Receiving live updates' : 'Live updates unavailable - use Refresh'}
+              >
+                <span
+                  className={cn(
+                    'w-2 h-2 rounded-full',
+                    isLive ? 'bg-green-500 animate-pulse' : 'bg-gray-300'
+                  )}
+                />
+                {isLive ? 'Live' : 'Offline'}
+              </span>
               <Button
                 variant="secondary"
                 size="sm"
@@ -313,8 +500,53 @@ export default function SessionDetailPage() {
               >
                 Refresh
               </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                leftIcon={<CopyPlus className="h-4 w-4" />}
+                onClick={handleDuplicate}
+                disabled={actionLoading}
+              >
+                Duplicate
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                leftIcon={templateSaved ? <Check className="h-4 w-4" /> : <BookmarkPlus className="h-4 w-4" />}
+                onClick={() => setTemplateModalOpen(true)}
+              >
+                {templateSaved ? 'Template Saved' : 'Save as Template'}
+              </Button>
 
-              {session.status === 'draft' && (
+              <div className="relative">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  leftIcon={<Download className="h-4 w-4" />}
+                  onClick={() => setExportMenuOpen((open) => !open)}
+                  isLoading={isExporting}
+                >
+                  Export
+                </Button>
+                {exportMenuOpen && (
+                  <>
+                    <div className="fixed inset-0 z-10" onClick={() => setExportMenuOpen(false)} />
+                    <div className="absolute right-0 z-20 mt-1 w-44 py-1 bg-white border border-gray-200 rounded-lg shadow-lg">
+                      {EXPORT_OPTIONS.map((option) => (
+                        <button
+                          key={option.format}
+                          onClick={() => handleExport(option.format)}
+                          className="block w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {canEdit && session.status === 'draft' && (
                 <Button
                   size="sm"
                   leftIcon={<PlayCircle className="h-4 w-4" />}
@@ -335,15 +567,17 @@ export default function SessionDetailPage() {
                   >
                     QR Code
                   </Button>
-                  <Button
-                    variant="danger"
-                    size="sm"
-                    leftIcon={<XCircle className="h-4 w-4" />}
-                    onClick={handleClose}
-                    isLoading={actionLoading}
-                  >
-                    Close Session
-                  </Button>
+                  {canEdit && (
+                    <Button
+                      variant="danger"
+                      size="sm"
+                      leftIcon={<XCircle className="h-4 w-4" />}
+                      onClick={handleClose}
+                      isLoading={actionLoading}
+                    >
+                      Close Session
+                    </Button>
+                  )}
                 </>
               )}
             </div>
@@ -453,9 +687,37 @@ export default function SessionDetailPage() {
                     {session.interviewMode.replace('_', ' ')}
                   </dd>
                 </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Language</dt>
+                  <dd className="font-medium text-gray-900">
+                    {LOCALE_NAMES[session.interviewLanguage] ?? session.interviewLanguage}
+                  </dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Topic Approval</dt>
+                  <dd className="font-medium text-gray-900">
+                    {session.requireTopicApproval ? 'Required' : 'Off'}
+                  </dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Question Bank</dt>
+                  <dd className="font-medium text-gray-900">
+                    {session.questionBank?.questions.length
+                      ? `${session.questionBank.questions.length} (${
+                          session.questionBank.questions.filter((q) => q.required).length
+                        } required)`
+                      : 'None'}
+                  </dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Student Pause</dt>
+                  <dd className="font-medium text-gray-900">
+                    {session.pauseBudget ? `${formatDuration(session.pauseBudget)} per interview` : 'Off'}
+                  </dd>
+                </div>
                 {session.startsAt && (
                   <div className="flex justify-between">
-                    <dt className="text-gray-500">Started</dt>
+                    <dt className="text-gray-500">{session.status === 'draft' ? 'Opens' : 'Started'}</dt>
                     <dd className="font-medium text-gray-900 text-sm">
                       {formatDate(session.startsAt)}
                     </dd>
@@ -463,7 +725,7 @@ export default function SessionDetailPage() {
                 )}
                 {session.endsAt && (
                   <div className="flex justify-between">
-                    <dt className="text-gray-500">Ended</dt>
+                    <dt className="text-gray-500">{session.status === 'closed' ? 'Ended' : 'Closes'}</dt>
                     <dd className="font-medium text-gray-900 text-sm">
                       {formatDate(session.endsAt)}
                     </dd>
@@ -471,6 +733,23 @@ export default function SessionDetailPage() {
                 )}
               </dl>
             </div>
+
+            {/* Roster Card */}
+            <RosterPanel
+              sessionId={sessionId}
+              token={token || ''}
+              participantCount={session.participants.length}
+              readOnly={!canEdit}
+            />
+
+            {/* Sharing Card */}
+            <SharingPanel
+              sessionId={sessionId}
+              token={token || ''}
+              teacherId={teacher?.id}
+              accessRole={session.accessRole}
+              onLeft={() => router.push('/teacher/dashboard')}
+            />
           </div>
 
           {/* Participants List */}
@@ -529,6 +808,26 @@ export default function SessionDetailPage() {
                         </div>
 
                         <div className="flex items-center gap-3">
+                          {participant.disconnectedAt && participant.status === 'interview_in_progress' && (
+                            <span
+                              className="flex items-center gap-1 text-xs text-orange-600"
+                              title={`Disconnected since ${formatDate(participant.disconnectedAt)}`}
+                            >
+                              <WifiOff className="h-4 w-4" />
+                              {!selectedParticipantId && 'Disconnected'}
+                            </span>
+                          )}
+                          {session.requireTopicApproval &&
+                            participant.status === 'file_submitted' &&
+                            !participant.topicsApprovedAt && (
+                            <span
+                              className="flex items-center gap-1 text-xs text-amber-600"
+                              title="Topics are waiting for your approval"
+                            >
+                              <ClipboardCheck className="h-4 w-4" />
+                              {!selectedParticipantId && 'Awaiting approval'}
+                            </span>
+                          )}
                           {!selectedParticipantId && participant.chosenInterviewMode && (
                             <span className="flex items-center gap-1 text-sm text-gray-500">
                               {getModeIcon(participant.chosenInterviewMode)}
@@ -564,6 +863,10 @@ export default function SessionDetailPage() {
                     participant={participantDetail}
                     sessionId={sessionId}
                     token={token || ''}
+                    requireTopicApproval={!!session.requireTopicApproval}
+                    readOnly={!canEdit}
+                    onTopicsUpdated={() => refreshParticipantDetail(participantDetail.id)}
+                    onAccommodationsUpdated={() => refreshParticipantDetail(participantDetail.id)}
                     onClose={closeParticipantDetail}
                   />
                 ) : (
@@ -576,6 +879,14 @@ export default function SessionDetailPage() {
           )}
         </div>
       </main>
+
+      <SaveTemplateModal
+        isOpen={templateModalOpen}
+        onClose={() => setTemplateModalOpen(false)}
+        sessionId={sessionId}
+        sessionTitle={session.title}
+        onSaved={() => setTemplateSaved(true)}
+      />
     </div>
   );
 }
@@ -2,9 +2,12 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { cn } from '@/lib/utils';
+import { useAnswerTelemetry } from '@/hooks/useAnswerTelemetry';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { AnswerTelemetry } from '@/lib/api';
 
 interface ChatInterfaceProps {
-  onSubmit: (answer: string) => Promise<void>;
+  onSubmit: (answer: string, telemetry: AnswerTelemetry) => Promise<void>;
   disabled?: boolean;
   placeholder?: string;
   onTypingChange?: (isTyping: boolean) => void;
@@ -16,14 +19,22 @@ interface ChatInterfaceProps {
 export function ChatInterface({
   onSubmit,
   disabled = false,
-  placeholder = '답변을 입력하세요...',
+  placeholder,
   onTypingChange,
 }: ChatInterfaceProps) {
+  const { t } = useTranslation();
   const [input, setInput] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   // 빠른 연속 클릭 방지를 위한 ref (React 상태는 비동기라 즉시 반영 안됨)
   const isSubmittingRef = useRef(false);
+  const telemetry = useAnswerTelemetry();
+  const { reset: resetTelemetry } = telemetry;
+
+  // 새 질문을 받으면 (입력 가능해지면) 다음 답변의 측정 시작
+  useEffect(() => {
+    if (!disabled) resetTelemetry();
+  }, [disabled, resetTelemetry]);
 
   // Auto-resize textarea
   useEffect(() => {
@@ -48,7 +59,7 @@ export function ChatInterface({
     isSubmittingRef.current = true;
     setIsSubmitting(true);
     try {
-      await onSubmit(trimmedInput);
+      await onSubmit(trimmedInput, telemetry.snapshot());
       setInput('');
       onTypingChange?.(false);
 
@@ -65,6 +76,8 @@ export function ChatInterface({
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    telemetry.onKeyDown(e);
+
     // Submit on Enter (without Shift)
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -85,7 +98,8 @@ export function ChatInterface({
             value={input}
             onChange={handleChange}
             onKeyDown={handleKeyDown}
-            placeholder={placeholder}
+            onPaste={telemetry.onPaste}
+            placeholder={placeholder ?? t('chat.placeholder')}
             disabled={isDisabled}
             rows={1}
             className={cn(
@@ -153,7 +167,7 @@ export function ChatInterface({
 
       {/* Helper text */}
       <p className="text-xs text-slate-400 mt-2">
-        Enter로 전송, Shift+Enter로 줄바꿈
+        {t('chat.hint')}
       </p>
     </div>
   );
@@ -2,6 +2,7 @@
 
 import ReactMarkdown from 'react-markdown';
 import { cn } from '@/lib/utils';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface MessageBubbleProps {
   role: 'ai' | 'student';
@@ -20,6 +21,7 @@ export function MessageBubble({
   timestamp,
   isLoading = false,
 }: MessageBubbleProps) {
+  const { t } = useTranslation();
   const isAi = role === 'ai';
 
   return (
@@ -55,7 +57,7 @@ export function MessageBubble({
               <div className="w-2 h-2 bg-current rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
               <div className="w-2 h-2 bg-current rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
             </div>
-            <span className="text-sm opacity-70">생각 중...</span>
+            <span className="text-sm opacity-70">{t('chat.thinking')}</span>
           </div>
         ) : isAi ? (
           <div className="prose prose-sm max-w-none prose-slate">
@@ -0,0 +1,76 @@
+'use client';
+
+import { Pause, Play } from 'lucide-react';
+import { useTranslation } from '@/hooks/useTranslation';
+
+/**
+ * Format seconds to M:SS
+ */
+function formatPauseTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+interface PauseButtonProps {
+  remaining: number;
+  onPause: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Pause button next to the timer, with the pause budget left
+ */
+export function PauseButton({ remaining, onPause, disabled = false }: PauseButtonProps) {
+  const { t } = useTranslation();
+
+  return (
+    <button
+      type="button"
+      onClick={onPause}
+      disabled={disabled || remaining === 0}
+      className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      <Pause className="w-4 h-4" />
+      {t('pause.button')}
+      <span className="text-xs text-slate-500">{t('pause.left', { time: formatPauseTime(remaining) })}</span>
+    </button>
+  );
+}
+
+interface PauseOverlayProps {
+  remaining: number;
+  onResume: () => void;
+  isResuming?: boolean;
+}
+
+/**
+ * Covers the interview while the student has paused it
+ */
+export function PauseOverlay({ remaining, onResume, isResuming = false }: PauseOverlayProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/60 p-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-lg p-8 text-center">
+        <div className="w-16 h-16 mx-auto mb-4 bg-blue-100 rounded-full flex items-center justify-center">
+          <Pause className="w-8 h-8 text-blue-600" />
+        </div>
+        <h2 className="text-xl font-bold text-slate-900 mb-2">{t('pause.title')}</h2>
+        <p className="text-slate-600 mb-2">{t('pause.description')}</p>
+        <p className="text-sm text-slate-500 mb-6">
+          {t('pause.autoResume', { time: formatPauseTime(remaining) })}
+        </p>
+        <button
+          type="button"
+          onClick={onResume}
+          disabled={isResuming}
+          className="w-full py-3 px-4 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          <Play className="w-4 h-4" />
+          {t('pause.resume')}
+        </button>
+      </div>
+    </div>
+  );
+}
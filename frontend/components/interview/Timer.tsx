@@ -1,6 +1,7 @@
 'use client';
 
 import { cn } from '@/lib/utils';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface TimerProps {
   timeLeft: number;
@@ -23,6 +24,8 @@ function formatTime(seconds: number): string {
  * - Red (pulsing): < 30 seconds
  */
 export function Timer({ timeLeft, isPaused = false }: TimerProps) {
+  const { t } = useTranslation();
+
   // Determine color based on time remaining
   const getColor = () => {
     if (timeLeft > 60) return 'text-green-600';
@@ -63,7 +66,7 @@ export function Timer({ timeLeft, isPaused = false }: TimerProps) {
       {/* Paused indicator */}
       {isPaused && (
         <span className="text-xs text-slate-500 font-normal ml-1">
-          (일시정지)
+          {t('timer.paused')}
         </span>
       )}
     </div>
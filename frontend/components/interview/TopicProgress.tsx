@@ -1,6 +1,7 @@
 'use client';
 
 import { cn } from '@/lib/utils';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface TopicState {
   index: number;
@@ -27,6 +28,8 @@ export function TopicProgress({
   currentTitle,
   topicsState,
 }: TopicProgressProps) {
+  const { t } = useTranslation();
+
   // Calculate progress based on elapsed time
   const currentTopic = topicsState[currentIndex];
   const progress = currentTopic
@@ -39,7 +42,7 @@ export function TopicProgress({
       <div className="flex items-center justify-between mb-2">
         <div className="flex items-center gap-2">
           <span className="font-semibold text-slate-900">
-            주제 {currentIndex + 1}/{totalTopics}
+            {t('topicProgress.label', { current: currentIndex + 1, total: totalTopics })}
           </span>
           <span className="text-slate-500">:</span>
           <span className="text-slate-700 truncate max-w-[200px] sm:max-w-none">
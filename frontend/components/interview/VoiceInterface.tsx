@@ -14,6 +14,7 @@
 import { useEffect, useState, useCallback } from 'react';
 import VolumeVisualizer, { WaveformVisualizer } from './VolumeVisualizer';
 import { Mic, Volume2, Loader2, AlertCircle } from 'lucide-react';
+import { useTranslation } from '@/hooks/useTranslation';
 
 type VoiceState =
   | 'idle'
@@ -52,6 +53,7 @@ export default function VoiceInterface({
   reconnected = false,
   onStartListening,
 }: VoiceInterfaceProps) {
+  const { t } = useTranslation();
   const [showManualStart, setShowManualStart] = useState(false);
 
   // Determine current state
@@ -93,7 +95,7 @@ export default function VoiceInterface({
             <div className="w-20 h-20 rounded-full bg-blue-100 flex items-center justify-center animate-pulse">
               <Volume2 className="w-10 h-10 text-blue-600" />
             </div>
-            <p className="text-gray-600 text-center">AI가 말하고 있습니다...</p>
+            <p className="text-gray-600 text-center">{t('voice.aiSpeaking')}</p>
           </div>
         );
 
@@ -105,13 +107,13 @@ export default function VoiceInterface({
             </div>
             <WaveformVisualizer volumeLevel={volumeLevel} barCount={7} />
             <VolumeVisualizer volumeLevel={volumeLevel} barCount={12} className="mt-2" />
-            <p className="text-red-600 font-medium">녹음 중...</p>
+            <p className="text-red-600 font-medium">{t('voice.recording')}</p>
             <button
               onClick={onCompleteAnswer}
               disabled={disabled}
               className="mt-4 px-8 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              답변 완료
+              {t('voice.completeAnswer')}
             </button>
           </div>
         );
@@ -122,7 +124,7 @@ export default function VoiceInterface({
             <div className="w-20 h-20 rounded-full bg-gray-100 flex items-center justify-center">
               <Loader2 className="w-10 h-10 text-gray-600 animate-spin" />
             </div>
-            <p className="text-gray-600 text-center">음성을 변환하고 있습니다...</p>
+            <p className="text-gray-600 text-center">{t('voice.transcribing')}</p>
           </div>
         );
 
@@ -132,7 +134,7 @@ export default function VoiceInterface({
             <div className="w-20 h-20 rounded-full bg-purple-100 flex items-center justify-center">
               <Loader2 className="w-10 h-10 text-purple-600 animate-spin" />
             </div>
-            <p className="text-gray-600 text-center">다음 질문을 준비하고 있습니다...</p>
+            <p className="text-gray-600 text-center">{t('voice.preparingQuestion')}</p>
           </div>
         );
 
@@ -147,8 +149,8 @@ export default function VoiceInterface({
                   <div className="flex items-start gap-2">
                     <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
                     <div>
-                      <p className="text-yellow-800 text-sm font-medium">음성 재생 실패</p>
-                      <p className="text-yellow-700 text-sm mt-1">질문을 텍스트로 확인하세요:</p>
+                      <p className="text-yellow-800 text-sm font-medium">{t('voice.ttsFailed')}</p>
+                      <p className="text-yellow-700 text-sm mt-1">{t('voice.readQuestion')}</p>
                       <p className="text-gray-800 mt-2 text-sm">&quot;{currentQuestion}&quot;</p>
                     </div>
                   </div>
@@ -158,14 +160,14 @@ export default function VoiceInterface({
                 <Mic className="w-10 h-10 text-blue-600" />
               </div>
               <p className="text-gray-600 text-center">
-                {reconnected ? '재접속되었습니다. 마이크를 시작하세요.' : '마이크를 시작하세요.'}
+                {reconnected ? t('voice.reconnected') : t('voice.startMicPrompt')}
               </p>
               <button
                 onClick={handleManualStart}
                 disabled={disabled}
                 className="mt-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                마이크 시작
+                {t('voice.startMic')}
               </button>
             </div>
           );
@@ -177,7 +179,7 @@ export default function VoiceInterface({
             <div className="w-20 h-20 rounded-full bg-gray-100 flex items-center justify-center">
               <Mic className="w-10 h-10 text-gray-400" />
             </div>
-            <p className="text-gray-500 text-center">대기 중...</p>
+            <p className="text-gray-500 text-center">{t('voice.waiting')}</p>
           </div>
         );
     }
@@ -206,11 +208,13 @@ export function VoiceStatusBadge({
   isTranscribing,
   isAiGenerating,
 }: VoiceStatusBadgeProps) {
+  const { t } = useTranslation();
+
   if (isAiGenerating) {
     return (
       <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-purple-100 text-purple-700 text-xs">
         <Loader2 className="w-3 h-3 animate-spin" />
-        AI 생성 중
+        {t('voice.badge.generating')}
       </span>
     );
   }
@@ -219,7 +223,7 @@ export function VoiceStatusBadge({
     return (
       <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-blue-100 text-blue-700 text-xs">
         <Volume2 className="w-3 h-3" />
-        재생 중
+        {t('voice.badge.playing')}
       </span>
     );
   }
@@ -228,7 +232,7 @@ export function VoiceStatusBadge({
     return (
       <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-red-100 text-red-700 text-xs animate-pulse">
         <Mic className="w-3 h-3" />
-        녹음 중
+        {t('voice.badge.recording')}
       </span>
     );
   }
@@ -237,7 +241,7 @@ export function VoiceStatusBadge({
     return (
       <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-gray-100 text-gray-700 text-xs">
         <Loader2 className="w-3 h-3 animate-spin" />
-        변환 중
+        {t('voice.badge.transcribing')}
       </span>
     );
   }
@@ -10,12 +10,16 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { useStudentStore, Message } from '@/lib/store';
-import { api } from '@/lib/api';
+import { api, StudentPauseStatus } from '@/lib/api';
 import { useVoiceStateMachine } from '@/hooks/useVoiceStateMachine';
+import { useAIGenerationEvents } from '@/hooks/useAIGenerationEvents';
+import { useStudentPause } from '@/hooks/useStudentPause';
+import { useTranslation } from '@/hooks/useTranslation';
 import { MessageBubble } from '@/components/interview/MessageBubble';
 import { Timer } from '@/components/interview/Timer';
 import { TopicProgress } from '@/components/interview/TopicProgress';
 import VoiceStateRenderer, { VoiceStateBadge } from '@/components/interview/VoiceStateRenderer';
+import { PauseButton, PauseOverlay } from '@/components/interview/PauseControl';
 import { VoiceServerState, VoiceState } from '@/lib/voice';
 
 // ==========================================
@@ -44,10 +48,12 @@ export default function VoiceInterviewPage({ onError }: VoiceInterviewPageProps)
     addMessage,
     setMessages,
   } = useStudentStore();
+  const { t } = useTranslation();
 
   // Local state
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [pauseFailed, setPauseFailed] = useState(false);
   const initializationDoneRef = useRef(false);
 
   // Current topic info
@@ -84,6 +90,22 @@ export default function VoiceInterviewPage({ onError }: VoiceInterviewPageProps)
     },
   });
 
+  // Student pause: only while recording an answer; the mic restarts on resume
+  const studentPause = useStudentPause({
+    sessionToken,
+    onPause: () => voice.pauseByUser(),
+    onResume: () => {
+      voice.startMic().catch((err) => console.error('Failed to restart mic after pause:', err));
+    },
+  });
+  const { sync: syncStudentPause } = studentPause;
+
+  const handlePause = async () => {
+    setPauseFailed(false);
+    const paused = await studentPause.pause();
+    if (!paused) setPauseFailed(true);
+  };
+
   // Scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -128,6 +150,7 @@ export default function VoiceInterviewPage({ onError }: VoiceInterviewPageProps)
           }>;
           aiGenerationPending?: boolean;
           firstQuestion?: string;
+          studentPause?: StudentPauseStatus;
         };
 
         // Check status and redirect if needed
@@ -220,12 +243,13 @@ export default function VoiceInterviewPage({ onError }: VoiceInterviewPageProps)
         };
 
         setIsLoading(false);
+        syncStudentPause(serverState.studentPause);
 
         // Determine initial voice state
         if (serverState.aiGenerationPending) {
-          // AI 생성 중이었음 → 폴링 재개
+          // AI 생성 중이었음 → 질문 수신 대기 재개
           voice.reconnect(voiceServerState);
-          startPolling();
+          startAwaitingQuestion();
         } else if (isActualReconnection && serverState.conversations && serverState.conversations.length > 0) {
           // 실제 재접속 (페이지 새로고침/탭 재접속) → PAUSED 상태
           voice.reconnect(voiceServerState);
@@ -251,12 +275,12 @@ export default function VoiceInterviewPage({ onError }: VoiceInterviewPageProps)
         }
       } catch (err) {
         console.error('Failed to initialize interview:', err);
-        setError('인터뷰 상태를 불러오는데 실패했습니다.');
+        setError(t('interview.loadFailed'));
       }
     };
 
     initializeInterview();
-  }, [sessionToken, router, setInterviewState, setMessages, addMessage, voice, totalTime]);
+  }, [sessionToken, router, setInterviewState, setMessages, addMessage, voice, totalTime, syncStudentPause, t]);
 
   // Heartbeat for server sync
   useEffect(() => {
@@ -272,6 +296,9 @@ export default function VoiceInterviewPage({ onError }: VoiceInterviewPageProps)
           };
         };
 
+        // Pause state is at the top level of the heartbeat data
+        syncStudentPause((response as { studentPause?: StudentPauseStatus }).studentPause);
+
         // Sync time if needed
         if (response.state?.remainingTime !== undefined) {
           voice.syncTime(response.state.remainingTime);
@@ -287,54 +314,49 @@ export default function VoiceInterviewPage({ onError }: VoiceInterviewPageProps)
     }, 5000);
 
     return () => clearInterval(heartbeatInterval);
-  }, [sessionToken, isLoading, voice, router]);
-
-  // Polling state
-  const [isPolling, setIsPolling] = useState(false);
-  const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  const startPolling = useCallback(() => {
-    if (isPolling) return;
-    setIsPolling(true);
-
-    pollIntervalRef.current = setInterval(async () => {
-      if (!sessionToken) return;
+  }, [sessionToken, isLoading, voice, router, syncStudentPause]);
 
-      try {
-        const status = await api.interview.getAIStatus(sessionToken);
-
-        if (!status.aiGenerationPending && status.nextQuestion) {
-          // AI 생성 완료
-          stopPolling();
-
-          // 메시지 추가
-          addMessage({
-            role: 'ai',
-            content: status.nextQuestion,
-            timestamp: new Date().toISOString(),
-          });
-
-          // 상태 머신에 알림 → TTS 재생
-          voice.handleAIReady(status.nextQuestion);
-        }
-      } catch (err) {
-        console.error('Polling error:', err);
-      }
-    }, 1000);
-  }, [sessionToken, isPolling, addMessage, voice]);
+  // AI question delivery state (push via SSE, polling only as fallback)
+  const [awaitingQuestion, setAwaitingQuestion] = useState(false);
+  const awaitingQuestionRef = useRef(false);
 
-  const stopPolling = useCallback(() => {
-    if (pollIntervalRef.current) {
-      clearInterval(pollIntervalRef.current);
-      pollIntervalRef.current = null;
-    }
-    setIsPolling(false);
+  const startAwaitingQuestion = useCallback(() => {
+    awaitingQuestionRef.current = true;
+    setAwaitingQuestion(true);
   }, []);
 
-  // Cleanup polling on unmount
-  useEffect(() => {
-    return () => stopPolling();
-  }, [stopPolling]);
+  const handleAIQuestionReady = useCallback((question: string) => {
+    awaitingQuestionRef.current = false;
+    setAwaitingQuestion(false);
+
+    // 메시지 추가
+    addMessage({
+      role: 'ai',
+      content: question,
+      timestamp: new Date().toISOString(),
+    });
+
+    // 상태 머신에 알림 → TTS 재생
+    voice.handleAIReady(question);
+  }, [addMessage, voice]);
+
+  // 생성 중인 질문의 문장 → 바로 TTS 재생 (메시지는 질문 전체가 도착하면 추가)
+  const handleAISentence = useCallback(
+    (sentence: string, sentenceIndex: number, questionSoFar: string) => {
+      voice.handleAISentence(sentence, sentenceIndex, questionSoFar);
+    },
+    [voice]
+  );
+
+  useAIGenerationEvents({
+    sessionToken,
+    isGenerating: awaitingQuestion,
+    onComplete: handleAIQuestionReady,
+    onSentence: handleAISentence,
+    onError: (err) => {
+      console.error('AI question delivery error:', err);
+    },
+  });
 
   // Handle answer completion
   const handleCompleteAnswer = useCallback(async () => {
@@ -352,11 +374,14 @@ export default function VoiceInterviewPage({ onError }: VoiceInterviewPageProps)
         });
 
         // Submit to server
+        awaitingQuestionRef.current = true;
         const response = await api.interview.submitAnswer(sessionToken!, transcribedText);
 
         if (response.aiGenerationPending) {
-          // Start polling
-          startPolling();
+          // Wait for push (the question may already have arrived before this response)
+          if (awaitingQuestionRef.current) {
+            startAwaitingQuestion();
+          }
         } else if (response.nextQuestion) {
           // Legacy path
           addMessage({
@@ -369,9 +394,9 @@ export default function VoiceInterviewPage({ onError }: VoiceInterviewPageProps)
       }
     } catch (err) {
       console.error('Answer submission failed:', err);
-      setError('답변 제출에 실패했습니다.');
+      setError(t('voice.submitFailed'));
     }
-  }, [sessionToken, voice, addMessage, startPolling]);
+  }, [sessionToken, voice, addMessage, startAwaitingQuestion, t]);
 
   // Handle mic start (from PAUSED state)
   const handleStartMic = useCallback(async () => {
@@ -379,9 +404,9 @@ export default function VoiceInterviewPage({ onError }: VoiceInterviewPageProps)
       await voice.startMic();
     } catch (err) {
       console.error('Failed to start mic:', err);
-      setError('마이크 시작에 실패했습니다.');
+      setError(t('voice.micFailed'));
     }
-  }, [voice]);
+  }, [voice, t]);
 
   // Handle retry
   const handleRetry = useCallback(() => {
@@ -395,7 +420,7 @@ export default function VoiceInterviewPage({ onError }: VoiceInterviewPageProps)
       <div className="min-h-screen flex items-center justify-center bg-slate-50">
         <div className="flex flex-col items-center gap-4">
           <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
-          <p className="text-slate-600">인터뷰를 불러오는 중...</p>
+          <p className="text-slate-600">{t('interview.loading')}</p>
         </div>
       </div>
     );
@@ -411,13 +436,13 @@ export default function VoiceInterviewPage({ onError }: VoiceInterviewPageProps)
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
             </svg>
           </div>
-          <h2 className="text-xl font-bold text-slate-900 mb-2">오류 발생</h2>
+          <h2 className="text-xl font-bold text-slate-900 mb-2">{t('interview.errorTitle')}</h2>
           <p className="text-slate-600 mb-6">{error}</p>
           <button
             onClick={() => window.location.reload()}
             className="w-full py-3 px-4 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors"
           >
-            다시 시도
+            {t('interview.retry')}
           </button>
         </div>
       </div>
@@ -440,17 +465,29 @@ export default function VoiceInterviewPage({ onError }: VoiceInterviewPageProps)
       {/* Timer + Status Badge */}
       <div className="flex justify-between items-center px-4 py-2 bg-white border-b">
         <VoiceStateBadge currentState={voice.currentState} />
-        <Timer
-          timeLeft={voice.timeLeft}
-          isPaused={!voice.timerRunning}
-        />
+        <div className="flex items-center gap-3">
+          {pauseFailed && (
+            <span className="text-sm text-red-600">{t('pause.failed')}</span>
+          )}
+          {studentPause.enabled && (
+            <PauseButton
+              remaining={studentPause.remaining}
+              onPause={handlePause}
+              disabled={voice.currentState !== 'LISTENING' || studentPause.isUpdating}
+            />
+          )}
+          <Timer
+            timeLeft={voice.timeLeft}
+            isPaused={!voice.timerRunning}
+          />
+        </div>
       </div>
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.length === 0 ? (
           <div className="text-center text-slate-500 py-8">
-            <p>질문을 기다리는 중...</p>
+            <p>{t('interview.waitingForQuestion')}</p>
           </div>
         ) : (
           messages.map((msg, idx) => (
@@ -485,6 +522,14 @@ export default function VoiceInterviewPage({ onError }: VoiceInterviewPageProps)
         onRetry={handleRetry}
         disabled={voice.isAiGenerating || voice.isTranscribing}
       />
+
+      {studentPause.isPaused && (
+        <PauseOverlay
+          remaining={studentPause.remaining}
+          onResume={studentPause.resume}
+          isResuming={studentPause.isUpdating}
+        />
+      )}
     </div>
   );
 }
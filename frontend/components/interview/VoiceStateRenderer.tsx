@@ -10,7 +10,9 @@
 import { useCallback } from 'react';
 import { Mic, Volume2, Loader2, AlertCircle, Play, RefreshCw } from 'lucide-react';
 import VolumeVisualizer, { WaveformVisualizer } from './VolumeVisualizer';
-import { VoiceState, voiceStateUIMap, PauseReason } from '@/lib/voice';
+import { VoiceState, PauseReason } from '@/lib/voice';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { MessageKey } from '@/lib/i18n';
 
 // ==========================================
 // Types
@@ -42,12 +44,14 @@ interface VoiceStateRendererProps {
  * IDLE 상태 UI
  */
 function IdleState() {
+  const { t } = useTranslation();
+
   return (
     <div className="flex flex-col items-center gap-4">
       <div className="w-20 h-20 rounded-full bg-gray-100 flex items-center justify-center">
         <Loader2 className="w-10 h-10 text-gray-400 animate-spin" />
       </div>
-      <p className="text-gray-500 text-center">인터뷰를 준비하고 있습니다...</p>
+      <p className="text-gray-500 text-center">{t('voice.preparing')}</p>
     </div>
   );
 }
@@ -56,13 +60,15 @@ function IdleState() {
  * TTS_PLAYING 상태 UI
  */
 function TTSPlayingState() {
+  const { t } = useTranslation();
+
   return (
     <div className="flex flex-col items-center gap-4">
       <div className="w-20 h-20 rounded-full bg-blue-100 flex items-center justify-center animate-pulse">
         <Volume2 className="w-10 h-10 text-blue-600" />
       </div>
-      <p className="text-gray-600 text-center">AI가 질문하고 있습니다...</p>
-      <p className="text-gray-400 text-sm">잠시 후 자동으로 녹음이 시작됩니다</p>
+      <p className="text-gray-600 text-center">{t('voice.aiAsking')}</p>
+      <p className="text-gray-400 text-sm">{t('voice.recordingSoon')}</p>
     </div>
   );
 }
@@ -79,6 +85,8 @@ function ListeningState({
   onCompleteAnswer: () => void;
   disabled?: boolean;
 }) {
+  const { t } = useTranslation();
+
   return (
     <div className="flex flex-col items-center gap-4">
       <div className="w-20 h-20 rounded-full bg-red-500 flex items-center justify-center shadow-lg shadow-red-500/30">
@@ -86,13 +94,13 @@ function ListeningState({
       </div>
       <WaveformVisualizer volumeLevel={volumeLevel} barCount={7} />
       <VolumeVisualizer volumeLevel={volumeLevel} barCount={12} className="mt-2" />
-      <p className="text-red-600 font-medium animate-pulse">녹음 중...</p>
+      <p className="text-red-600 font-medium animate-pulse">{t('voice.recording')}</p>
       <button
         onClick={onCompleteAnswer}
         disabled={disabled}
         className="mt-4 px-8 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-md"
       >
-        답변 완료
+        {t('voice.completeAnswer')}
       </button>
     </div>
   );
@@ -102,12 +110,14 @@ function ListeningState({
  * STT_PROCESSING 상태 UI
  */
 function STTProcessingState() {
+  const { t } = useTranslation();
+
   return (
     <div className="flex flex-col items-center gap-4">
       <div className="w-20 h-20 rounded-full bg-gray-100 flex items-center justify-center">
         <Loader2 className="w-10 h-10 text-gray-600 animate-spin" />
       </div>
-      <p className="text-gray-600 text-center">음성을 텍스트로 변환하고 있습니다...</p>
+      <p className="text-gray-600 text-center">{t('voice.transcribing')}</p>
     </div>
   );
 }
@@ -116,12 +126,14 @@ function STTProcessingState() {
  * AI_GENERATING 상태 UI
  */
 function AIGeneratingState() {
+  const { t } = useTranslation();
+
   return (
     <div className="flex flex-col items-center gap-4">
       <div className="w-20 h-20 rounded-full bg-purple-100 flex items-center justify-center">
         <Loader2 className="w-10 h-10 text-purple-600 animate-spin" />
       </div>
-      <p className="text-gray-600 text-center">다음 질문을 준비하고 있습니다...</p>
+      <p className="text-gray-600 text-center">{t('voice.preparingQuestion')}</p>
     </div>
   );
 }
@@ -130,12 +142,14 @@ function AIGeneratingState() {
  * TRANSITIONING 상태 UI
  */
 function TransitioningState() {
+  const { t } = useTranslation();
+
   return (
     <div className="flex flex-col items-center gap-4">
       <div className="w-20 h-20 rounded-full bg-green-100 flex items-center justify-center">
         <Loader2 className="w-10 h-10 text-green-600 animate-spin" />
       </div>
-      <p className="text-gray-600 text-center">다음 주제로 이동합니다...</p>
+      <p className="text-gray-600 text-center">{t('voice.movingToNextTopic')}</p>
     </div>
   );
 }
@@ -154,14 +168,18 @@ function PausedState({
   onStartMic: () => void;
   disabled?: boolean;
 }) {
+  const { t } = useTranslation();
+
   const getMessage = () => {
     switch (pauseReason) {
       case 'reconnect':
-        return '재접속되었습니다. 마이크를 시작하세요.';
+        return t('voice.reconnected');
       case 'tts_failed':
-        return '음성 재생에 실패했습니다. 아래 질문을 읽고 마이크를 시작하세요.';
+        return t('voice.ttsFailedPrompt');
+      case 'user_requested':
+        return t('pause.description');
       default:
-        return '마이크를 시작하세요.';
+        return t('voice.startMicPrompt');
     }
   };
 
@@ -173,8 +191,8 @@ function PausedState({
           <div className="flex items-start gap-2">
             <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
             <div>
-              <p className="text-yellow-800 text-sm font-medium">음성 재생 실패</p>
-              <p className="text-yellow-700 text-sm mt-1">질문을 텍스트로 확인하세요:</p>
+              <p className="text-yellow-800 text-sm font-medium">{t('voice.ttsFailed')}</p>
+              <p className="text-yellow-700 text-sm mt-1">{t('voice.readQuestion')}</p>
               <p className="text-gray-800 mt-2 text-sm italic">&quot;{currentQuestion}&quot;</p>
             </div>
           </div>
@@ -193,7 +211,7 @@ function PausedState({
         className="mt-2 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 shadow-md"
       >
         <Play className="w-4 h-4" />
-        마이크 시작
+        {t('voice.startMic')}
       </button>
     </div>
   );
@@ -203,6 +221,8 @@ function PausedState({
  * COMPLETED 상태 UI
  */
 function CompletedState() {
+  const { t } = useTranslation();
+
   return (
     <div className="flex flex-col items-center gap-4">
       <div className="w-20 h-20 rounded-full bg-green-100 flex items-center justify-center">
@@ -210,7 +230,7 @@ function CompletedState() {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
         </svg>
       </div>
-      <p className="text-green-600 font-medium text-center">인터뷰가 완료되었습니다!</p>
+      <p className="text-green-600 font-medium text-center">{t('voice.completed')}</p>
     </div>
   );
 }
@@ -227,12 +247,14 @@ function ErrorState({
   onRetry: () => void;
   disabled?: boolean;
 }) {
+  const { t } = useTranslation();
+
   return (
     <div className="flex flex-col items-center gap-4">
       <div className="w-20 h-20 rounded-full bg-red-100 flex items-center justify-center">
         <AlertCircle className="w-10 h-10 text-red-600" />
       </div>
-      <p className="text-red-600 font-medium text-center">오류가 발생했습니다</p>
+      <p className="text-red-600 font-medium text-center">{t('voice.error')}</p>
       {errorMessage && (
         <p className="text-gray-500 text-sm text-center max-w-xs">{errorMessage}</p>
       )}
@@ -242,7 +264,7 @@ function ErrorState({
         className="mt-2 px-6 py-3 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
       >
         <RefreshCw className="w-4 h-4" />
-        다시 시도
+        {t('interview.retry')}
       </button>
     </div>
   );
@@ -332,8 +354,20 @@ interface VoiceStateBadgeProps {
   currentState: VoiceState;
 }
 
+const STATE_TITLE_KEYS: Record<VoiceState, MessageKey> = {
+  IDLE: 'voice.state.idle',
+  TTS_PLAYING: 'voice.state.ttsPlaying',
+  LISTENING: 'voice.state.listening',
+  STT_PROCESSING: 'voice.state.sttProcessing',
+  AI_GENERATING: 'voice.state.aiGenerating',
+  TRANSITIONING: 'voice.state.transitioning',
+  PAUSED: 'voice.state.paused',
+  COMPLETED: 'voice.state.completed',
+  ERROR: 'voice.state.error',
+};
+
 export function VoiceStateBadge({ currentState }: VoiceStateBadgeProps) {
-  const ui = voiceStateUIMap[currentState];
+  const { t } = useTranslation();
 
   const getStyle = () => {
     switch (currentState) {
@@ -384,7 +418,7 @@ export function VoiceStateBadge({ currentState }: VoiceStateBadgeProps) {
   return (
     <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs ${getStyle()}`}>
       {getIcon()}
-      {ui.title}
+      {t(STATE_TITLE_KEYS[currentState])}
     </span>
   );
 }
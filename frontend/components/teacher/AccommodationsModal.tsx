@@ -0,0 +1,185 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Modal, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { ApiError } from '@/lib/api';
+import type { Accommodations } from '@/lib/store';
+
+export const NO_ACCOMMODATIONS: Accommodations = {
+  timeMultiplier: 1,
+  chatOnly: false,
+  largeText: false,
+  readAloud: false,
+};
+
+const TIME_MULTIPLIER_OPTIONS = [
+  { value: 1, label: 'None' },
+  { value: 1.25, label: '+25% (1.25×)' },
+  { value: 1.5, label: '+50% (1.5×)' },
+  { value: 2, label: '+100% (2×)' },
+  { value: 3, label: '+200% (3×)' },
+];
+
+const FLAG_OPTIONS: Array<{ key: 'chatOnly' | 'largeText' | 'readAloud'; label: string; description: string }> = [
+  {
+    key: 'chatOnly',
+    label: '채팅 인터뷰만',
+    description: '음성 인터뷰 세션이나 학생 선택 세션에서도 채팅으로 진행합니다 (청각·언어 장애 학생)',
+  },
+  {
+    key: 'largeText',
+    label: '큰 글씨',
+    description: '학생 화면의 글자와 버튼을 크게 표시합니다',
+  },
+  {
+    key: 'readAloud',
+    label: '질문 읽어주기',
+    description: '채팅 인터뷰에서 AI 질문을 음성으로 읽어줍니다. 읽는 동안 주제 시간이 멈춥니다',
+  },
+];
+
+/**
+ * Short labels for the accommodations that are on (badges in the teacher views)
+ */
+export function accommodationLabels(accommodations: Accommodations | null | undefined): string[] {
+  if (!accommodations) return [];
+
+  const labels: string[] = [];
+  if (accommodations.timeMultiplier > 1) {
+    labels.push(`+${Math.round((accommodations.timeMultiplier - 1) * 100)}% time`);
+  }
+  if (accommodations.chatOnly) labels.push('Chat only');
+  if (accommodations.largeText) labels.push('Large text');
+  if (accommodations.readAloud) labels.push('Read aloud');
+  return labels;
+}
+
+export interface AccommodationsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  studentName: string;
+  accommodations: Accommodations;
+  // Extra time and chat only are fixed once the interview has started
+  interviewStarted?: boolean;
+  onSave: (accommodations: Accommodations) => Promise<void>;
+}
+
+/**
+ * Edit one student's accommodations (roster entry or participant)
+ */
+export const AccommodationsModal: React.FC<AccommodationsModalProps> = ({
+  isOpen,
+  onClose,
+  studentName,
+  accommodations,
+  interviewStarted = false,
+  onSave,
+}) => {
+  const [value, setValue] = useState<Accommodations>(accommodations);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setValue(accommodations);
+      setError(null);
+    }
+  }, [isOpen, accommodations]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await onSave(value);
+      onClose();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to save accommodations');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Keep a stored multiplier that isn't one of the presets selectable
+  const multiplierOptions = TIME_MULTIPLIER_OPTIONS.some((o) => o.value === value.timeMultiplier)
+    ? TIME_MULTIPLIER_OPTIONS
+    : [...TIME_MULTIPLIER_OPTIONS, { value: value.timeMultiplier, label: `${value.timeMultiplier}×` }];
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Accommodations"
+      description={studentName}
+      size="sm"
+    >
+      <form onSubmit={handleSubmit}>
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        {interviewStarted && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+            인터뷰가 이미 시작되어 추가 시간과 채팅 전용 설정은 이번 인터뷰에 적용되지 않습니다
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="w-full">
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+              Extra Time
+            </label>
+            <select
+              className="w-full px-3 py-2 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              value={value.timeMultiplier}
+              onChange={(e) => setValue((prev) => ({ ...prev, timeMultiplier: parseFloat(e.target.value) }))}
+            >
+              {multiplierOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              인터뷰 시작 시 모든 주제 시간에 적용됩니다 (IEP 시간 연장 등)
+            </p>
+          </div>
+
+          {FLAG_OPTIONS.map((option) => (
+            <label
+              key={option.key}
+              className="flex items-start gap-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:border-gray-300"
+            >
+              <input
+                type="checkbox"
+                checked={value[option.key]}
+                onChange={(e) => setValue((prev) => ({ ...prev, [option.key]: e.target.checked }))}
+                className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                <span className="block text-xs text-gray-500">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <ModalFooter>
+          <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" isLoading={isSaving}>
+            Save
+          </Button>
+        </ModalFooter>
+      </form>
+    </Modal>
+  );
+};
+
+export default AccommodationsModal;
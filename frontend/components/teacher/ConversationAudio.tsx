@@ -0,0 +1,60 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2, Volume2 } from 'lucide-react';
+import { api, ApiError } from '@/lib/api';
+
+export interface ConversationAudioProps {
+  token: string;
+  sessionId: string;
+  participantId: string;
+  conversationId: number;
+}
+
+// Audio is fetched on demand so opening a transcript doesn't download every turn
+export const ConversationAudio: React.FC<ConversationAudioProps> = ({
+  token,
+  sessionId,
+  participantId,
+  conversationId,
+}) => {
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLoad = async () => {
+    if (isLoading) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { url } = await api.sessions.conversationAudioUrl(token, sessionId, participantId, conversationId);
+      setAudioUrl(url);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : '녹음을 불러오지 못했습니다');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (audioUrl) {
+    return <audio controls autoPlay src={audioUrl} className="mt-2 w-full h-8" />;
+  }
+
+  return (
+    <div className="mt-2 flex items-center gap-2">
+      <button
+        type="button"
+        onClick={handleLoad}
+        disabled={isLoading}
+        className="flex items-center gap-1 text-xs text-gray-500 hover:text-blue-600 disabled:opacity-50"
+      >
+        {isLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Volume2 className="w-3.5 h-3.5" />}
+        녹음 듣기
+      </button>
+      {error && <span className="text-xs text-red-500">{error}</span>}
+    </div>
+  );
+};
+
+export default ConversationAudio;
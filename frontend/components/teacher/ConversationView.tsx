@@ -2,12 +2,15 @@
 
 import { useState, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
+import { ConversationAudio } from '@/components/teacher/ConversationAudio';
 
 interface Conversation {
+  id?: number;
   topicIndex: number;
   turnIndex: number;
   role: 'ai' | 'student';
   content: string;
+  hasAudio?: boolean;
   createdAt: string;
 }
 
@@ -16,9 +19,17 @@ interface Topic {
   description?: string;
 }
 
+// Needed to fetch archived voice audio; without it turns are shown as text only
+interface AudioSource {
+  token: string;
+  sessionId: string;
+  participantId: string;
+}
+
 interface ConversationViewProps {
   conversations: Conversation[];
   topics: Topic[];
+  audioSource?: AudioSource;
 }
 
 function formatTime(dateString: string): string {
@@ -29,7 +40,7 @@ function formatTime(dateString: string): string {
   });
 }
 
-export function ConversationView({ conversations, topics }: ConversationViewProps) {
+export function ConversationView({ conversations, topics, audioSource }: ConversationViewProps) {
   // First topic expanded by default
   const [expandedTopics, setExpandedTopics] = useState<number[]>([0]);
 
@@ -134,6 +145,9 @@ export function ConversationView({ conversations, topics }: ConversationViewProp
                           {conv.content}
                         </div>
                       )}
+                      {audioSource && conv.hasAudio && conv.id !== undefined && (
+                        <ConversationAudio {...audioSource} conversationId={conv.id} />
+                      )}
                     </div>
                   ))
                 )}
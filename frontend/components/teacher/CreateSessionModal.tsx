@@ -1,11 +1,14 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Modal, ModalFooter } from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
-import { useTeacherStore, Session } from '@/lib/store';
-import { api, ApiError } from '@/lib/api';
+import { RubricEditor } from '@/components/teacher/RubricEditor';
+import { QuestionBankEditor } from '@/components/teacher/QuestionBankEditor';
+import { useTeacherStore, Session, RubricCriterion, BankQuestion, InterviewLanguage } from '@/lib/store';
+import { api, ApiError, Organization, SessionTemplate } from '@/lib/api';
+import { LOCALES, LOCALE_NAMES } from '@/lib/i18n';
 
 export interface CreateSessionModalProps {
   isOpen: boolean;
@@ -15,13 +18,27 @@ export interface CreateSessionModalProps {
 
 type InterviewMode = 'voice' | 'chat' | 'student_choice';
 
+// Same limit as the backend (services/topics.ts)
+const MAX_TOPICS = 10;
+
 interface FormData {
   title: string;
   description: string;
   topicCount: number;
   topicDuration: number;
   interviewMode: InterviewMode;
+  interviewLanguage: InterviewLanguage;
   assignmentInfo: string;
+  rubricCriteria: RubricCriterion[];
+  requireTopicApproval: boolean;
+  bankQuestions: BankQuestion[];
+  // Seconds per interview, 0 = students can't pause
+  pauseBudget: number;
+  // '' = personal session
+  organizationId: string;
+  // datetime-local values; '' = open/close manually
+  startsAt: string;
+  endsAt: string;
 }
 
 const initialFormData: FormData = {
@@ -30,9 +47,22 @@ const initialFormData: FormData = {
   topicCount: 3,
   topicDuration: 180,
   interviewMode: 'student_choice',
+  interviewLanguage: 'ko',
   assignmentInfo: '',
+  rubricCriteria: [],
+  requireTopicApproval: false,
+  bankQuestions: [],
+  pauseBudget: 0,
+  organizationId: '',
+  startsAt: '',
+  endsAt: '',
 };
 
+// datetime-local value (local time) to ISO, '' = not scheduled
+function toIsoTime(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
 export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
   isOpen,
   onClose,
@@ -43,6 +73,68 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
   const [errors, setErrors] = useState<Partial<Record<keyof FormData, string>>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [apiError, setApiError] = useState<string | null>(null);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [templates, setTemplates] = useState<SessionTemplate[]>([]);
+  // '' = blank session
+  const [templateId, setTemplateId] = useState('');
+
+  // TAs can't add sessions to an organization
+  useEffect(() => {
+    if (!isOpen || !token) return;
+
+    api.organizations
+      .list(token)
+      .then(({ organizations }) => setOrganizations(organizations.filter((o) => o.role !== 'ta')))
+      .catch((err) => console.error('Failed to load organizations:', err));
+
+    api.templates
+      .list(token)
+      .then(({ templates }) => setTemplates(templates))
+      .catch((err) => console.error('Failed to load templates:', err));
+  }, [isOpen, token]);
+
+  // Fill the form with a template's settings (the title can then be changed per class)
+  const applyTemplate = (id: string) => {
+    setTemplateId(id);
+    setErrors({});
+
+    const template = templates.find((item) => item.id === id);
+    if (!template) {
+      setFormData(initialFormData);
+      return;
+    }
+
+    const { settings } = template;
+    setFormData((prev) => ({
+      ...prev,
+      title: settings.title,
+      description: settings.description ?? '',
+      topicCount: settings.topicCount,
+      topicDuration: settings.topicDuration,
+      interviewMode: settings.interviewMode,
+      interviewLanguage: settings.interviewLanguage,
+      assignmentInfo: settings.assignmentInfo ?? '',
+      rubricCriteria: settings.rubric?.criteria ?? [],
+      requireTopicApproval: settings.requireTopicApproval,
+      bankQuestions: settings.questionBank?.questions ?? [],
+      pauseBudget: settings.pauseBudget,
+    }));
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!token || !templateId) return;
+    if (!confirm('Delete this template? Sessions created from it are not affected.')) return;
+
+    try {
+      await api.templates.delete(token, templateId);
+      setTemplates((prev) => prev.filter((item) => item.id !== templateId));
+      setTemplateId('');
+    } catch (error) {
+      setApiError(error instanceof ApiError ? error.message : 'Failed to delete template');
+    }
+  };
+
+  const selectedTemplate = templates.find((item) => item.id === templateId);
 
   const validate = (): boolean => {
     const newErrors: Partial<Record<keyof FormData, string>> = {};
@@ -53,14 +145,34 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
       newErrors.title = 'Title must be 200 characters or less';
     }
 
-    if (formData.topicCount < 1 || formData.topicCount > 5) {
-      newErrors.topicCount = 'Topic count must be between 1 and 5';
+    if (formData.topicCount < 1 || formData.topicCount > MAX_TOPICS) {
+      newErrors.topicCount = `Topic count must be between 1 and ${MAX_TOPICS}`;
     }
 
     if (formData.topicDuration < 60 || formData.topicDuration > 600) {
       newErrors.topicDuration = 'Duration must be between 60 and 600 seconds';
     }
 
+    if (formData.rubricCriteria.some((c) => !c.name.trim() || c.weight < 1)) {
+      newErrors.rubricCriteria = 'Each rubric criterion needs a name and a weight of at least 1';
+    } else if (
+      formData.rubricCriteria.some((c) => c.levels.some((l) => !l.label.trim() || l.score < 0 || l.score > 100))
+    ) {
+      newErrors.rubricCriteria = 'Each rubric level needs a label and a score between 0 and 100';
+    }
+
+    if (formData.bankQuestions.some((q) => !q.text.trim())) {
+      newErrors.bankQuestions = 'Each question bank entry needs question text';
+    }
+
+    if (formData.endsAt) {
+      if (formData.startsAt && new Date(formData.endsAt) <= new Date(formData.startsAt)) {
+        newErrors.endsAt = 'Closing time must be after the opening time';
+      } else if (new Date(formData.endsAt) <= new Date()) {
+        newErrors.endsAt = 'Closing time must be in the future';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -84,7 +196,25 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
         topicCount: formData.topicCount,
         topicDuration: formData.topicDuration,
         interviewMode: formData.interviewMode,
+        interviewLanguage: formData.interviewLanguage,
         assignmentInfo: formData.assignmentInfo.trim() || undefined,
+        rubric: formData.rubricCriteria.length > 0
+          ? { criteria: formData.rubricCriteria }
+          : undefined,
+        requireTopicApproval: formData.requireTopicApproval,
+        questionBank: formData.bankQuestions.length > 0
+          ? {
+              questions: formData.bankQuestions.map((q) => ({
+                text: q.text.trim(),
+                required: q.required,
+                keywords: q.keywords.map((k) => k.trim()).filter(Boolean),
+              })),
+            }
+          : undefined,
+        pauseBudget: formData.pauseBudget,
+        organizationId: formData.organizationId || undefined,
+        startsAt: toIsoTime(formData.startsAt),
+        endsAt: toIsoTime(formData.endsAt),
       });
 
       const newSession: Session = {
@@ -95,6 +225,12 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
         topicCount: formData.topicCount,
         topicDuration: formData.topicDuration,
         interviewMode: formData.interviewMode,
+        interviewLanguage: formData.interviewLanguage,
+        requireTopicApproval: formData.requireTopicApproval,
+        pauseBudget: formData.pauseBudget,
+        startsAt: toIsoTime(formData.startsAt),
+        endsAt: toIsoTime(formData.endsAt),
+        accessRole: 'owner',
         createdAt: new Date().toISOString(),
       };
 
@@ -114,6 +250,7 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
 
   const handleClose = () => {
     setFormData(initialFormData);
+    setTemplateId('');
     setErrors({});
     setApiError(null);
     onClose();
@@ -123,7 +260,7 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
     const value =
-      field === 'topicCount' || field === 'topicDuration'
+      field === 'topicCount' || field === 'topicDuration' || field === 'pauseBudget'
         ? parseInt(e.target.value, 10) || 0
         : e.target.value;
 
@@ -151,6 +288,40 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
         )}
 
         <div className="space-y-4">
+          {/* Template */}
+          {templates.length > 0 && (
+            <div className="w-full">
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                Start from Template
+              </label>
+              <div className="flex items-center gap-2">
+                <select
+                  className="w-full px-3 py-2 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  value={templateId}
+                  onChange={(e) => applyTemplate(e.target.value)}
+                >
+                  <option value="">Blank session</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                      {!template.isOwner && ` (${template.ownerName})`}
+                    </option>
+                  ))}
+                </select>
+                {selectedTemplate?.isOwner && (
+                  <Button type="button" variant="secondary" size="sm" onClick={handleDeleteTemplate}>
+                    Delete
+                  </Button>
+                )}
+              </div>
+              {selectedTemplate?.organization && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Shared with {selectedTemplate.organization.name}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Title */}
           <Input
             label="Session Title"
@@ -176,6 +347,30 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
             />
           </div>
 
+          {/* Organization */}
+          {organizations.length > 0 && (
+            <div className="w-full">
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                Organization
+              </label>
+              <select
+                className="w-full px-3 py-2 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                value={formData.organizationId}
+                onChange={handleInputChange('organizationId')}
+              >
+                <option value="">Personal (only me and people I share with)</option>
+                {organizations.map((organization) => (
+                  <option key={organization.id} value={organization.id}>
+                    {organization.name}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Organization admins can view sessions in their organization
+              </p>
+            </div>
+          )}
+
           {/* Topic Settings */}
           <div className="grid grid-cols-2 gap-4">
             <div className="w-full">
@@ -187,7 +382,7 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
                 value={formData.topicCount}
                 onChange={handleInputChange('topicCount')}
               >
-                {[1, 2, 3, 4, 5].map((n) => (
+                {Array.from({ length: MAX_TOPICS }, (_, i) => i + 1).map((n) => (
                   <option key={n} value={n}>
                     {n} topic{n > 1 ? 's' : ''}
                   </option>
@@ -217,9 +412,37 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
               {errors.topicDuration && (
                 <p className="mt-1.5 text-sm text-red-600">{errors.topicDuration}</p>
               )}
+              <p className="mt-1 text-xs text-gray-500">
+                Average per topic; core topics get more time than minor ones
+              </p>
             </div>
           </div>
 
+          {/* Schedule */}
+          <div className="w-full">
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                type="datetime-local"
+                label="Opens at"
+                value={formData.startsAt}
+                onChange={handleInputChange('startsAt')}
+                error={errors.startsAt}
+              />
+              <Input
+                type="datetime-local"
+                label="Closes at"
+                value={formData.endsAt}
+                min={formData.startsAt || undefined}
+                onChange={handleInputChange('endsAt')}
+                error={errors.endsAt}
+              />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Optional. The session opens and closes itself at these times; leave empty to do it by hand.
+              Students can&apos;t join after closing, and interviews still running finish their current topic
+            </p>
+          </div>
+
           {/* Assignment Info */}
           <div className="w-full">
             <label className="block text-sm font-medium text-gray-700 mb-1.5">
@@ -237,6 +460,91 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
             </p>
           </div>
 
+          {/* Rubric */}
+          <div className="w-full">
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+              평가 루브릭 <span className="text-gray-400 text-xs">(선택)</span>
+            </label>
+            <RubricEditor
+              criteria={formData.rubricCriteria}
+              onChange={(rubricCriteria) => {
+                setFormData((prev) => ({ ...prev, rubricCriteria }));
+                if (errors.rubricCriteria) {
+                  setErrors((prev) => ({ ...prev, rubricCriteria: undefined }));
+                }
+              }}
+            />
+            {errors.rubricCriteria && (
+              <p className="mt-1.5 text-sm text-red-600">{errors.rubricCriteria}</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              루브릭을 지정하면 AI가 기준별로 수준을 판정하고 학생 답변을 근거로 인용합니다
+            </p>
+          </div>
+
+          {/* Question Bank */}
+          <div className="w-full">
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+              질문 은행 <span className="text-gray-400 text-xs">(선택)</span>
+            </label>
+            <QuestionBankEditor
+              questions={formData.bankQuestions}
+              onChange={(bankQuestions) => {
+                setFormData((prev) => ({ ...prev, bankQuestions }));
+                if (errors.bankQuestions) {
+                  setErrors((prev) => ({ ...prev, bankQuestions: undefined }));
+                }
+              }}
+            />
+            {errors.bankQuestions && (
+              <p className="mt-1.5 text-sm text-red-600">{errors.bankQuestions}</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              필수 질문은 그대로 모든 학생에게 출제되고, 나머지는 AI가 학생 답변에 맞게 변형해 활용합니다.
+              키워드가 주제와 일치하면 해당 주제에서 출제됩니다
+            </p>
+          </div>
+
+          {/* Topic Approval */}
+          <label className="flex items-start gap-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:border-gray-300">
+            <input
+              type="checkbox"
+              checked={formData.requireTopicApproval}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, requireTopicApproval: e.target.checked }))
+              }
+              className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-900">주제 승인 후 인터뷰 시작</span>
+              <span className="block text-xs text-gray-500">
+                AI가 분석한 주제를 교사가 검토·수정하고 승인해야 학생이 인터뷰를 시작할 수 있습니다
+              </span>
+            </span>
+          </label>
+
+          {/* Student Pause */}
+          <div className="w-full">
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+              Student Pause
+            </label>
+            <select
+              className="w-full px-3 py-2 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              value={formData.pauseBudget}
+              onChange={handleInputChange('pauseBudget')}
+            >
+              <option value={0}>Off</option>
+              <option value={60}>1 minute per interview</option>
+              <option value={120}>2 minutes per interview</option>
+              <option value={180}>3 minutes per interview</option>
+              <option value={300}>5 minutes per interview</option>
+              <option value={600}>10 minutes per interview</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              학생이 화재 대피나 소음 등으로 인터뷰를 일시정지할 수 있는 총 시간입니다. 일시정지 중에는 주제 시간이 줄지 않습니다
+            </p>
+          </div>
+
           {/* Interview Mode */}
           <div className="w-full">
             <label className="block text-sm font-medium text-gray-700 mb-1.5">
@@ -273,6 +581,27 @@ export const CreateSessionModal: React.FC<CreateSessionModalProps> = ({
               ))}
             </div>
           </div>
+
+          {/* Interview Language */}
+          <div className="w-full">
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+              Interview Language <span className="text-red-500">*</span>
+            </label>
+            <select
+              className="w-full px-3 py-2 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              value={formData.interviewLanguage}
+              onChange={handleInputChange('interviewLanguage')}
+            >
+              {LOCALES.map((locale) => (
+                <option key={locale} value={locale}>
+                  {LOCALE_NAMES[locale]}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Topics, questions, speech and the student&apos;s evaluation use this language. Student pages are shown in it too
+            </p>
+          </div>
         </div>
 
         <ModalFooter>
@@ -0,0 +1,216 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Modal, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { ApiError, EvaluationReviewInput, ReviewVerdict } from '@/lib/api';
+
+export const VERDICT_OPTIONS: Array<{ value: ReviewVerdict; label: string; description: string; className: string }> = [
+  {
+    value: 'verified',
+    label: 'Verified',
+    description: '학생이 과제를 직접 이해하고 작성했음을 확인했습니다',
+    className: 'text-green-700 bg-green-50',
+  },
+  {
+    value: 'needs_follow_up',
+    label: 'Needs follow-up',
+    description: '대면 면담 등 추가 확인이 필요합니다',
+    className: 'text-amber-700 bg-amber-50',
+  },
+  {
+    value: 'suspected',
+    label: 'Suspected',
+    description: '대필이나 AI 작성 등 부정행위가 의심됩니다',
+    className: 'text-red-700 bg-red-50',
+  },
+];
+
+const textareaClass =
+  'w-full px-3 py-2 text-gray-900 placeholder-gray-400 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none';
+
+// Strengths and weaknesses are edited one per line
+function toLines(items: string[]): string {
+  return items.join('\n');
+}
+
+function fromLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export interface EvaluationReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  studentName: string;
+  // Current review, or the AI evaluation to start from (no score when the AI evaluation failed)
+  initial: Omit<EvaluationReviewInput, 'score'> & { score: number | null };
+  onSave: (review: EvaluationReviewInput) => Promise<void>;
+}
+
+/**
+ * Adjust a participant's score and feedback, add private notes and record a verdict
+ */
+export const EvaluationReviewModal: React.FC<EvaluationReviewModalProps> = ({
+  isOpen,
+  onClose,
+  studentName,
+  initial,
+  onSave,
+}) => {
+  const [score, setScore] = useState('');
+  const [strengths, setStrengths] = useState('');
+  const [weaknesses, setWeaknesses] = useState('');
+  const [notes, setNotes] = useState('');
+  const [verdict, setVerdict] = useState<ReviewVerdict | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setScore(initial.score === null ? '' : String(initial.score));
+      setStrengths(toLines(initial.strengths));
+      setWeaknesses(toLines(initial.weaknesses));
+      setNotes(initial.notes);
+      setVerdict(initial.verdict);
+      setError(null);
+    }
+  }, [isOpen, initial]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = Number(score);
+    if (score.trim() === '' || !Number.isInteger(value) || value < 0 || value > 100) {
+      setError('Score must be a whole number from 0 to 100');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await onSave({
+        score: value,
+        strengths: fromLines(strengths),
+        weaknesses: fromLines(weaknesses),
+        notes: notes.trim(),
+        verdict,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to save review');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Review Evaluation" description={studentName} size="md">
+      <form onSubmit={handleSubmit}>
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <Input
+            label="Final Score"
+            type="number"
+            min={0}
+            max={100}
+            step={1}
+            value={score}
+            onChange={(e) => setScore(e.target.value)}
+            helperText="AI 평가 점수 대신 보고서와 내보내기에 사용됩니다"
+            required
+          />
+
+          <div className="w-full">
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Strengths</label>
+            <textarea
+              className={textareaClass}
+              rows={3}
+              placeholder="한 줄에 하나씩 입력하세요"
+              value={strengths}
+              onChange={(e) => setStrengths(e.target.value)}
+            />
+          </div>
+
+          <div className="w-full">
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Areas for Improvement</label>
+            <textarea
+              className={textareaClass}
+              rows={3}
+              placeholder="한 줄에 하나씩 입력하세요"
+              value={weaknesses}
+              onChange={(e) => setWeaknesses(e.target.value)}
+            />
+          </div>
+
+          <div className="w-full">
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Verdict</label>
+            <div className="space-y-2">
+              {VERDICT_OPTIONS.map((option) => (
+                <label
+                  key={option.value}
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${
+                    verdict === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="verdict"
+                    checked={verdict === option.value}
+                    onChange={() => setVerdict(option.value)}
+                    className="mt-0.5 h-4 w-4 border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            {verdict && (
+              <button
+                type="button"
+                onClick={() => setVerdict(null)}
+                className="mt-1 text-xs text-blue-600 hover:text-blue-700"
+              >
+                Clear verdict
+              </button>
+            )}
+          </div>
+
+          <div className="w-full">
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Private Notes</label>
+            <textarea
+              className={textareaClass}
+              rows={3}
+              maxLength={5000}
+              placeholder="교사만 볼 수 있습니다 (보고서와 내보내기에 포함되지 않음)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <ModalFooter>
+          <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" isLoading={isSaving}>
+            Save Review
+          </Button>
+        </ModalFooter>
+      </form>
+    </Modal>
+  );
+};
+
+export default EvaluationReviewModal;
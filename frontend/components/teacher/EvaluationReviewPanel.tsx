@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp, Loader2, Lock } from 'lucide-react';
+import { EvaluationReviewModal, EvaluationReviewModalProps, VERDICT_OPTIONS } from '@/components/teacher/EvaluationReviewModal';
+import { api, EvaluationReviewData, EvaluationReviewInput, ReviewVerdict } from '@/lib/api';
+
+export interface EvaluationReviewPanelProps {
+  token: string;
+  sessionId: string;
+  participantId: string;
+  studentName: string;
+  readOnly?: boolean;
+}
+
+function VerdictBadge({ verdict }: { verdict: ReviewVerdict }) {
+  const option = VERDICT_OPTIONS.find((o) => o.value === verdict);
+  if (!option) return null;
+  return <span className={`px-2 py-0.5 text-xs rounded ${option.className}`}>{option.label}</span>;
+}
+
+function FeedbackList({ title, items, className }: { title: string; items: string[]; className: string }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <h4 className={`font-medium mb-2 ${className}`}>{title}</h4>
+      <ul className="space-y-1">
+        {items.map((item, i) => (
+          <li key={i} className="text-sm text-gray-700 flex items-start gap-2">
+            <span className="mt-0.5">•</span>
+            {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// The teacher owns the final grade; the AI evaluation below it is kept as it was written
+export const EvaluationReviewPanel: React.FC<EvaluationReviewPanelProps> = ({
+  token,
+  sessionId,
+  participantId,
+  studentName,
+  readOnly = false,
+}) => {
+  const [data, setData] = useState<EvaluationReviewData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setData(await api.sessions.participantReview(token, sessionId, participantId));
+    } catch (err) {
+      console.error('Failed to load evaluation review:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, sessionId, participantId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    load();
+  }, [load]);
+
+  // The modal starts from the current review, or from the AI evaluation
+  const initial = useMemo<EvaluationReviewModalProps['initial']>(() => {
+    if (data?.review) return data.review;
+    return {
+      score: data?.aiSummary?.score ?? null,
+      strengths: data?.aiSummary?.strengths ?? [],
+      weaknesses: data?.aiSummary?.weaknesses ?? [],
+      notes: '',
+      verdict: null,
+    };
+  }, [data]);
+
+  const handleSave = async (review: EvaluationReviewInput) => {
+    await api.sessions.updateParticipantReview(token, sessionId, participantId, review);
+    await load();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!data) return null;
+
+  const { aiSummary, review, history } = data;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+      {aiSummary?.fallback && !review && (
+        <p className="flex items-start gap-2 p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          AI 평가에 실패해 점수가 없습니다. 직접 채점해 주세요.
+        </p>
+      )}
+
+      {review ? (
+        <>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <span className="font-semibold text-lg">{review.score}/100</span>
+              {aiSummary && aiSummary.score !== review.score && (
+                <span className="text-sm text-gray-500">
+                  {aiSummary.score == null ? 'AI not graded' : `AI ${aiSummary.score}`}
+                </span>
+              )}
+              {review.verdict && <VerdictBadge verdict={review.verdict} />}
+            </div>
+            {!readOnly && (
+              <button onClick={() => setIsEditing(true)} className="text-sm text-blue-600 hover:text-blue-700">
+                Edit
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            Reviewed by {review.reviewedBy} · {new Date(review.reviewedAt).toLocaleString('ko-KR')}
+          </p>
+
+          <FeedbackList title="Strengths" items={review.strengths} className="text-green-700" />
+          <FeedbackList title="Areas for Improvement" items={review.weaknesses} className="text-orange-700" />
+
+          {review.notes && (
+            <div>
+              <h4 className="flex items-center gap-1 font-medium text-gray-700 mb-2">
+                <Lock className="w-3.5 h-3.5" />
+                Private Notes
+              </h4>
+              <p className="text-sm text-gray-600 bg-white p-3 rounded-lg border border-gray-200 whitespace-pre-wrap">
+                {review.notes}
+              </p>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-gray-600">
+            {!aiSummary
+              ? 'No AI evaluation. Grade this interview manually.'
+              : aiSummary.score == null
+                ? 'Not graded yet.'
+                : 'Not reviewed yet. The AI evaluation is the current grade.'}
+          </p>
+          {!readOnly && (
+            <button
+              onClick={() => setIsEditing(true)}
+              className="px-3 py-1.5 text-sm text-white bg-blue-500 rounded-lg hover:bg-blue-600 transition-colors whitespace-nowrap"
+            >
+              Review
+            </button>
+          )}
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowHistory((show) => !show)}
+            className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+          >
+            {showHistory ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+            Review history ({history.length})
+          </button>
+          {showHistory && (
+            <ol className="mt-2 space-y-1.5 text-xs text-gray-600">
+              {aiSummary && (
+                <li className="border-l-2 border-gray-300 pl-2">
+                  AI evaluation · {aiSummary.score == null ? 'not graded' : `${aiSummary.score}/100`}
+                </li>
+              )}
+              {history.map((entry) => (
+                <li key={entry.id} className="border-l-2 border-blue-300 pl-2">
+                  <span className="flex flex-wrap items-center gap-1.5">
+                    {new Date(entry.createdAt).toLocaleString('ko-KR')} · {entry.teacherName ?? entry.review.reviewedBy} ·{' '}
+                    {entry.review.score}/100
+                    {entry.review.verdict && <VerdictBadge verdict={entry.review.verdict} />}
+                  </span>
+                  {entry.review.notes && <span className="block italic">{entry.review.notes}</span>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      <EvaluationReviewModal
+        isOpen={isEditing}
+        onClose={() => setIsEditing(false)}
+        studentName={studentName}
+        initial={initial}
+        onSave={handleSave}
+      />
+    </div>
+  );
+};
+
+export default EvaluationReviewPanel;
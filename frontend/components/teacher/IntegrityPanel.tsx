@@ -0,0 +1,214 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Info, ShieldCheck, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import { api, AnswerTelemetry, IntegrityReport } from '@/lib/api';
+
+type IntegrityFlag = IntegrityReport['flags'][number];
+
+export interface IntegrityPanelProps {
+  token: string;
+  sessionId: string;
+  participantId: string;
+  // Student turns, to quote the answers a flag points at
+  conversations: Array<{
+    id?: number;
+    topicIndex: number;
+    role: 'ai' | 'student';
+    content: string;
+    telemetry?: AnswerTelemetry | null;
+  }>;
+}
+
+const FLAG_TITLES: Record<IntegrityFlag['type'], string> = {
+  slow_answer: 'Long pauses before answering',
+  fast_answer: 'Answers typed implausibly fast',
+  verbatim_copy: 'Answers copied from the submission',
+  pasted_answer: 'Text pasted into answers',
+  low_keystrokes: 'Answers entered without typing',
+  focus_loss: 'Left the interview while answering',
+  skipped_topics: 'Topics skipped without an answer',
+  disconnects: 'Repeated disconnects',
+};
+
+function formatSeconds(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+// What the browser reported for the answer, for the telemetry-based flags
+function telemetryDetail(type: IntegrityFlag['type'], telemetry: AnswerTelemetry): string {
+  switch (type) {
+    case 'pasted_answer':
+      return ` · ${telemetry.pastedChars} chars pasted in ${telemetry.pasteCount} paste(s)`;
+    case 'low_keystrokes':
+      return ` · ${telemetry.keystrokes} key presses`;
+    case 'focus_loss':
+      return ` · away ${telemetry.focusLossCount} time(s), ${formatSeconds(telemetry.focusLossMs / 1000)}`;
+    default:
+      return '';
+  }
+}
+
+function truncate(text: string, length = 160): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+// Signals are evidence for the teacher to review, not a verdict, so each flag shows its turns
+export const IntegrityPanel: React.FC<IntegrityPanelProps> = ({ token, sessionId, participantId, conversations }) => {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showTimings, setShowTimings] = useState(false);
+
+  const turnCount = conversations.length;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    api.sessions
+      .participantIntegrity(token, sessionId, participantId)
+      .then((result) => {
+        if (!cancelled) setReport(result);
+      })
+      .catch((err) => console.error('Failed to load integrity signals:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, sessionId, participantId, turnCount]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!report) return null;
+
+  const timingById = new Map(report.timings.map((t) => [t.conversationId, t]));
+  const answerById = new Map(
+    conversations.filter((c) => c.role === 'student' && c.id !== undefined).map((c) => [c.id, c])
+  );
+
+  const describe = (flag: IntegrityFlag): string => {
+    switch (flag.type) {
+      case 'slow_answer':
+        return `Over ${formatSeconds(report.slowAnswerThresholdSeconds ?? 0)} from question to answer (median ${formatSeconds(report.medianLatencySeconds ?? 0)}).`;
+      case 'fast_answer':
+        return 'Long chat answers submitted faster than typing speed allows, counting time to read the question.';
+      case 'verbatim_copy':
+        return `${report.verbatimMatches.length} passage(s) match the submitted file word for word.`;
+      case 'pasted_answer':
+        return 'Chat answers where a substantial amount of text was pasted instead of typed.';
+      case 'low_keystrokes':
+        return 'Far fewer key presses than characters, without a paste to explain it.';
+      case 'focus_loss':
+        return 'The interview tab was hidden or the window lost focus while these answers were written.';
+      case 'skipped_topics':
+        return report.skippedTopics.map((t) => `${t.index + 1}. ${t.title}`).join(', ');
+      case 'disconnects':
+        return `Disconnected ${report.disconnectCount} times during the interview.`;
+    }
+  };
+
+  const evidence = (flag: IntegrityFlag) => {
+    if (flag.type === 'verbatim_copy') {
+      return report.verbatimMatches.map((match, i) => (
+        <li key={i} className="text-xs text-gray-600 italic border-l-2 border-red-300 pl-2">
+          Topic {match.topicIndex + 1}: &ldquo;{truncate(match.excerpt)}&rdquo;
+        </li>
+      ));
+    }
+
+    return flag.conversationIds.map((conversationId) => {
+      const answer = answerById.get(conversationId);
+      const timing = timingById.get(conversationId);
+      if (!answer) return null;
+      return (
+        <li key={conversationId} className="text-xs text-gray-600 border-l-2 border-gray-300 pl-2">
+          <span className="font-medium not-italic">
+            Topic {answer.topicIndex + 1}
+            {timing && ` · ${formatSeconds(timing.latencySeconds)} · ${timing.characters} chars`}
+            {answer.telemetry && telemetryDetail(flag.type, answer.telemetry)}
+          </span>
+          <span className="block italic">&ldquo;{truncate(answer.content)}&rdquo;</span>
+        </li>
+      );
+    });
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+      {report.flags.length === 0 ? (
+        <p className="flex items-center gap-2 text-sm text-green-700">
+          <ShieldCheck className="w-4 h-4" />
+          No unusual patterns found.
+        </p>
+      ) : (
+        report.flags.map((flag) => (
+          <div
+            key={flag.type}
+            className={`bg-white p-3 rounded-lg border ${
+              flag.severity === 'warning' ? 'border-red-200' : 'border-amber-200'
+            }`}
+          >
+            <p className="flex items-center gap-2 text-sm font-medium text-gray-900">
+              {flag.severity === 'warning' ? (
+                <AlertTriangle className="w-4 h-4 text-red-500" />
+              ) : (
+                <Info className="w-4 h-4 text-amber-500" />
+              )}
+              {FLAG_TITLES[flag.type]}
+            </p>
+            <p className="mt-1 text-sm text-gray-600">{describe(flag)}</p>
+            {(flag.conversationIds.length > 0 || flag.type === 'verbatim_copy') && (
+              <ul className="mt-2 space-y-1.5">{evidence(flag)}</ul>
+            )}
+          </div>
+        ))
+      )}
+
+      {report.timings.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowTimings((show) => !show)}
+            className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+          >
+            {showTimings ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+            Answer timing ({report.timings.length} answers, median{' '}
+            {formatSeconds(report.medianLatencySeconds ?? 0)})
+          </button>
+          {showTimings && (
+            <table className="mt-2 w-full text-xs text-gray-600">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="font-normal pb-1">Topic</th>
+                  <th className="font-normal pb-1">Time to answer</th>
+                  <th className="font-normal pb-1">Length</th>
+                  <th className="font-normal pb-1">Chars/s</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.timings.map((timing) => (
+                  <tr key={timing.conversationId}>
+                    <td>{timing.topicIndex + 1}</td>
+                    <td>{formatSeconds(timing.latencySeconds)}</td>
+                    <td>{timing.characters}</td>
+                    <td>{timing.charsPerSecond}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IntegrityPanel;
@@ -4,26 +4,55 @@ import { useState, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { StatusBadge, BadgeStatus } from '@/components/ui/StatusBadge';
 import { Modal } from '@/components/ui/Modal';
-import { Download, FileText, Mic, MessageSquare, X, ChevronDown, ChevronUp, BookOpen } from 'lucide-react';
+import { TopicReviewPanel } from '@/components/teacher/TopicReviewPanel';
+import { ConversationAudio } from '@/components/teacher/ConversationAudio';
+import { IntegrityPanel } from '@/components/teacher/IntegrityPanel';
+import { EvaluationReviewPanel } from '@/components/teacher/EvaluationReviewPanel';
+import { AccommodationsModal, NO_ACCOMMODATIONS, accommodationLabels } from '@/components/teacher/AccommodationsModal';
+import { Download, FileText, Mic, MessageSquare, X, ChevronDown, ChevronUp, BookOpen, Printer } from 'lucide-react';
+import { api, ApiError, AnswerTelemetry, FollowUpPlan, StudentPauseStatus } from '@/lib/api';
+import { saveBlob } from '@/lib/utils';
+import type { Accommodations, TopicWeight } from '@/lib/store';
 
 interface Conversation {
+  id?: number;
   topicIndex: number;
   turnIndex: number;
   role: 'ai' | 'student';
   content: string;
+  bankQuestionId?: string | null;
+  followUp?: FollowUpPlan | null;
+  hasAudio?: boolean;
+  telemetry?: AnswerTelemetry | null;
   createdAt: string;
 }
 
 interface Topic {
   title: string;
   description?: string;
+  weight?: TopicWeight;
+  duration?: number;
 }
 
-interface Summary {
+const TOPIC_WEIGHT_LABELS: Record<TopicWeight, string> = { 1: '세부', 2: '보통', 3: '핵심' };
+
+interface CriterionScore {
+  name: string;
+  weight: number;
+  level: string;
   score: number;
+  rationale: string;
+  evidence: string[];
+}
+
+interface Summary {
+  // null = not graded (the AI evaluation failed)
+  score: number | null;
   strengths: string[];
   weaknesses: string[];
   overallComment: string;
+  criteria?: CriterionScore[];
+  topics?: Array<{ index: number; title: string; weight: TopicWeight; score: number }>;
 }
 
 interface ParticipantData {
@@ -35,11 +64,15 @@ interface ParticipantData {
   submittedFileName: string | null;
   submittedFileUrl: string | null;
   analyzedTopics: Topic[] | null;
+  topicsApprovedAt: string | null;
   summary: Summary | null;
   registeredAt: string;
   fileSubmittedAt: string | null;
   interviewStartedAt: string | null;
   interviewEndedAt: string | null;
+  accommodations?: Accommodations;
+  // null until the interview has started
+  studentPause?: StudentPauseStatus | null;
   conversations: Conversation[];
 }
 
@@ -47,10 +80,17 @@ interface ParticipantDetailProps {
   participant: ParticipantData;
   sessionId: string;
   token: string;
+  requireTopicApproval: boolean;
+  // View-only access: topics are shown but can't be edited or approved
+  readOnly?: boolean;
+  onTopicsUpdated: () => void;
+  onAccommodationsUpdated?: () => void;
   onClose: () => void;
 }
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4010';
+function formatSeconds(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
 
 function formatTime(dateString: string): string {
   const date = new Date(dateString);
@@ -60,14 +100,95 @@ function formatTime(dateString: string): string {
   });
 }
 
-export function ParticipantDetail({ participant, sessionId, token, onClose }: ParticipantDetailProps) {
+// Adaptive follow-ups: how the previous answer was judged and what the question set out to do
+const ASSESSMENT_LABELS: Record<FollowUpPlan['assessment'], { label: string; className: string }> = {
+  correct: { label: '충실한 답변', className: 'text-green-700 bg-green-50' },
+  vague: { label: '모호한 답변', className: 'text-amber-700 bg-amber-50' },
+  incorrect: { label: '잘못된 답변', className: 'text-red-700 bg-red-50' },
+  contradicts_submission: { label: '제출물과 불일치', className: 'text-red-700 bg-red-50' },
+};
+
+const MOVE_LABELS: Record<FollowUpPlan['move'], string> = {
+  probe_deeper: '더 깊이 질문',
+  ask_example: '구체적 예시 요청',
+  challenge_contradiction: '불일치 확인',
+  move_on: '다른 측면으로 이동',
+};
+
+const DIFFICULTY_LABELS: Record<FollowUpPlan['difficulty'], string> = {
+  basic: '기본',
+  standard: '보통',
+  advanced: '심화',
+};
+
+// Chat answers typed with fewer key presses than this share of their (non-pasted) length
+// (same thresholds as the low_keystrokes integrity flag)
+const LOW_KEYSTROKE_RATIO = 0.5;
+const LOW_KEYSTROKE_MIN_CHARS = 100;
+
+// Transcript badges for how a chat answer was written; the Integrity Signals section weighs them
+function telemetryBadges(content: string, telemetry: AnswerTelemetry): Array<{ label: string; title: string }> {
+  const badges: Array<{ label: string; title: string }> = [];
+
+  if (telemetry.pasteCount > 0) {
+    badges.push({
+      label: `붙여넣기 ${telemetry.pastedChars}자`,
+      title: `Pasted ${telemetry.pasteCount} time(s), ${telemetry.pastedChars} characters in total`,
+    });
+  }
+
+  if (telemetry.focusLossCount > 0) {
+    badges.push({
+      label: `화면 이탈 ${telemetry.focusLossCount}회 · ${Math.round(telemetry.focusLossMs / 1000)}초`,
+      title: 'Switched tabs or windows while writing this answer',
+    });
+  }
+
+  const typedLength = content.length - telemetry.pastedChars;
+  if (typedLength >= LOW_KEYSTROKE_MIN_CHARS && telemetry.keystrokes < typedLength * LOW_KEYSTROKE_RATIO) {
+    badges.push({
+      label: `입력 ${telemetry.keystrokes}회 / ${typedLength}자`,
+      title: 'Fewer key presses than typed characters (dropped, autofilled or injected text)',
+    });
+  }
+
+  return badges;
+}
+
+export function ParticipantDetail({
+  participant,
+  sessionId,
+  token,
+  requireTopicApproval,
+  readOnly = false,
+  onTopicsUpdated,
+  onAccommodationsUpdated,
+  onClose,
+}: ParticipantDetailProps) {
   const [expandedTopics, setExpandedTopics] = useState<number[]>([]);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isReportLoading, setIsReportLoading] = useState(false);
   const [descriptionModalTopic, setDescriptionModalTopic] = useState<Topic | null>(null);
+  const [showAccommodations, setShowAccommodations] = useState(false);
+
+  const accommodations = participant.accommodations ?? NO_ACCOMMODATIONS;
+  const accommodationBadges = accommodationLabels(accommodations);
+
+  const handleSaveAccommodations = async (value: Accommodations) => {
+    await api.sessions.updateParticipantAccommodations(token, sessionId, participant.id, value);
+    onAccommodationsUpdated?.();
+  };
 
   const showSummary = participant.summary &&
     participant.status === 'completed';
 
+  // Abandoned interviews have no AI evaluation but can be graded by hand
+  const showReview = participant.status === 'completed' || participant.status === 'abandoned';
+
+  // Topics can be reviewed between upload and interview start
+  const showTopicReview = !readOnly && participant.status === 'file_submitted' &&
+    !!participant.analyzedTopics && participant.analyzedTopics.length > 0;
+
   // Group conversations by topic
   const groupedByTopic = useMemo(() => {
     return participant.conversations.reduce((acc, conv) => {
@@ -100,47 +221,59 @@ export function ParticipantDetail({ participant, sessionId, token, onClose }: Pa
 
     setIsDownloading(true);
     try {
-      const response = await fetch(
-        `${API_URL}/api/sessions/${sessionId}/participants/${participant.id}/download`,
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || 'Failed to download file');
-      }
-
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
+      // The signed URL is served as an attachment under the original file name
+      const { url } = await api.sessions.participantFileUrl(token, sessionId, participant.id);
       const a = document.createElement('a');
       a.href = url;
-      a.download = participant.submittedFileName || 'download.pdf';
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
-      window.URL.revokeObjectURL(url);
     } catch (error) {
       console.error('Download error:', error);
-      alert(error instanceof Error ? error.message : 'Failed to download file');
+      alert(error instanceof ApiError ? error.message : 'Failed to download file');
     } finally {
       setIsDownloading(false);
     }
   };
 
+  const handleReport = async () => {
+    if (isReportLoading) return;
+
+    setIsReportLoading(true);
+    try {
+      const { blob, filename } = await api.sessions.participantReport(token, sessionId, participant.id);
+      saveBlob(blob, filename || 'report.pdf');
+    } catch (error) {
+      console.error('Report error:', error);
+      alert(error instanceof ApiError ? error.message : 'Failed to generate report');
+    } finally {
+      setIsReportLoading(false);
+    }
+  };
+
   return (
     <div className="h-full flex flex-col bg-white">
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-gray-200">
         <h2 className="text-lg font-semibold">Participant Details</h2>
-        <button
-          onClick={onClose}
-          className="p-1 hover:bg-gray-100 rounded-full transition-colors"
-          aria-label="Close"
-        >
-          <X className="w-5 h-5 text-gray-500" />
-        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleReport}
+            disabled={isReportLoading}
+            className="flex items-center gap-1 px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+            title="Download PDF report"
+          >
+            <Printer className="w-4 h-4" />
+            {isReportLoading ? 'Generating...' : 'PDF'}
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded-full transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
       </div>
 
       {/* Content - Scrollable */}
@@ -181,11 +314,66 @@ export function ParticipantDetail({ participant, sessionId, token, onClose }: Pa
                 )}
               </span>
             </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-600">Accommodations</span>
+              <span className="flex flex-wrap items-center justify-end gap-1">
+                {accommodationBadges.length === 0 ? (
+                  <span className="font-medium">-</span>
+                ) : (
+                  accommodationBadges.map((label) => (
+                    <span key={label} className="px-2 py-0.5 text-xs text-purple-700 bg-purple-50 rounded">
+                      {label}
+                    </span>
+                  ))
+                )}
+                {!readOnly && (
+                  <button
+                    onClick={() => setShowAccommodations(true)}
+                    className="ml-1 text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    Edit
+                  </button>
+                )}
+              </span>
+            </div>
+            {participant.studentPause && participant.studentPause.budget > 0 && (
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600">Student Pause</span>
+                <span className="flex items-center gap-2 font-medium">
+                  {participant.studentPause.paused && (
+                    <span className="px-2 py-0.5 text-xs text-amber-700 bg-amber-50 rounded">Paused now</span>
+                  )}
+                  {formatSeconds(participant.studentPause.used)} / {formatSeconds(participant.studentPause.budget)}
+                  <span className="text-sm font-normal text-gray-500">
+                    ({participant.studentPause.count} {participant.studentPause.count === 1 ? 'pause' : 'pauses'})
+                  </span>
+                </span>
+              </div>
+            )}
           </div>
         </section>
 
+        {/* Topic Review Section */}
+        {showTopicReview && participant.analyzedTopics && (
+          <section>
+            <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">
+              Topic Review ({participant.analyzedTopics.length})
+            </h3>
+            <TopicReviewPanel
+              key={`${participant.id}:${JSON.stringify(participant.analyzedTopics)}`}
+              sessionId={sessionId}
+              participantId={participant.id}
+              token={token}
+              topics={participant.analyzedTopics}
+              topicsApprovedAt={participant.topicsApprovedAt}
+              requireApproval={requireTopicApproval}
+              onUpdated={onTopicsUpdated}
+            />
+          </section>
+        )}
+
         {/* Topics & Conversations Section */}
-        {participant.analyzedTopics && participant.analyzedTopics.length > 0 && (
+        {!showTopicReview && participant.analyzedTopics && participant.analyzedTopics.length > 0 && (
           <section>
             <div className="flex items-center justify-between mb-3">
               <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide">
@@ -214,6 +402,14 @@ export function ParticipantDetail({ participant, sessionId, token, onClose }: Pa
                           {index + 1}
                         </span>
                         <span className="font-medium text-gray-900">{topic.title}</span>
+                        {topic.weight && topic.weight !== 2 && (
+                          <span className="px-1.5 py-0.5 text-xs rounded bg-blue-50 text-blue-700">
+                            {TOPIC_WEIGHT_LABELS[topic.weight]}
+                          </span>
+                        )}
+                        {topic.duration && (
+                          <span className="text-xs text-gray-500">{topic.duration / 60}분</span>
+                        )}
                       </div>
                       <div className="flex items-center gap-2">
                         <span className="text-xs text-gray-500">{topicConversations.length}개 대화</span>
@@ -261,6 +457,21 @@ export function ParticipantDetail({ participant, sessionId, token, onClose }: Pa
                                   <span className="font-semibold text-sm">
                                     {conv.role === 'ai' ? '🤖 AI' : `👤 ${participant.studentName}`}
                                   </span>
+                                  {conv.bankQuestionId && (
+                                    <span className="px-1.5 py-0.5 text-xs text-purple-700 bg-purple-50 rounded">
+                                      질문 은행
+                                    </span>
+                                  )}
+                                  {conv.telemetry &&
+                                    telemetryBadges(conv.content, conv.telemetry).map((badge) => (
+                                      <span
+                                        key={badge.label}
+                                        title={badge.title}
+                                        className="px-1.5 py-0.5 text-xs text-amber-700 bg-amber-50 rounded"
+                                      >
+                                        {badge.label}
+                                      </span>
+                                    ))}
                                   <span className="text-xs text-gray-400">
                                     {formatTime(conv.createdAt)}
                                   </span>
@@ -281,12 +492,35 @@ export function ParticipantDetail({ participant, sessionId, token, onClose }: Pa
                                     >
                                       {conv.content}
                                     </ReactMarkdown>
+                                    {conv.followUp && (
+                                      <div className="mt-2 pt-2 border-t border-gray-100 text-xs text-gray-500 not-prose">
+                                        <span
+                                          className={`px-1.5 py-0.5 rounded ${ASSESSMENT_LABELS[conv.followUp.assessment].className}`}
+                                        >
+                                          {ASSESSMENT_LABELS[conv.followUp.assessment].label}
+                                        </span>
+                                        <span className="ml-2">
+                                          → {MOVE_LABELS[conv.followUp.move]} · 난이도 {DIFFICULTY_LABELS[conv.followUp.difficulty]}
+                                        </span>
+                                        {conv.followUp.rationale && (
+                                          <p className="mt-1">{conv.followUp.rationale}</p>
+                                        )}
+                                      </div>
+                                    )}
                                   </div>
                                 ) : (
                                   <div className="text-gray-700 whitespace-pre-wrap text-sm">
                                     {conv.content}
                                   </div>
                                 )}
+                                {conv.hasAudio && conv.id !== undefined && (
+                                  <ConversationAudio
+                                    token={token}
+                                    sessionId={sessionId}
+                                    participantId={participant.id}
+                                    conversationId={conv.id}
+                                  />
+                                )}
                               </div>
                             ))
                           )}
@@ -325,6 +559,39 @@ export function ParticipantDetail({ participant, sessionId, token, onClose }: Pa
           </section>
         )}
 
+        {/* Integrity Signals Section */}
+        {participant.conversations.length > 0 && (
+          <section>
+            <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">
+              Integrity Signals
+            </h3>
+            <IntegrityPanel
+              key={participant.id}
+              token={token}
+              sessionId={sessionId}
+              participantId={participant.id}
+              conversations={participant.conversations}
+            />
+          </section>
+        )}
+
+        {/* Teacher Review Section */}
+        {showReview && (
+          <section>
+            <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">
+              Teacher Review
+            </h3>
+            <EvaluationReviewPanel
+              key={participant.id}
+              token={token}
+              sessionId={sessionId}
+              participantId={participant.id}
+              studentName={participant.studentName}
+              readOnly={readOnly}
+            />
+          </section>
+        )}
+
         {/* AI Summary Section */}
         {showSummary && participant.summary && (
           <section>
@@ -335,25 +602,89 @@ export function ParticipantDetail({ participant, sessionId, token, onClose }: Pa
               {/* Score */}
               <div className="flex items-center gap-3">
                 <span className="text-gray-600">Score</span>
-                <div className="flex items-center gap-2">
-                  <div className="w-32 h-2 bg-gray-200 rounded-full overflow-hidden">
-                    <div
-                      className={`h-full rounded-full ${
-                        participant.summary.score >= 80
-                          ? 'bg-green-500'
-                          : participant.summary.score >= 60
-                          ? 'bg-yellow-500'
-                          : 'bg-red-500'
-                      }`}
-                      style={{ width: `${participant.summary.score}%` }}
-                    />
-                  </div>
-                  <span className="font-semibold text-lg">
-                    {participant.summary.score}/100
+                {participant.summary.score === null ? (
+                  <span className="px-2 py-0.5 text-sm text-amber-700 bg-amber-50 rounded">
+                    Not graded (AI evaluation failed)
                   </span>
-                </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <div className="w-32 h-2 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${
+                          participant.summary.score >= 80
+                            ? 'bg-green-500'
+                            : participant.summary.score >= 60
+                            ? 'bg-yellow-500'
+                            : 'bg-red-500'
+                        }`}
+                        style={{ width: `${participant.summary.score}%` }}
+                      />
+                    </div>
+                    <span className="font-semibold text-lg">
+                      {participant.summary.score}/100
+                    </span>
+                  </div>
+                )}
               </div>
 
+              {/* Rubric Breakdown */}
+              {participant.summary.criteria && participant.summary.criteria.length > 0 && (
+                <div>
+                  <h4 className="font-medium text-gray-700 mb-2">Rubric Breakdown</h4>
+                  <div className="space-y-2">
+                    {participant.summary.criteria.map((criterion, i) => (
+                      <div key={i} className="bg-white p-3 rounded-lg border border-gray-200">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-medium text-gray-900">
+                            {criterion.name}
+                            <span className="ml-1 text-xs text-gray-400">(weight {criterion.weight})</span>
+                          </span>
+                          <span className="text-sm text-gray-700 whitespace-nowrap">
+                            <span className="px-2 py-0.5 mr-2 text-xs rounded bg-blue-50 text-blue-700">
+                              {criterion.level}
+                            </span>
+                            {criterion.score}/100
+                          </span>
+                        </div>
+                        {criterion.rationale && (
+                          <p className="mt-1.5 text-sm text-gray-600">{criterion.rationale}</p>
+                        )}
+                        {criterion.evidence.length > 0 && (
+                          <ul className="mt-2 space-y-1">
+                            {criterion.evidence.map((quote, j) => (
+                              <li
+                                key={j}
+                                className="text-xs text-gray-600 italic border-l-2 border-gray-300 pl-2"
+                              >
+                                &ldquo;{quote}&rdquo;
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Topic Scores (weighted by topic importance) */}
+              {participant.summary.topics && participant.summary.topics.length > 0 && (
+                <div>
+                  <h4 className="font-medium text-gray-700 mb-2">Topic Scores</h4>
+                  <div className="space-y-1">
+                    {participant.summary.topics.map((topic) => (
+                      <div key={topic.index} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="text-gray-900">
+                          {topic.index + 1}. {topic.title}
+                          <span className="ml-1 text-xs text-gray-400">({TOPIC_WEIGHT_LABELS[topic.weight]})</span>
+                        </span>
+                        <span className="text-gray-700 whitespace-nowrap">{topic.score}/100</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Strengths */}
               {participant.summary.strengths.length > 0 && (
                 <div>
@@ -410,6 +741,15 @@ export function ParticipantDetail({ participant, sessionId, token, onClose }: Pa
           <p className="text-gray-700 whitespace-pre-wrap">{descriptionModalTopic.description}</p>
         </Modal>
       )}
+
+      <AccommodationsModal
+        isOpen={showAccommodations}
+        onClose={() => setShowAccommodations(false)}
+        studentName={participant.studentName}
+        accommodations={accommodations}
+        interviewStarted={participant.status !== 'registered' && participant.status !== 'file_submitted'}
+        onSave={handleSaveAccommodations}
+      />
     </div>
   );
 }
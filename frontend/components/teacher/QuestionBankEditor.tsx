@@ -0,0 +1,76 @@
+'use client';
+
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { BankQuestion } from '@/lib/store';
+
+export interface QuestionBankEditorProps {
+  questions: BankQuestion[];
+  onChange: (questions: BankQuestion[]) => void;
+}
+
+// Same limit as the backend (services/questionBank.ts)
+const MAX_QUESTIONS = 20;
+
+const inputClass =
+  'w-full px-2 py-1.5 text-sm text-gray-900 placeholder-gray-400 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+export const QuestionBankEditor: React.FC<QuestionBankEditorProps> = ({ questions, onChange }) => {
+  const updateQuestion = (index: number, updates: Partial<BankQuestion>) => {
+    onChange(questions.map((q, i) => (i === index ? { ...q, ...updates } : q)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {questions.map((question, index) => (
+        <div key={index} className="p-3 border border-gray-200 rounded-lg bg-gray-50 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              className={inputClass}
+              placeholder="질문 (예: 이 알고리즘의 시간 복잡도는 얼마인가요?)"
+              value={question.text}
+              maxLength={500}
+              onChange={(e) => updateQuestion(index, { text: e.target.value })}
+            />
+            <label className="flex items-center gap-1 text-xs text-gray-500 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={question.required}
+                onChange={(e) => updateQuestion(index, { required: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              필수
+            </label>
+            <button
+              type="button"
+              onClick={() => onChange(questions.filter((_, i) => i !== index))}
+              className="p-1.5 text-gray-400 hover:text-red-600 rounded"
+              aria-label="Remove question"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <input
+            className={inputClass}
+            placeholder="관련 키워드 (쉼표로 구분, 비우면 모든 주제)"
+            value={question.keywords.join(',')}
+            onChange={(e) => updateQuestion(index, { keywords: e.target.value.split(',') })}
+          />
+        </div>
+      ))}
+
+      {questions.length < MAX_QUESTIONS && (
+        <button
+          type="button"
+          onClick={() => onChange([...questions, { text: '', required: false, keywords: [] }])}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="w-4 h-4" />
+          질문 추가
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default QuestionBankEditor;
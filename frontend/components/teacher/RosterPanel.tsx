@@ -0,0 +1,191 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Upload, Trash2, UserX, KeyRound, Loader2, Accessibility } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { AccommodationsModal, accommodationLabels } from '@/components/teacher/AccommodationsModal';
+import { api, ApiError, RosterData } from '@/lib/api';
+import type { Accommodations } from '@/lib/store';
+
+type RosterEntry = RosterData['entries'][number];
+
+export interface RosterPanelProps {
+  sessionId: string;
+  token: string;
+  // Changes whenever someone joins, so the joined/not-joined split is refetched
+  participantCount: number;
+  readOnly?: boolean;
+}
+
+export const RosterPanel: React.FC<RosterPanelProps> = ({ sessionId, token, participantCount, readOnly = false }) => {
+  const [roster, setRoster] = useState<RosterData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Entry whose accommodations are being edited (joined students are edited in their detail view)
+  const [accommodationsEntry, setAccommodationsEntry] = useState<RosterEntry | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchRoster = useCallback(async () => {
+    try {
+      setRoster(await api.sessions.roster(token, sessionId));
+    } catch (err) {
+      console.error('Failed to fetch roster:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, sessionId]);
+
+  useEffect(() => {
+    fetchRoster();
+  }, [fetchRoster, participantCount]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      setRoster(await api.sessions.updateRoster(token, sessionId, await file.text()));
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to upload roster');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('Remove the roster? Anyone with the access code will be able to join.')) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await api.sessions.deleteRoster(token, sessionId);
+      await fetchRoster();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to remove roster');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveAccommodations = async (accommodations: Accommodations) => {
+    if (!accommodationsEntry) return;
+
+    await api.sessions.updateRosterAccommodations(token, sessionId, accommodationsEntry.id, accommodations);
+    await fetchRoster();
+  };
+
+  const notJoined = roster?.entries.filter((entry) => !entry.participantId) ?? [];
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Roster</h2>
+        {roster && roster.total > 0 && (
+          <span className="text-sm text-gray-500">
+            {roster.joined} / {roster.total} joined
+          </span>
+        )}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.txt,text/csv"
+        className="hidden"
+        onChange={handleFile}
+      />
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 text-gray-400 animate-spin" />
+        </div>
+      ) : !roster || roster.total === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">
+          No roster. Anyone with the access code can join under any name. Upload a CSV with
+          columns <span className="font-mono">이름, 학번, PIN</span> (PIN optional) to admit listed students only.
+        </p>
+      ) : notJoined.length === 0 ? (
+        <p className="text-sm text-green-600 mb-4">Everyone on the roster has joined.</p>
+      ) : (
+        <div className="mb-4">
+          <p className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-2">
+            <UserX className="h-4 w-4 text-gray-400" />
+            Not joined ({notJoined.length})
+          </p>
+          <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 text-sm">
+            {notJoined.map((entry) => (
+              <li key={entry.id} className="flex items-center justify-between py-1.5">
+                <span className="flex items-center gap-1.5 text-gray-900">
+                  {entry.studentName}
+                  {accommodationLabels(entry.accommodations).map((label) => (
+                    <span key={label} className="px-1.5 py-0.5 text-xs text-purple-700 bg-purple-50 rounded">
+                      {label}
+                    </span>
+                  ))}
+                </span>
+                <span className="flex items-center gap-1 text-gray-500">
+                  {entry.studentId}
+                  {entry.hasPin && <KeyRound className="h-3.5 w-3.5" aria-label="PIN set" />}
+                  {!readOnly && (
+                    <button
+                      onClick={() => setAccommodationsEntry(entry)}
+                      className="p-0.5 text-gray-400 hover:text-blue-600"
+                      aria-label="Accommodations"
+                      title="Accommodations"
+                    >
+                      <Accessibility className="h-4 w-4" />
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {!readOnly && (
+        <div className="flex gap-2">
+          <Button
+            variant="secondary"
+            size="sm"
+            className="flex-1"
+            leftIcon={<Upload className="h-4 w-4" />}
+            onClick={() => fileInputRef.current?.click()}
+            isLoading={isSaving}
+          >
+            {roster && roster.total > 0 ? 'Replace CSV' : 'Upload CSV'}
+          </Button>
+          {roster && roster.total > 0 && (
+            <Button
+              variant="secondary"
+              size="sm"
+              leftIcon={<Trash2 className="h-4 w-4" />}
+              onClick={handleRemove}
+              disabled={isSaving}
+            >
+              Remove
+            </Button>
+          )}
+        </div>
+      )}
+
+      {accommodationsEntry && (
+        <AccommodationsModal
+          isOpen={!!accommodationsEntry}
+          onClose={() => setAccommodationsEntry(null)}
+          studentName={accommodationsEntry.studentName}
+          accommodations={accommodationsEntry.accommodations}
+          onSave={handleSaveAccommodations}
+        />
+      )}
+    </div>
+  );
+};
+
+export default RosterPanel;
@@ -0,0 +1,122 @@
+'use client';
+
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { RubricCriterion } from '@/lib/store';
+
+export interface RubricEditorProps {
+  criteria: RubricCriterion[];
+  onChange: (criteria: RubricCriterion[]) => void;
+}
+
+const MAX_CRITERIA = 10;
+
+const createDefaultCriterion = (): RubricCriterion => ({
+  name: '',
+  weight: 1,
+  levels: [
+    { label: '우수', score: 100, descriptor: '' },
+    { label: '보통', score: 70, descriptor: '' },
+    { label: '미흡', score: 40, descriptor: '' },
+  ],
+});
+
+const inputClass =
+  'w-full px-2 py-1.5 text-sm text-gray-900 placeholder-gray-400 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+export const RubricEditor: React.FC<RubricEditorProps> = ({ criteria, onChange }) => {
+  const updateCriterion = (index: number, updates: Partial<RubricCriterion>) => {
+    onChange(criteria.map((c, i) => (i === index ? { ...c, ...updates } : c)));
+  };
+
+  const updateLevel = (
+    criterionIndex: number,
+    levelIndex: number,
+    field: 'label' | 'score' | 'descriptor',
+    value: string
+  ) => {
+    const levels = criteria[criterionIndex].levels.map((level, i) =>
+      i === levelIndex
+        ? { ...level, [field]: field === 'score' ? parseInt(value, 10) || 0 : value }
+        : level
+    );
+    updateCriterion(criterionIndex, { levels });
+  };
+
+  return (
+    <div className="space-y-3">
+      {criteria.map((criterion, index) => (
+        <div key={index} className="p-3 border border-gray-200 rounded-lg bg-gray-50 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              className={inputClass}
+              placeholder="평가 기준 이름 (예: 핵심 개념 이해)"
+              value={criterion.name}
+              maxLength={100}
+              onChange={(e) => updateCriterion(index, { name: e.target.value })}
+            />
+            <label className="flex items-center gap-1 text-xs text-gray-500 whitespace-nowrap">
+              가중치
+              <input
+                type="number"
+                className={`${inputClass} w-16`}
+                min={1}
+                max={100}
+                value={criterion.weight}
+                onChange={(e) => updateCriterion(index, { weight: parseInt(e.target.value, 10) || 0 })}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => onChange(criteria.filter((_, i) => i !== index))}
+              className="p-1.5 text-gray-400 hover:text-red-600 rounded"
+              aria-label="Remove criterion"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="space-y-1.5">
+            {criterion.levels.map((level, levelIndex) => (
+              <div key={levelIndex} className="grid grid-cols-[5rem_4rem_1fr] gap-2">
+                <input
+                  className={inputClass}
+                  placeholder="수준"
+                  value={level.label}
+                  onChange={(e) => updateLevel(index, levelIndex, 'label', e.target.value)}
+                />
+                <input
+                  type="number"
+                  className={inputClass}
+                  min={0}
+                  max={100}
+                  value={level.score}
+                  onChange={(e) => updateLevel(index, levelIndex, 'score', e.target.value)}
+                />
+                <input
+                  className={inputClass}
+                  placeholder="이 수준에 해당하는 답변의 특징"
+                  value={level.descriptor}
+                  onChange={(e) => updateLevel(index, levelIndex, 'descriptor', e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {criteria.length < MAX_CRITERIA && (
+        <button
+          type="button"
+          onClick={() => onChange([...criteria, createDefaultCriterion()])}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="w-4 h-4" />
+          평가 기준 추가
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RubricEditor;
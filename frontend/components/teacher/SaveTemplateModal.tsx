@@ -0,0 +1,139 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Modal, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useTeacherStore } from '@/lib/store';
+import { api, ApiError, Organization, SessionTemplate } from '@/lib/api';
+
+export interface SaveTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessionId: string;
+  sessionTitle: string;
+  onSaved?: (template: SessionTemplate) => void;
+}
+
+/**
+ * Save a session's settings as a named template for new sessions
+ */
+export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
+  isOpen,
+  onClose,
+  sessionId,
+  sessionTitle,
+  onSaved,
+}) => {
+  const { token } = useTeacherStore();
+  const [name, setName] = useState(sessionTitle);
+  // '' = only me
+  const [organizationId, setOrganizationId] = useState('');
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // TAs can't share templates with an organization
+  useEffect(() => {
+    if (!isOpen || !token) return;
+
+    setName(sessionTitle);
+    api.organizations
+      .list(token)
+      .then(({ organizations }) => setOrganizations(organizations.filter((o) => o.role !== 'ta')))
+      .catch((err) => console.error('Failed to load organizations:', err));
+  }, [isOpen, token, sessionTitle]);
+
+  const handleClose = () => {
+    setOrganizationId('');
+    setError(null);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const { template } = await api.templates.create(token, {
+        name: name.trim(),
+        sessionId,
+        organizationId: organizationId || null,
+      });
+      onSaved?.(template);
+      handleClose();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Save as Template"
+      description="Reuse this session's settings, rubric and question bank for new sessions"
+      size="sm"
+    >
+      <form onSubmit={handleSubmit}>
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <Input
+            label="Template Name"
+            placeholder="e.g., Final Project Interview"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            maxLength={200}
+          />
+
+          {organizations.length > 0 && (
+            <div className="w-full">
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                Share with
+              </label>
+              <select
+                className="w-full px-3 py-2 text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                value={organizationId}
+                onChange={(e) => setOrganizationId(e.target.value)}
+              >
+                <option value="">Only me</option>
+                {organizations.map((organization) => (
+                  <option key={organization.id} value={organization.id}>
+                    Everyone in {organization.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <ModalFooter>
+          <Button type="button" variant="secondary" onClick={handleClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" isLoading={isSaving}>
+            Save Template
+          </Button>
+        </ModalFooter>
+      </form>
+    </Modal>
+  );
+};
+
+export default SaveTemplateModal;
@@ -0,0 +1,171 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { UserPlus, X, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { api, ApiError, Collaborator } from '@/lib/api';
+import { SessionRole } from '@/lib/store';
+
+export interface SharingPanelProps {
+  sessionId: string;
+  token: string;
+  teacherId?: string;
+  accessRole: SessionRole;
+  // Called after the current teacher removes themselves from the session
+  onLeft: () => void;
+}
+
+const ROLE_LABELS: Record<Collaborator['role'], string> = {
+  editor: 'Editor',
+  viewer: 'View only',
+};
+
+export const SharingPanel: React.FC<SharingPanelProps> = ({ sessionId, token, teacherId, accessRole, onLeft }) => {
+  const [owner, setOwner] = useState<{ id: string; name: string; email: string } | null>(null);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Collaborator['role']>('editor');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwner = accessRole === 'owner';
+
+  const fetchCollaborators = useCallback(async () => {
+    try {
+      const result = await api.sessions.collaborators(token, sessionId);
+      setOwner(result.owner);
+      setCollaborators(result.collaborators);
+    } catch (err) {
+      console.error('Failed to fetch collaborators:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, sessionId]);
+
+  useEffect(() => {
+    fetchCollaborators();
+  }, [fetchCollaborators]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await api.sessions.addCollaborator(token, sessionId, email.trim(), role);
+      setEmail('');
+      await fetchCollaborators();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to share session');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (collaborator: Collaborator) => {
+    const isSelf = collaborator.id === teacherId;
+    if (!confirm(isSelf ? 'Leave this shared session?' : `Stop sharing with ${collaborator.name}?`)) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await api.sessions.removeCollaborator(token, sessionId, collaborator.id);
+      if (isSelf) {
+        onLeft();
+        return;
+      }
+      await fetchCollaborators();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to remove collaborator');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Sharing</h2>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 text-gray-400 animate-spin" />
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100 text-sm mb-4">
+          {owner && (
+            <li className="flex items-center justify-between py-1.5">
+              <span className="text-gray-900">{owner.name}</span>
+              <span className="text-gray-500">Owner</span>
+            </li>
+          )}
+          {collaborators.map((collaborator) => (
+            <li key={collaborator.id} className="flex items-center justify-between py-1.5">
+              <span className="text-gray-900" title={collaborator.email}>
+                {collaborator.name}
+              </span>
+              <span className="flex items-center gap-2 text-gray-500">
+                {ROLE_LABELS[collaborator.role]}
+                {(isOwner || collaborator.id === teacherId) && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(collaborator)}
+                    disabled={isSaving}
+                    className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    aria-label={`Remove ${collaborator.name}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!isLoading && collaborators.length === 0 && (
+        <p className="text-sm text-gray-500 mb-4">
+          Not shared. Add a co-teacher by the email they sign in with.
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {isOwner && (
+        <form onSubmit={handleAdd} className="space-y-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="teacher@school.ac.kr"
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex gap-2">
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as Collaborator['role'])}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="editor">Editor</option>
+              <option value="viewer">View only</option>
+            </select>
+            <Button
+              type="submit"
+              variant="secondary"
+              size="sm"
+              leftIcon={<UserPlus className="h-4 w-4" />}
+              isLoading={isSaving}
+              disabled={!email.trim()}
+            >
+              Share
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">조직의 조교(TA)는 View only로만 공유됩니다</p>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default SharingPanel;
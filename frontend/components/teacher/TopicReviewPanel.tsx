@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, CheckCircle, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { api, ApiError } from '@/lib/api';
+import type { TopicWeight } from '@/lib/store';
+
+interface EditableTopic {
+  title: string;
+  description: string;
+  weight: TopicWeight;
+  // null = share of the session time by weight
+  duration: number | null;
+}
+
+export interface TopicReviewPanelProps {
+  sessionId: string;
+  participantId: string;
+  token: string;
+  topics: Array<{ title: string; description?: string; weight?: TopicWeight; duration?: number }>;
+  topicsApprovedAt: string | null;
+  requireApproval: boolean;
+  onUpdated: () => void;
+}
+
+// Same limit as the backend (services/topics.ts)
+const MAX_TOPICS = 10;
+
+const WEIGHT_OPTIONS: Array<{ value: TopicWeight; label: string }> = [
+  { value: 3, label: '핵심' },
+  { value: 2, label: '보통' },
+  { value: 1, label: '세부' },
+];
+
+// Same bounds as the session's time per topic (60-600s)
+const DURATION_OPTIONS = [60, 120, 180, 240, 300, 420, 600];
+
+const inputClass =
+  'w-full px-2 py-1.5 text-sm text-gray-900 placeholder-gray-400 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const toEditable = (topics: TopicReviewPanelProps['topics']): EditableTopic[] =>
+  topics.map((t) => ({
+    title: t.title,
+    description: t.description || '',
+    weight: t.weight ?? 2,
+    duration: t.duration ?? null,
+  }));
+
+/**
+ * Review the AI-analyzed topics of one submission before the interview starts:
+ * edit, reorder, replace or add topics, set their weight and time, then approve.
+ * Edits are local until saved; remount (key) to pick up topics saved elsewhere.
+ */
+export const TopicReviewPanel: React.FC<TopicReviewPanelProps> = ({
+  sessionId,
+  participantId,
+  token,
+  topics: initialTopics,
+  topicsApprovedAt,
+  requireApproval,
+  onUpdated,
+}) => {
+  const [topics, setTopics] = useState<EditableTopic[]>(() => toEditable(initialTopics));
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (next: EditableTopic[]) => {
+    setTopics(next);
+    setIsDirty(true);
+    setError(null);
+  };
+
+  const updateTopic = <K extends keyof EditableTopic>(index: number, field: K, value: EditableTopic[K]) => {
+    update(topics.map((t, i) => (i === index ? { ...t, [field]: value } : t)));
+  };
+
+  const moveTopic = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= topics.length) return;
+    const next = [...topics];
+    [next[index], next[target]] = [next[target], next[index]];
+    update(next);
+  };
+
+  const save = async (approve: boolean) => {
+    if (topics.some((t) => !t.title.trim())) {
+      setError('모든 주제에 제목을 입력하세요');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (isDirty) {
+        await api.sessions.updateParticipantTopics(
+          token,
+          sessionId,
+          participantId,
+          topics.map((t) => ({ ...t, duration: t.duration ?? undefined })),
+          approve
+        );
+      } else if (approve) {
+        await api.sessions.approveParticipantTopics(token, sessionId, participantId);
+      }
+      setIsDirty(false);
+      onUpdated();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to save topics');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {requireApproval && (
+        topicsApprovedAt ? (
+          <div className="flex items-center gap-2 p-2 text-sm text-green-700 bg-green-50 rounded-lg">
+            <CheckCircle className="w-4 h-4" />
+            승인됨 · {new Date(topicsApprovedAt).toLocaleString('ko-KR')}
+          </div>
+        ) : (
+          <div className="p-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg">
+            학생이 주제 승인을 기다리고 있습니다. 검토 후 승인하면 인터뷰를 시작할 수 있습니다.
+          </div>
+        )
+      )}
+
+      {error && (
+        <div className="p-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {topics.map((topic, index) => (
+        <div key={index} className="p-3 border border-gray-200 rounded-lg bg-gray-50 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="w-6 h-6 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center text-sm font-bold flex-shrink-0">
+              {index + 1}
+            </span>
+            <input
+              className={inputClass}
+              placeholder="주제 제목"
+              value={topic.title}
+              maxLength={200}
+              onChange={(e) => updateTopic(index, 'title', e.target.value)}
+            />
+            <button
+              type="button"
+              onClick={() => moveTopic(index, -1)}
+              disabled={index === 0}
+              className="p-1.5 text-gray-400 hover:text-gray-700 rounded disabled:opacity-30"
+              aria-label="Move topic up"
+            >
+              <ArrowUp className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => moveTopic(index, 1)}
+              disabled={index === topics.length - 1}
+              className="p-1.5 text-gray-400 hover:text-gray-700 rounded disabled:opacity-30"
+              aria-label="Move topic down"
+            >
+              <ArrowDown className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => update(topics.filter((_, i) => i !== index))}
+              disabled={topics.length === 1}
+              className="p-1.5 text-gray-400 hover:text-red-600 rounded disabled:opacity-30"
+              aria-label="Remove topic"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <textarea
+            className={`${inputClass} resize-none`}
+            placeholder="주제 설명 (질문 생성에 참고됩니다)"
+            rows={2}
+            value={topic.description}
+            maxLength={1000}
+            onChange={(e) => updateTopic(index, 'description', e.target.value)}
+          />
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <label className="flex items-center gap-1">
+              중요도
+              <select
+                className="px-2 py-1 text-sm text-gray-900 bg-white border border-gray-300 rounded-md"
+                value={topic.weight}
+                onChange={(e) => updateTopic(index, 'weight', Number(e.target.value) as TopicWeight)}
+              >
+                {WEIGHT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              시간
+              <select
+                className="px-2 py-1 text-sm text-gray-900 bg-white border border-gray-300 rounded-md"
+                value={topic.duration ?? ''}
+                onChange={(e) => updateTopic(index, 'duration', e.target.value ? Number(e.target.value) : null)}
+              >
+                <option value="">자동 (중요도 비율)</option>
+                {DURATION_OPTIONS.map((seconds) => (
+                  <option key={seconds} value={seconds}>
+                    {seconds / 60}분
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+      ))}
+
+      {topics.length < MAX_TOPICS && (
+        <button
+          type="button"
+          onClick={() => update([...topics, { title: '', description: '', weight: 2, duration: null }])}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="w-4 h-4" />
+          주제 추가
+        </button>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => save(false)}
+          disabled={!isDirty}
+          isLoading={isSaving}
+        >
+          Save
+        </Button>
+        {requireApproval && !topicsApprovedAt && (
+          <Button type="button" size="sm" onClick={() => save(true)} isLoading={isSaving}>
+            {isDirty ? 'Save & Approve' : 'Approve'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TopicReviewPanel;
@@ -0,0 +1,325 @@
+/**
+ * TTSService Streaming Unit Tests
+ * Tests for sentence-by-sentence playback of a question that is still being generated
+ * (beginStream / enqueue / endStream and the drain loop)
+ */
+
+import { TTSService } from '@/lib/voice/ttsService';
+
+// ========================================
+// Mock Helpers
+// ========================================
+
+interface PendingFetch {
+  text: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// fetch that answers each TTS request only when the test says so
+const mockControllableFetch = () => {
+  const pending: PendingFetch[] = [];
+
+  global.fetch = jest.fn((_url: string, init: RequestInit) => {
+    const { text } = JSON.parse(init.body as string) as { text: string };
+
+    return new Promise((resolve, reject) => {
+      pending.push({
+        text,
+        resolve: () =>
+          resolve({
+            ok: true,
+            blob: () => Promise.resolve({ text } as unknown as Blob),
+          }),
+        reject,
+      });
+    });
+  }) as jest.Mock;
+
+  const find = (text: string) => {
+    const request = pending.find((p) => p.text === text);
+    if (!request) throw new Error(`No TTS request for "${text}"`);
+    return request;
+  };
+
+  return {
+    respond: (text: string) => find(text).resolve(),
+    fail: (text: string, error = new Error('TTS request failed')) => find(text).reject(error),
+  };
+};
+
+interface MockAudio {
+  src: string;
+  play: jest.Mock;
+  pause: jest.Mock;
+  onended: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+// Audio elements in creation order; the object URL is the sentence text
+const mockAudioElements = () => {
+  const played: MockAudio[] = [];
+
+  global.URL.createObjectURL = jest.fn((blob: Blob) => `blob:${(blob as unknown as { text: string }).text}`);
+  global.Audio = jest.fn((src: string) => {
+    const audio: MockAudio = {
+      src,
+      play: jest.fn().mockResolvedValue(undefined),
+      pause: jest.fn(),
+      onended: null,
+      onerror: null,
+    };
+    played.push(audio);
+    return audio;
+  }) as unknown as typeof Audio;
+
+  return {
+    played,
+    sources: () => played.map((audio) => audio.src),
+    finish: (index: number) => played[index].onended?.(),
+  };
+};
+
+// Let pending promise callbacks run
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('TTSService streaming', () => {
+  let tts: TTSService;
+  let callbacks: { onStart: jest.Mock; onEnd: jest.Mock; onError: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tts = new TTSService();
+    tts.setSessionToken('test-token');
+    callbacks = { onStart: jest.fn(), onEnd: jest.fn(), onError: jest.fn() };
+    tts.setCallbacks(callbacks);
+  });
+
+  afterEach(() => {
+    tts.cleanup();
+  });
+
+  // ========================================
+  // Test 1: Starting a stream
+  // ========================================
+  describe('beginStream()', () => {
+    it('should require a session token', () => {
+      tts.setSessionToken(null);
+
+      expect(() => tts.beginStream()).toThrow('Session token required');
+    });
+
+    it('should call onStart and report speaking before any sentence arrives', () => {
+      tts.beginStream();
+
+      expect(callbacks.onStart).toHaveBeenCalledTimes(1);
+      expect(tts.isSpeaking).toBe(true);
+    });
+
+    it('should ignore sentences when no stream is open', () => {
+      mockControllableFetch();
+
+      tts.enqueue('Hello.');
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  // ========================================
+  // Test 2: Queue order
+  // ========================================
+  describe('queue order', () => {
+    it('should request every sentence right away', () => {
+      mockControllableFetch();
+      mockAudioElements();
+
+      tts.beginStream();
+      tts.enqueue('First.');
+      tts.enqueue('Second.');
+      tts.enqueue('Third.');
+
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should play sentences in the order they were queued, not the order audio arrives', async () => {
+      const fetches = mockControllableFetch();
+      const audio = mockAudioElements();
+
+      tts.beginStream();
+      tts.enqueue('First.');
+      tts.enqueue('Second.');
+
+      fetches.respond('Second.');
+      await flush();
+      expect(audio.sources()).toEqual([]);
+
+      fetches.respond('First.');
+      await flush();
+      expect(audio.sources()).toEqual(['blob:First.']);
+
+      audio.finish(0);
+      await flush();
+      expect(audio.sources()).toEqual(['blob:First.', 'blob:Second.']);
+    });
+
+    it('should pick up a sentence queued after the previous one finished', async () => {
+      const fetches = mockControllableFetch();
+      const audio = mockAudioElements();
+
+      tts.beginStream();
+      tts.enqueue('First.');
+      fetches.respond('First.');
+      await flush();
+      audio.finish(0);
+      await flush();
+
+      // Generation is still running: the stream waits for more
+      expect(callbacks.onEnd).not.toHaveBeenCalled();
+      expect(tts.isSpeaking).toBe(true);
+
+      tts.enqueue('Second.');
+      fetches.respond('Second.');
+      await flush();
+
+      expect(audio.sources()).toEqual(['blob:First.', 'blob:Second.']);
+    });
+  });
+
+  // ========================================
+  // Test 3: Drain after endStream
+  // ========================================
+  describe('endStream()', () => {
+    it('should finish the queued sentences before calling onEnd', async () => {
+      const fetches = mockControllableFetch();
+      const audio = mockAudioElements();
+
+      tts.beginStream();
+      tts.enqueue('First.');
+      tts.enqueue('Second.');
+      tts.endStream();
+
+      fetches.respond('First.');
+      fetches.respond('Second.');
+      await flush();
+      expect(callbacks.onEnd).not.toHaveBeenCalled();
+
+      audio.finish(0);
+      await flush();
+      expect(callbacks.onEnd).not.toHaveBeenCalled();
+      expect(tts.isSpeaking).toBe(true);
+
+      audio.finish(1);
+      await flush();
+      expect(callbacks.onEnd).toHaveBeenCalledTimes(1);
+      expect(tts.isSpeaking).toBe(false);
+    });
+
+    it('should call onEnd right away when every sentence has already played', async () => {
+      const fetches = mockControllableFetch();
+      const audio = mockAudioElements();
+
+      tts.beginStream();
+      tts.enqueue('Only.');
+      fetches.respond('Only.');
+      await flush();
+      audio.finish(0);
+      await flush();
+
+      tts.endStream();
+
+      expect(callbacks.onEnd).toHaveBeenCalledTimes(1);
+      expect(tts.isSpeaking).toBe(false);
+    });
+
+    it('should ignore sentences queued after the stream ended', async () => {
+      const fetches = mockControllableFetch();
+      mockAudioElements();
+
+      tts.beginStream();
+      tts.enqueue('First.');
+      tts.endStream();
+      tts.enqueue('Late.');
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+
+      fetches.respond('First.');
+      await flush();
+    });
+  });
+
+  // ========================================
+  // Test 4: Failures and the full question fallback
+  // ========================================
+  describe('mid-stream failure', () => {
+    it('should stop the stream and report the error when a sentence fails', async () => {
+      const fetches = mockControllableFetch();
+      const audio = mockAudioElements();
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      tts.beginStream();
+      tts.enqueue('First.');
+      tts.enqueue('Second.');
+      tts.enqueue('Third.');
+
+      fetches.respond('First.');
+      fetches.fail('Second.');
+      fetches.respond('Third.');
+      await flush();
+      audio.finish(0);
+      await flush();
+
+      expect(callbacks.onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'TTS request failed' }));
+      expect(callbacks.onEnd).not.toHaveBeenCalled();
+      expect(tts.isSpeaking).toBe(false);
+      expect(audio.sources()).toEqual(['blob:First.']);
+
+      // The stream is closed: the rest of the question is not queued
+      tts.enqueue('Fourth.');
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should replace the stream with the full question when speak() is called', async () => {
+      const fetches = mockControllableFetch();
+      const audio = mockAudioElements();
+
+      tts.beginStream();
+      tts.enqueue('First.');
+      tts.enqueue('Second.');
+      fetches.respond('First.');
+      await flush();
+
+      const speaking = tts.speak('Fallback question in full.');
+      fetches.respond('Second.');
+      fetches.respond('Fallback question in full.');
+      await flush();
+
+      expect(audio.sources()).toEqual(['blob:First.', 'blob:Fallback question in full.']);
+
+      audio.finish(1);
+      await speaking;
+
+      // One onEnd, for the full question only
+      expect(callbacks.onEnd).toHaveBeenCalledTimes(1);
+      expect(callbacks.onError).not.toHaveBeenCalled();
+      expect(tts.isSpeaking).toBe(false);
+    });
+
+    it('should not report an error for a stream cancelled with stop()', async () => {
+      const fetches = mockControllableFetch();
+      mockAudioElements();
+
+      tts.beginStream();
+      tts.enqueue('First.');
+      tts.stop();
+
+      fetches.fail('First.', Object.assign(new Error('Aborted'), { name: 'AbortError' }));
+      await flush();
+
+      expect(callbacks.onError).not.toHaveBeenCalled();
+      expect(callbacks.onEnd).not.toHaveBeenCalled();
+      expect(tts.isSpeaking).toBe(false);
+    });
+  });
+});
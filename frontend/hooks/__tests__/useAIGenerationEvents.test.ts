@@ -0,0 +1,303 @@
+/**
+ * useAIGenerationEvents Hook Unit Tests
+ * Tests for push delivery of AI questions with polling fallback
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { useAIGenerationEvents } from '../useAIGenerationEvents';
+
+// Mock the API module
+jest.mock('@/lib/api', () => ({
+  api: {
+    interview: {
+      events: jest.fn(),
+      getAIStatus: jest.fn(),
+    },
+  },
+}));
+
+// Import the mocked api
+import { api } from '@/lib/api';
+
+const mockEvents = api.interview.events as jest.Mock;
+const mockGetAIStatus = api.interview.getAIStatus as jest.Mock;
+
+// Handlers captured from the last api.interview.events call
+interface StreamHandlers {
+  onEvent: (event: { event: string; data: unknown }) => void;
+  onOpen?: () => void;
+  onError?: (error: Error) => void;
+}
+
+const mockClose = jest.fn();
+let streamHandlers: StreamHandlers | null = null;
+
+describe('useAIGenerationEvents', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    streamHandlers = null;
+    mockEvents.mockImplementation((_token: string, handlers: StreamHandlers) => {
+      streamHandlers = handlers;
+      return mockClose;
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // ========================================
+  // Test 1: Stream lifecycle
+  // ========================================
+  describe('stream lifecycle', () => {
+    it('should not open a stream without sessionToken', () => {
+      renderHook(() =>
+        useAIGenerationEvents({
+          sessionToken: null,
+          isGenerating: false,
+          onComplete: jest.fn(),
+          onError: jest.fn(),
+        })
+      );
+
+      expect(mockEvents).not.toHaveBeenCalled();
+    });
+
+    it('should open a stream and close it on unmount', () => {
+      const { unmount } = renderHook(() =>
+        useAIGenerationEvents({
+          sessionToken: 'test-token',
+          isGenerating: false,
+          onComplete: jest.fn(),
+          onError: jest.fn(),
+        })
+      );
+
+      expect(mockEvents).toHaveBeenCalledWith('test-token', expect.any(Object));
+
+      unmount();
+
+      expect(mockClose).toHaveBeenCalled();
+    });
+  });
+
+  // ========================================
+  // Test 2: Push delivery
+  // ========================================
+  describe('push delivery', () => {
+    it('should call onComplete when a question is pushed', () => {
+      const onComplete = jest.fn();
+
+      renderHook(() =>
+        useAIGenerationEvents({
+          sessionToken: 'test-token',
+          isGenerating: true,
+          onComplete,
+          onError: jest.fn(),
+        })
+      );
+
+      act(() => {
+        streamHandlers?.onOpen?.();
+        streamHandlers?.onEvent({
+          event: 'question-ready',
+          data: { topicIndex: 0, turnIndex: 2, question: 'Pushed question' },
+        });
+      });
+
+      expect(onComplete).toHaveBeenCalledWith('Pushed question', 2);
+    });
+
+    it('should deliver fallback questions from failed generations', () => {
+      const onComplete = jest.fn();
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      renderHook(() =>
+        useAIGenerationEvents({
+          sessionToken: 'test-token',
+          isGenerating: true,
+          onComplete,
+          onError: jest.fn(),
+        })
+      );
+
+      act(() => {
+        streamHandlers?.onEvent({
+          event: 'question-failed',
+          data: { topicIndex: 0, turnIndex: 4, question: 'Fallback', error: 'timeout' },
+        });
+      });
+
+      expect(onComplete).toHaveBeenCalledWith('Fallback', 4);
+      warnSpy.mockRestore();
+    });
+
+    it('should forward streamed sentences before the full question', () => {
+      const onComplete = jest.fn();
+      const onSentence = jest.fn();
+
+      renderHook(() =>
+        useAIGenerationEvents({
+          sessionToken: 'test-token',
+          isGenerating: true,
+          onComplete,
+          onSentence,
+          onError: jest.fn(),
+        })
+      );
+
+      act(() => {
+        streamHandlers?.onEvent({
+          event: 'question-sentence',
+          data: { topicIndex: 0, turnIndex: 2, question: '좋아요.', sentence: '좋아요.', sentenceIndex: 0 },
+        });
+      });
+
+      expect(onSentence).toHaveBeenCalledWith('좋아요.', 0, '좋아요.');
+      expect(onComplete).not.toHaveBeenCalled();
+
+      act(() => {
+        streamHandlers?.onEvent({
+          event: 'question-ready',
+          data: { topicIndex: 0, turnIndex: 2, question: '좋아요. 왜 그렇게 했나요?' },
+        });
+      });
+
+      expect(onComplete).toHaveBeenCalledWith('좋아요. 왜 그렇게 했나요?', 2);
+    });
+
+    it('should ignore unrelated events', () => {
+      const onComplete = jest.fn();
+
+      renderHook(() =>
+        useAIGenerationEvents({
+          sessionToken: 'test-token',
+          isGenerating: true,
+          onComplete,
+          onError: jest.fn(),
+        })
+      );
+
+      act(() => {
+        streamHandlers?.onEvent({ event: 'connected', data: { participantId: 'p1' } });
+      });
+
+      expect(onComplete).not.toHaveBeenCalled();
+    });
+  });
+
+  // ========================================
+  // Test 3: Polling fallback
+  // ========================================
+  describe('polling fallback', () => {
+    it('should not poll while the stream is connected and push is on time', () => {
+      renderHook(() =>
+        useAIGenerationEvents({
+          sessionToken: 'test-token',
+          isGenerating: true,
+          onComplete: jest.fn(),
+          onError: jest.fn(),
+          fallbackDelay: 5000,
+        })
+      );
+
+      act(() => {
+        streamHandlers?.onOpen?.();
+      });
+      mockGetAIStatus.mockClear();
+
+      act(() => {
+        jest.advanceTimersByTime(4000);
+      });
+
+      expect(mockGetAIStatus).not.toHaveBeenCalled();
+    });
+
+    it('should poll when the stream is not connected', async () => {
+      mockGetAIStatus.mockResolvedValue({ aiGenerationPending: true });
+
+      renderHook(() =>
+        useAIGenerationEvents({
+          sessionToken: 'test-token',
+          isGenerating: true,
+          onComplete: jest.fn(),
+          onError: jest.fn(),
+        })
+      );
+
+      await waitFor(() => {
+        expect(mockGetAIStatus).toHaveBeenCalledWith('test-token');
+      });
+    });
+
+    it('should poll when the push is overdue', async () => {
+      mockGetAIStatus.mockResolvedValue({
+        aiGenerationPending: false,
+        nextQuestion: 'Polled question',
+        turnIndex: 3,
+      });
+      const onComplete = jest.fn();
+
+      renderHook(() =>
+        useAIGenerationEvents({
+          sessionToken: 'test-token',
+          isGenerating: true,
+          onComplete,
+          onError: jest.fn(),
+          fallbackDelay: 5000,
+        })
+      );
+
+      act(() => {
+        streamHandlers?.onOpen?.();
+      });
+      mockGetAIStatus.mockClear();
+
+      act(() => {
+        jest.advanceTimersByTime(5000);
+      });
+
+      await waitFor(() => {
+        expect(onComplete).toHaveBeenCalledWith('Polled question', 3);
+      });
+    });
+  });
+
+  // ========================================
+  // Test 4: Duplicate prevention
+  // ========================================
+  describe('duplicate prevention', () => {
+    it('should not deliver the same question from push and polling twice', async () => {
+      mockGetAIStatus.mockResolvedValue({
+        aiGenerationPending: false,
+        nextQuestion: 'Same question',
+        turnIndex: 2,
+      });
+      const onComplete = jest.fn();
+
+      renderHook(() =>
+        useAIGenerationEvents({
+          sessionToken: 'test-token',
+          isGenerating: true,
+          onComplete,
+          onError: jest.fn(),
+        })
+      );
+
+      // Stream not connected yet -> polling delivers first
+      await waitFor(() => {
+        expect(onComplete).toHaveBeenCalledTimes(1);
+      });
+
+      act(() => {
+        streamHandlers?.onEvent({
+          event: 'question-ready',
+          data: { topicIndex: 0, turnIndex: 2, question: 'Same question' },
+        });
+      });
+
+      expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * useAccommodations Hook Unit Tests
+ * Tests for refreshing the teacher-set accommodations and applying larger text
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { useAccommodations } from '../useAccommodations';
+import { useStudentStore, Participant } from '@/lib/store';
+
+// Mock the API module
+jest.mock('@/lib/api', () => ({
+  api: {
+    interview: {
+      accommodations: jest.fn(),
+    },
+  },
+}));
+
+// Import the mocked api
+import { api } from '@/lib/api';
+
+const mockAccommodations = api.interview.accommodations as jest.Mock;
+
+const participant: Participant = {
+  id: 'participant-1',
+  sessionId: 'session-1',
+  studentName: 'Kim',
+  status: 'file_submitted',
+};
+
+const extended = { timeMultiplier: 1.5, chatOnly: true, largeText: true, readAloud: false };
+
+describe('useAccommodations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    act(() => {
+      useStudentStore.getState().clearSession();
+    });
+    document.documentElement.classList.remove('large-text');
+  });
+
+  // ========================================
+  // Test 1: Defaults
+  // ========================================
+  describe('defaults', () => {
+    it('should return no accommodations without a joined student', () => {
+      const { result } = renderHook(() => useAccommodations());
+
+      expect(result.current).toEqual({
+        timeMultiplier: 1,
+        chatOnly: false,
+        largeText: false,
+        readAloud: false,
+      });
+      expect(mockAccommodations).not.toHaveBeenCalled();
+      expect(document.documentElement.classList.contains('large-text')).toBe(false);
+    });
+  });
+
+  // ========================================
+  // Test 2: Refresh from the server
+  // ========================================
+  describe('refresh', () => {
+    it('should load the accommodations into the stored participant', async () => {
+      mockAccommodations.mockResolvedValue({ accommodations: extended });
+      useStudentStore.getState().setSessionToken('test-token');
+      useStudentStore.getState().setParticipant(participant);
+
+      const { result } = renderHook(() => useAccommodations());
+
+      await waitFor(() => {
+        expect(result.current).toEqual(extended);
+      });
+      expect(mockAccommodations).toHaveBeenCalledWith('test-token');
+      expect(useStudentStore.getState().participant?.accommodations).toEqual(extended);
+    });
+
+    it('should keep the stored accommodations when the request fails', async () => {
+      mockAccommodations.mockRejectedValue(new Error('Network error'));
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      useStudentStore.getState().setSessionToken('test-token');
+      useStudentStore.getState().setParticipant({ ...participant, accommodations: extended });
+
+      const { result } = renderHook(() => useAccommodations());
+
+      await waitFor(() => {
+        expect(consoleSpy).toHaveBeenCalled();
+      });
+      expect(result.current).toEqual(extended);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  // ========================================
+  // Test 3: Larger text
+  // ========================================
+  describe('large text', () => {
+    it('should add the large-text class to the page and remove it on unmount', () => {
+      mockAccommodations.mockResolvedValue({ accommodations: extended });
+      useStudentStore.getState().setSessionToken('test-token');
+      useStudentStore.getState().setParticipant({ ...participant, accommodations: extended });
+
+      const { unmount } = renderHook(() => useAccommodations());
+
+      expect(document.documentElement.classList.contains('large-text')).toBe(true);
+
+      unmount();
+
+      expect(document.documentElement.classList.contains('large-text')).toBe(false);
+    });
+  });
+});
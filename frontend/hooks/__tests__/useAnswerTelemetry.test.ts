@@ -0,0 +1,192 @@
+/**
+ * useAnswerTelemetry Hook Unit Tests
+ * Tests for paste, keystroke and focus-loss tracking in chat answers
+ */
+
+import type React from 'react';
+import { renderHook, act } from '@testing-library/react';
+import { useAnswerTelemetry } from '../useAnswerTelemetry';
+
+function pasteEvent(text: string) {
+  return {
+    clipboardData: { getData: () => text },
+  } as unknown as React.ClipboardEvent<HTMLTextAreaElement>;
+}
+
+function keyEvent(key: string, modifiers: { ctrlKey?: boolean; metaKey?: boolean } = {}) {
+  return {
+    key,
+    ctrlKey: false,
+    metaKey: false,
+    ...modifiers,
+  } as unknown as React.KeyboardEvent<HTMLTextAreaElement>;
+}
+
+function setVisibility(state: 'visible' | 'hidden') {
+  Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+describe('useAnswerTelemetry', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-03-01T09:00:00Z'));
+  });
+
+  afterEach(() => {
+    setVisibility('visible');
+    jest.useRealTimers();
+  });
+
+  // ========================================
+  // Test 1: Initial State
+  // ========================================
+  it('should start with empty counters', () => {
+    const { result } = renderHook(() => useAnswerTelemetry());
+
+    expect(result.current.snapshot()).toEqual({
+      pasteCount: 0,
+      pastedChars: 0,
+      keystrokes: 0,
+      focusLossCount: 0,
+      focusLossMs: 0,
+      composeMs: 0,
+    });
+  });
+
+  // ========================================
+  // Test 2: Pastes and Keystrokes
+  // ========================================
+  describe('input tracking', () => {
+    it('should count pastes and pasted characters', () => {
+      const { result } = renderHook(() => useAnswerTelemetry());
+
+      act(() => {
+        result.current.onPaste(pasteEvent('hello world'));
+        result.current.onPaste(pasteEvent('abc'));
+        result.current.onPaste(pasteEvent(''));
+      });
+
+      const telemetry = result.current.snapshot();
+      expect(telemetry.pasteCount).toBe(2);
+      expect(telemetry.pastedChars).toBe(14);
+    });
+
+    it('should count printable, editing and IME keys only', () => {
+      const { result } = renderHook(() => useAnswerTelemetry());
+
+      act(() => {
+        ['a', 'b', ' ', 'Backspace', 'Process', 'Enter'].forEach((key) => result.current.onKeyDown(keyEvent(key)));
+        ['ArrowLeft', 'Shift', 'Tab'].forEach((key) => result.current.onKeyDown(keyEvent(key)));
+        result.current.onKeyDown(keyEvent('v', { ctrlKey: true }));
+        result.current.onKeyDown(keyEvent('v', { metaKey: true }));
+      });
+
+      expect(result.current.snapshot().keystrokes).toBe(6);
+    });
+  });
+
+  // ========================================
+  // Test 3: Focus Loss
+  // ========================================
+  describe('focus loss', () => {
+    it('should measure time with the tab hidden', () => {
+      const { result } = renderHook(() => useAnswerTelemetry());
+
+      act(() => {
+        setVisibility('hidden');
+        jest.advanceTimersByTime(15000);
+        setVisibility('visible');
+      });
+
+      const telemetry = result.current.snapshot();
+      expect(telemetry.focusLossCount).toBe(1);
+      expect(telemetry.focusLossMs).toBe(15000);
+    });
+
+    it('should count a hidden tab and the window blur it causes once', () => {
+      const { result } = renderHook(() => useAnswerTelemetry());
+
+      act(() => {
+        window.dispatchEvent(new Event('blur'));
+        setVisibility('hidden');
+        jest.advanceTimersByTime(5000);
+        setVisibility('visible');
+        window.dispatchEvent(new Event('focus'));
+      });
+
+      const telemetry = result.current.snapshot();
+      expect(telemetry.focusLossCount).toBe(1);
+      expect(telemetry.focusLossMs).toBe(5000);
+    });
+
+    it('should include time away so far when still away', () => {
+      const { result } = renderHook(() => useAnswerTelemetry());
+
+      act(() => {
+        window.dispatchEvent(new Event('blur'));
+        jest.advanceTimersByTime(3000);
+      });
+
+      expect(result.current.snapshot().focusLossMs).toBe(3000);
+    });
+
+    it('should stop listening after unmount', () => {
+      const { result, unmount } = renderHook(() => useAnswerTelemetry());
+      const { snapshot } = result.current;
+
+      unmount();
+      act(() => {
+        window.dispatchEvent(new Event('blur'));
+      });
+
+      expect(snapshot().focusLossCount).toBe(0);
+    });
+  });
+
+  // ========================================
+  // Test 4: Reset
+  // ========================================
+  describe('reset', () => {
+    it('should clear counters and restart the compose time', () => {
+      const { result } = renderHook(() => useAnswerTelemetry());
+
+      act(() => {
+        result.current.onPaste(pasteEvent('copied'));
+        result.current.onKeyDown(keyEvent('a'));
+        jest.advanceTimersByTime(20000);
+      });
+      expect(result.current.snapshot().composeMs).toBe(20000);
+
+      act(() => {
+        result.current.reset();
+        jest.advanceTimersByTime(4000);
+      });
+
+      expect(result.current.snapshot()).toEqual({
+        pasteCount: 0,
+        pastedChars: 0,
+        keystrokes: 0,
+        focusLossCount: 0,
+        focusLossMs: 0,
+        composeMs: 4000,
+      });
+    });
+
+    it('should carry an ongoing absence into the next answer', () => {
+      const { result } = renderHook(() => useAnswerTelemetry());
+
+      act(() => {
+        setVisibility('hidden');
+        jest.advanceTimersByTime(10000);
+        result.current.reset();
+        jest.advanceTimersByTime(2000);
+        setVisibility('visible');
+      });
+
+      const telemetry = result.current.snapshot();
+      expect(telemetry.focusLossCount).toBe(1);
+      expect(telemetry.focusLossMs).toBe(2000);
+    });
+  });
+});
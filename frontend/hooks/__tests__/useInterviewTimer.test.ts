@@ -15,6 +15,9 @@ interface UseInterviewTimerProps {
   currentTopicIndex: number;
   isSpeaking?: boolean;
   isTranscribing?: boolean;
+  isListening?: boolean;
+  isVoiceMode?: boolean;
+  isStudentPaused?: boolean;
 }
 
 describe('useInterviewTimer', () => {
@@ -430,6 +433,80 @@ describe('useInterviewTimer', () => {
     });
   });
 
+  // ========================================
+  // Test: Student pause
+  // ========================================
+  describe('student pause', () => {
+    it('should pause in chat mode while the student has paused', () => {
+      const { result, rerender } = renderHook(
+        (props: UseInterviewTimerProps) => useInterviewTimer(props),
+        {
+          initialProps: {
+            totalTime: 180,
+            onTimeUp: jest.fn(),
+            isTopicStarted: true,
+            currentTopicIndex: 0,
+            isStudentPaused: false,
+          },
+        }
+      );
+
+      act(() => {
+        jest.advanceTimersByTime(2000);
+      });
+      expect(result.current.timeLeft).toBe(178);
+
+      rerender({
+        totalTime: 180,
+        onTimeUp: jest.fn(),
+        isTopicStarted: true,
+        currentTopicIndex: 0,
+        isStudentPaused: true,
+      });
+
+      expect(result.current.isPaused).toBe(true);
+
+      act(() => {
+        jest.advanceTimersByTime(5000);
+      });
+      expect(result.current.timeLeft).toBe(178);
+
+      rerender({
+        totalTime: 180,
+        onTimeUp: jest.fn(),
+        isTopicStarted: true,
+        currentTopicIndex: 0,
+        isStudentPaused: false,
+      });
+
+      act(() => {
+        jest.advanceTimersByTime(2000);
+      });
+      expect(result.current.timeLeft).toBe(176);
+    });
+
+    it('should pause in voice mode even if the microphone is listening', () => {
+      const { result } = renderHook(() =>
+        useInterviewTimer({
+          totalTime: 180,
+          onTimeUp: jest.fn(),
+          isTopicStarted: true,
+          currentTopicIndex: 0,
+          isVoiceMode: true,
+          isListening: true,
+          isStudentPaused: true,
+        })
+      );
+
+      expect(result.current.isPaused).toBe(true);
+
+      act(() => {
+        jest.advanceTimersByTime(3000);
+      });
+      expect(result.current.timeLeft).toBe(180);
+    });
+  });
+
   // ========================================
   // Test: Manual time setting
   // ========================================
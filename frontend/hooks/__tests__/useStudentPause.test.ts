@@ -0,0 +1,204 @@
+/**
+ * useStudentPause Hook Unit Tests
+ * Tests for the student pause button state, budget countdown and auto-resume
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { useStudentPause } from '../useStudentPause';
+
+// Mock the API module
+jest.mock('@/lib/api', () => ({
+  api: {
+    interview: {
+      pause: jest.fn(),
+      resume: jest.fn(),
+    },
+  },
+}));
+
+// Import the mocked api
+import { api } from '@/lib/api';
+
+const mockPause = api.interview.pause as jest.Mock;
+const mockResume = api.interview.resume as jest.Mock;
+
+const idle = { budget: 120, used: 30, remaining: 90, paused: false, count: 1 };
+const paused = { budget: 120, used: 30, remaining: 90, paused: true, count: 2 };
+
+describe('useStudentPause', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // ========================================
+  // Test 1: Sync from server state
+  // ========================================
+  describe('sync', () => {
+    it('should be disabled until the server reports a budget', () => {
+      const { result } = renderHook(() => useStudentPause({ sessionToken: 'test-token' }));
+
+      expect(result.current.enabled).toBe(false);
+      expect(result.current.isPaused).toBe(false);
+
+      act(() => {
+        result.current.sync({ budget: 0, used: 0, remaining: 0, paused: false, count: 0 });
+      });
+
+      expect(result.current.enabled).toBe(false);
+    });
+
+    it('should apply the budget left from /state or /heartbeat', () => {
+      const { result } = renderHook(() => useStudentPause({ sessionToken: 'test-token' }));
+
+      act(() => {
+        result.current.sync(idle);
+      });
+
+      expect(result.current.enabled).toBe(true);
+      expect(result.current.remaining).toBe(90);
+    });
+
+    it('should ignore a missing status', () => {
+      const { result } = renderHook(() => useStudentPause({ sessionToken: 'test-token' }));
+
+      act(() => {
+        result.current.sync(idle);
+        result.current.sync(undefined);
+      });
+
+      expect(result.current.remaining).toBe(90);
+    });
+
+    it('should call onPause when a reload finds the interview paused', () => {
+      const onPause = jest.fn();
+      const { result } = renderHook(() => useStudentPause({ sessionToken: 'test-token', onPause }));
+
+      act(() => {
+        result.current.sync(paused);
+      });
+
+      expect(result.current.isPaused).toBe(true);
+      expect(onPause).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // ========================================
+  // Test 2: Pause and resume
+  // ========================================
+  describe('pause and resume', () => {
+    it('should pause through the API and call onPause', async () => {
+      mockPause.mockResolvedValue({ studentPause: paused });
+      const onPause = jest.fn();
+
+      const { result } = renderHook(() => useStudentPause({ sessionToken: 'test-token', onPause }));
+
+      let ok = false;
+      await act(async () => {
+        ok = await result.current.pause();
+      });
+
+      expect(ok).toBe(true);
+      expect(mockPause).toHaveBeenCalledWith('test-token');
+      expect(result.current.isPaused).toBe(true);
+      expect(onPause).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resolve to false when the server refuses', async () => {
+      mockPause.mockRejectedValue(new Error('No pause time left'));
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const { result } = renderHook(() => useStudentPause({ sessionToken: 'test-token' }));
+
+      let ok = true;
+      await act(async () => {
+        ok = await result.current.pause();
+      });
+
+      expect(ok).toBe(false);
+      expect(result.current.isPaused).toBe(false);
+      expect(result.current.isUpdating).toBe(false);
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should resume through the API and call onResume', async () => {
+      mockResume.mockResolvedValue({ studentPause: { ...idle, used: 40, remaining: 80, count: 2 } });
+      const onResume = jest.fn();
+
+      const { result } = renderHook(() => useStudentPause({ sessionToken: 'test-token', onResume }));
+
+      act(() => {
+        result.current.sync(paused);
+      });
+
+      await act(async () => {
+        await result.current.resume();
+      });
+
+      expect(mockResume).toHaveBeenCalledWith('test-token');
+      expect(result.current.isPaused).toBe(false);
+      expect(result.current.remaining).toBe(80);
+      expect(onResume).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not call the API without a session token', async () => {
+      const { result } = renderHook(() => useStudentPause({ sessionToken: null }));
+
+      await act(async () => {
+        await result.current.pause();
+      });
+
+      expect(mockPause).not.toHaveBeenCalled();
+    });
+  });
+
+  // ========================================
+  // Test 3: Budget countdown
+  // ========================================
+  describe('budget countdown', () => {
+    it('should count the budget down while paused', () => {
+      const { result } = renderHook(() => useStudentPause({ sessionToken: 'test-token' }));
+
+      act(() => {
+        result.current.sync(paused);
+      });
+
+      act(() => {
+        jest.advanceTimersByTime(5000);
+      });
+
+      expect(result.current.remaining).toBe(85);
+    });
+
+    it('should resume on its own when the budget runs out', async () => {
+      mockResume.mockResolvedValue({
+        studentPause: { budget: 120, used: 120, remaining: 0, paused: false, count: 2 },
+      });
+      const onResume = jest.fn();
+
+      const { result } = renderHook(() => useStudentPause({ sessionToken: 'test-token', onResume }));
+
+      act(() => {
+        result.current.sync({ ...paused, used: 117, remaining: 3 });
+      });
+
+      act(() => {
+        jest.advanceTimersByTime(3000);
+      });
+
+      await waitFor(() => {
+        expect(mockResume).toHaveBeenCalledTimes(1);
+      });
+      await waitFor(() => {
+        expect(result.current.isPaused).toBe(false);
+      });
+      expect(result.current.remaining).toBe(0);
+      expect(onResume).toHaveBeenCalledTimes(1);
+    });
+  });
+});
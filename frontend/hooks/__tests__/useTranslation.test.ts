@@ -0,0 +1,108 @@
+/**
+ * useTranslation Hook Unit Tests
+ * Tests for student page messages in the session's interview language
+ */
+
+import { renderHook, act } from '@testing-library/react';
+import { useTranslation } from '../useTranslation';
+import { useStudentStore, InterviewLanguage } from '@/lib/store';
+
+function joinSession(interviewLanguage?: InterviewLanguage) {
+  useStudentStore.getState().setSessionInfo({
+    title: 'Final Project',
+    topicCount: 3,
+    topicDuration: 180,
+    interviewMode: 'chat',
+    interviewLanguage,
+  });
+}
+
+describe('useTranslation', () => {
+  afterEach(() => {
+    act(() => {
+      useStudentStore.getState().clearSession();
+    });
+  });
+
+  // ========================================
+  // Test 1: Default Locale
+  // ========================================
+  it('should use Korean before a session is joined', () => {
+    const { result } = renderHook(() => useTranslation());
+
+    expect(result.current.locale).toBe('ko');
+    expect(result.current.t('chat.placeholder')).toBe('답변을 입력하세요...');
+  });
+
+  it('should use Korean for sessions stored without a language', () => {
+    joinSession(undefined);
+    const { result } = renderHook(() => useTranslation());
+
+    expect(result.current.locale).toBe('ko');
+  });
+
+  // ========================================
+  // Test 2: Session Language
+  // ========================================
+  describe('session language', () => {
+    it('should follow the joined session', () => {
+      joinSession('en');
+      const { result } = renderHook(() => useTranslation());
+
+      expect(result.current.locale).toBe('en');
+      expect(result.current.t('chat.placeholder')).toBe('Type your answer...');
+    });
+
+    it('should switch when the session changes', () => {
+      const { result } = renderHook(() => useTranslation());
+
+      act(() => joinSession('ja'));
+
+      expect(result.current.locale).toBe('ja');
+      expect(result.current.t('interview.retry')).toBe('もう一度試す');
+    });
+  });
+
+  // ========================================
+  // Test 3: Override
+  // ========================================
+  describe('override', () => {
+    it('should prefer the given locale over the session', () => {
+      joinSession('en');
+      const { result } = renderHook(() => useTranslation('zh'));
+
+      expect(result.current.locale).toBe('zh');
+    });
+
+    it('should fall back to the session when the override is missing', () => {
+      joinSession('en');
+      const { result } = renderHook(() => useTranslation(undefined));
+
+      expect(result.current.locale).toBe('en');
+    });
+
+    it('should fall back to Korean for unknown locales', () => {
+      const { result } = renderHook(() => useTranslation('fr'));
+
+      expect(result.current.locale).toBe('ko');
+    });
+  });
+
+  // ========================================
+  // Test 4: Placeholders
+  // ========================================
+  describe('placeholders', () => {
+    it('should fill placeholders', () => {
+      joinSession('en');
+      const { result } = renderHook(() => useTranslation());
+
+      expect(result.current.t('topicProgress.label', { current: 2, total: 3 })).toBe('Topic 2/3');
+    });
+
+    it('should leave placeholders without a value as they are', () => {
+      const { result } = renderHook(() => useTranslation());
+
+      expect(result.current.t('topicProgress.label', { current: 2 })).toBe('주제 2/{total}');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Voice State Machine Unit Tests
+ * Tests for playing a question while it is still being generated
+ * (AI_STREAM_START / AI_STREAM_CHUNK and how AI_READY completes the question)
+ */
+
+import { voiceReducer, isValidAction } from '@/lib/voice/stateMachine';
+import { initialVoiceContext, VoiceAction, VoiceContext } from '@/lib/voice/types';
+
+const generating: VoiceContext = {
+  ...initialVoiceContext,
+  currentState: 'AI_GENERATING',
+  previousState: 'STT_PROCESSING',
+  currentQuestion: 'Previous question?',
+  timeLeft: 120,
+  topicIndex: 1,
+  totalTopics: 3,
+  turnIndex: 2,
+};
+
+const run = (state: VoiceContext, ...actions: VoiceAction[]) => actions.reduce(voiceReducer, state);
+
+describe('voiceReducer streaming', () => {
+  // ========================================
+  // Test 1: First sentence
+  // ========================================
+  describe('AI_STREAM_START', () => {
+    it('should start playing before generation finishes', () => {
+      const state = run(generating, { type: 'AI_STREAM_START', question: 'Good point.' });
+
+      expect(state.currentState).toBe('TTS_PLAYING');
+      expect(state.previousState).toBe('AI_GENERATING');
+      expect(state.currentQuestion).toBe('Good point.');
+      expect(state.questionStreaming).toBe(true);
+      expect(state.turnIndex).toBe(3);
+      expect(state.timerRunning).toBe(false);
+    });
+
+    it('should only be accepted while the question is being generated', () => {
+      const listening: VoiceContext = { ...generating, currentState: 'LISTENING' };
+
+      expect(run(listening, { type: 'AI_STREAM_START', question: 'Good point.' })).toBe(listening);
+      expect(isValidAction('AI_GENERATING', 'AI_STREAM_START')).toBe(true);
+      expect(isValidAction('LISTENING', 'AI_STREAM_START')).toBe(false);
+    });
+  });
+
+  // ========================================
+  // Test 2: Later sentences
+  // ========================================
+  describe('AI_STREAM_CHUNK', () => {
+    it('should update the question text and keep playing', () => {
+      const state = run(
+        generating,
+        { type: 'AI_STREAM_START', question: 'Good point.' },
+        { type: 'AI_STREAM_CHUNK', question: 'Good point. Why did you choose it?' }
+      );
+
+      expect(state.currentState).toBe('TTS_PLAYING');
+      expect(state.previousState).toBe('AI_GENERATING');
+      expect(state.currentQuestion).toBe('Good point. Why did you choose it?');
+      expect(state.questionStreaming).toBe(true);
+      expect(state.turnIndex).toBe(3);
+    });
+
+    it('should be ignored when no question is streaming', () => {
+      const playing = run(generating, { type: 'AI_READY', question: 'Full question?' });
+
+      expect(run(playing, { type: 'AI_STREAM_CHUNK', question: 'Stale text' })).toBe(playing);
+      expect(run(generating, { type: 'AI_STREAM_CHUNK', question: 'Stale text' })).toBe(generating);
+    });
+  });
+
+  // ========================================
+  // Test 3: Generation finished
+  // ========================================
+  describe('AI_READY while streaming', () => {
+    it('should confirm the full question without restarting playback', () => {
+      const state = run(
+        generating,
+        { type: 'AI_STREAM_START', question: 'Good point.' },
+        { type: 'AI_READY', question: 'Good point. Why did you choose it?' }
+      );
+
+      expect(state.currentState).toBe('TTS_PLAYING');
+      expect(state.currentQuestion).toBe('Good point. Why did you choose it?');
+      expect(state.questionStreaming).toBe(false);
+      expect(state.turnIndex).toBe(3);
+    });
+
+    it('should replace the streamed text with a fallback question', () => {
+      const state = run(
+        generating,
+        { type: 'AI_STREAM_START', question: 'Good point.' },
+        { type: 'AI_READY', question: 'Can you explain your method?' }
+      );
+
+      expect(state.currentQuestion).toBe('Can you explain your method?');
+      expect(state.questionStreaming).toBe(false);
+    });
+
+    it('should start listening once the last sentence has played', () => {
+      const state = run(
+        generating,
+        { type: 'AI_STREAM_START', question: 'Good point.' },
+        { type: 'AI_READY', question: 'Good point. Why?' },
+        { type: 'TTS_ENDED' }
+      );
+
+      expect(state.currentState).toBe('LISTENING');
+      expect(state.isRecording).toBe(true);
+      expect(state.timerRunning).toBe(true);
+    });
+  });
+
+  // ========================================
+  // Test 4: Playback failure mid-stream
+  // ========================================
+  describe('TTS_FAILED while streaming', () => {
+    it('should pause and still show the full question when generation finishes', () => {
+      const paused = run(
+        generating,
+        { type: 'AI_STREAM_START', question: 'Good point.' },
+        { type: 'TTS_FAILED', error: 'Audio playback failed' }
+      );
+
+      expect(paused.currentState).toBe('PAUSED');
+      expect(paused.pauseReason).toBe('tts_failed');
+      expect(paused.currentQuestion).toBe('Good point.');
+
+      const state = run(paused, { type: 'AI_READY', question: 'Good point. Why did you choose it?' });
+
+      expect(state.currentState).toBe('PAUSED');
+      expect(state.currentQuestion).toBe('Good point. Why did you choose it?');
+      expect(state.questionStreaming).toBe(false);
+    });
+
+    it('should not change the question of a pause that is not streaming', () => {
+      const paused: VoiceContext = { ...generating, currentState: 'PAUSED', pauseReason: 'reconnect' };
+
+      expect(run(paused, { type: 'AI_READY', question: 'Other question?' })).toBe(paused);
+    });
+
+    it('should stop streaming when the student starts the microphone', () => {
+      const state = run(
+        generating,
+        { type: 'AI_STREAM_START', question: 'Good point.' },
+        { type: 'TTS_FAILED', error: 'Audio playback failed' },
+        { type: 'START_MIC' }
+      );
+
+      expect(state.currentState).toBe('LISTENING');
+      expect(state.questionStreaming).toBe(false);
+
+      // A late AI_READY no longer changes the question being answered
+      expect(run(state, { type: 'AI_READY', question: 'Good point. Why?' }).currentQuestion).toBe('Good point.');
+    });
+  });
+});
@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { api } from '@/lib/api';
+import { useAIGenerationPolling } from './useAIGenerationPolling';
+
+interface UseAIGenerationEventsProps {
+  sessionToken: string | null;
+  isGenerating: boolean;
+  onComplete: (question: string, turnIndex: number) => void;
+  // Voice mode: called per sentence while the question is still being generated
+  onSentence?: (sentence: string, sentenceIndex: number, questionSoFar: string) => void;
+  onError: (error: Error) => void;
+  pollInterval?: number;
+  fallbackDelay?: number;
+}
+
+interface QuestionEventData {
+  topicIndex: number;
+  turnIndex: number;
+  question: string;
+  sentence?: string;
+  sentenceIndex?: number;
+  error?: string;
+}
+
+/**
+ * Hook to receive AI-generated questions via push (GET /api/interview/events)
+ * Falls back to useAIGenerationPolling when the stream is down, or when no push
+ * arrives within fallbackDelay while a question is being generated.
+ * 'question-sentence' events are forwarded to onSentence; onComplete still fires
+ * once with the full question.
+ */
+export function useAIGenerationEvents({
+  sessionToken,
+  isGenerating,
+  onComplete,
+  onSentence,
+  onError,
+  pollInterval = 1000,
+  fallbackDelay = 5000,
+}: UseAIGenerationEventsProps) {
+  const [isConnected, setIsConnected] = useState(false);
+  const [pushOverdue, setPushOverdue] = useState(false);
+  const onCompleteRef = useRef(onComplete);
+  const onSentenceRef = useRef(onSentence);
+  const lastDeliveredRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  useEffect(() => {
+    onSentenceRef.current = onSentence;
+  }, [onSentence]);
+
+  // Push and polling can both report the same question - deliver it once
+  const deliver = useCallback((question: string, turnIndex: number) => {
+    const key = `${turnIndex}:${question}`;
+    if (lastDeliveredRef.current === key) return;
+    lastDeliveredRef.current = key;
+    onCompleteRef.current(question, turnIndex);
+  }, []);
+
+  // Keep one stream open for the whole interview
+  useEffect(() => {
+    if (!sessionToken) return;
+
+    const close = api.interview.events(sessionToken, {
+      onOpen: () => setIsConnected(true),
+      onError: () => setIsConnected(false),
+      onEvent: ({ event, data }) => {
+        if (event === 'question-sentence') {
+          const { sentence, sentenceIndex, question } = data as QuestionEventData;
+          if (sentence !== undefined && sentenceIndex !== undefined) {
+            onSentenceRef.current?.(sentence, sentenceIndex, question);
+          }
+          return;
+        }
+
+        if (event !== 'question-ready' && event !== 'question-failed') return;
+
+        const { question, turnIndex, error } = data as QuestionEventData;
+        if (event === 'question-failed') {
+          console.warn('AI generation failed, using fallback question:', error);
+        }
+        deliver(question, turnIndex);
+      },
+    });
+
+    return () => {
+      close();
+      setIsConnected(false);
+    };
+  }, [sessionToken, deliver]);
+
+  // Start polling if the push hasn't arrived in time
+  useEffect(() => {
+    if (!isGenerating) {
+      setPushOverdue(false);
+      return;
+    }
+
+    const timeoutId = setTimeout(() => setPushOverdue(true), fallbackDelay);
+    return () => clearTimeout(timeoutId);
+  }, [isGenerating, fallbackDelay]);
+
+  useAIGenerationPolling({
+    sessionToken,
+    isGenerating: isGenerating && (!isConnected || pushOverdue),
+    onComplete: deliver,
+    onError,
+    pollInterval,
+  });
+
+  return { isConnected };
+}
+
+export default useAIGenerationEvents;
@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect } from 'react';
+import { api } from '@/lib/api';
+import { useStudentStore, Accommodations } from '@/lib/store';
+
+const NO_ACCOMMODATIONS: Accommodations = {
+  timeMultiplier: 1,
+  chatOnly: false,
+  largeText: false,
+  readAloud: false,
+};
+
+/**
+ * Accommodations the teacher set for the joined student
+ * Refreshes them from the server (the teacher may change them after the student joined),
+ * keeps them on the stored participant and applies the larger text setting to the page.
+ */
+export function useAccommodations(): Accommodations {
+  const sessionToken = useStudentStore((state) => state.sessionToken);
+  const accommodations = useStudentStore((state) => state.participant?.accommodations) ?? NO_ACCOMMODATIONS;
+
+  useEffect(() => {
+    if (!sessionToken) return;
+
+    let cancelled = false;
+    api.interview
+      .accommodations(sessionToken)
+      .then(({ accommodations }) => {
+        const { participant, setParticipant } = useStudentStore.getState();
+        if (!cancelled && participant) {
+          setParticipant({ ...participant, accommodations });
+        }
+      })
+      .catch((err) => console.error('Failed to load accommodations:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionToken]);
+
+  // Tailwind sizes are rem-based, so scaling the root font size enlarges the whole page
+  const largeText = accommodations.largeText;
+  useEffect(() => {
+    document.documentElement.classList.toggle('large-text', largeText);
+    return () => document.documentElement.classList.remove('large-text');
+  }, [largeText]);
+
+  return accommodations;
+}
+
+export default useAccommodations;
@@ -0,0 +1,114 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { AnswerTelemetry } from '@/lib/api';
+
+interface UseAnswerTelemetryReturn {
+  /** Attach to the answer textarea */
+  onPaste: (e: React.ClipboardEvent<HTMLTextAreaElement>) => void;
+  onKeyDown: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void;
+  /** Counters for the answer being submitted (time away so far included) */
+  snapshot: () => AnswerTelemetry;
+  /** Start measuring a new answer */
+  reset: () => void;
+}
+
+// Keys that change the text besides printable characters ('Process' = IME composition, e.g. 한글)
+const EDITING_KEYS = new Set(['Backspace', 'Delete', 'Enter', 'Process']);
+
+/**
+ * Answer telemetry hook for chat interviews
+ * Counts pastes, key presses and time spent away from the tab while an answer is written,
+ * so the teacher can see answers that were not typed in the interview.
+ *
+ * Time away starts when the tab is hidden or the window loses focus, and ends when
+ * the student comes back; a hidden tab also blurs the window, so that counts once.
+ */
+export function useAnswerTelemetry(): UseAnswerTelemetryReturn {
+  const pasteCountRef = useRef(0);
+  const pastedCharsRef = useRef(0);
+  const keystrokesRef = useRef(0);
+  const focusLossCountRef = useRef(0);
+  const focusLossMsRef = useRef(0);
+  const awaySinceRef = useRef<number | null>(null);
+  const startedAtRef = useRef(Date.now());
+
+  useEffect(() => {
+    const leave = () => {
+      if (awaySinceRef.current !== null) return;
+      awaySinceRef.current = Date.now();
+      focusLossCountRef.current += 1;
+    };
+
+    const returnToPage = () => {
+      if (awaySinceRef.current === null) return;
+      focusLossMsRef.current += Date.now() - awaySinceRef.current;
+      awaySinceRef.current = null;
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        leave();
+      } else {
+        returnToPage();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', leave);
+    window.addEventListener('focus', returnToPage);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', leave);
+      window.removeEventListener('focus', returnToPage);
+    };
+  }, []);
+
+  const onPaste = useCallback((e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const text = e.clipboardData.getData('text');
+    if (!text) return;
+    pasteCountRef.current += 1;
+    pastedCharsRef.current += text.length;
+  }, []);
+
+  const onKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Shortcuts (Ctrl+V, Cmd+A, ...) are not typing
+    if (e.ctrlKey || e.metaKey) return;
+    if (e.key.length === 1 || EDITING_KEYS.has(e.key)) {
+      keystrokesRef.current += 1;
+    }
+  }, []);
+
+  const snapshot = useCallback((): AnswerTelemetry => {
+    const now = Date.now();
+    const awayMs = awaySinceRef.current === null ? 0 : now - awaySinceRef.current;
+    return {
+      pasteCount: pasteCountRef.current,
+      pastedChars: pastedCharsRef.current,
+      keystrokes: keystrokesRef.current,
+      focusLossCount: focusLossCountRef.current,
+      focusLossMs: focusLossMsRef.current + awayMs,
+      composeMs: now - startedAtRef.current,
+    };
+  }, []);
+
+  const reset = useCallback(() => {
+    const now = Date.now();
+    pasteCountRef.current = 0;
+    pastedCharsRef.current = 0;
+    keystrokesRef.current = 0;
+    focusLossCountRef.current = 0;
+    focusLossMsRef.current = 0;
+    // Still away: the next answer's time away starts now
+    if (awaySinceRef.current !== null) {
+      awaySinceRef.current = now;
+      focusLossCountRef.current = 1;
+    }
+    startedAtRef.current = now;
+  }, []);
+
+  return { onPaste, onKeyDown, snapshot, reset };
+}
+
+export default useAnswerTelemetry;
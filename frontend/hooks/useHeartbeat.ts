@@ -1,7 +1,7 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
-import { api } from '@/lib/api';
+import { api, StudentPauseStatus } from '@/lib/api';
 
 interface HeartbeatResponse {
   status: string;
@@ -11,6 +11,7 @@ interface HeartbeatResponse {
   timeExpired: boolean;
   showTransitionPage: boolean;
   topicsState: unknown[];
+  studentPause?: StudentPauseStatus;
 }
 
 interface UseHeartbeatProps {
@@ -18,6 +18,8 @@ interface UseInterviewTimerProps {
   isListening?: boolean;
   /** Whether this is voice mode interview */
   isVoiceMode?: boolean;
+  /** The student paused the interview (counts against the session's pause budget) */
+  isStudentPaused?: boolean;
 }
 
 interface UseInterviewTimerReturn {
@@ -47,6 +49,7 @@ export function useInterviewTimer({
   isTranscribing = false,
   isListening = false,
   isVoiceMode = false,
+  isStudentPaused = false,
 }: UseInterviewTimerProps): UseInterviewTimerReturn {
   // Use server-calculated time if available, otherwise use totalTime
   const [timeLeft, setTimeLeft] = useState(initialTimeLeft ?? totalTime);
@@ -94,10 +97,14 @@ export function useInterviewTimer({
   //   - Pauses during TTS, STT transcription, AI generation, and idle states
   // Chat mode: Timer runs when topic started, pauses only during AI generation
   //
+  // Both modes: a student pause stops the timer (the server does the same)
+  //
   // Note: isTyping is kept for backward compatibility but no longer affects timer
-  const shouldTick = isVoiceMode
-    ? isListening === true  // Voice mode: only tick when microphone is recording
-    : isTopicStarted && !isSpeaking && !isTranscribing && !aiGenerating;  // Chat mode: existing logic
+  const shouldTick = isStudentPaused
+    ? false
+    : isVoiceMode
+      ? isListening === true  // Voice mode: only tick when microphone is recording
+      : isTopicStarted && !isSpeaking && !isTranscribing && !aiGenerating;  // Chat mode: existing logic
   const isPaused = !shouldTick;
 
   useEffect(() => {
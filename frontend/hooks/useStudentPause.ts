@@ -0,0 +1,134 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { api, StudentPauseStatus } from '@/lib/api';
+
+interface UseStudentPauseProps {
+  sessionToken: string | null;
+  /** Called once the server has started the pause (stop recording, etc.) */
+  onPause?: () => void;
+  /** Called once the pause ended, by the student or because the budget ran out */
+  onResume?: () => void;
+}
+
+interface UseStudentPauseReturn {
+  /** The session allows student pauses (pause budget > 0) */
+  enabled: boolean;
+  isPaused: boolean;
+  /** Seconds of pause budget left, counting down while paused */
+  remaining: number;
+  isUpdating: boolean;
+  /** Resolve to false when the server refused or the request failed */
+  pause: () => Promise<boolean>;
+  resume: () => Promise<boolean>;
+  /** Apply the pause state from /state or /heartbeat */
+  sync: (status: StudentPauseStatus | undefined) => void;
+}
+
+/**
+ * Student-requested pause with a capped budget
+ * The server stops the topic timer and enforces the budget; this hook mirrors it
+ * and resumes on its own when the budget runs out.
+ */
+export function useStudentPause({
+  sessionToken,
+  onPause,
+  onResume,
+}: UseStudentPauseProps): UseStudentPauseReturn {
+  const [status, setStatus] = useState<StudentPauseStatus | null>(null);
+  const [remaining, setRemaining] = useState(0);
+  const [isUpdating, setIsUpdating] = useState(false);
+  // When status.remaining was measured (Date.now), for the local countdown
+  const syncedAtRef = useRef(0);
+  const isPausedRef = useRef(false);
+  const onPauseRef = useRef(onPause);
+  const onResumeRef = useRef(onResume);
+
+  useEffect(() => {
+    onPauseRef.current = onPause;
+    onResumeRef.current = onResume;
+  }, [onPause, onResume]);
+
+  const apply = useCallback((next: StudentPauseStatus) => {
+    const wasPaused = isPausedRef.current;
+    isPausedRef.current = next.paused;
+    syncedAtRef.current = Date.now();
+    setStatus(next);
+    setRemaining(next.remaining);
+
+    if (wasPaused && !next.paused) {
+      onResumeRef.current?.();
+    } else if (!wasPaused && next.paused) {
+      onPauseRef.current?.();
+    }
+  }, []);
+
+  const sync = useCallback(
+    (next: StudentPauseStatus | undefined) => {
+      if (next) apply(next);
+    },
+    [apply]
+  );
+
+  const pause = useCallback(async (): Promise<boolean> => {
+    if (!sessionToken || isPausedRef.current) return false;
+
+    setIsUpdating(true);
+    try {
+      const { studentPause } = await api.interview.pause(sessionToken);
+      apply(studentPause);
+      return studentPause.paused;
+    } catch (error) {
+      console.error('Failed to pause interview:', error);
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [sessionToken, apply]);
+
+  const resume = useCallback(async (): Promise<boolean> => {
+    if (!sessionToken || !isPausedRef.current) return false;
+
+    setIsUpdating(true);
+    try {
+      const { studentPause } = await api.interview.resume(sessionToken);
+      apply(studentPause);
+      return true;
+    } catch (error) {
+      console.error('Failed to resume interview:', error);
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [sessionToken, apply]);
+
+  // Count the budget down while paused; resume when it runs out
+  const isPaused = status?.paused ?? false;
+  useEffect(() => {
+    if (!isPaused || !status) return;
+
+    const timer = setInterval(() => {
+      const elapsed = Math.floor((Date.now() - syncedAtRef.current) / 1000);
+      const left = Math.max(0, status.remaining - elapsed);
+      setRemaining(left);
+      if (left === 0) {
+        clearInterval(timer);
+        resume();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [isPaused, status, resume]);
+
+  return {
+    enabled: (status?.budget ?? 0) > 0,
+    isPaused,
+    remaining,
+    isUpdating,
+    pause,
+    resume,
+    sync,
+  };
+}
+
+export default useStudentPause;
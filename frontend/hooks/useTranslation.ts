@@ -0,0 +1,31 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useStudentStore } from '@/lib/store';
+import { translate, isLocale, DEFAULT_LOCALE, Locale, MessageKey } from '@/lib/i18n';
+
+interface UseTranslationReturn {
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  locale: Locale;
+}
+
+/**
+ * Translation hook for student pages
+ * Uses the interview language of the joined session; pages shown before joining
+ * pass the looked-up session's language instead.
+ */
+export function useTranslation(localeOverride?: string | null): UseTranslationReturn {
+  const sessionLanguage = useStudentStore((state) => state.sessionInfo?.interviewLanguage);
+
+  const requested = localeOverride ?? sessionLanguage;
+  const locale: Locale = isLocale(requested) ? requested : DEFAULT_LOCALE;
+
+  const t = useCallback(
+    (key: MessageKey, params?: Record<string, string | number>) => translate(locale, key, params),
+    [locale]
+  );
+
+  return { t, locale };
+}
+
+export default useTranslation;
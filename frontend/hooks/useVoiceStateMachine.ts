@@ -23,6 +23,7 @@ import {
 } from '@/lib/voice';
 import { TTSService, STTService } from '@/lib/voice';
 import { api } from '@/lib/api';
+import { useTranslation } from '@/hooks/useTranslation';
 
 // ==========================================
 // Types
@@ -63,8 +64,10 @@ export interface UseVoiceStateMachineReturn {
   reconnect: (serverState: VoiceServerState) => void;
   completeAnswer: () => Promise<string>;
   startMic: () => Promise<void>;
+  pauseByUser: () => void;
   handleTTSEnd: () => void;
   handleAIReady: (question: string) => void;
+  handleAISentence: (sentence: string, sentenceIndex: number, questionSoFar: string) => void;
   handleNextTopic: (question: string, topicIndex: number, timeLeft: number) => void;
   handleAllTopicsDone: () => void;
   retry: () => void;
@@ -85,6 +88,7 @@ export function useVoiceStateMachine(
 ): UseVoiceStateMachineReturn {
   // State machine
   const [state, dispatch] = useReducer(voiceReducer, initialVoiceContext);
+  const { t } = useTranslation();
 
   // Service refs (persist across renders)
   const ttsServiceRef = useRef<TTSService | null>(null);
@@ -92,6 +96,8 @@ export function useVoiceStateMachine(
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const prevStateRef = useRef<VoiceState>(state.currentState);
   const sessionTokenRef = useRef<string | null>(sessionToken);
+  // 스트리밍 중인 질문 (생성 완료 전 문장 단위 재생)
+  const streamRef = useRef<{ nextSentenceIndex: number; text: string } | null>(null);
 
   // Initialize services
   useEffect(() => {
@@ -199,14 +205,14 @@ export function useVoiceStateMachine(
         if (!retrySuccess) {
           console.error('[handleTTSEnd] Recording failed after retry');
           dispatch({ type: 'STT_FAILED', error: 'Failed to start recording after retry' });
-          options.onError?.(new Error('마이크 녹음을 시작할 수 없습니다. 마이크 권한을 확인해주세요.'));
+          options.onError?.(new Error(t('voice.recordingFailed')));
         }
       }
     } catch (error) {
       dispatch({ type: 'STT_FAILED', error: (error as Error).message });
       options.onError?.(error as Error);
     }
-  }, [options]);
+  }, [options, t]);
 
   /**
    * 인터뷰 시작 (첫 질문 TTS 재생)
@@ -329,20 +335,97 @@ export function useVoiceStateMachine(
         dispatch({ type: 'START_MIC' });
       } else {
         console.warn('[startMic] Failed to start recording');
-        options.onError?.(new Error('마이크 시작에 실패했습니다. 다시 시도해주세요.'));
+        options.onError?.(new Error(t('voice.micStartFailed')));
       }
     } catch (error) {
       options.onError?.(error as Error);
     }
-  }, [state.currentState, options]);
+  }, [state.currentState, options, t]);
+
+  /**
+   * 학생 일시정지 (LISTENING 상태에서)
+   * 녹음 중이던 답변은 버리고, 다시 시작하면 startMic으로 녹음을 새로 시작합니다.
+   */
+  const pauseByUser = useCallback(() => {
+    if (state.currentState !== 'LISTENING') {
+      return;
+    }
+
+    sttServiceRef.current?.cancel();
+    dispatch({ type: 'PAUSE', reason: 'user_requested' });
+  }, [state.currentState]);
+
+  /**
+   * AI 질문 문장 도착 (생성 중 스트리밍)
+   * 첫 문장에서 TTS 재생을 시작하고, 이후 문장은 재생 큐에 이어 붙입니다.
+   */
+  const handleAISentence = useCallback(
+    (sentence: string, sentenceIndex: number, questionSoFar: string) => {
+      const stream = streamRef.current;
+
+      if (!stream) {
+        // 첫 문장만 재생을 시작할 수 있음 (중간부터 받은 스트림은 AI_READY를 기다림)
+        if (sentenceIndex !== 0) return;
+
+        streamRef.current = { nextSentenceIndex: 1, text: questionSoFar };
+        dispatch({ type: 'AI_STREAM_START', question: questionSoFar });
+
+        try {
+          ttsServiceRef.current?.setCallbacks({
+            onStart: () => {
+              // TTS 시작 → 서버에 pause 시작 알림
+              if (sessionTokenRef.current) {
+                api.interview.pauseEvent(sessionTokenRef.current, 'tts_start').catch((err) => {
+                  console.warn('[handleAISentence] Failed to send tts_start event:', err);
+                });
+              }
+            },
+            onEnd: () => handleTTSEnd(),
+            onError: (error) => dispatch({ type: 'TTS_FAILED', error: error.message }),
+          });
+
+          ttsServiceRef.current?.beginStream();
+          ttsServiceRef.current?.enqueue(sentence);
+        } catch (error) {
+          streamRef.current = null;
+          dispatch({ type: 'TTS_FAILED', error: (error as Error).message });
+        }
+        return;
+      }
+
+      // 중복/순서가 어긋난 문장은 무시
+      if (sentenceIndex !== stream.nextSentenceIndex) return;
+
+      stream.nextSentenceIndex += 1;
+      stream.text = questionSoFar;
+      dispatch({ type: 'AI_STREAM_CHUNK', question: questionSoFar });
+      ttsServiceRef.current?.enqueue(sentence);
+    },
+    [handleTTSEnd]
+  );
 
   /**
    * AI 질문 준비 완료
    */
   const handleAIReady = useCallback(
     async (question: string) => {
+      const stream = streamRef.current;
+      streamRef.current = null;
+
       dispatch({ type: 'AI_READY', question });
 
+      if (stream) {
+        // 이미 스트리밍으로 재생 중 → 남은 문장 재생 후 종료
+        if (question.startsWith(stream.text)) {
+          ttsServiceRef.current?.endStream();
+          return;
+        }
+
+        // 생성 실패로 대체 질문이 온 경우: 재생 중이면 처음부터 다시 재생,
+        // 재생이 이미 실패했으면 PAUSED 상태에서 재시작을 기다림
+        if (!ttsServiceRef.current?.isSpeaking) return;
+      }
+
       // TTS 재생
       try {
         ttsServiceRef.current?.setCallbacks({
@@ -419,6 +502,7 @@ export function useVoiceStateMachine(
    * 상태 초기화
    */
   const reset = useCallback(() => {
+    streamRef.current = null;
     ttsServiceRef.current?.stop();
     sttServiceRef.current?.cancel();
     dispatch({ type: 'RESET' });
@@ -461,8 +545,10 @@ export function useVoiceStateMachine(
     reconnect,
     completeAnswer,
     startMic,
+    pauseByUser,
     handleTTSEnd,
     handleAIReady,
+    handleAISentence,
     handleNextTopic,
     handleAllTopicsDone,
     retry,
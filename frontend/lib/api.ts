@@ -3,6 +3,8 @@
  * Provides type-safe API calls with error handling
  */
 
+import type { Accommodations, EvaluationSummary, InterviewLanguage, QuestionBank, Rubric, Topic } from './store';
+
 // Normalize API URL:
 // 1. Add https:// if protocol is missing (prevents relative URL issues in production)
 // 2. Remove trailing /api if present (API endpoints already include /api prefix)
@@ -137,6 +139,333 @@ async function uploadFile<T>(
   }
 }
 
+/**
+ * File download wrapper
+ * Returns the body as a Blob plus the filename from Content-Disposition (RFC 5987)
+ */
+async function downloadFile(
+  endpoint: string,
+  token?: string | null
+): Promise<{ blob: Blob; filename: string | null }> {
+  try {
+    const response = await fetch(`${API_URL}${endpoint}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const data: ApiResponse = await response.json().catch(() => ({ success: false }));
+      throw new ApiError(data.error || 'Download failed', response.status);
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const match = disposition.match(/filename\*=UTF-8''([^;]+)/i);
+
+    return {
+      blob: await response.blob(),
+      filename: match ? decodeURIComponent(match[1]) : null,
+    };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    if (error instanceof TypeError) {
+      throw new ApiError('Network error. Please check your connection.', 0);
+    }
+    throw new ApiError('Download failed', 500);
+  }
+}
+
+/**
+ * Class roster of a session (GET/PUT /api/sessions/:id/roster)
+ */
+export interface RosterData {
+  entries: Array<{
+    id: string;
+    studentName: string;
+    studentId: string | null;
+    hasPin: boolean;
+    accommodations: Accommodations;
+    participantId: string | null;
+    participantStatus: string | null;
+    joinedAt: string | null;
+  }>;
+  total: number;
+  joined: number;
+}
+
+/**
+ * Why an AI follow-up question was asked (assessment of the previous answer)
+ */
+export interface FollowUpPlan {
+  assessment: 'correct' | 'vague' | 'incorrect' | 'contradicts_submission';
+  move: 'probe_deeper' | 'ask_example' | 'challenge_contradiction' | 'move_on';
+  difficulty: 'basic' | 'standard' | 'advanced';
+  rationale: string;
+}
+
+/**
+ * How a chat answer was written (sent with POST /api/interview/answer)
+ */
+export interface AnswerTelemetry {
+  pasteCount: number;
+  pastedChars: number;
+  keystrokes: number;
+  focusLossCount: number;
+  focusLossMs: number;
+  composeMs: number;
+}
+
+/**
+ * Authenticity signals for one participant (GET .../participants/:participantId/integrity)
+ */
+export interface IntegrityReport {
+  flags: Array<{
+    type:
+      | 'slow_answer'
+      | 'fast_answer'
+      | 'verbatim_copy'
+      | 'pasted_answer'
+      | 'low_keystrokes'
+      | 'focus_loss'
+      | 'skipped_topics'
+      | 'disconnects';
+    severity: 'notice' | 'warning';
+    conversationIds: number[];
+  }>;
+  timings: Array<{
+    conversationId: number;
+    topicIndex: number;
+    turnIndex: number;
+    latencySeconds: number;
+    characters: number;
+    charsPerSecond: number;
+  }>;
+  medianLatencySeconds: number | null;
+  slowAnswerThresholdSeconds: number | null;
+  verbatimMatches: Array<{
+    conversationId: number;
+    topicIndex: number;
+    turnIndex: number;
+    excerpt: string;
+    length: number;
+  }>;
+  skippedTopics: Array<{ index: number; title: string }>;
+  disconnectCount: number;
+}
+
+export type ReviewVerdict = 'verified' | 'needs_follow_up' | 'suspected';
+
+/**
+ * What the teacher sets when reviewing an evaluation (notes are private to teachers)
+ */
+export interface EvaluationReviewInput {
+  score: number;
+  strengths: string[];
+  weaknesses: string[];
+  notes: string;
+  verdict: ReviewVerdict | null;
+}
+
+export interface EvaluationReview extends EvaluationReviewInput {
+  reviewedBy: string;
+  reviewedAt: string;
+}
+
+/**
+ * AI evaluation, teacher review and every saved review (GET .../participants/:participantId/review)
+ */
+export interface EvaluationReviewData {
+  aiSummary: (EvaluationSummary & { fallback?: boolean }) | null;
+  review: EvaluationReview | null;
+  history: Array<{
+    id: string;
+    review: EvaluationReview;
+    teacherName: string | null;
+    createdAt: string;
+  }>;
+}
+
+/**
+ * Teacher a session is shared with (GET /api/sessions/:id/collaborators)
+ */
+export interface Collaborator {
+  id: string;
+  name: string;
+  email: string;
+  role: 'editor' | 'viewer';
+  addedAt: string;
+}
+
+export type OrganizationRole = 'admin' | 'teacher' | 'ta';
+
+/**
+ * Organization the teacher belongs to (GET /api/organizations)
+ */
+export interface Organization {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  memberCount: number;
+  createdAt: string;
+}
+
+/**
+ * Saved session settings (GET /api/templates)
+ * Shared with every member of its organization; only the owner can change it.
+ */
+export interface SessionTemplate {
+  id: string;
+  name: string;
+  isOwner: boolean;
+  ownerName: string;
+  organization: { id: string; name: string } | null;
+  settings: {
+    title: string;
+    description: string | null;
+    topicCount: number;
+    topicDuration: number;
+    interviewMode: 'voice' | 'chat' | 'student_choice';
+    interviewLanguage: InterviewLanguage;
+    assignmentInfo: string | null;
+    rubric: Rubric | null;
+    requireTopicApproval: boolean;
+    questionBank: QuestionBank | null;
+    pauseBudget: number;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Student-requested pauses, capped by the session's pause budget (seconds)
+export interface StudentPauseStatus {
+  budget: number;
+  used: number;
+  remaining: number;
+  paused: boolean;
+  count: number;
+}
+
+export interface OrganizationMember {
+  id: string;
+  name: string;
+  email: string;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+/**
+ * Server-Sent Event received from an event stream
+ */
+export interface StreamEvent<T = unknown> {
+  event: string;
+  data: T;
+}
+
+/**
+ * Event stream handlers
+ */
+interface EventStreamOptions {
+  headers?: Record<string, string>;
+  token?: string | null;
+  onEvent: (event: StreamEvent) => void;
+  onOpen?: () => void;
+  onError?: (error: ApiError) => void;
+}
+
+/**
+ * Server-Sent Events reader over fetch
+ * EventSource cannot send Authorization / X-Session-Token headers, so the stream
+ * is read manually. Reconnects automatically until the returned close() is called.
+ */
+function openEventStream(endpoint: string, options: EventStreamOptions): () => void {
+  const { headers = {}, token, onEvent, onOpen, onError } = options;
+  const controller = new AbortController();
+  let retryDelay = 3000;
+  let closed = false;
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith(':')) continue; // keep-alive comment
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+      else if (line.startsWith('retry:')) retryDelay = parseInt(line.slice(6), 10) || retryDelay;
+    }
+
+    if (dataLines.length === 0) return;
+
+    try {
+      onEvent({ event, data: JSON.parse(dataLines.join('\n')) });
+    } catch {
+      onEvent({ event, data: dataLines.join('\n') });
+    }
+  };
+
+  const connect = async () => {
+    try {
+      const response = await fetch(`${API_URL}${endpoint}`, {
+        headers: {
+          Accept: 'text/event-stream',
+          ...(token && { Authorization: `Bearer ${token}` }),
+          ...headers,
+        },
+        credentials: 'include',
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new ApiError('Failed to open event stream', response.status);
+      }
+
+      onOpen?.();
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+        let separator = buffer.indexOf('\n\n');
+        while (separator !== -1) {
+          dispatch(buffer.slice(0, separator));
+          buffer = buffer.slice(separator + 2);
+          separator = buffer.indexOf('\n\n');
+        }
+      }
+    } catch (error) {
+      if (closed) return;
+      const apiError = error instanceof ApiError
+        ? error
+        : new ApiError('Event stream disconnected', 0);
+      onError?.(apiError);
+
+      // Auth and not-found errors will not fix themselves
+      if (apiError.status >= 400 && apiError.status < 500) {
+        return;
+      }
+    }
+
+    if (!closed) {
+      setTimeout(() => {
+        if (!closed) connect();
+      }, retryDelay);
+    }
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    controller.abort();
+  };
+}
+
 /**
  * API methods organized by domain
  */
@@ -190,6 +519,60 @@ export const api = {
         method: 'POST',
         token,
       }),
+    duplicate: (token: string, id: string, title?: string) =>
+      request<{ session: { id: string; title: string } }>(`/api/sessions/${id}/duplicate`, {
+        method: 'POST',
+        body: { title },
+        token,
+      }),
+    export: (token: string, id: string, format: 'csv' | 'xlsx' | 'json') =>
+      downloadFile(`/api/sessions/${id}/export?format=${format}`, token),
+    report: (token: string, id: string) =>
+      downloadFile(`/api/sessions/${id}/report.pdf`, token),
+    participantReport: (token: string, sessionId: string, participantId: string) =>
+      downloadFile(`/api/sessions/${sessionId}/participants/${participantId}/report.pdf`, token),
+    // Signed storage URLs (valid for an hour, no Authorization header needed)
+    participantFileUrl: (token: string, sessionId: string, participantId: string) =>
+      request<{ url: string }>(`/api/sessions/${sessionId}/participants/${participantId}/download`, { token }),
+    conversationAudioUrl: (token: string, sessionId: string, participantId: string, conversationId: number) =>
+      request<{ url: string }>(
+        `/api/sessions/${sessionId}/participants/${participantId}/conversations/${conversationId}/audio`,
+        { token }
+      ),
+    roster: (token: string, id: string) =>
+      request<RosterData>(`/api/sessions/${id}/roster`, { token }),
+    updateRoster: (token: string, id: string, csv: string) =>
+      request<RosterData>(`/api/sessions/${id}/roster`, {
+        method: 'PUT',
+        body: { csv },
+        token,
+      }),
+    updateRosterAccommodations: (token: string, id: string, entryId: string, accommodations: Accommodations) =>
+      request<{ accommodations: Accommodations }>(`/api/sessions/${id}/roster/${entryId}/accommodations`, {
+        method: 'PUT',
+        body: { accommodations },
+        token,
+      }),
+    deleteRoster: (token: string, id: string) =>
+      request<{ message: string }>(`/api/sessions/${id}/roster`, { method: 'DELETE', token }),
+    collaborators: (token: string, id: string) =>
+      request<{ owner: { id: string; name: string; email: string }; collaborators: Collaborator[] }>(
+        `/api/sessions/${id}/collaborators`,
+        { token }
+      ),
+    addCollaborator: (token: string, id: string, email: string, role: Collaborator['role']) =>
+      request<{ collaborator: Collaborator }>(`/api/sessions/${id}/collaborators`, {
+        method: 'POST',
+        body: { email, role },
+        token,
+      }),
+    removeCollaborator: (token: string, id: string, teacherId: string) =>
+      request<{ message: string }>(`/api/sessions/${id}/collaborators/${teacherId}`, {
+        method: 'DELETE',
+        token,
+      }),
+    events: (token: string, id: string, handlers: Omit<EventStreamOptions, 'token' | 'headers'>) =>
+      openEventStream(`/api/sessions/${id}/events`, { ...handlers, token }),
     getParticipant: (token: string, sessionId: string, participantId: string) =>
       request<{
         id: string;
@@ -200,34 +583,143 @@ export const api = {
         submittedFileName: string | null;
         submittedFileUrl: string | null;
         analyzedTopics: Array<{ title: string; description?: string }> | null;
+        topicsApprovedAt: string | null;
         summary: {
-          score: number;
+          score: number | null;
           strengths: string[];
           weaknesses: string[];
           overallComment: string;
+          fallback?: boolean;
         } | null;
         registeredAt: string;
         fileSubmittedAt: string | null;
         interviewStartedAt: string | null;
         interviewEndedAt: string | null;
         conversations: Array<{
+          id: number;
           topicIndex: number;
           turnIndex: number;
           role: 'ai' | 'student';
           content: string;
+          bankQuestionId: string | null;
+          followUp: FollowUpPlan | null;
+          hasAudio: boolean;
+          telemetry: AnswerTelemetry | null;
           createdAt: string;
         }>;
       }>(`/api/sessions/${sessionId}/participants/${participantId}`, { token }),
+    participantIntegrity: (token: string, sessionId: string, participantId: string) =>
+      request<IntegrityReport>(`/api/sessions/${sessionId}/participants/${participantId}/integrity`, { token }),
+    participantReview: (token: string, sessionId: string, participantId: string) =>
+      request<EvaluationReviewData>(`/api/sessions/${sessionId}/participants/${participantId}/review`, { token }),
+    updateParticipantReview: (
+      token: string,
+      sessionId: string,
+      participantId: string,
+      review: EvaluationReviewInput
+    ) =>
+      request<{ review: EvaluationReview }>(`/api/sessions/${sessionId}/participants/${participantId}/review`, {
+        method: 'PUT',
+        body: review,
+        token,
+      }),
+    updateParticipantAccommodations: (
+      token: string,
+      sessionId: string,
+      participantId: string,
+      accommodations: Accommodations
+    ) =>
+      request<{ accommodations: Accommodations; interviewStarted: boolean }>(
+        `/api/sessions/${sessionId}/participants/${participantId}/accommodations`,
+        {
+          method: 'PUT',
+          body: { accommodations },
+          token,
+        }
+      ),
+    updateParticipantTopics: (
+      token: string,
+      sessionId: string,
+      participantId: string,
+      topics: Array<Pick<Topic, 'title' | 'description' | 'weight' | 'duration'>>,
+      approve = false
+    ) =>
+      request<{
+        analyzedTopics: Topic[];
+        topicsApprovedAt: string | null;
+      }>(`/api/sessions/${sessionId}/participants/${participantId}/topics`, {
+        method: 'PUT',
+        body: { topics, approve },
+        token,
+      }),
+    approveParticipantTopics: (token: string, sessionId: string, participantId: string) =>
+      request<{
+        analyzedTopics: Array<{ index: number; title: string; description: string }>;
+        topicsApprovedAt: string;
+      }>(`/api/sessions/${sessionId}/participants/${participantId}/topics/approve`, {
+        method: 'POST',
+        token,
+      }),
+  },
+
+  // Organization endpoints
+  organizations: {
+    list: (token: string) =>
+      request<{ organizations: Organization[] }>('/api/organizations', { token }),
+    create: (token: string, name: string) =>
+      request<{ organization: Organization }>('/api/organizations', {
+        method: 'POST',
+        body: { name },
+        token,
+      }),
+    members: (token: string, orgId: string) =>
+      request<{ members: OrganizationMember[] }>(`/api/organizations/${orgId}/members`, { token }),
+    addMember: (token: string, orgId: string, email: string, role: OrganizationRole) =>
+      request<{ member: OrganizationMember }>(`/api/organizations/${orgId}/members`, {
+        method: 'POST',
+        body: { email, role },
+        token,
+      }),
+    updateMember: (token: string, orgId: string, teacherId: string, role: OrganizationRole) =>
+      request<{ role: OrganizationRole }>(`/api/organizations/${orgId}/members/${teacherId}`, {
+        method: 'PATCH',
+        body: { role },
+        token,
+      }),
+    removeMember: (token: string, orgId: string, teacherId: string) =>
+      request<{ message: string }>(`/api/organizations/${orgId}/members/${teacherId}`, {
+        method: 'DELETE',
+        token,
+      }),
+  },
+
+  templates: {
+    list: (token: string) =>
+      request<{ templates: SessionTemplate[] }>('/api/templates', { token }),
+    create: (token: string, data: { name: string; sessionId: string; organizationId?: string | null }) =>
+      request<{ template: SessionTemplate }>('/api/templates', {
+        method: 'POST',
+        body: data,
+        token,
+      }),
+    update: (token: string, id: string, data: { name?: string; organizationId?: string | null }) =>
+      request<{ template: SessionTemplate }>(`/api/templates/${id}`, {
+        method: 'PUT',
+        body: data,
+        token,
+      }),
+    delete: (token: string, id: string) =>
+      request<{ message: string }>(`/api/templates/${id}`, { method: 'DELETE', token }),
   },
 
   // Join endpoints (Phase 3)
   join: {
     lookup: (accessCode: string) =>
       request<{ session: unknown }>(`/api/join/${accessCode.toUpperCase()}`),
-    register: (accessCode: string, studentName: string, studentId?: string) =>
+    register: (accessCode: string, studentName: string, studentId?: string, pin?: string) =>
       request<{ participant: unknown; sessionToken: string; session: unknown }>(`/api/join/${accessCode.toUpperCase()}`, {
         method: 'POST',
-        body: { studentName, studentId },
+        body: { studentName, studentId, pin },
       }),
     reconnect: (sessionToken: string) =>
       request<{ participant: unknown; sessionInfo: unknown; interviewState: unknown; redirectTo: string; status: string }>('/api/join/reconnect', {
@@ -241,8 +733,31 @@ export const api = {
     upload: (sessionToken: string, file: File) => {
       const formData = new FormData();
       formData.append('file', file);
-      return uploadFile<{ analyzedTopics: unknown[]; extractedTextLength: number; fileName: string }>('/api/interview/upload', formData, sessionToken);
+      return uploadFile<{
+        analyzedTopics: unknown[];
+        extractedTextLength: number;
+        fileName: string;
+        topicsApprovalPending: boolean;
+      }>('/api/interview/upload', formData, sessionToken);
     },
+    uploadFormats: (sessionToken: string) =>
+      request<{
+        formats: string[];
+        extensions: string[];
+        mimeTypes: string[];
+        ocr: boolean;
+        maxFileSize: number;
+      }>('/api/interview/upload-formats', {
+        headers: { 'X-Session-Token': sessionToken },
+      }),
+    accommodations: (sessionToken: string) =>
+      request<{ accommodations: Accommodations }>('/api/interview/accommodations', {
+        headers: { 'X-Session-Token': sessionToken },
+      }),
+    topicApproval: (sessionToken: string) =>
+      request<{ required: boolean; approved: boolean; topicCount: number }>('/api/interview/topic-approval', {
+        headers: { 'X-Session-Token': sessionToken },
+      }),
     start: (sessionToken: string, mode: string) =>
       request<{ chosenMode: string; currentTopicIndex: number; currentTopic: unknown; firstQuestion: string; topicsState: unknown[] }>('/api/interview/start', {
         method: 'POST',
@@ -259,6 +774,8 @@ export const api = {
         conversations?: unknown[];
         aiGenerationPending?: boolean;
         aiGenerationStartedAt?: string;
+        studentPause?: StudentPauseStatus;
+        accommodations?: Accommodations;
       }>('/api/interview/state', {
         headers: { 'X-Session-Token': sessionToken },
       }),
@@ -267,7 +784,7 @@ export const api = {
         method: 'POST',
         headers: { 'X-Session-Token': sessionToken },
       }),
-    submitAnswer: (sessionToken: string, answer: string) =>
+    submitAnswer: (sessionToken: string, answer: string, telemetry?: AnswerTelemetry) =>
       request<{
         message: string;
         nextQuestion?: string;
@@ -275,7 +792,7 @@ export const api = {
         aiGenerationPending?: boolean;
       }>('/api/interview/answer', {
         method: 'POST',
-        body: { answer },
+        body: { answer, telemetry },
         headers: { 'X-Session-Token': sessionToken },
       }),
     getAIStatus: (sessionToken: string) =>
@@ -287,8 +804,14 @@ export const api = {
       }>('/api/interview/ai-status', {
         headers: { 'X-Session-Token': sessionToken },
       }),
+    events: (sessionToken: string, handlers: Omit<EventStreamOptions, 'token' | 'headers'>) =>
+      openEventStream('/api/interview/events', {
+        ...handlers,
+        headers: { 'X-Session-Token': sessionToken },
+      }),
     nextTopic: (sessionToken: string) =>
       request<{
+        shouldFinalize?: boolean;
         currentTopicIndex: number;
         currentTopic: { index: number; title: string; totalTime: number };
         firstQuestion: string;
@@ -338,6 +861,16 @@ export const api = {
         body: { eventType },
         headers: { 'X-Session-Token': sessionToken },
       }),
+    pause: (sessionToken: string) =>
+      request<{ studentPause: StudentPauseStatus }>('/api/interview/pause', {
+        method: 'POST',
+        headers: { 'X-Session-Token': sessionToken },
+      }),
+    resume: (sessionToken: string) =>
+      request<{ studentPause: StudentPauseStatus }>('/api/interview/resume', {
+        method: 'POST',
+        headers: { 'X-Session-Token': sessionToken },
+      }),
   },
 };
 
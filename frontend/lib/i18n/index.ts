@@ -0,0 +1,50 @@
+/**
+ * Student Page Translations
+ *
+ * Student pages follow the session's interview language (assignment_sessions.interview_language),
+ * so the interview and the screens around it speak the same language.
+ * Teacher pages are not translated.
+ */
+
+import type { InterviewLanguage } from '@/lib/store';
+import ko, { type MessageKey } from './messages/ko';
+import en from './messages/en';
+import ja from './messages/ja';
+import zh from './messages/zh';
+
+export type Locale = InterviewLanguage;
+export type { MessageKey };
+
+export const LOCALES: Locale[] = ['ko', 'en', 'ja', 'zh'];
+
+export const DEFAULT_LOCALE: Locale = 'ko';
+
+// Each language in its own script, for the teacher's language picker
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ko: '한국어',
+  en: 'English',
+  ja: '日本語',
+  zh: '中文',
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { ko, en, ja, zh };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as string[]).includes(value);
+}
+
+/**
+ * Look up a message and fill its {placeholders}
+ * Unknown locales fall back to Korean; placeholders without a value are left as they are
+ */
+export function translate(
+  locale: string | null | undefined,
+  key: MessageKey,
+  params?: Record<string, string | number>
+): string {
+  const template = MESSAGES[isLocale(locale) ? locale : DEFAULT_LOCALE][key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
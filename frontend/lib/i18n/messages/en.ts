@@ -0,0 +1,190 @@
+import type { MessageKey } from './ko';
+
+/**
+ * English messages
+ */
+const en: Record<MessageKey, string> = {
+  // Common
+  'common.minutes': '{minutes} min',
+  'common.optional': '(optional)',
+
+  // Join (/join/[code])
+  'join.loading': 'Loading session...',
+  'join.loadFailed': 'Could not load the session',
+  'join.notFound': 'Session not found',
+  'join.retry': 'Enter another code',
+  'join.nameRequired': 'Please enter your name',
+  'join.joinFailed': 'Could not join the session',
+  'join.reconnectTitle': 'You have a session in progress',
+  'join.reconnectDescription': 'We found your unfinished session for {title}.',
+  'join.connecting': 'Connecting...',
+  'join.continue': 'Continue',
+  'join.startOver': 'Start over',
+  'join.otherCode': 'Enter a different code',
+  'join.accessCode': 'Access code',
+  'join.topics': 'Topics',
+  'join.perTopic': 'Per topic',
+  'join.modeVoice': 'Voice',
+  'join.modeChat': 'Chat',
+  'join.modeChoice': 'Your choice',
+  'join.interview': 'Interview',
+  'join.formTitle': 'Your details',
+  'join.name': 'Name',
+  'join.namePlaceholder': 'Jane Doe',
+  'join.studentId': 'Student ID',
+  'join.studentIdRoster': '(required if you are on the class list)',
+  'join.pinHint': '(the number your teacher gave you)',
+  'join.joining': 'Joining...',
+  'join.submit': 'Join',
+  'join.rosterNote': 'Join with the name and student ID on your teacher\'s class list',
+  'join.uploadNote': 'After joining, you will upload your assignment file',
+
+  // Upload (/interview/upload)
+  'upload.title': 'Upload your assignment',
+  'upload.description': 'Upload your file so we can check {title}',
+  'upload.defaultTitle': 'your assignment',
+  'upload.typeNotAllowed': 'Only {formats} files can be uploaded',
+  'upload.tooLarge': 'The file must be {size}MB or smaller',
+  'upload.failed': 'The upload failed',
+  'upload.stepUpload': 'Upload file',
+  'upload.stepInterview': 'Start interview',
+  'upload.dropHere': 'Drop it here',
+  'upload.dragOrClick': 'Drag your assignment file here or click to choose it',
+  'upload.limits': '{formats} · up to {size}MB',
+  'upload.uploading': 'Uploading...',
+  'upload.analyzing': 'AI is analyzing...',
+  'upload.analyzed': 'Analysis complete!',
+  'upload.analyze': 'Start AI analysis',
+  'upload.topicsExtracted': 'The AI found {count} topics in your assignment',
+  'upload.ready': 'Your interview is ready. In the next step you can choose how to answer and start.',
+  'upload.next': 'Next',
+  'upload.privacyNote': 'Your file is only used to prepare the interview questions',
+
+  // Start (/interview/start)
+  'start.title': 'Get ready',
+  'start.description': 'You are about to start the interview for {title}',
+  'start.micRequired': 'Microphone access is required. Please choose chat mode instead.',
+  'start.failed': 'Could not start the interview',
+  'start.totalTime': 'about {minutes} min',
+  'start.ready': 'Interview ready',
+  'start.topicsReady': '{count} topics are ready',
+  'start.estimatedTime': 'Estimated time: {time}',
+  'start.extraTime': 'includes {percent}% extra time',
+  'start.approvalPending': 'Your teacher is reviewing the topics',
+  'start.approvalPendingDescription': 'You can start as soon as they are approved. Please keep this page open and wait a moment.',
+  'start.chooseMode': 'Choose how to answer',
+  'start.mode': 'Interview mode',
+  'start.voiceMode': 'Voice interview',
+  'start.voiceModeShort': 'Answer out loud',
+  'start.voiceModeDescription': 'You answer out loud using your microphone',
+  'start.chatMode': 'Chat interview',
+  'start.chatModeShort': 'Type your answers',
+  'start.chatModeDescription': 'You type your answers',
+  'start.checklistTitle': 'Before you start',
+  'start.checklistKeepOpen': 'Do not close the browser during the interview',
+  'start.checklistTimeLimit': 'Each topic has a time limit',
+  'start.checklistExpiry': 'If you are away for more than 30 minutes, the session expires and the interview ends',
+  'start.checklistMic': 'Find a quiet place and have your microphone ready',
+  'start.back': 'Back',
+  'start.starting': 'Starting...',
+  'start.confirm': 'OK, start now',
+  'start.submit': 'Start interview',
+  'start.note': 'Press Start interview when you are ready',
+
+  // Interview (/interview)
+  'interview.loading': 'Loading the interview...',
+  'interview.loadFailed': 'Could not load the interview.',
+  'interview.sessionExpired': 'Your session has expired. The interview ended because you were away for more than 30 minutes.',
+  'interview.generationFailed': 'Could not generate the next question. Please try again.',
+  'interview.submitFailed': 'Could not submit your answer. Please try again.',
+  'interview.transcriptionFailed': 'Could not transcribe your answer. Please try again.',
+  'interview.errorTitle': 'Something went wrong',
+  'interview.retry': 'Try again',
+  'interview.waitingForQuestion': 'Waiting for the question...',
+
+  // Topic transition (/interview/transition)
+  'transition.failed': 'Could not move on to the next step.',
+  'transition.timeUpTitle': 'Time is up',
+  'transition.allDoneTitle': 'All topics done',
+  'transition.doneTitle': 'Topic done',
+  'transition.timeUpDescription': 'Time is up for "{title}".',
+  'transition.doneDescription': 'You finished "{title}".',
+  'transition.expiredWhileAway': '(time ran out while you were away)',
+  'transition.timerPaused': 'The timer does not run on this screen',
+  'transition.processing': 'Working...',
+  'transition.showResults': 'See results',
+  'transition.nextTopic': 'Start next topic',
+
+  // Complete (/interview/complete)
+  'complete.loading': 'Loading your results...',
+  'complete.analyzing': 'The AI is reviewing your interview... ({count}/{max})',
+  'complete.fallbackStrength': 'Thank you for taking part in the interview.',
+  'complete.fallbackComment': 'The interview is complete. Your results will be sent to your teacher.',
+  'complete.fallbackCommentPending': 'The interview is complete. Your results will be sent to your teacher shortly.',
+  'complete.completedTitle': 'Interview complete',
+  'complete.completedMessage': 'Well done! Your interview is complete.',
+  'complete.abandonedTitle': 'Session expired',
+  'complete.abandonedMessage': 'Your session has expired.',
+  'complete.resultTitle': 'AI evaluation',
+  'complete.score': 'Overall score',
+  'complete.strengths': 'Strengths',
+  'complete.weaknesses': 'To improve',
+  'complete.overallComment': 'Overall comment',
+  'complete.closeWarning': 'You cannot see these results again after closing this page. Take a screenshot if you need to keep them.',
+  'complete.finish': 'Finish',
+
+  // Interview components
+  'chat.placeholder': 'Type your answer...',
+  'chat.hint': 'Enter to send, Shift+Enter for a new line',
+  'chat.thinking': 'Thinking...',
+  'timer.paused': '(paused)',
+  'topicProgress.label': 'Topic {current}/{total}',
+
+  // Student pause
+  'pause.button': 'Pause',
+  'pause.left': '{time} left',
+  'pause.title': 'Interview paused',
+  'pause.description': 'Your topic time is stopped. Resume when you are ready.',
+  'pause.autoResume': 'Pause time left: {time}. The interview resumes automatically when it runs out.',
+  'pause.resume': 'Resume',
+  'pause.failed': 'Could not pause the interview.',
+
+  // Voice interview
+  'voice.preparing': 'Preparing the interview...',
+  'voice.aiAsking': 'The AI is asking a question...',
+  'voice.aiSpeaking': 'The AI is speaking...',
+  'voice.recordingSoon': 'Recording starts automatically in a moment',
+  'voice.recording': 'Recording...',
+  'voice.completeAnswer': 'Done answering',
+  'voice.transcribing': 'Turning your answer into text...',
+  'voice.preparingQuestion': 'Preparing the next question...',
+  'voice.movingToNextTopic': 'Moving to the next topic...',
+  'voice.reconnected': 'You are reconnected. Turn on the microphone to continue.',
+  'voice.ttsFailedPrompt': 'The question could not be played. Read it below, then turn on the microphone.',
+  'voice.startMicPrompt': 'Turn on the microphone.',
+  'voice.ttsFailed': 'Audio playback failed',
+  'voice.readQuestion': 'Here is the question:',
+  'voice.startMic': 'Start microphone',
+  'voice.waiting': 'Waiting...',
+  'voice.completed': 'The interview is complete!',
+  'voice.error': 'Something went wrong',
+  'voice.submitFailed': 'Could not submit your answer.',
+  'voice.micFailed': 'Could not start the microphone.',
+  'voice.micStartFailed': 'Could not start the microphone. Please try again.',
+  'voice.recordingFailed': 'Could not start recording. Please check the microphone permission.',
+  'voice.badge.generating': 'Generating',
+  'voice.badge.playing': 'Playing',
+  'voice.badge.recording': 'Recording',
+  'voice.badge.transcribing': 'Transcribing',
+  'voice.state.idle': 'Preparing',
+  'voice.state.ttsPlaying': 'AI is asking',
+  'voice.state.listening': 'Recording answer',
+  'voice.state.sttProcessing': 'Transcribing',
+  'voice.state.aiGenerating': 'Generating reply',
+  'voice.state.transitioning': 'Changing topic',
+  'voice.state.paused': 'Paused',
+  'voice.state.completed': 'Interview complete',
+  'voice.state.error': 'Error',
+};
+
+export default en;
@@ -0,0 +1,190 @@
+import type { MessageKey } from './ko';
+
+/**
+ * Japanese messages
+ */
+const ja: Record<MessageKey, string> = {
+  // Common
+  'common.minutes': '{minutes}分',
+  'common.optional': '（任意）',
+
+  // Join (/join/[code])
+  'join.loading': 'セッション情報を読み込んでいます...',
+  'join.loadFailed': 'セッションを読み込めませんでした',
+  'join.notFound': 'セッションが見つかりません',
+  'join.retry': 'もう一度入力する',
+  'join.nameRequired': '名前を入力してください',
+  'join.joinFailed': '参加できませんでした',
+  'join.reconnectTitle': '進行中のセッションがあります',
+  'join.reconnectDescription': '{title}の進行中のセッションが見つかりました。',
+  'join.connecting': '接続中...',
+  'join.continue': '続きから始める',
+  'join.startOver': '最初からやり直す',
+  'join.otherCode': '別のコードを入力',
+  'join.accessCode': 'アクセスコード',
+  'join.topics': 'トピック',
+  'join.perTopic': '1トピックあたり',
+  'join.modeVoice': '音声',
+  'join.modeChat': 'チャット',
+  'join.modeChoice': '選択',
+  'join.interview': 'インタビュー',
+  'join.formTitle': '参加情報の入力',
+  'join.name': '名前',
+  'join.namePlaceholder': '山田太郎',
+  'join.studentId': '学籍番号',
+  'join.studentIdRoster': '（名簿に載っている場合は必須）',
+  'join.pinHint': '（先生から受け取った番号）',
+  'join.joining': '参加中...',
+  'join.submit': '参加する',
+  'join.rosterNote': '先生が登録した名簿の名前と学籍番号で参加してください',
+  'join.uploadNote': '参加後に課題ファイルをアップロードします',
+
+  // Upload (/interview/upload)
+  'upload.title': '課題ファイルのアップロード',
+  'upload.description': '{title}の確認のため、課題ファイルをアップロードしてください',
+  'upload.defaultTitle': '課題',
+  'upload.typeNotAllowed': '{formats}ファイルのみアップロードできます',
+  'upload.tooLarge': 'ファイルサイズは{size}MB以下にしてください',
+  'upload.failed': 'ファイルのアップロードに失敗しました',
+  'upload.stepUpload': 'ファイルのアップロード',
+  'upload.stepInterview': 'インタビュー開始',
+  'upload.dropHere': 'ここにドロップしてください',
+  'upload.dragOrClick': '課題ファイルをドラッグするか、クリックして選択してください',
+  'upload.limits': '{formats} · 最大{size}MBまでアップロード可能',
+  'upload.uploading': 'アップロード中...',
+  'upload.analyzing': 'AIが分析中...',
+  'upload.analyzed': '分析完了！',
+  'upload.analyze': 'AI分析を開始',
+  'upload.topicsExtracted': 'AIが課題から{count}個のトピックを抽出しました',
+  'upload.ready': 'インタビューの準備ができました。次のステップでインタビュー方式を選んで開始できます。',
+  'upload.next': '次へ',
+  'upload.privacyNote': 'アップロードしたファイルはインタビューの質問作成にのみ使用されます',
+
+  // Start (/interview/start)
+  'start.title': 'インタビューの準備',
+  'start.description': '{title}のインタビューを始めます',
+  'start.micRequired': 'マイクの許可が必要です。チャットモードを選んでください。',
+  'start.failed': 'インタビューを開始できませんでした',
+  'start.totalTime': '約{minutes}分',
+  'start.ready': 'インタビューの準備完了',
+  'start.topicsReady': '{count}個のトピックが準備できました',
+  'start.estimatedTime': '所要時間の目安：{time}',
+  'start.extraTime': '延長時間 {percent}% を含む',
+  'start.approvalPending': '先生がトピックを確認しています',
+  'start.approvalPendingDescription': '承認されるとインタビューを開始できます。このページを閉じずにお待ちください。',
+  'start.chooseMode': 'インタビュー方式の選択',
+  'start.mode': 'インタビュー方式',
+  'start.voiceMode': '音声インタビュー',
+  'start.voiceModeShort': 'マイクで話して回答',
+  'start.voiceModeDescription': 'マイクで会話するように回答します',
+  'start.chatMode': 'チャットインタビュー',
+  'start.chatModeShort': '入力して回答',
+  'start.chatModeDescription': 'キーボードで回答を入力します',
+  'start.checklistTitle': '開始前の確認事項',
+  'start.checklistKeepOpen': 'インタビュー中はブラウザを閉じないでください',
+  'start.checklistTimeLimit': 'トピックごとに制限時間があります',
+  'start.checklistExpiry': '30分以上離れるとセッションが期限切れになり、インタビューが終了します',
+  'start.checklistMic': '静かな場所でマイクを準備してください',
+  'start.back': '戻る',
+  'start.starting': '開始中...',
+  'start.confirm': 'OK、開始します',
+  'start.submit': 'インタビュー開始',
+  'start.note': '準備ができたらインタビュー開始ボタンを押してください',
+
+  // Interview (/interview)
+  'interview.loading': 'インタビューを読み込んでいます...',
+  'interview.loadFailed': 'インタビューの状態を読み込めませんでした。',
+  'interview.sessionExpired': 'セッションの期限が切れました。30分以上離れたため、インタビューは終了しました。',
+  'interview.generationFailed': 'AIの質問を作成できませんでした。もう一度お試しください。',
+  'interview.submitFailed': '回答を送信できませんでした。もう一度お試しください。',
+  'interview.transcriptionFailed': '音声を文字に変換できませんでした。もう一度お試しください。',
+  'interview.errorTitle': 'エラーが発生しました',
+  'interview.retry': 'もう一度試す',
+  'interview.waitingForQuestion': '質問を待っています...',
+
+  // Topic transition (/interview/transition)
+  'transition.failed': '次のステップに進めませんでした。',
+  'transition.timeUpTitle': 'トピックの時間終了',
+  'transition.allDoneTitle': 'すべてのトピックが完了',
+  'transition.doneTitle': 'トピック完了',
+  'transition.timeUpDescription': '「{title}」の時間が終了しました。',
+  'transition.doneDescription': '「{title}」が完了しました。',
+  'transition.expiredWhileAway': '（離れている間に時間が終了しました）',
+  'transition.timerPaused': 'この画面では時間は進みません',
+  'transition.processing': '処理中...',
+  'transition.showResults': '結果を見る',
+  'transition.nextTopic': '次のトピックへ',
+
+  // Complete (/interview/complete)
+  'complete.loading': '結果を読み込んでいます...',
+  'complete.analyzing': 'AIがインタビューを分析しています... ({count}/{max})',
+  'complete.fallbackStrength': 'インタビューへのご参加ありがとうございました。',
+  'complete.fallbackComment': 'インタビューが完了しました。結果は先生に届けられます。',
+  'complete.fallbackCommentPending': 'インタビューが完了しました。結果はまもなく先生に届けられます。',
+  'complete.completedTitle': 'インタビュー完了',
+  'complete.completedMessage': 'お疲れさまでした！インタビューは正常に完了しました。',
+  'complete.abandonedTitle': 'セッション期限切れ',
+  'complete.abandonedMessage': 'セッションの期限が切れました。',
+  'complete.resultTitle': 'AI評価結果',
+  'complete.score': '総合スコア',
+  'complete.strengths': '良かった点',
+  'complete.weaknesses': '改善点',
+  'complete.overallComment': '総合コメント',
+  'complete.closeWarning': 'このページを閉じると結果は再表示できません。必要ならスクリーンショットを撮っておいてください。',
+  'complete.finish': '終了する',
+
+  // Interview components
+  'chat.placeholder': '回答を入力してください...',
+  'chat.hint': 'Enterで送信、Shift+Enterで改行',
+  'chat.thinking': '考え中...',
+  'timer.paused': '（一時停止）',
+  'topicProgress.label': 'トピック {current}/{total}',
+
+  // Student pause
+  'pause.button': '一時停止',
+  'pause.left': '残り{time}',
+  'pause.title': 'インタビューを一時停止中',
+  'pause.description': 'トピックの時間は止まっています。準備ができたら再開してください。',
+  'pause.autoResume': '残りの一時停止時間: {time}。使い切るとインタビューは自動的に再開します。',
+  'pause.resume': '再開',
+  'pause.failed': 'インタビューを一時停止できませんでした。',
+
+  // Voice interview
+  'voice.preparing': 'インタビューを準備しています...',
+  'voice.aiAsking': 'AIが質問しています...',
+  'voice.aiSpeaking': 'AIが話しています...',
+  'voice.recordingSoon': 'まもなく自動で録音が始まります',
+  'voice.recording': '録音中...',
+  'voice.completeAnswer': '回答完了',
+  'voice.transcribing': '音声を文字に変換しています...',
+  'voice.preparingQuestion': '次の質問を準備しています...',
+  'voice.movingToNextTopic': '次のトピックに移ります...',
+  'voice.reconnected': '再接続しました。マイクをオンにしてください。',
+  'voice.ttsFailedPrompt': '音声を再生できませんでした。下の質問を読んでからマイクをオンにしてください。',
+  'voice.startMicPrompt': 'マイクをオンにしてください。',
+  'voice.ttsFailed': '音声の再生に失敗しました',
+  'voice.readQuestion': '質問を文字で確認してください：',
+  'voice.startMic': 'マイク開始',
+  'voice.waiting': '待機中...',
+  'voice.completed': 'インタビューが完了しました！',
+  'voice.error': 'エラーが発生しました',
+  'voice.submitFailed': '回答を送信できませんでした。',
+  'voice.micFailed': 'マイクを開始できませんでした。',
+  'voice.micStartFailed': 'マイクを開始できませんでした。もう一度お試しください。',
+  'voice.recordingFailed': '録音を開始できません。マイクの許可を確認してください。',
+  'voice.badge.generating': 'AI生成中',
+  'voice.badge.playing': '再生中',
+  'voice.badge.recording': '録音中',
+  'voice.badge.transcribing': '変換中',
+  'voice.state.idle': '準備中',
+  'voice.state.ttsPlaying': 'AIが質問中',
+  'voice.state.listening': '回答を録音中',
+  'voice.state.sttProcessing': '音声変換中',
+  'voice.state.aiGenerating': 'AI応答を作成中',
+  'voice.state.transitioning': 'トピック切り替え中',
+  'voice.state.paused': '一時停止',
+  'voice.state.completed': 'インタビュー完了',
+  'voice.state.error': 'エラー',
+};
+
+export default ja;
@@ -0,0 +1,191 @@
+/**
+ * Korean messages (source of the message keys)
+ * Placeholders in {braces} are filled by translate()
+ */
+const ko = {
+  // Common
+  'common.minutes': '{minutes}분',
+  'common.optional': '(선택)',
+
+  // Join (/join/[code])
+  'join.loading': '세션 정보를 불러오는 중...',
+  'join.loadFailed': '세션을 불러올 수 없습니다',
+  'join.notFound': '세션을 찾을 수 없습니다',
+  'join.retry': '다시 입력하기',
+  'join.nameRequired': '이름을 입력해주세요',
+  'join.joinFailed': '참가에 실패했습니다',
+  'join.reconnectTitle': '이전 세션이 있습니다',
+  'join.reconnectDescription': '{title}에 대한 진행 중인 세션을 발견했습니다.',
+  'join.connecting': '연결 중...',
+  'join.continue': '이어서 진행하기',
+  'join.startOver': '새로 시작하기',
+  'join.otherCode': '다른 코드 입력',
+  'join.accessCode': '접근 코드',
+  'join.topics': '주제',
+  'join.perTopic': '주제당',
+  'join.modeVoice': '음성',
+  'join.modeChat': '채팅',
+  'join.modeChoice': '선택',
+  'join.interview': '인터뷰',
+  'join.formTitle': '참가 정보 입력',
+  'join.name': '이름',
+  'join.namePlaceholder': '홍길동',
+  'join.studentId': '학번',
+  'join.studentIdRoster': '(명단에 있는 경우 필수)',
+  'join.pinHint': '(선생님께 받은 번호)',
+  'join.joining': '참가 중...',
+  'join.submit': '참가하기',
+  'join.rosterNote': '선생님이 등록한 명단의 이름과 학번으로 참가해야 합니다',
+  'join.uploadNote': '참가 후 과제 파일을 업로드하게 됩니다',
+
+  // Upload (/interview/upload)
+  'upload.title': '과제 파일 업로드',
+  'upload.description': '{title} 검증을 위해 과제 파일을 업로드해주세요',
+  'upload.defaultTitle': '과제',
+  'upload.typeNotAllowed': '{formats} 파일만 업로드할 수 있습니다',
+  'upload.tooLarge': '파일 크기는 {size}MB 이하여야 합니다',
+  'upload.failed': '파일 업로드에 실패했습니다',
+  'upload.stepUpload': '파일 업로드',
+  'upload.stepInterview': '인터뷰 시작',
+  'upload.dropHere': '여기에 놓으세요',
+  'upload.dragOrClick': '과제 파일을 드래그하거나 클릭하세요',
+  'upload.limits': '{formats} · 최대 {size}MB까지 업로드 가능',
+  'upload.uploading': '파일 업로드 중...',
+  'upload.analyzing': 'AI가 분석 중...',
+  'upload.analyzed': '분석 완료!',
+  'upload.analyze': 'AI 분석 시작',
+  'upload.topicsExtracted': 'AI가 과제에서 {count}개의 주제를 추출했습니다',
+  'upload.ready': '인터뷰 준비가 완료되었습니다. 다음 단계에서 인터뷰 모드를 선택하고 시작할 수 있습니다.',
+  'upload.next': '다음 단계로',
+  'upload.privacyNote': '업로드된 파일은 인터뷰 질문 생성에만 사용됩니다',
+
+  // Start (/interview/start)
+  'start.title': '인터뷰 준비',
+  'start.description': '{title}에 대한 인터뷰를 시작합니다',
+  'start.micRequired': '마이크 권한이 필요합니다. 채팅 모드를 선택해주세요.',
+  'start.failed': '인터뷰 시작에 실패했습니다',
+  'start.totalTime': '약 {minutes}분',
+  'start.ready': '인터뷰 준비 완료',
+  'start.topicsReady': '{count}개의 주제가 준비되었습니다',
+  'start.estimatedTime': '예상 소요 시간: {time}',
+  'start.extraTime': '추가 시간 {percent}% 포함',
+  'start.approvalPending': '선생님이 주제를 검토 중입니다',
+  'start.approvalPendingDescription': '승인되면 자동으로 인터뷰를 시작할 수 있습니다. 이 페이지를 닫지 말고 잠시 기다려주세요.',
+  'start.chooseMode': '인터뷰 방식 선택',
+  'start.mode': '인터뷰 방식',
+  'start.voiceMode': '음성 인터뷰',
+  'start.voiceModeShort': '마이크로 대화하듯 답변',
+  'start.voiceModeDescription': '마이크로 대화하듯 답변합니다',
+  'start.chatMode': '채팅 인터뷰',
+  'start.chatModeShort': '타이핑으로 답변 작성',
+  'start.chatModeDescription': '타이핑으로 답변을 작성합니다',
+  'start.checklistTitle': '시작 전 확인사항',
+  'start.checklistKeepOpen': '인터뷰 중에는 브라우저를 닫지 마세요',
+  'start.checklistTimeLimit': '각 주제별로 시간 제한이 있습니다',
+  'start.checklistExpiry': '30분 이상 이탈 시 세션이 만료되어 인터뷰가 종료됩니다',
+  'start.checklistMic': '조용한 환경에서 마이크를 준비해주세요',
+  'start.back': '이전',
+  'start.starting': '시작 중...',
+  'start.confirm': '확인, 시작합니다',
+  'start.submit': '인터뷰 시작',
+  'start.note': '준비가 되면 인터뷰 시작 버튼을 눌러주세요',
+
+  // Interview (/interview)
+  'interview.loading': '인터뷰를 불러오는 중...',
+  'interview.loadFailed': '인터뷰 상태를 불러오는데 실패했습니다.',
+  'interview.sessionExpired': '세션이 만료되었습니다. 30분 이상 이탈로 인해 인터뷰가 종료되었습니다.',
+  'interview.generationFailed': 'AI 질문 생성에 실패했습니다. 다시 시도해주세요.',
+  'interview.submitFailed': '답변 제출에 실패했습니다. 다시 시도해주세요.',
+  'interview.transcriptionFailed': '음성 변환에 실패했습니다. 다시 시도해주세요.',
+  'interview.errorTitle': '오류 발생',
+  'interview.retry': '다시 시도',
+  'interview.waitingForQuestion': '질문을 기다리는 중...',
+
+  // Topic transition (/interview/transition)
+  'transition.failed': '다음 단계로 진행하는데 실패했습니다.',
+  'transition.timeUpTitle': '주제 시간 종료',
+  'transition.allDoneTitle': '모든 주제 완료',
+  'transition.doneTitle': '주제 완료',
+  'transition.timeUpDescription': '"{title}" 주제의 시간이 종료되었습니다.',
+  'transition.doneDescription': '"{title}" 주제가 완료되었습니다.',
+  'transition.expiredWhileAway': '(이탈 중 시간이 만료되었습니다)',
+  'transition.timerPaused': '이 화면에서는 시간이 흐르지 않습니다',
+  'transition.processing': '처리 중...',
+  'transition.showResults': '결과 확인',
+  'transition.nextTopic': '다음 주제 시작',
+
+  // Complete (/interview/complete)
+  'complete.loading': '결과를 불러오는 중...',
+  'complete.analyzing': 'AI가 인터뷰를 분석하고 있습니다... ({count}/{max})',
+  'complete.fallbackStrength': '인터뷰에 참여해주셔서 감사합니다.',
+  'complete.fallbackComment': '인터뷰가 완료되었습니다. 결과는 교사에게 전달됩니다.',
+  'complete.fallbackCommentPending': '인터뷰가 완료되었습니다. 결과는 곧 교사에게 전달됩니다.',
+  'complete.completedTitle': '인터뷰 완료',
+  'complete.completedMessage': '수고하셨습니다! 인터뷰가 정상적으로 완료되었습니다.',
+  'complete.abandonedTitle': '세션 만료',
+  'complete.abandonedMessage': '세션이 만료되었습니다.',
+  'complete.resultTitle': 'AI 평가 결과',
+  'complete.score': '종합 점수',
+  'complete.strengths': '강점',
+  'complete.weaknesses': '개선점',
+  'complete.overallComment': '종합 코멘트',
+  'complete.closeWarning': '이 페이지를 닫으면 결과를 다시 볼 수 없습니다. 필요하다면 스크린샷을 찍어두세요.',
+  'complete.finish': '종료하기',
+
+  // Interview components
+  'chat.placeholder': '답변을 입력하세요...',
+  'chat.hint': 'Enter로 전송, Shift+Enter로 줄바꿈',
+  'chat.thinking': '생각 중...',
+  'timer.paused': '(일시정지)',
+  'topicProgress.label': '주제 {current}/{total}',
+
+  // Student pause
+  'pause.button': '일시정지',
+  'pause.left': '{time} 남음',
+  'pause.title': '인터뷰 일시정지됨',
+  'pause.description': '주제 시간이 멈춰 있습니다. 준비되면 다시 시작하세요.',
+  'pause.autoResume': '남은 일시정지 시간: {time}. 모두 사용하면 인터뷰가 자동으로 다시 시작됩니다.',
+  'pause.resume': '다시 시작',
+  'pause.failed': '인터뷰를 일시정지하지 못했습니다.',
+
+  // Voice interview
+  'voice.preparing': '인터뷰를 준비하고 있습니다...',
+  'voice.aiAsking': 'AI가 질문하고 있습니다...',
+  'voice.aiSpeaking': 'AI가 말하고 있습니다...',
+  'voice.recordingSoon': '잠시 후 자동으로 녹음이 시작됩니다',
+  'voice.recording': '녹음 중...',
+  'voice.completeAnswer': '답변 완료',
+  'voice.transcribing': '음성을 텍스트로 변환하고 있습니다...',
+  'voice.preparingQuestion': '다음 질문을 준비하고 있습니다...',
+  'voice.movingToNextTopic': '다음 주제로 이동합니다...',
+  'voice.reconnected': '재접속되었습니다. 마이크를 시작하세요.',
+  'voice.ttsFailedPrompt': '음성 재생에 실패했습니다. 아래 질문을 읽고 마이크를 시작하세요.',
+  'voice.startMicPrompt': '마이크를 시작하세요.',
+  'voice.ttsFailed': '음성 재생 실패',
+  'voice.readQuestion': '질문을 텍스트로 확인하세요:',
+  'voice.startMic': '마이크 시작',
+  'voice.waiting': '대기 중...',
+  'voice.completed': '인터뷰가 완료되었습니다!',
+  'voice.error': '오류가 발생했습니다',
+  'voice.submitFailed': '답변 제출에 실패했습니다.',
+  'voice.micFailed': '마이크 시작에 실패했습니다.',
+  'voice.micStartFailed': '마이크 시작에 실패했습니다. 다시 시도해주세요.',
+  'voice.recordingFailed': '마이크 녹음을 시작할 수 없습니다. 마이크 권한을 확인해주세요.',
+  'voice.badge.generating': 'AI 생성 중',
+  'voice.badge.playing': '재생 중',
+  'voice.badge.recording': '녹음 중',
+  'voice.badge.transcribing': '변환 중',
+  'voice.state.idle': '준비 중',
+  'voice.state.ttsPlaying': 'AI가 질문 중',
+  'voice.state.listening': '답변 녹음 중',
+  'voice.state.sttProcessing': '음성 변환 중',
+  'voice.state.aiGenerating': 'AI 응답 생성 중',
+  'voice.state.transitioning': '주제 전환 중',
+  'voice.state.paused': '일시정지',
+  'voice.state.completed': '인터뷰 완료',
+  'voice.state.error': '오류 발생',
+};
+
+export type MessageKey = keyof typeof ko;
+
+export default ko;
@@ -0,0 +1,190 @@
+import type { MessageKey } from './ko';
+
+/**
+ * Simplified Chinese messages
+ */
+const zh: Record<MessageKey, string> = {
+  // Common
+  'common.minutes': '{minutes}分钟',
+  'common.optional': '（选填）',
+
+  // Join (/join/[code])
+  'join.loading': '正在加载会话信息...',
+  'join.loadFailed': '无法加载会话',
+  'join.notFound': '找不到会话',
+  'join.retry': '重新输入',
+  'join.nameRequired': '请输入姓名',
+  'join.joinFailed': '加入失败',
+  'join.reconnectTitle': '你有一个进行中的会话',
+  'join.reconnectDescription': '发现了你在{title}中尚未完成的会话。',
+  'join.connecting': '正在连接...',
+  'join.continue': '继续进行',
+  'join.startOver': '重新开始',
+  'join.otherCode': '输入其他代码',
+  'join.accessCode': '访问代码',
+  'join.topics': '主题',
+  'join.perTopic': '每个主题',
+  'join.modeVoice': '语音',
+  'join.modeChat': '文字',
+  'join.modeChoice': '自选',
+  'join.interview': '面试',
+  'join.formTitle': '填写参加信息',
+  'join.name': '姓名',
+  'join.namePlaceholder': '张三',
+  'join.studentId': '学号',
+  'join.studentIdRoster': '（在名单中时必填）',
+  'join.pinHint': '（老师给你的号码）',
+  'join.joining': '正在加入...',
+  'join.submit': '加入',
+  'join.rosterNote': '请使用老师登记的名单中的姓名和学号加入',
+  'join.uploadNote': '加入后需要上传作业文件',
+
+  // Upload (/interview/upload)
+  'upload.title': '上传作业文件',
+  'upload.description': '请上传作业文件，以便核查{title}',
+  'upload.defaultTitle': '作业',
+  'upload.typeNotAllowed': '只能上传{formats}文件',
+  'upload.tooLarge': '文件大小不能超过{size}MB',
+  'upload.failed': '文件上传失败',
+  'upload.stepUpload': '上传文件',
+  'upload.stepInterview': '开始面试',
+  'upload.dropHere': '拖放到这里',
+  'upload.dragOrClick': '将作业文件拖到这里，或点击选择',
+  'upload.limits': '{formats} · 最大{size}MB',
+  'upload.uploading': '正在上传...',
+  'upload.analyzing': 'AI正在分析...',
+  'upload.analyzed': '分析完成！',
+  'upload.analyze': '开始AI分析',
+  'upload.topicsExtracted': 'AI从作业中提取了{count}个主题',
+  'upload.ready': '面试已准备就绪。下一步可以选择面试方式并开始。',
+  'upload.next': '下一步',
+  'upload.privacyNote': '上传的文件仅用于生成面试问题',
+
+  // Start (/interview/start)
+  'start.title': '面试准备',
+  'start.description': '即将开始{title}的面试',
+  'start.micRequired': '需要麦克风权限。请选择文字模式。',
+  'start.failed': '无法开始面试',
+  'start.totalTime': '约{minutes}分钟',
+  'start.ready': '面试准备完成',
+  'start.topicsReady': '已准备{count}个主题',
+  'start.estimatedTime': '预计用时：{time}',
+  'start.extraTime': '含 {percent}% 延长时间',
+  'start.approvalPending': '老师正在审核主题',
+  'start.approvalPendingDescription': '审核通过后即可开始面试。请不要关闭此页面，稍等片刻。',
+  'start.chooseMode': '选择面试方式',
+  'start.mode': '面试方式',
+  'start.voiceMode': '语音面试',
+  'start.voiceModeShort': '用麦克风口头回答',
+  'start.voiceModeDescription': '像对话一样用麦克风回答',
+  'start.chatMode': '文字面试',
+  'start.chatModeShort': '打字回答',
+  'start.chatModeDescription': '通过打字输入回答',
+  'start.checklistTitle': '开始前须知',
+  'start.checklistKeepOpen': '面试期间请不要关闭浏览器',
+  'start.checklistTimeLimit': '每个主题都有时间限制',
+  'start.checklistExpiry': '离开超过30分钟，会话将过期，面试随之结束',
+  'start.checklistMic': '请在安静的环境中准备好麦克风',
+  'start.back': '上一步',
+  'start.starting': '正在开始...',
+  'start.confirm': '确认，开始',
+  'start.submit': '开始面试',
+  'start.note': '准备好后请点击开始面试',
+
+  // Interview (/interview)
+  'interview.loading': '正在加载面试...',
+  'interview.loadFailed': '无法加载面试状态。',
+  'interview.sessionExpired': '会话已过期。由于离开超过30分钟，面试已结束。',
+  'interview.generationFailed': 'AI问题生成失败，请重试。',
+  'interview.submitFailed': '回答提交失败，请重试。',
+  'interview.transcriptionFailed': '语音转文字失败，请重试。',
+  'interview.errorTitle': '出现错误',
+  'interview.retry': '重试',
+  'interview.waitingForQuestion': '正在等待问题...',
+
+  // Topic transition (/interview/transition)
+  'transition.failed': '无法进入下一步。',
+  'transition.timeUpTitle': '主题时间结束',
+  'transition.allDoneTitle': '所有主题已完成',
+  'transition.doneTitle': '主题完成',
+  'transition.timeUpDescription': '“{title}”的时间已结束。',
+  'transition.doneDescription': '“{title}”已完成。',
+  'transition.expiredWhileAway': '（离开期间时间已到）',
+  'transition.timerPaused': '在此页面计时不会进行',
+  'transition.processing': '正在处理...',
+  'transition.showResults': '查看结果',
+  'transition.nextTopic': '开始下一个主题',
+
+  // Complete (/interview/complete)
+  'complete.loading': '正在加载结果...',
+  'complete.analyzing': 'AI正在分析你的面试... ({count}/{max})',
+  'complete.fallbackStrength': '感谢你参加面试。',
+  'complete.fallbackComment': '面试已完成。结果将发送给老师。',
+  'complete.fallbackCommentPending': '面试已完成。结果很快会发送给老师。',
+  'complete.completedTitle': '面试完成',
+  'complete.completedMessage': '辛苦了！面试已顺利完成。',
+  'complete.abandonedTitle': '会话已过期',
+  'complete.abandonedMessage': '会话已过期。',
+  'complete.resultTitle': 'AI评估结果',
+  'complete.score': '总分',
+  'complete.strengths': '优点',
+  'complete.weaknesses': '待改进',
+  'complete.overallComment': '总体评价',
+  'complete.closeWarning': '关闭此页面后将无法再次查看结果。如有需要，请截图保存。',
+  'complete.finish': '结束',
+
+  // Interview components
+  'chat.placeholder': '请输入你的回答...',
+  'chat.hint': 'Enter发送，Shift+Enter换行',
+  'chat.thinking': '思考中...',
+  'timer.paused': '（已暂停）',
+  'topicProgress.label': '主题 {current}/{total}',
+
+  // Student pause
+  'pause.button': '暂停',
+  'pause.left': '剩余{time}',
+  'pause.title': '面试已暂停',
+  'pause.description': '主题计时已停止。准备好后请继续。',
+  'pause.autoResume': '剩余暂停时间：{time}。用完后面试将自动继续。',
+  'pause.resume': '继续',
+  'pause.failed': '无法暂停面试。',
+
+  // Voice interview
+  'voice.preparing': '正在准备面试...',
+  'voice.aiAsking': 'AI正在提问...',
+  'voice.aiSpeaking': 'AI正在说话...',
+  'voice.recordingSoon': '稍后将自动开始录音',
+  'voice.recording': '录音中...',
+  'voice.completeAnswer': '回答完毕',
+  'voice.transcribing': '正在将语音转为文字...',
+  'voice.preparingQuestion': '正在准备下一个问题...',
+  'voice.movingToNextTopic': '正在进入下一个主题...',
+  'voice.reconnected': '已重新连接。请打开麦克风。',
+  'voice.ttsFailedPrompt': '语音播放失败。请阅读下面的问题，然后打开麦克风。',
+  'voice.startMicPrompt': '请打开麦克风。',
+  'voice.ttsFailed': '语音播放失败',
+  'voice.readQuestion': '请阅读问题文字：',
+  'voice.startMic': '打开麦克风',
+  'voice.waiting': '等待中...',
+  'voice.completed': '面试已完成！',
+  'voice.error': '出现错误',
+  'voice.submitFailed': '回答提交失败。',
+  'voice.micFailed': '无法打开麦克风。',
+  'voice.micStartFailed': '无法打开麦克风，请重试。',
+  'voice.recordingFailed': '无法开始录音。请检查麦克风权限。',
+  'voice.badge.generating': 'AI生成中',
+  'voice.badge.playing': '播放中',
+  'voice.badge.recording': '录音中',
+  'voice.badge.transcribing': '转换中',
+  'voice.state.idle': '准备中',
+  'voice.state.ttsPlaying': 'AI提问中',
+  'voice.state.listening': '正在录制回答',
+  'voice.state.sttProcessing': '语音转换中',
+  'voice.state.aiGenerating': 'AI回复生成中',
+  'voice.state.transitioning': '切换主题中',
+  'voice.state.paused': '已暂停',
+  'voice.state.completed': '面试完成',
+  'voice.state.error': '错误',
+};
+
+export default zh;
@@ -11,6 +11,10 @@ export interface Teacher {
   name: string;
 }
 
+export type SessionRole = 'owner' | 'editor' | 'viewer';
+
+export type InterviewLanguage = 'ko' | 'en' | 'ja' | 'zh';
+
 export interface Session {
   id: string;
   title: string;
@@ -20,8 +24,21 @@ export interface Session {
   topicCount: number;
   topicDuration: number;
   interviewMode: 'voice' | 'chat' | 'student_choice';
+  interviewLanguage?: InterviewLanguage;
+  rubric?: Rubric | null;
+  requireTopicApproval?: boolean;
+  questionBank?: QuestionBank | null;
+  // Seconds a student may pause their own interview in total (0 = off)
+  pauseBudget?: number;
   participantCount?: number;
   completedCount?: number;
+  // Draft: scheduled opening; active: scheduled closing (opened/closed automatically)
+  startsAt?: string;
+  endsAt?: string;
+  // Current teacher's access: own session, shared with them, or visible as org admin
+  accessRole?: SessionRole;
+  ownerName?: string;
+  organization?: { id: string; name: string } | null;
   createdAt: string;
 }
 
@@ -32,8 +49,19 @@ export interface Participant {
   studentId?: string;
   status: ParticipantStatus;
   analyzedTopics?: Topic[];
+  topicsApprovedAt?: string | null;
   chosenInterviewMode?: string;
   summary?: EvaluationSummary;
+  // Set by the teacher (extra time, chat only, larger text, read-aloud questions)
+  accommodations?: Accommodations;
+}
+
+export interface Accommodations {
+  // Topic time multiplier (1 = no extra time)
+  timeMultiplier: number;
+  chatOnly: boolean;
+  largeText: boolean;
+  readAloud: boolean;
 }
 
 export type ParticipantStatus =
@@ -47,11 +75,18 @@ export interface Topic {
   index: number;
   title: string;
   description: string;
+  weight?: TopicWeight;
+  // Teacher-set seconds; missing = share of the session time by weight
+  duration?: number;
 }
 
+// 1 = minor detail, 2 = normal, 3 = core idea
+export type TopicWeight = 1 | 2 | 3;
+
 export interface TopicState {
   index: number;
   title: string;
+  weight?: TopicWeight;
   totalTime: number;
   timeLeft: number;
   status: 'pending' | 'active' | 'done' | 'skipped';
@@ -80,11 +115,50 @@ export interface Message {
   timestamp: string;
 }
 
+export interface CriterionScore {
+  name: string;
+  weight: number;
+  level: string;
+  score: number;
+  rationale: string;
+  evidence: string[];
+}
+
 export interface EvaluationSummary {
-  score?: number;
+  // null when the AI evaluation failed (the teacher grades it)
+  score?: number | null;
   strengths: string[];
   weaknesses: string[];
   overallComment: string;
+  criteria?: CriterionScore[];
+}
+
+export interface RubricLevel {
+  label: string;
+  score: number;
+  descriptor: string;
+}
+
+export interface RubricCriterion {
+  name: string;
+  description?: string;
+  weight: number;
+  levels: RubricLevel[];
+}
+
+export interface Rubric {
+  criteria: RubricCriterion[];
+}
+
+export interface BankQuestion {
+  id?: string;
+  text: string;
+  required: boolean;
+  keywords: string[];
+}
+
+export interface QuestionBank {
+  questions: BankQuestion[];
 }
 
 // ============================================
@@ -164,6 +238,8 @@ interface StudentState {
     topicCount: number;
     topicDuration: number;
     interviewMode: 'voice' | 'chat' | 'student_choice';
+    // Missing in sessionInfo persisted before interview languages
+    interviewLanguage?: InterviewLanguage;
   } | null;
   interviewState: InterviewState | null;
   messages: Message[];
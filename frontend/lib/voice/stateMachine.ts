@@ -8,6 +8,9 @@
  * 1. 타이머는 오직 LISTENING 상태에서만 작동
  * 2. 각 상태에서 허용된 액션만 처리됨
  * 3. 상태 전이 시 이전 상태가 기록됨
+ * 4. 질문이 스트리밍되면 생성 완료 전에 TTS_PLAYING으로 전이하고,
+ *    AI_READY는 TTS_PLAYING에서 질문 전체를 확정하는 용도로 처리됨
+ *    (재생이 중간에 실패해 PAUSED로 간 경우에도 질문 전체는 확정됨)
  */
 
 import {
@@ -100,9 +103,11 @@ export function voiceReducer(
       if (action.type === 'TTS_ENDED') {
         return transition(state, 'LISTENING', {
           isRecording: true,
+          questionStreaming: false,
         });
       }
 
+      // 스트리밍 중 실패해도 questionStreaming은 유지 (PAUSED에서 AI_READY로 질문 전체 확정)
       if (action.type === 'TTS_FAILED') {
         return transition(state, 'PAUSED', {
           pauseReason: 'tts_failed',
@@ -110,6 +115,16 @@ export function voiceReducer(
         });
       }
 
+      // 스트리밍 중: 재생을 계속하면서 질문 텍스트만 갱신
+      if (action.type === 'AI_STREAM_CHUNK' && state.questionStreaming) {
+        return { ...state, currentQuestion: action.question };
+      }
+
+      // 스트리밍 완료: 질문 전체 확정 (재생은 남은 문장이 끝날 때까지 계속)
+      if (action.type === 'AI_READY' && state.questionStreaming) {
+        return { ...state, currentQuestion: action.question, questionStreaming: false };
+      }
+
       // 타이머 동기화는 모든 상태에서 허용
       if (action.type === 'SYNC_TIME') {
         return { ...state, timeLeft: action.timeLeft, lastSyncTime: Date.now() };
@@ -214,6 +229,15 @@ export function voiceReducer(
         });
       }
 
+      // 첫 문장 도착 → 생성이 끝나기 전에 재생 시작
+      if (action.type === 'AI_STREAM_START') {
+        return transition(state, 'TTS_PLAYING', {
+          currentQuestion: action.question,
+          turnIndex: state.turnIndex + 1,
+          questionStreaming: true,
+        });
+      }
+
       if (action.type === 'AI_FAILED') {
         return transition(state, 'ERROR', {
           errorMessage: action.error,
@@ -270,9 +294,15 @@ export function voiceReducer(
           pauseReason: null,
           errorMessage: null,
           isRecording: true,
+          questionStreaming: false,
         });
       }
 
+      // 스트리밍 재생이 실패한 뒤 생성 완료: 화면의 질문을 전체로 확정
+      if (action.type === 'AI_READY' && state.questionStreaming) {
+        return { ...state, currentQuestion: action.question, questionStreaming: false };
+      }
+
       // 타이머 동기화
       if (action.type === 'SYNC_TIME') {
         return { ...state, timeLeft: action.timeLeft, lastSyncTime: Date.now() };
@@ -337,12 +367,12 @@ export function isValidAction(
 ): boolean {
   const validActions: Record<VoiceState, VoiceAction['type'][]> = {
     IDLE: ['START', 'RECONNECT'],
-    TTS_PLAYING: ['TTS_ENDED', 'TTS_FAILED', 'SYNC_TIME'],
+    TTS_PLAYING: ['TTS_ENDED', 'TTS_FAILED', 'AI_STREAM_CHUNK', 'AI_READY', 'SYNC_TIME'],
     LISTENING: ['COMPLETE_ANSWER', 'TIMER_TICK', 'TIMER_EXPIRED', 'UPDATE_VOLUME', 'SYNC_TIME', 'PAUSE'],
     STT_PROCESSING: ['STT_SUCCESS', 'STT_EMPTY', 'STT_FAILED', 'SYNC_TIME'],
-    AI_GENERATING: ['AI_READY', 'AI_FAILED', 'TIMER_EXPIRED', 'SYNC_TIME'],
+    AI_GENERATING: ['AI_READY', 'AI_STREAM_START', 'AI_FAILED', 'TIMER_EXPIRED', 'SYNC_TIME'],
     TRANSITIONING: ['NEXT_TOPIC_READY', 'ALL_TOPICS_DONE'],
-    PAUSED: ['START_MIC', 'SYNC_TIME'],
+    PAUSED: ['START_MIC', 'AI_READY', 'SYNC_TIME'],
     COMPLETED: ['RESET'],
     ERROR: ['RETRY', 'RESET'],
   };
@@ -9,7 +9,7 @@ export interface TimerState {
   topicStartedAt: Date | string;
   accumulatedPauseTime: number; // 누적 일시정지 시간 (초)
   currentPauseStartedAt?: Date | string | null;
-  topicTotalTime: number; // 주제 총 시간 (초)
+  topicTotalTime: number; // 주제 총 시간 (초) - 주제 중요도에 따라 배분된 topics_state[].totalTime
 }
 
 /**
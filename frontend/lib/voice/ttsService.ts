@@ -2,6 +2,8 @@
  * TTS Service - Text-to-Speech (ElevenLabs)
  *
  * TTS 관련 로직을 캡슐화합니다.
+ * speak()는 전체 문장을 한 번에, beginStream()/enqueue()/endStream()은
+ * 생성 중인 질문을 문장 단위로 이어서 재생합니다.
  * React 훅이 아닌 순수 서비스 클래스로 구현하여
  * 상태 머신과 분리된 관심사를 유지합니다.
  */
@@ -21,6 +23,12 @@ export class TTSService {
   private callbacks: TTSCallbacks = {};
   private _isSpeaking = false;
 
+  // 스트리밍 재생 (문장 단위 큐)
+  private queue: Array<Promise<string>> = [];
+  private streamOpen = false;
+  private draining = false;
+  private streamId = 0;
+
   get isSpeaking(): boolean {
     return this._isSpeaking;
   }
@@ -56,65 +64,173 @@ export class TTSService {
       this._isSpeaking = true;
       this.callbacks.onStart?.();
 
-      const response = await fetch(`${API_BASE}/api/speech/tts`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.sessionToken}`,
-        },
-        body: JSON.stringify({ text }),
-        signal: this.abortController.signal,
-      });
+      const url = await this.fetchAudio(text, this.abortController.signal);
+      await this.playAudio(url);
+
+      this._isSpeaking = false;
+      this.callbacks.onEnd?.();
+    } catch (error) {
+      this._isSpeaking = false;
 
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => 'TTS request failed');
-        throw new Error(errorText);
+      if ((error as Error).name === 'AbortError') {
+        // 취소된 경우 에러로 처리하지 않음
+        return;
       }
 
-      const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
+      console.error('TTS error:', error);
+      this.callbacks.onError?.(error as Error);
+      throw error;
+    }
+  }
 
-      const audio = new Audio(url);
-      this.audioRef = audio;
+  /**
+   * 스트리밍 재생 시작
+   * 질문 생성이 끝나기 전에 문장 단위로 enqueue()하면 순서대로 이어서 재생합니다.
+   * onStart는 지금, onEnd는 endStream() 이후 마지막 문장 재생이 끝났을 때 호출됩니다.
+   */
+  beginStream(): void {
+    if (!this.sessionToken) {
+      throw new Error('Session token required');
+    }
 
-      return new Promise<void>((resolve, reject) => {
-        audio.onended = () => {
-          this._isSpeaking = false;
-          URL.revokeObjectURL(url);
-          this.audioRef = null;
-          this.callbacks.onEnd?.();
-          resolve();
-        };
+    // 이전 요청/재생 취소
+    this.stop();
 
-        audio.onerror = (e) => {
-          this._isSpeaking = false;
-          URL.revokeObjectURL(url);
-          this.audioRef = null;
-          const error = new Error('Audio playback failed');
-          this.callbacks.onError?.(error);
-          reject(error);
-        };
+    this.abortController = new AbortController();
+    this.streamOpen = true;
+    this._isSpeaking = true;
+    this.callbacks.onStart?.();
+  }
+
+  /**
+   * 문장 추가 - TTS 요청은 즉시 보내고(미리 받기), 재생은 앞 문장이 끝난 뒤에 합니다.
+   */
+  enqueue(text: string): void {
+    if (!this.streamOpen || !this.abortController) {
+      return;
+    }
+
+    const audioUrl = this.fetchAudio(text, this.abortController.signal);
+    // 실패는 재생 순서가 되었을 때 drain()에서 처리
+    audioUrl.catch(() => {});
+    this.queue.push(audioUrl);
+
+    if (!this.draining) {
+      this.drain(this.streamId);
+    }
+  }
+
+  /**
+   * 더 이상 추가할 문장이 없음을 알림 (남은 문장 재생 후 onEnd)
+   */
+  endStream(): void {
+    if (!this.streamOpen) {
+      return;
+    }
+
+    this.streamOpen = false;
+    if (!this.draining) {
+      this.finishStream();
+    }
+  }
+
+  /**
+   * 큐에 있는 문장을 순서대로 재생
+   */
+  private async drain(streamId: number): Promise<void> {
+    this.draining = true;
 
-        audio.play().catch((error) => {
-          this._isSpeaking = false;
+    try {
+      while (this.queue.length > 0) {
+        const url = await this.queue.shift()!;
+        if (streamId !== this.streamId) {
           URL.revokeObjectURL(url);
-          this.audioRef = null;
-          this.callbacks.onError?.(error);
-          reject(error);
-        });
-      });
-    } catch (error) {
-      this._isSpeaking = false;
+          return;
+        }
 
-      if ((error as Error).name === 'AbortError') {
-        // 취소된 경우 에러로 처리하지 않음
+        await this.playAudio(url);
+        if (streamId !== this.streamId) {
+          return;
+        }
+      }
+    } catch (error) {
+      // stop()으로 취소된 스트림은 에러로 처리하지 않음
+      if (streamId !== this.streamId || (error as Error).name === 'AbortError') {
         return;
       }
 
-      console.error('TTS error:', error);
+      this.stop();
+      console.error('TTS stream error:', error);
       this.callbacks.onError?.(error as Error);
-      throw error;
+      return;
+    }
+
+    this.draining = false;
+
+    // 생성이 이미 끝났으면 재생 종료, 아니면 다음 문장을 기다림
+    if (!this.streamOpen) {
+      this.finishStream();
+    }
+  }
+
+  private finishStream(): void {
+    this._isSpeaking = false;
+    this.callbacks.onEnd?.();
+  }
+
+  /**
+   * TTS API 호출 → 재생 가능한 오디오 URL
+   */
+  private async fetchAudio(text: string, signal: AbortSignal): Promise<string> {
+    const response = await fetch(`${API_BASE}/api/speech/tts`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.sessionToken}`,
+      },
+      body: JSON.stringify({ text }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'TTS request failed');
+      throw new Error(errorText);
     }
+
+    const blob = await response.blob();
+    return URL.createObjectURL(blob);
+  }
+
+  /**
+   * 오디오 재생 (재생이 끝나면 resolve)
+   */
+  private playAudio(url: string): Promise<void> {
+    const audio = new Audio(url);
+    this.audioRef = audio;
+
+    return new Promise<void>((resolve, reject) => {
+      const release = () => {
+        URL.revokeObjectURL(url);
+        if (this.audioRef === audio) {
+          this.audioRef = null;
+        }
+      };
+
+      audio.onended = () => {
+        release();
+        resolve();
+      };
+
+      audio.onerror = () => {
+        release();
+        reject(new Error('Audio playback failed'));
+      };
+
+      audio.play().catch((error) => {
+        release();
+        reject(error);
+      });
+    });
   }
 
   /**
@@ -131,6 +247,12 @@ export class TTSService {
       this.audioRef = null;
     }
 
+    // 진행 중인 스트리밍 재생 무효화
+    this.streamId += 1;
+    this.streamOpen = false;
+    this.draining = false;
+    this.queue = [];
+
     this._isSpeaking = false;
   }
 
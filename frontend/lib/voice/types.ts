@@ -23,7 +23,7 @@ export type VoiceState =
 export type PauseReason =
   | 'reconnect'         // 페이지 새로고침/재접속
   | 'tts_failed'        // TTS 재생 실패
-  | 'user_requested';   // 사용자 요청 (미래 확장용)
+  | 'user_requested';   // 학생 일시정지 (세션의 일시정지 예산 안에서)
 
 // ============================================
 // Context Types
@@ -46,6 +46,9 @@ export interface VoiceContext {
   // 현재 질문 (TTS 재생용)
   currentQuestion: string | null;
 
+  // 질문 생성이 끝나기 전에 TTS 재생을 시작했는지 (문장 단위 스트리밍)
+  questionStreaming: boolean;
+
   // 일시정지 정보
   pauseReason: PauseReason | null;
 
@@ -82,6 +85,8 @@ export type VoiceAction =
 
   // AI 생성 관련 액션
   | { type: 'AI_READY'; question: string }
+  | { type: 'AI_STREAM_START'; question: string }   // 첫 문장 도착 → 생성 중 재생 시작
+  | { type: 'AI_STREAM_CHUNK'; question: string }   // 이후 문장 도착 (지금까지의 질문 전체)
   | { type: 'AI_FAILED'; error: string }
 
   // 타이머 관련 액션
@@ -114,6 +119,7 @@ export const initialVoiceContext: VoiceContext = {
   turnIndex: 0,
   totalTopics: 0,
   currentQuestion: null,
+  questionStreaming: false,
   pauseReason: null,
   errorMessage: null,
   isRecording: false,